@@ -12,6 +12,8 @@ import {
 } from "recharts";
 import { Button } from "@/components/ui/button";
 import { BarChart3, TrendingUp } from "lucide-react";
+import { candleResolutions, type CandleResolution } from "@shared/routes";
+import { useMarketCandles } from "@/hooks/use-markets";
 
 interface CandleData {
   time: string;
@@ -27,37 +29,15 @@ interface CandlestickChartProps {
   currentProbability: number;
 }
 
-type TimeFrame = "1H" | "4H" | "1D" | "1W";
 type ChartMode = "line" | "candle";
 
-function generateCandleData(basePrice: number, count: number, volatility: number): CandleData[] {
-  const data: CandleData[] = [];
-  let price = basePrice;
-  const now = new Date();
-
-  for (let i = count - 1; i >= 0; i--) {
-    const time = new Date(now.getTime() - i * 15 * 60 * 1000);
-    const timeStr = time.toLocaleTimeString("en-US", { hour: "2-digit", minute: "2-digit", hour12: false });
-
-    const change = (Math.random() - 0.5) * volatility;
-    const open = Math.max(1, Math.min(99, price));
-    const close = Math.max(1, Math.min(99, price + change));
-    const high = Math.max(open, close) + Math.random() * (volatility / 2);
-    const low = Math.min(open, close) - Math.random() * (volatility / 2);
-
-    data.push({
-      time: timeStr,
-      open: Math.round(open * 10) / 10,
-      high: Math.min(99, Math.round(high * 10) / 10),
-      low: Math.max(1, Math.round(low * 10) / 10),
-      close: Math.round(close * 10) / 10,
-      volume: Math.floor(Math.random() * 50000) + 10000,
-    });
-
-    price = close;
+// Bucket start (unix seconds) as an axis label: time of day intraday, date for daily candles
+function formatCandleTime(time: number, resolution: CandleResolution): string {
+  const date = new Date(time * 1000);
+  if (resolution === "1d") {
+    return date.toLocaleDateString("en-US", { month: "short", day: "numeric" });
   }
-
-  return data;
+  return date.toLocaleTimeString("en-US", { hour: "2-digit", minute: "2-digit", hour12: false });
 }
 
 const CustomCandleShape = (props: any) => {
@@ -121,7 +101,7 @@ const CustomTooltip = ({ active, payload }: any) => {
           {data.close}%
         </span>
       </div>
-      {data.volume && (
+      {data.volume > 0 && (
         <div className="mt-2 pt-2 border-t border-border/40 text-xs">
           <span className="text-muted-foreground">Volume: </span>
           <span className="font-mono">${data.volume.toLocaleString()}</span>
@@ -132,33 +112,32 @@ const CustomTooltip = ({ active, payload }: any) => {
 };
 
 export function CandlestickChart({ marketId, currentProbability }: CandlestickChartProps) {
-  const [timeFrame, setTimeFrame] = useState<TimeFrame>("1H");
+  const [timeFrame, setTimeFrame] = useState<CandleResolution>("1h");
   const [chartMode, setChartMode] = useState<ChartMode>("line");
 
-  const candleCount = useMemo(() => {
-    switch (timeFrame) {
-      case "1H": return 12;
-      case "4H": return 24;
-      case "1D": return 48;
-      case "1W": return 84;
-      default: return 24;
-    }
-  }, [timeFrame]);
+  const { data: candleResponse } = useMarketCandles(marketId, timeFrame);
 
-  const volatility = useMemo(() => {
-    switch (timeFrame) {
-      case "1H": return 3;
-      case "4H": return 5;
-      case "1D": return 8;
-      case "1W": return 12;
-      default: return 5;
+  const chartData = useMemo<CandleData[]>(() => {
+    const candles = (candleResponse?.candles ?? []).map((c) => ({
+      time: formatCandleTime(c.time, timeFrame),
+      open: c.open,
+      high: c.high,
+      low: c.low,
+      close: c.close,
+      volume: c.volume,
+    }));
+    // No history yet: show the live price as a single point
+    if (candles.length === 0) {
+      return [{
+        time: formatCandleTime(Math.floor(Date.now() / 1000), timeFrame),
+        open: currentProbability,
+        high: currentProbability,
+        low: currentProbability,
+        close: currentProbability,
+      }];
     }
-  }, [timeFrame]);
-
-  const chartData = useMemo(
-    () => generateCandleData(currentProbability, candleCount, volatility),
-    [currentProbability, candleCount, volatility, marketId]
-  );
+    return candles;
+  }, [candleResponse, timeFrame, currentProbability]);
 
   const minVal = Math.max(0, Math.min(...chartData.map(d => d.low)) - 5);
   const maxVal = Math.min(100, Math.max(...chartData.map(d => d.high)) + 5);
@@ -174,7 +153,7 @@ export function CandlestickChart({ marketId, currentProbability }: CandlestickCh
         </div>
         <div className="flex gap-2 flex-wrap">
           <div className="flex gap-1">
-            {(["1H", "4H", "1D", "1W"] as TimeFrame[]).map((tf) => (
+            {candleResolutions.map((tf) => (
               <button
                 key={tf}
                 onClick={() => setTimeFrame(tf)}
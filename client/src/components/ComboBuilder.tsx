@@ -1,11 +1,21 @@
 import { useState, useMemo } from "react";
-import { useMarkets, useCreateCustomCombo } from "@/hooks/use-markets";
+import { useMarkets, useCustomCombos, useCreateCustomCombo } from "@/hooks/use-markets";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, DialogDescription } from "@/components/ui/dialog";
 import { Search, Plus, X, AlertTriangle, Layers, Zap } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import type { Market, CustomComboLeg } from "@shared/schema";
+import type { Market, ComboKind, CustomComboLeg, CustomComboResponse } from "@shared/schema";
 
-function calculateCombo(legs: { price: number; side: "YES" | "NO" }[]) {
+function legKey(leg: CustomComboLeg): string {
+  return leg.comboId !== undefined ? `combo-${leg.comboId}` : `market-${leg.marketId}`;
+}
+
+// Client-side preview only; the server prices the combo on creation
+function calculateCombo(kind: ComboKind, legs: { price: number; side: "YES" | "NO"; weight?: number }[]) {
+  if (kind === "basket") {
+    const totalWeight = legs.reduce((sum, leg) => sum + (leg.weight ?? 1), 0);
+    const value = legs.reduce((sum, leg) => sum + (leg.weight ?? 1) * (leg.side === "YES" ? leg.price : 100 - leg.price), 0) / totalWeight;
+    return { impliedProbability: value, multiplier: value > 0 ? Math.min(100 / value, 999) : 999 };
+  }
   let impliedProb = 1;
   legs.forEach(leg => {
     const legProb = leg.side === "YES" ? leg.price / 100 : (100 - leg.price) / 100;
@@ -24,8 +34,10 @@ export function ComboBuilder({ onComboCreated }: ComboBuilderProps) {
   const [comboName, setComboName] = useState("");
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedLegs, setSelectedLegs] = useState<CustomComboLeg[]>([]);
+  const [kind, setKind] = useState<ComboKind>("parlay");
   
   const { data: markets, isLoading: marketsLoading } = useMarkets();
+  const { data: customCombos } = useCustomCombos();
   const createCombo = useCreateCustomCombo();
   const { toast } = useToast();
 
@@ -38,26 +50,44 @@ export function ComboBuilder({ onComboCreated }: ComboBuilderProps) {
     });
   }, [markets, searchQuery]);
 
+  // Existing combos can be legs too; a parlay can only hold parlays
+  const filteredCombos = useMemo(() => {
+    if (!customCombos) return [];
+    return customCombos.filter(c => {
+      if (c.status !== "active" || (kind === "parlay" && c.kind !== "parlay")) return false;
+      return !searchQuery || c.name.toLowerCase().includes(searchQuery.toLowerCase());
+    });
+  }, [customCombos, searchQuery, kind]);
+
   const comboStats = useMemo(() => {
     if (selectedLegs.length === 0) {
       return { impliedProbability: 0, multiplier: 0 };
     }
-    return calculateCombo(selectedLegs);
-  }, [selectedLegs]);
+    return calculateCombo(kind, selectedLegs);
+  }, [kind, selectedLegs]);
 
   const isMarketSelected = (marketId: number) => {
     return selectedLegs.some(leg => leg.marketId === marketId);
   };
 
-  const addLeg = (market: Market, side: "YES" | "NO") => {
+  const isComboSelected = (comboId: number) => {
+    return selectedLegs.some(leg => leg.comboId === comboId);
+  };
+
+  const canAddLeg = () => {
     if (selectedLegs.length >= 10) {
       toast({
         title: "Maximum legs reached",
         description: "A combo can have at most 10 legs.",
         variant: "destructive",
       });
-      return;
+      return false;
     }
+    return true;
+  };
+
+  const addLeg = (market: Market, side: "YES" | "NO") => {
+    if (!canAddLeg()) return;
 
     if (isMarketSelected(market.id)) {
       toast({
@@ -78,8 +108,34 @@ export function ComboBuilder({ onComboCreated }: ComboBuilderProps) {
     setSelectedLegs([...selectedLegs, newLeg]);
   };
 
-  const removeLeg = (marketId: number) => {
-    setSelectedLegs(selectedLegs.filter(leg => leg.marketId !== marketId));
+  const addComboLeg = (combo: CustomComboResponse, side: "YES" | "NO") => {
+    if (!canAddLeg() || isComboSelected(combo.id)) return;
+
+    const newLeg: CustomComboLeg = {
+      comboId: combo.id,
+      marketName: combo.name,
+      side,
+      price: Number((combo.impliedProbability * 100).toFixed(2)),
+    };
+
+    setSelectedLegs([...selectedLegs, newLeg]);
+  };
+
+  const removeLeg = (key: string) => {
+    setSelectedLegs(selectedLegs.filter(leg => legKey(leg) !== key));
+  };
+
+  const setLegWeight = (key: string, weight: number) => {
+    setSelectedLegs(selectedLegs.map(leg => (legKey(leg) === key ? { ...leg, weight } : leg)));
+  };
+
+  // Switching to a parlay drops basket legs, which have no yes/no outcome
+  const changeKind = (next: ComboKind) => {
+    setKind(next);
+    if (next === "parlay" && customCombos) {
+      const baskets = new Set(customCombos.filter(c => c.kind === "basket").map(c => c.id));
+      setSelectedLegs(selectedLegs.filter(leg => leg.comboId === undefined || !baskets.has(leg.comboId)));
+    }
   };
 
   const handleCreateCombo = async () => {
@@ -104,7 +160,8 @@ export function ComboBuilder({ onComboCreated }: ComboBuilderProps) {
     try {
       await createCombo.mutateAsync({
         name: comboName.trim(),
-        legs: selectedLegs,
+        kind,
+        legs: kind === "basket" ? selectedLegs : selectedLegs.map(({ weight, ...leg }) => leg),
       });
 
       toast({
@@ -129,6 +186,7 @@ export function ComboBuilder({ onComboCreated }: ComboBuilderProps) {
     setComboName("");
     setSelectedLegs([]);
     setSearchQuery("");
+    setKind("parlay");
     setOpen(false);
   };
 
@@ -155,7 +213,9 @@ export function ComboBuilder({ onComboCreated }: ComboBuilderProps) {
             [ BUILD CUSTOM COMBO ]
           </DialogTitle>
           <DialogDescription className="text-[#66ff66]/70 font-mono text-sm">
-            Select 2-10 markets to create your custom parlay. All legs must hit for the combo to pay out.
+            {kind === "parlay"
+              ? "Select 2-10 markets or combos to create your custom parlay. All legs must hit for the combo to pay out."
+              : "Select 2-10 markets or combos to create a weighted basket. It settles at the weighted average of its legs."}
           </DialogDescription>
         </DialogHeader>
 
@@ -168,6 +228,21 @@ export function ComboBuilder({ onComboCreated }: ComboBuilderProps) {
             data-testid="input-combo-name"
           />
 
+          <div className="flex gap-2" data-testid="toggle-combo-kind">
+            {(["parlay", "basket"] as const).map((k) => (
+              <button
+                key={k}
+                onClick={() => changeKind(k)}
+                className={`border px-3 py-1 text-sm font-mono transition-colors ${
+                  kind === k ? "border-[#66ff66] bg-[#66ff66] text-[#000000]" : "border-[#66ff66]/50 text-[#66ff66] hover:border-[#66ff66]"
+                }`}
+                data-testid={`button-kind-${k}`}
+              >
+                [ {k.toUpperCase()} ]
+              </button>
+            ))}
+          </div>
+
           <div className="flex flex-col sm:flex-row gap-4 flex-1 overflow-auto">
             <div className="flex-1 flex flex-col min-h-[300px] sm:min-h-0">
               <div className="flex items-center gap-2 mb-3">
@@ -238,6 +313,51 @@ export function ComboBuilder({ onComboCreated }: ComboBuilderProps) {
                       );
                     })
                   )}
+                  {filteredCombos.length > 0 && (
+                    <h3 className="font-mono text-sm text-[#66ff66] pt-3">[ COMBOS ]</h3>
+                  )}
+                  {filteredCombos.map((combo) => {
+                    const isSelected = isComboSelected(combo.id);
+                    return (
+                      <div
+                        key={`combo-${combo.id}`}
+                        className={`p-3 border ${isSelected ? 'bg-[#66ff66]/10 border-[#66ff66]' : 'border-[#66ff66]/30'} transition-colors`}
+                        data-testid={`combo-row-${combo.id}`}
+                      >
+                        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 sm:gap-3">
+                          <div className="flex-1 min-w-0">
+                            <p className="text-sm font-mono text-[#66ff66]">{combo.name}</p>
+                            <div className="flex items-center gap-2 mt-1">
+                              <span className="border border-[#66ff66]/50 px-2 py-0.5 text-xs font-mono text-[#66ff66]/70">{combo.kind.toUpperCase()}</span>
+                              <span className="text-xs text-[#66ff66]/50 font-mono">
+                                {(combo.impliedProbability * 100).toFixed(2)}%
+                              </span>
+                            </div>
+                          </div>
+                          <div className="flex gap-2 flex-shrink-0">
+                            <button
+                              disabled={isSelected}
+                              onClick={() => addComboLeg(combo, "YES")}
+                              className="border border-[#66ff66] bg-transparent text-[#66ff66] px-3 py-1 text-sm font-mono flex items-center gap-1 hover:bg-[#66ff66] hover:text-[#000000] disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+                              data-testid={`button-add-combo-yes-${combo.id}`}
+                            >
+                              <Plus className="w-3 h-3" />
+                              YES
+                            </button>
+                            <button
+                              disabled={isSelected}
+                              onClick={() => addComboLeg(combo, "NO")}
+                              className="border border-[#ff0000] bg-transparent text-[#ff0000] px-3 py-1 text-sm font-mono flex items-center gap-1 hover:bg-[#ff0000] hover:text-[#000000] disabled:opacity-30 disabled:cursor-not-allowed transition-colors"
+                              data-testid={`button-add-combo-no-${combo.id}`}
+                            >
+                              <Plus className="w-3 h-3" />
+                              NO
+                            </button>
+                          </div>
+                        </div>
+                      </div>
+                    );
+                  })}
                 </div>
               </div>
             </div>
@@ -259,9 +379,9 @@ export function ComboBuilder({ onComboCreated }: ComboBuilderProps) {
                   <div className="space-y-2">
                     {selectedLegs.map((leg, index) => (
                       <div
-                        key={leg.marketId}
+                        key={legKey(leg)}
                         className="p-3 border border-[#66ff66]/50 bg-[#000000]"
-                        data-testid={`selected-leg-${leg.marketId}`}
+                        data-testid={`selected-leg-${legKey(leg)}`}
                       >
                         <div className="flex items-start justify-between gap-2">
                           <div className="flex-1 min-w-0">
@@ -273,20 +393,34 @@ export function ComboBuilder({ onComboCreated }: ComboBuilderProps) {
                                     ? "border-[#66ff66] text-[#66ff66]" 
                                     : "border-[#ff0000] text-[#ff0000]"
                                 }`}
-                                data-testid={`badge-side-${leg.marketId}`}
+                                data-testid={`badge-side-${legKey(leg)}`}
                               >
                                 {leg.side}
                               </span>
                             </div>
                             <p className="text-sm font-mono text-[#66ff66] truncate">{leg.marketName}</p>
                             <span className="text-xs font-mono text-[#66ff66]/50">
-                              {leg.price}%
+                              {leg.comboId !== undefined ? "COMBO · " : ""}{leg.price}%
                             </span>
+                            {kind === "basket" && (
+                              <label className="flex items-center gap-2 mt-1 text-xs font-mono text-[#66ff66]/70">
+                                WEIGHT:
+                                <input
+                                  type="number"
+                                  min={0.1}
+                                  step={0.1}
+                                  value={leg.weight ?? 1}
+                                  onChange={(e) => setLegWeight(legKey(leg), Math.max(0.1, parseFloat(e.target.value) || 1))}
+                                  className="terminal-input w-20 py-0.5"
+                                  data-testid={`input-weight-${legKey(leg)}`}
+                                />
+                              </label>
+                            )}
                           </div>
                           <button
-                            onClick={() => removeLeg(leg.marketId)}
+                            onClick={() => removeLeg(legKey(leg))}
                             className="text-[#66ff66]/50 hover:text-[#ff0000] transition-colors flex-shrink-0 p-1"
-                            data-testid={`button-remove-leg-${leg.marketId}`}
+                            data-testid={`button-remove-leg-${legKey(leg)}`}
                           >
                             <X className="w-4 h-4" />
                           </button>
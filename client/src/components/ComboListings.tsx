@@ -0,0 +1,85 @@
+import { Link } from "wouter";
+import { useComboListings, useBuyComboListing } from "@/hooks/use-markets";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Repeat } from "lucide-react";
+import { format } from "date-fns";
+import clsx from "clsx";
+import type { ComboListingResponse } from "@shared/schema";
+
+function ListingRow({ listing }: { listing: ComboListingResponse }) {
+  const { user, isAuthenticated, connect } = useAuth();
+  const buy = useBuyComboListing();
+  const { toast } = useToast();
+  const { position, combo } = listing;
+  const isOwn = user?.id === listing.sellerId;
+  const discount = listing.markValue > 0 ? (listing.markValue - listing.price) / listing.markValue * 100 : 0;
+
+  const handleBuy = async () => {
+    if (!isAuthenticated) {
+      connect();
+      return;
+    }
+    if (!confirm(`Buy this ${position.side} position on "${combo.name}" for $${listing.price.toFixed(2)} plus fee?`)) return;
+    try {
+      const result = await buy.mutateAsync(listing.id);
+      toast({ title: "Position Bought", description: result.message });
+    } catch (error) {
+      toast({ title: "Purchase Failed", description: error instanceof Error ? error.message : "An error occurred", variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-4 p-3 bg-black border border-[#444444] text-sm font-mono" data-testid={`row-combo-listing-${listing.id}`}>
+      <Link href={combo.curated ? `/combo/${combo.id}` : `/custom-combo/${combo.id}`}>
+        <span className="flex-1 min-w-[180px] font-sans text-[#66ff66] hover:underline cursor-pointer">{combo.name}</span>
+      </Link>
+      <span className={position.side === "YES" ? "text-[#66ff66]" : "text-[#ff3366]"}>{position.side}</span>
+      <span className="text-[#888888]">${position.stake.toLocaleString()} × {position.leverage}x @ {parseFloat(position.entryProbability).toFixed(2)}%</span>
+      <span className="text-[#888888]">Locks {format(new Date(position.lockDate), "MMM d, yyyy")}</span>
+      <span className="text-[#888888]">Mark ${listing.markValue.toFixed(2)}</span>
+      <span className={clsx("font-bold", discount >= 0 ? "text-[#66ff66]" : "text-[#ffaa00]")}>
+        ${listing.price.toFixed(2)}
+        <span className="ml-1 text-xs font-normal">({discount >= 0 ? `${discount.toFixed(1)}% below` : `${(-discount).toFixed(1)}% above`} mark)</span>
+      </span>
+      <button
+        onClick={handleBuy}
+        disabled={isOwn || buy.isPending}
+        className="ml-auto px-4 py-1.5 border border-[#66ff66] text-[#66ff66] hover:bg-[#66ff66]/10 disabled:opacity-40 disabled:cursor-not-allowed"
+        data-testid={`button-buy-listing-${listing.id}`}
+      >
+        {buy.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : isOwn ? "Your Listing" : "Buy"}
+      </button>
+    </div>
+  );
+}
+
+// Open combo positions other users have put up for sale; buying takes over the whole position
+export function ComboListings() {
+  const { data: listings, isLoading } = useComboListings();
+
+  return (
+    <section className="mt-12">
+      <div className="text-xs font-mono mb-4" style={{ color: '#444444' }}>
+        ────────────────────────────────────────────────────────────
+      </div>
+      <h2 className="text-xl font-semibold mb-6 flex items-center gap-2 text-[#66ff66]">
+        <Repeat className="w-5 h-5 text-[#ffaa00]" />
+        Positions for Sale
+      </h2>
+
+      {isLoading ? (
+        <div className="bg-black border border-[#66ff66] h-24 skeleton-neon" />
+      ) : listings && listings.length > 0 ? (
+        <div className="space-y-2">
+          {listings.map((listing) => <ListingRow key={listing.id} listing={listing} />)}
+        </div>
+      ) : (
+        <div className="text-center py-12 text-[#444444] bg-black border border-[#444444]">
+          <p className="mb-2">No positions for sale</p>
+          <p className="text-sm">List an open combo position from your portfolio to sell it before its lock date.</p>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -2,6 +2,7 @@ import { Link, useLocation } from "wouter";
 import { useAuth } from "@/hooks/use-auth";
 import { usePositions } from "@/hooks/use-markets";
 import { AsciiLogo } from "@/components/AsciiLogo";
+import { NotificationsMenu } from "@/components/NotificationsMenu";
 import { Loader2, Menu, X } from "lucide-react";
 import { useState } from "react";
 import { useToast } from "@/hooks/use-toast";
@@ -115,6 +116,7 @@ export function Navbar() {
                       {formatAddress(user?.walletAddress)}
                     </span>
                   </div>
+                  <NotificationsMenu />
                   <button 
                     onClick={() => logout()}
                     className="font-mono text-sm transition-colors px-3 py-1.5 border"
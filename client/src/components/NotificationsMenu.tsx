@@ -0,0 +1,68 @@
+import { Bell } from "lucide-react";
+import { Link } from "wouter";
+import { format } from "date-fns";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useMarkNotificationsRead, useNotifications } from "@/hooks/use-markets";
+
+// Bell in the navbar; opening it marks everything read
+export function NotificationsMenu() {
+  const { data: notifications = [] } = useNotifications();
+  const markRead = useMarkNotificationsRead();
+  const unread = notifications.filter((n) => !n.readAt).length;
+
+  return (
+    <Popover
+      onOpenChange={(open) => {
+        if (!open && unread > 0) markRead.mutate();
+      }}
+    >
+      <PopoverTrigger asChild>
+        <button
+          className="relative font-mono p-1.5 border"
+          style={{ color: '#66ff66', borderColor: '#444444', backgroundColor: 'transparent' }}
+          data-testid="button-notifications"
+        >
+          <Bell className="h-4 w-4" />
+          {unread > 0 && (
+            <span
+              className="absolute -top-1.5 -right-1.5 text-[10px] leading-none px-1 py-0.5"
+              style={{ backgroundColor: '#ff6666', color: '#000000' }}
+              data-testid="text-unread-notifications"
+            >
+              {unread}
+            </span>
+          )}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent
+        align="end"
+        className="w-80 p-0 font-mono rounded-none"
+        style={{ backgroundColor: '#000000', borderColor: '#444444' }}
+      >
+        <div className="px-3 py-2 text-xs border-b" style={{ color: '#ffaa00', borderColor: '#444444' }}>
+          NOTIFICATIONS
+        </div>
+        <div className="max-h-80 overflow-y-auto">
+          {notifications.length === 0 ? (
+            <p className="px-3 py-4 text-xs" style={{ color: '#444444' }}>Nothing yet</p>
+          ) : (
+            notifications.map((n) => (
+              <div key={n.id} className="px-3 py-2 border-b text-xs space-y-1" style={{ borderColor: '#222222' }} data-testid={`notification-${n.id}`}>
+                <div className="flex justify-between gap-2">
+                  <span style={{ color: n.readAt ? '#888888' : '#66ff66' }}>{n.title}</span>
+                  {n.createdAt && <span style={{ color: '#444444' }}>{format(new Date(n.createdAt), 'MMM d, HH:mm')}</span>}
+                </div>
+                <p style={{ color: '#88ffff' }}>{n.message}</p>
+                {n.marketId && (
+                  <Link href={`/market/${n.marketId}`} className="underline" style={{ color: '#888888' }}>
+                    view market
+                  </Link>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
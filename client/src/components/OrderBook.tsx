@@ -1,6 +1,7 @@
-import { useState, useEffect, useCallback, useMemo } from "react";
+import { useState, useMemo } from "react";
 import { BookOpen, Loader2 } from "lucide-react";
 import { useLocation } from "wouter";
+import { useGatewayChannel } from "@/hooks/use-gateway";
 
 interface OrderBookLevel {
   price: number;
@@ -21,36 +22,37 @@ interface OrderBookProps {
 
 const DECIMAL_OPTIONS = [0.01, 0.1, 0.5, 1, 2, 5];
 
+function applyLevelChanges(levels: OrderBookLevel[], changes: OrderBookLevel[], isBid: boolean): OrderBookLevel[] {
+  const byPrice = new Map(levels.map((level) => [level.price, level.size]));
+  for (const change of changes) {
+    if (change.size > 0) byPrice.set(change.price, change.size);
+    else byPrice.delete(change.price);
+  }
+  return Array.from(byPrice.entries())
+    .map(([price, size]) => ({ price, size }))
+    .sort((a, b) => isBid ? b.price - a.price : a.price - b.price);
+}
+
 export function OrderBook({ marketId, currentProbability, compact = false }: OrderBookProps) {
   const [location] = useLocation();
   const isBsc = location.startsWith('/bsc');
   const accentColor = isBsc ? '#f0b90b' : '#66ff66';
   const [orderBook, setOrderBook] = useState<OrderBookData | null>(null);
   const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
   const [decimalPrecision, setDecimalPrecision] = useState(1);
 
-  const fetchOrderBook = useCallback(async () => {
-    try {
-      const response = await fetch(`/api/markets/${marketId}/orderbook`);
-      if (!response.ok) {
-        throw new Error("Failed to fetch order book");
-      }
-      const data = await response.json();
-      setOrderBook(data);
-      setError(null);
-    } catch (err) {
-      setError(err instanceof Error ? err.message : "Unknown error");
-    } finally {
-      setIsLoading(false);
-    }
-  }, [marketId]);
-
-  useEffect(() => {
-    fetchOrderBook();
-    const intervalId = setInterval(fetchOrderBook, 2000);
-    return () => clearInterval(intervalId);
-  }, [fetchOrderBook]);
+  // Snapshot from the gateway "book" channel, then level diffs (size 0 removes a level)
+  useGatewayChannel<OrderBookData>("book", marketId, (event) => {
+    setOrderBook((prev) => {
+      if (event.type === "snapshot" || !prev) return event.data;
+      return {
+        bids: applyLevelChanges(prev.bids, event.data.bids, true),
+        asks: applyLevelChanges(prev.asks, event.data.asks, false),
+        currentProbability: event.data.currentProbability,
+      };
+    });
+    setIsLoading(false);
+  });
 
   const groupedData = useMemo(() => {
     if (!orderBook) return { bids: [], asks: [] };
@@ -89,19 +91,6 @@ export function OrderBook({ marketId, currentProbability, compact = false }: Ord
     );
   }
 
-  if (error) {
-    return (
-      <div 
-        className="p-6 text-center min-h-[280px] flex items-center justify-center"
-        style={{ backgroundColor: '#000000', border: `1px solid ${accentColor}` }}
-      >
-        <p className="text-sm font-mono" style={{ color: '#444444' }} data-testid="orderbook-error">
-          Unable to load order book
-        </p>
-      </div>
-    );
-  }
-
   if (!orderBook) {
     return (
       <div 
@@ -181,6 +170,11 @@ export function OrderBook({ marketId, currentProbability, compact = false }: Ord
         </div>
 
         <div className="space-y-0.5">
+          {bids.length === 0 && asks.length === 0 && (
+            <p className="py-6 text-center text-xs font-mono" style={{ color: '#444444' }} data-testid="orderbook-empty">
+              No resting orders - place a limit order to add liquidity
+            </p>
+          )}
           {Array.from({ length: Math.max(bids.length, asks.length) }).map((_, i) => {
             const bid = bids[i];
             const ask = asks[i];
@@ -1,16 +1,20 @@
 import { useState } from "react";
-import { type Market } from "@shared/schema";
-import { useCreatePosition, useCreateOrder, useCrossMarginMetrics, type CreateOrderInput } from "@/hooks/use-markets";
+import { type Market, MARGIN_MODES, type MarginMode } from "@shared/schema";
+import { useCreatePosition, useCreateOrder, useCreateOrderGroup, useCrossMarginMetrics, usePositionsByMarket, useAccountFees, type CreateOrderInput, type GroupOrderInput } from "@/hooks/use-markets";
 import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Slider } from "@/components/ui/slider";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { AlertCircle, Wallet, ArrowRight, Zap, TrendingUp, TrendingDown, AlertTriangle, Clock, Layers, Target } from "lucide-react";
+import { AlertCircle, Wallet, ArrowRight, Zap, TrendingUp, TrendingDown, AlertTriangle, Clock, Layers, Target, ShieldAlert, Trophy, Activity } from "lucide-react";
 import { z } from "zod";
 
-type OrderType = "market" | "limit" | "iceberg" | "twap";
+type OrderType = "market" | "limit" | "iceberg" | "twap" | "stop_loss" | "take_profit" | "trailing_stop";
+
+// Protective orders close one of the user's open positions instead of opening a new one
+const isProtectiveType = (type: OrderType) =>
+  type === "stop_loss" || type === "take_profit" || type === "trailing_stop";
 
 interface OrderFormProps {
   market: Market;
@@ -22,15 +26,26 @@ export function OrderForm({ market }: OrderFormProps) {
   const [side, setSide] = useState<"YES" | "NO">("YES");
   const [amount, setAmount] = useState<string>("100");
   const [leverage, setLeverage] = useState([1]);
+  const [marginMode, setMarginMode] = useState<MarginMode>("cross");
   const [orderType, setOrderType] = useState<OrderType>("market");
   const [limitPrice, setLimitPrice] = useState<string>("");
   const [clipSize, setClipSize] = useState<string>("");
   const [twapDuration, setTwapDuration] = useState<string>("60");
   const [twapInterval, setTwapInterval] = useState<string>("30");
+  const [protectPositionId, setProtectPositionId] = useState<string>("");
+  const [triggerPrice, setTriggerPrice] = useState<string>("");
+  const [trailingDistance, setTrailingDistance] = useState<string>("5");
+  // Optional stop/target attached to a limit entry (placed as a bracket group)
+  const [bracketStop, setBracketStop] = useState<string>("");
+  const [bracketTarget, setBracketTarget] = useState<string>("");
   
   const createPosition = useCreatePosition();
   const createOrder = useCreateOrder();
+  const createOrderGroup = useCreateOrderGroup();
   const { data: marginMetrics } = useCrossMarginMetrics();
+  const { data: feeRates } = useAccountFees();
+  const { data: marketPositions } = usePositionsByMarket(market.id);
+  const openPositions = (marketPositions ?? []).filter((p) => p.status === "open");
 
   const formatBalance = (balance: number) => {
     return new Intl.NumberFormat('en-US', { 
@@ -47,6 +62,10 @@ export function OrderForm({ market }: OrderFormProps) {
   const leverageVal = leverage[0];
   const size = parseFloat(amount) || 0;
   const totalNotional = size * leverageVal;
+  // Fees are charged on the notional; a limit order pays the maker rate only if it rests on the book
+  const feeFor = (bps: number) => Math.round(totalNotional * bps / 100) / 100;
+  const takerFee = feeRates ? feeFor(feeRates.takerBps) : null;
+  const makerFee = feeRates ? feeFor(feeRates.makerBps) : null;
   
   const liquidationBuffer = 100 / leverageVal;
   let liqProb = 0;
@@ -57,12 +76,24 @@ export function OrderForm({ market }: OrderFormProps) {
   }
   liqProb = Math.round(liqProb * 100) / 100;
 
+  const isProtective = isProtectiveType(orderType);
+  const protectedPosition = openPositions.find((p) => String(p.id) === protectPositionId);
+
   const validateAdvancedInputs = (): string | null => {
     if (orderType === "limit") {
       const price = parseFloat(limitPrice);
       if (isNaN(price) || price < 0 || price > 100) {
         return "Limit price must be between 0 and 100%";
       }
+      // Stop below / target above the entry for LONG, the reverse for SHORT
+      const stop = parseFloat(bracketStop);
+      const target = parseFloat(bracketTarget);
+      if (bracketStop && (isNaN(stop) || (side === "YES" ? stop >= price : stop <= price))) {
+        return `Stop loss must be ${side === "YES" ? "below" : "above"} the limit price`;
+      }
+      if (bracketTarget && (isNaN(target) || (side === "YES" ? target <= price : target >= price))) {
+        return `Take profit must be ${side === "YES" ? "above" : "below"} the limit price`;
+      }
     }
     if (orderType === "iceberg") {
       const clip = parseFloat(clipSize);
@@ -80,6 +111,22 @@ export function OrderForm({ market }: OrderFormProps) {
         }
       }
     }
+    if (isProtective) {
+      if (!protectedPosition) {
+        return "Select an open position to protect";
+      }
+      if (orderType === "trailing_stop") {
+        const distance = parseFloat(trailingDistance);
+        if (isNaN(distance) || distance <= 0 || distance >= 100) {
+          return "Trailing distance must be between 0 and 100 points";
+        }
+      } else {
+        const trigger = parseFloat(triggerPrice);
+        if (isNaN(trigger) || trigger < 0 || trigger > 100) {
+          return "Trigger price must be between 0 and 100%";
+        }
+      }
+    }
     if (orderType === "twap") {
       const duration = parseFloat(twapDuration);
       const interval = parseFloat(twapInterval);
@@ -106,6 +153,11 @@ export function OrderForm({ market }: OrderFormProps) {
       return;
     }
 
+    if (isProtective) {
+      handlePlaceProtectiveOrder();
+      return;
+    }
+
     const numAmount = z.coerce.number().safeParse(amount);
     if (!numAmount.success || numAmount.data <= 0) {
       toast({
@@ -143,11 +195,12 @@ export function OrderForm({ market }: OrderFormProps) {
         side,
         size: positionSize,
         leverage: leverageVal,
+        marginMode,
       }, {
         onSuccess: () => {
           toast({
             title: "Position Opened",
-            description: `${leverageVal}x ${side} position for $${amount}`,
+            description: `${leverageVal}x ${side} ${marginMode} position for $${amount}`,
           });
           resetForm();
         },
@@ -166,6 +219,7 @@ export function OrderForm({ market }: OrderFormProps) {
         side,
         totalSize: positionSize,
         leverage: leverageVal,
+        marginMode,
       };
 
       if (orderType === "limit") {
@@ -183,6 +237,11 @@ export function OrderForm({ market }: OrderFormProps) {
         orderData.twapIntervalMs = parseFloat(twapInterval) * 1000;
       }
 
+      if (orderType === "limit" && (bracketStop || bracketTarget)) {
+        placeBracketOrder(positionSize);
+        return;
+      }
+
       createOrder.mutate(orderData, {
         onSuccess: () => {
           const orderTypeLabel = orderType.toUpperCase();
@@ -203,6 +262,76 @@ export function OrderForm({ market }: OrderFormProps) {
     }
   };
 
+  const placeBracketOrder = (positionSize: number) => {
+    const children: GroupOrderInput[] = [];
+    if (bracketStop) children.push({ orderType: "stop_loss", triggerPrice: parseFloat(bracketStop) });
+    if (bracketTarget) children.push({ orderType: "take_profit", triggerPrice: parseFloat(bracketTarget) });
+
+    createOrderGroup.mutate({
+      groupType: "bracket",
+      marketId: market.id,
+      entry: { side, totalSize: positionSize, limitPrice: parseFloat(limitPrice), leverage: leverageVal, marginMode },
+      orders: children,
+    }, {
+      onSuccess: () => {
+        toast({
+          title: "Bracket Placed",
+          description: `LIMIT ${leverageVal}x ${side} for $${amount} with ${children.map((c) => formatOrderType(c.orderType)).join(" + ")}`,
+        });
+        resetForm();
+      },
+      onError: (error) => {
+        toast({
+          title: "Order Failed",
+          description: error.message,
+          variant: "destructive",
+        });
+      }
+    });
+  };
+
+  const handlePlaceProtectiveOrder = () => {
+    const validationError = validateAdvancedInputs();
+    if (validationError || !protectedPosition) {
+      toast({
+        title: "Invalid Order Parameters",
+        description: validationError ?? "Select an open position to protect",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const orderData: CreateOrderInput = {
+      marketId: market.id,
+      orderType,
+      side: protectedPosition.side,
+      totalSize: protectedPosition.size,
+      positionId: protectedPosition.id,
+    };
+    if (orderType === "trailing_stop") {
+      orderData.trailingDistance = parseFloat(trailingDistance);
+    } else {
+      orderData.triggerPrice = parseFloat(triggerPrice);
+    }
+
+    createOrder.mutate(orderData, {
+      onSuccess: () => {
+        toast({
+          title: "Order Placed",
+          description: `${formatOrderType(orderType)} set on your ${protectedPosition.side} position ($${protectedPosition.size.toLocaleString()})`,
+        });
+        resetForm();
+      },
+      onError: (error) => {
+        toast({
+          title: "Order Failed",
+          description: error.message,
+          variant: "destructive",
+        });
+      }
+    });
+  };
+
   const resetForm = () => {
     setAmount("100");
     setLeverage([1]);
@@ -210,10 +339,15 @@ export function OrderForm({ market }: OrderFormProps) {
     setClipSize("");
     setTwapDuration("60");
     setTwapInterval("30");
+    setTriggerPrice("");
+    setTrailingDistance("5");
+    setBracketStop("");
+    setBracketTarget("");
   };
 
-  const isPending = createPosition.isPending || createOrder.isPending;
+  const isPending = createPosition.isPending || createOrder.isPending || createOrderGroup.isPending;
   const isYes = side === "YES";
+  const isSubmitDisabled = isPending || (isProtective ? !protectedPosition : size <= 0);
 
   const getOrderTypeIcon = (type: OrderType) => {
     switch (type) {
@@ -221,9 +355,14 @@ export function OrderForm({ market }: OrderFormProps) {
       case "limit": return <Target className="w-3 h-3" />;
       case "iceberg": return <Layers className="w-3 h-3" />;
       case "twap": return <Clock className="w-3 h-3" />;
+      case "stop_loss": return <ShieldAlert className="w-3 h-3" />;
+      case "take_profit": return <Trophy className="w-3 h-3" />;
+      case "trailing_stop": return <Activity className="w-3 h-3" />;
     }
   };
 
+  const formatOrderType = (type: OrderType) => type.replace("_", " ").toUpperCase();
+
   const getButtonText = () => {
     if (isPending) {
       return orderType === "market" ? "Opening Position..." : "Placing Order...";
@@ -231,7 +370,7 @@ export function OrderForm({ market }: OrderFormProps) {
     if (orderType === "market") {
       return isYes ? "Open Long" : "Open Short";
     }
-    return `Place ${orderType.toUpperCase()} Order`;
+    return `Place ${formatOrderType(orderType)} Order`;
   };
 
   return (
@@ -286,227 +425,404 @@ export function OrderForm({ market }: OrderFormProps) {
                   TWAP
                 </span>
               </SelectItem>
+              <SelectItem value="stop_loss" className="font-mono">
+                <span className="flex items-center gap-2">
+                  <ShieldAlert className="w-3 h-3" style={{ color: '#66ff66' }} />
+                  Stop Loss
+                </span>
+              </SelectItem>
+              <SelectItem value="take_profit" className="font-mono">
+                <span className="flex items-center gap-2">
+                  <Trophy className="w-3 h-3" style={{ color: '#66ff66' }} />
+                  Take Profit
+                </span>
+              </SelectItem>
+              <SelectItem value="trailing_stop" className="font-mono">
+                <span className="flex items-center gap-2">
+                  <Activity className="w-3 h-3" style={{ color: '#66ff66' }} />
+                  Trailing Stop
+                </span>
+              </SelectItem>
             </SelectContent>
           </Select>
         </div>
 
-        <div className="grid grid-cols-2 gap-2">
-          <button
-            onClick={() => setSide("YES")}
-            data-testid="button-side-yes"
-            className="py-3 font-bold font-mono flex items-center justify-center gap-2 transition-all"
-            style={{
-              backgroundColor: isYes ? '#66ff66' : '#000000',
-              color: isYes ? '#000000' : '#66ff66',
-              border: '1px solid #66ff66'
-            }}
-          >
-            <TrendingUp className="w-4 h-4" />
-            LONG
-          </button>
-          <button
-            onClick={() => setSide("NO")}
-            data-testid="button-side-no"
-            className="py-3 font-bold font-mono flex items-center justify-center gap-2 transition-all"
-            style={{
-              backgroundColor: !isYes ? '#ff3366' : '#000000',
-              color: !isYes ? '#000000' : '#ff3366',
-              border: '1px solid #ff3366'
-            }}
-          >
-            <TrendingDown className="w-4 h-4" />
-            SHORT
-          </button>
-        </div>
+        {isProtective ? (
+          <div className="space-y-4" data-testid="protective-order-fields">
+            <div className="space-y-2">
+              <label className="text-[11px] uppercase tracking-wider font-mono" style={{ color: '#444444' }}>Position</label>
+              {openPositions.length === 0 ? (
+                <p className="text-xs font-mono" style={{ color: '#444444' }} data-testid="text-no-positions">
+                  No open positions in this market
+                </p>
+              ) : (
+                <Select value={protectPositionId} onValueChange={setProtectPositionId}>
+                  <SelectTrigger
+                    className="font-mono bg-black border-white/20 focus:border-[#66ff66]"
+                    data-testid="select-protect-position"
+                  >
+                    <SelectValue placeholder="Select position" />
+                  </SelectTrigger>
+                  <SelectContent className="bg-black border-[#66ff66]">
+                    {openPositions.map((p) => (
+                      <SelectItem key={p.id} value={String(p.id)} className="font-mono">
+                        {p.side} {p.leverage}x ${p.size.toLocaleString()} @ {parseFloat(String(p.entryProbability)).toFixed(1)}%
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
 
-        <div className="space-y-2">
-          <label className="text-[11px] text-muted-foreground uppercase tracking-wider">Margin (USD)</label>
-          <div className="relative">
-            <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground font-mono">$</span>
-            <Input 
-              type="number"
-              value={amount}
-              onChange={(e) => {
-                const val = e.target.value;
-                const num = parseFloat(val) || 0;
-                if (num <= freeMargin) {
-                  setAmount(val);
-                }
+            {orderType === "trailing_stop" ? (
+              <div className="space-y-2">
+                <label className="text-[11px] uppercase tracking-wider font-mono" style={{ color: '#444444' }}>
+                  Trailing Distance (points)
+                </label>
+                <Input
+                  type="number"
+                  value={trailingDistance}
+                  onChange={(e) => setTrailingDistance(e.target.value)}
+                  className="font-mono bg-black/30 border-white/10 focus:border-[#66ff66] h-10"
+                  placeholder="5"
+                  min={0.1}
+                  max={99}
+                  step={0.1}
+                  data-testid="input-trailing-distance"
+                />
+                <p className="text-[10px] font-mono" style={{ color: '#444444' }}>
+                  Closes when price moves {trailingDistance || 0} points against the best price since placement
+                </p>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                <label className="text-[11px] uppercase tracking-wider font-mono" style={{ color: '#444444' }}>
+                  Trigger Price (0-100%)
+                </label>
+                <div className="relative">
+                  <Input
+                    type="number"
+                    value={triggerPrice}
+                    onChange={(e) => setTriggerPrice(e.target.value)}
+                    className="pr-8 font-mono bg-black/30 border-white/10 focus:border-[#66ff66] h-10"
+                    placeholder={currentProb.toFixed(1)}
+                    min={0}
+                    max={100}
+                    step={0.1}
+                    data-testid="input-trigger-price"
+                  />
+                  <span className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground font-mono">%</span>
+                </div>
+                <p className="text-[10px] font-mono" style={{ color: '#444444' }}>
+                  Current: {currentProb.toFixed(2)}%
+                  {protectedPosition && (
+                    (orderType === "stop_loss") === (protectedPosition.side === "YES")
+                      ? " | Must be below current price"
+                      : " | Must be above current price"
+                  )}
+                </p>
+              </div>
+            )}
+          </div>
+        ) : (
+          <>
+          <div className="grid grid-cols-2 gap-2">
+            <button
+              onClick={() => setSide("YES")}
+              data-testid="button-side-yes"
+              className="py-3 font-bold font-mono flex items-center justify-center gap-2 transition-all"
+              style={{
+                backgroundColor: isYes ? '#66ff66' : '#000000',
+                color: isYes ? '#000000' : '#66ff66',
+                border: '1px solid #66ff66'
               }}
-              className="pl-6 font-mono bg-black/30 border-white/10 focus:border-accent/50 text-lg h-12"
-              placeholder="0.00"
-              data-testid="input-amount"
-            />
-            <Button 
-              size="sm" 
-              variant="ghost" 
-              className="absolute right-2 top-1/2 -translate-y-1/2 h-7 text-xs text-accent"
-              onClick={() => setAmount(Math.floor(freeMargin).toString())}
-              data-testid="button-max"
             >
-              MAX
-            </Button>
-          </div>
-        </div>
-
-        <div className="space-y-3">
-          <div className="flex justify-between items-center">
-            <label className="text-[11px] uppercase tracking-wider font-mono" style={{ color: '#444444' }}>Leverage</label>
-            <span 
-              className="text-sm font-bold font-mono px-3 py-1"
+              <TrendingUp className="w-4 h-4" />
+              LONG
+            </button>
+            <button
+              onClick={() => setSide("NO")}
+              data-testid="button-side-no"
+              className="py-3 font-bold font-mono flex items-center justify-center gap-2 transition-all"
               style={{
-                backgroundColor: '#000000',
-                border: '1px solid #66ff66',
-                color: '#66ff66'
+                backgroundColor: !isYes ? '#ff3366' : '#000000',
+                color: !isYes ? '#000000' : '#ff3366',
+                border: '1px solid #ff3366'
               }}
-              data-testid="text-leverage"
             >
-              {leverageVal}x
-            </span>
+              <TrendingDown className="w-4 h-4" />
+              SHORT
+            </button>
           </div>
-          <Slider
-            value={leverage}
-            onValueChange={setLeverage}
-            max={50}
-            min={1}
-            step={1}
-            className="py-3"
-            data-testid="slider-leverage"
-          />
-          <div className="flex justify-between text-[10px] text-muted-foreground font-mono">
-            <span>1x</span>
-            <span>10x</span>
-            <span>25x</span>
-            <span>50x</span>
-          </div>
-        </div>
 
-        {(orderType === "limit" || orderType === "iceberg") && (
           <div className="space-y-2">
-            <label className="text-[11px] uppercase tracking-wider font-mono" style={{ color: '#444444' }}>
-              {orderType === "iceberg" ? "Limit Price (max fill price)" : "Limit Price (0-100%)"}
-            </label>
+            <label className="text-[11px] text-muted-foreground uppercase tracking-wider">Margin (USD)</label>
             <div className="relative">
+              <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground font-mono">$</span>
               <Input 
                 type="number"
-                value={limitPrice}
-                onChange={(e) => setLimitPrice(e.target.value)}
-                className="pr-8 font-mono bg-black/30 border-white/10 focus:border-[#66ff66] h-10"
-                placeholder={currentProb.toFixed(1)}
-                min={0}
-                max={100}
-                step={0.1}
-                data-testid="input-limit-price"
+                value={amount}
+                onChange={(e) => {
+                  const val = e.target.value;
+                  const num = parseFloat(val) || 0;
+                  if (num <= freeMargin) {
+                    setAmount(val);
+                  }
+                }}
+                className="pl-6 font-mono bg-black/30 border-white/10 focus:border-accent/50 text-lg h-12"
+                placeholder="0.00"
+                data-testid="input-amount"
               />
-              <span className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground font-mono">%</span>
+              <Button 
+                size="sm" 
+                variant="ghost" 
+                className="absolute right-2 top-1/2 -translate-y-1/2 h-7 text-xs text-accent"
+                onClick={() => setAmount(Math.floor(freeMargin).toString())}
+                data-testid="button-max"
+              >
+                MAX
+              </Button>
             </div>
-            <p className="text-[10px] font-mono" style={{ color: '#444444' }}>
-              Current: {currentProb.toFixed(2)}%
-              {orderType === "iceberg" && " | Clips fill only at or below this price"}
-            </p>
           </div>
-        )}
 
-        {orderType === "iceberg" && (
           <div className="space-y-2">
-            <label className="text-[11px] uppercase tracking-wider font-mono" style={{ color: '#444444' }}>
-              Clip Size (visible per fill)
-            </label>
-            <div className="relative">
-              <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground font-mono">$</span>
-              <Input 
-                type="number"
-                value={clipSize}
-                onChange={(e) => setClipSize(e.target.value)}
-                className="pl-6 font-mono bg-black/30 border-white/10 focus:border-[#66ff66] h-10"
-                placeholder="100"
-                min={1}
-                data-testid="input-clip-size"
-              />
+            <label className="text-[11px] uppercase tracking-wider font-mono" style={{ color: '#444444' }}>Margin Mode</label>
+            <div className="grid grid-cols-2 gap-2">
+              {MARGIN_MODES.map((mode) => (
+                <button
+                  key={mode}
+                  onClick={() => setMarginMode(mode)}
+                  data-testid={`button-margin-${mode}`}
+                  className="py-2 text-xs font-bold font-mono uppercase transition-all"
+                  style={{
+                    backgroundColor: marginMode === mode ? '#66ff66' : '#000000',
+                    color: marginMode === mode ? '#000000' : '#66ff66',
+                    border: '1px solid #66ff66'
+                  }}
+                >
+                  {mode}
+                </button>
+              ))}
             </div>
             <p className="text-[10px] font-mono" style={{ color: '#444444' }}>
-              Must be less than total size: ${totalNotional.toLocaleString()}
+              {marginMode === "cross"
+                ? "Shares your account equity; liquidated with the rest of your cross positions"
+                : "Risks only this position's margin; liquidated on its own at the liquidation price"}
             </p>
           </div>
-        )}
 
-        {orderType === "twap" && (
-          <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-3">
+            <div className="flex justify-between items-center">
+              <label className="text-[11px] uppercase tracking-wider font-mono" style={{ color: '#444444' }}>Leverage</label>
+              <span 
+                className="text-sm font-bold font-mono px-3 py-1"
+                style={{
+                  backgroundColor: '#000000',
+                  border: '1px solid #66ff66',
+                  color: '#66ff66'
+                }}
+                data-testid="text-leverage"
+              >
+                {leverageVal}x
+              </span>
+            </div>
+            <Slider
+              value={leverage}
+              onValueChange={setLeverage}
+              max={50}
+              min={1}
+              step={1}
+              className="py-3"
+              data-testid="slider-leverage"
+            />
+            <div className="flex justify-between text-[10px] text-muted-foreground font-mono">
+              <span>1x</span>
+              <span>10x</span>
+              <span>25x</span>
+              <span>50x</span>
+            </div>
+          </div>
+
+          {(orderType === "limit" || orderType === "iceberg") && (
             <div className="space-y-2">
               <label className="text-[11px] uppercase tracking-wider font-mono" style={{ color: '#444444' }}>
-                Duration (min)
+                {orderType === "iceberg" ? "Limit Price (max fill price)" : "Limit Price (0-100%)"}
               </label>
-              <Input 
-                type="number"
-                value={twapDuration}
-                onChange={(e) => setTwapDuration(e.target.value)}
-                className="font-mono bg-black/30 border-white/10 focus:border-[#66ff66] h-10"
-                placeholder="60"
-                min={1}
-                data-testid="input-twap-duration"
-              />
+              <div className="relative">
+                <Input 
+                  type="number"
+                  value={limitPrice}
+                  onChange={(e) => setLimitPrice(e.target.value)}
+                  className="pr-8 font-mono bg-black/30 border-white/10 focus:border-[#66ff66] h-10"
+                  placeholder={currentProb.toFixed(1)}
+                  min={0}
+                  max={100}
+                  step={0.1}
+                  data-testid="input-limit-price"
+                />
+                <span className="absolute right-3 top-1/2 -translate-y-1/2 text-muted-foreground font-mono">%</span>
+              </div>
+              <p className="text-[10px] font-mono" style={{ color: '#444444' }}>
+                Current: {currentProb.toFixed(2)}%
+                {orderType === "iceberg" && " | Clips fill only at or below this price"}
+              </p>
             </div>
+          )}
+
+          {orderType === "limit" && (
             <div className="space-y-2">
               <label className="text-[11px] uppercase tracking-wider font-mono" style={{ color: '#444444' }}>
-                Interval (sec)
+                Attach Stop / Target (optional)
               </label>
-              <Input 
-                type="number"
-                value={twapInterval}
-                onChange={(e) => setTwapInterval(e.target.value)}
-                className="font-mono bg-black/30 border-white/10 focus:border-[#66ff66] h-10"
-                placeholder="30"
-                min={1}
-                data-testid="input-twap-interval"
-              />
+              <div className="grid grid-cols-2 gap-3">
+                <Input
+                  type="number"
+                  value={bracketStop}
+                  onChange={(e) => setBracketStop(e.target.value)}
+                  className="font-mono bg-black/30 border-white/10 focus:border-[#66ff66] h-10"
+                  placeholder="Stop %"
+                  min={0}
+                  max={100}
+                  step={0.1}
+                  data-testid="input-bracket-stop"
+                />
+                <Input
+                  type="number"
+                  value={bracketTarget}
+                  onChange={(e) => setBracketTarget(e.target.value)}
+                  className="font-mono bg-black/30 border-white/10 focus:border-[#66ff66] h-10"
+                  placeholder="Target %"
+                  min={0}
+                  max={100}
+                  step={0.1}
+                  data-testid="input-bracket-target"
+                />
+              </div>
+              <p className="text-[10px] font-mono" style={{ color: '#444444' }}>
+                Activated when the entry fills; whichever triggers first cancels the other
+              </p>
             </div>
-            <p className="col-span-2 text-[10px] font-mono" style={{ color: '#444444' }}>
-              {Math.floor(parseFloat(twapDuration || "0") * 60 / parseFloat(twapInterval || "1"))} slices over {twapDuration || 0} minutes
-            </p>
-          </div>
-        )}
+          )}
 
-        {leverageVal >= 20 && (
-          <div 
-            className="flex items-center gap-2 px-3 py-2"
-            style={{ backgroundColor: '#000000', border: '1px solid #ff3366' }}
-          >
-            <AlertTriangle className="w-4 h-4 shrink-0" style={{ color: '#ff3366' }} />
-            <span className="text-xs font-mono" style={{ color: '#ff3366' }}>High leverage increases liquidation risk</span>
-          </div>
-        )}
+          {orderType === "iceberg" && (
+            <div className="space-y-2">
+              <label className="text-[11px] uppercase tracking-wider font-mono" style={{ color: '#444444' }}>
+                Clip Size (visible per fill)
+              </label>
+              <div className="relative">
+                <span className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground font-mono">$</span>
+                <Input 
+                  type="number"
+                  value={clipSize}
+                  onChange={(e) => setClipSize(e.target.value)}
+                  className="pl-6 font-mono bg-black/30 border-white/10 focus:border-[#66ff66] h-10"
+                  placeholder="100"
+                  min={1}
+                  data-testid="input-clip-size"
+                />
+              </div>
+              <p className="text-[10px] font-mono" style={{ color: '#444444' }}>
+                Must be less than total size: ${totalNotional.toLocaleString()}
+              </p>
+            </div>
+          )}
 
-        <div className="space-y-2 pt-4 border-t border-white/5">
-          <div className="flex justify-between text-sm">
-            <span className="text-muted-foreground">
-              {orderType === "limit" ? "Limit Price" : "Entry Price"}
-            </span>
-            <span className="font-mono">
-              {orderType === "limit" && limitPrice ? `${parseFloat(limitPrice).toFixed(2)}%` : `${currentProb.toFixed(2)}%`}
-            </span>
-          </div>
-          <div className="flex justify-between text-sm">
-            <span className="text-muted-foreground">Position Size</span>
-            <span className="font-mono font-bold text-accent" data-testid="text-position-size">
-              ${totalNotional.toLocaleString(undefined, { maximumFractionDigits: 0 })}
-            </span>
-          </div>
-          <div className="flex justify-between text-sm">
-            <span className="text-muted-foreground">Liquidation Price</span>
-            <span className="font-mono text-destructive" data-testid="text-liquidation">
-              {liqProb}%
-            </span>
-          </div>
-          {orderType !== "market" && (
+          {orderType === "twap" && (
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <label className="text-[11px] uppercase tracking-wider font-mono" style={{ color: '#444444' }}>
+                  Duration (min)
+                </label>
+                <Input 
+                  type="number"
+                  value={twapDuration}
+                  onChange={(e) => setTwapDuration(e.target.value)}
+                  className="font-mono bg-black/30 border-white/10 focus:border-[#66ff66] h-10"
+                  placeholder="60"
+                  min={1}
+                  data-testid="input-twap-duration"
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="text-[11px] uppercase tracking-wider font-mono" style={{ color: '#444444' }}>
+                  Interval (sec)
+                </label>
+                <Input 
+                  type="number"
+                  value={twapInterval}
+                  onChange={(e) => setTwapInterval(e.target.value)}
+                  className="font-mono bg-black/30 border-white/10 focus:border-[#66ff66] h-10"
+                  placeholder="30"
+                  min={1}
+                  data-testid="input-twap-interval"
+                />
+              </div>
+              <p className="col-span-2 text-[10px] font-mono" style={{ color: '#444444' }}>
+                {Math.floor(parseFloat(twapDuration || "0") * 60 / parseFloat(twapInterval || "1"))} slices over {twapDuration || 0} minutes
+              </p>
+            </div>
+          )}
+
+          {leverageVal >= 20 && (
+            <div 
+              className="flex items-center gap-2 px-3 py-2"
+              style={{ backgroundColor: '#000000', border: '1px solid #ff3366' }}
+            >
+              <AlertTriangle className="w-4 h-4 shrink-0" style={{ color: '#ff3366' }} />
+              <span className="text-xs font-mono" style={{ color: '#ff3366' }}>High leverage increases liquidation risk</span>
+            </div>
+          )}
+
+          <div className="space-y-2 pt-4 border-t border-white/5">
             <div className="flex justify-between text-sm">
-              <span className="text-muted-foreground">Order Type</span>
-              <span className="font-mono flex items-center gap-1" style={{ color: '#66ff66' }}>
-                {getOrderTypeIcon(orderType)}
-                {orderType.toUpperCase()}
+              <span className="text-muted-foreground">
+                {orderType === "limit" ? "Limit Price" : "Entry Price"}
+              </span>
+              <span className="font-mono">
+                {orderType === "limit" && limitPrice ? `${parseFloat(limitPrice).toFixed(2)}%` : `${currentProb.toFixed(2)}%`}
               </span>
             </div>
-          )}
-        </div>
+            <div className="flex justify-between text-sm">
+              <span className="text-muted-foreground">Position Size</span>
+              <span className="font-mono font-bold text-accent" data-testid="text-position-size">
+                ${totalNotional.toLocaleString(undefined, { maximumFractionDigits: 0 })}
+              </span>
+            </div>
+            {takerFee !== null && (
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">
+                  Est. Fee
+                  {feeRates && (
+                    <span className="ml-1 text-[10px] font-mono" style={{ color: '#444444' }}>
+                      T{feeRates.tier}{feeRates.stlrDiscountPct > 0 ? ` -${feeRates.stlrDiscountPct}% STLR` : ''}
+                    </span>
+                  )}
+                </span>
+                <span className="font-mono" data-testid="text-fee-preview">
+                  {orderType === "limit"
+                    ? `$${makerFee!.toFixed(2)} maker / $${takerFee.toFixed(2)} taker`
+                    : `$${takerFee.toFixed(2)}`}
+                </span>
+              </div>
+            )}
+            <div className="flex justify-between text-sm">
+              <span className="text-muted-foreground">Liquidation Price</span>
+              <span className="font-mono text-destructive" data-testid="text-liquidation">
+                {marginMode === "cross" ? `~${liqProb}%` : `${liqProb}%`}
+              </span>
+            </div>
+            {orderType !== "market" && (
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">Order Type</span>
+                <span className="font-mono flex items-center gap-1" style={{ color: '#66ff66' }}>
+                  {getOrderTypeIcon(orderType)}
+                  {orderType.toUpperCase()}
+                </span>
+              </div>
+            )}
+          </div>
+          </>
+        )}
       </div>
 
       <div className="p-4" style={{ borderTop: '1px solid #66ff66' }}>
@@ -516,11 +832,11 @@ export function OrderForm({ market }: OrderFormProps) {
             backgroundColor: isYes ? '#66ff66' : '#ff3366',
             color: '#000000',
             border: `1px solid ${isYes ? '#66ff66' : '#ff3366'}`,
-            opacity: (isPending || size <= 0) ? 0.5 : 1,
-            cursor: (isPending || size <= 0) ? 'not-allowed' : 'pointer'
+            opacity: isSubmitDisabled ? 0.5 : 1,
+            cursor: isSubmitDisabled ? 'not-allowed' : 'pointer'
           }}
           onClick={handlePlaceOrder}
-          disabled={isPending || size <= 0}
+          disabled={isSubmitDisabled}
           data-testid="button-place-order"
         >
           {isPending ? (
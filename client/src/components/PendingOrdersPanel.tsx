@@ -1,9 +1,10 @@
-import { useOrdersByMarket, useCancelOrder } from "@/hooks/use-markets";
+import { useOrdersByMarket, useCancelOrder, useOrderGroupsByMarket, useCancelOrderGroup } from "@/hooks/use-markets";
 import { useAuth } from "@/hooks/use-auth";
 import { format } from "date-fns";
-import { Loader2, X, ClipboardList } from "lucide-react";
+import { Loader2, X, ClipboardList, Link2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
+import type { Order } from "@shared/schema";
 
 interface PendingOrdersPanelProps {
   marketId: number;
@@ -12,7 +13,9 @@ interface PendingOrdersPanelProps {
 export function PendingOrdersPanel({ marketId }: PendingOrdersPanelProps) {
   const { isAuthenticated } = useAuth();
   const { data: orders, isLoading } = useOrdersByMarket(marketId);
+  const { data: groups } = useOrderGroupsByMarket(marketId);
   const cancelMutation = useCancelOrder();
+  const cancelGroupMutation = useCancelOrderGroup();
   const { toast } = useToast();
 
   if (!isAuthenticated) {
@@ -35,6 +38,22 @@ export function PendingOrdersPanel({ marketId }: PendingOrdersPanelProps) {
     }
   };
 
+  const handleCancelGroup = async (groupId: number) => {
+    try {
+      await cancelGroupMutation.mutateAsync({ groupId, marketId });
+      toast({
+        title: "Order Group Cancelled",
+        description: "All open orders in the group have been cancelled.",
+      });
+    } catch (error: any) {
+      toast({
+        title: "Cancel Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case "pending": return "#ffaa00";
@@ -43,6 +62,7 @@ export function PendingOrdersPanel({ marketId }: PendingOrdersPanelProps) {
       case "filled": return "#66ff66";
       case "cancelled": return "#666666";
       case "expired": return "#ff6666";
+      case "waiting": return "#888888";
       default: return "#888888";
     }
   };
@@ -52,13 +72,89 @@ export function PendingOrdersPanel({ marketId }: PendingOrdersPanelProps) {
   };
 
   const canCancel = (status: string) => {
-    return status === "pending" || status === "active" || status === "partial";
+    return status === "pending" || status === "active" || status === "partial" || status === "waiting";
   };
 
   const formatOrderType = (type: string) => {
-    return type.toUpperCase();
+    return type.replace("_", " ").toUpperCase();
+  };
+
+  // Trigger level for stop-loss / take-profit, offset and best price for trailing stops
+  const formatTrigger = (order: Order) => {
+    if (order.orderType === "trailing_stop" && order.trailingDistance !== null) {
+      const peak = order.trailingPeak !== null ? ` from ${parseFloat(String(order.trailingPeak)).toFixed(1)}%` : "";
+      return `trail ${parseFloat(String(order.trailingDistance)).toFixed(1)}${peak}`;
+    }
+    if (order.triggerPrice !== null) {
+      return `@ ${parseFloat(String(order.triggerPrice)).toFixed(1)}%`;
+    }
+    return null;
   };
 
+  const renderOrderRow = (order: Order) => (
+    <div 
+      key={order.id}
+      className="grid grid-cols-6 gap-2 text-xs py-2 border-b items-center"
+      style={{ borderColor: '#222222' }}
+      data-testid={`row-order-${order.id}`}
+    >
+      <span style={{ color: '#888888' }}>
+        {formatOrderType(order.orderType)}
+        {formatTrigger(order) && (
+          <span className="block text-[10px]" style={{ color: '#666666' }} data-testid={`text-order-trigger-${order.id}`}>
+            {formatTrigger(order)}
+          </span>
+        )}
+      </span>
+      <span 
+        className="font-bold"
+        style={{ color: getSideColor(order.side) }}
+      >
+        {order.side}
+      </span>
+      <span className="text-right" style={{ color: '#cccccc' }}>
+        ${order.totalSize.toLocaleString()}
+        {order.filledSize > 0 && (
+          <span style={{ color: '#666666' }}>
+            {" "}({order.filledSize}/{order.totalSize})
+          </span>
+        )}
+      </span>
+      <span 
+        className="text-center uppercase text-[10px]"
+        style={{ color: getStatusColor(order.status) }}
+      >
+        {order.status}
+      </span>
+      <span className="text-right" style={{ color: '#666666' }}>
+        {order.createdAt ? format(new Date(order.createdAt), 'HH:mm') : '-'}
+      </span>
+      <div className="flex justify-end">
+        {canCancel(order.status) && (
+          <Button
+            size="icon"
+            variant="ghost"
+            onClick={() => handleCancel(order.id)}
+            disabled={cancelMutation.isPending}
+            className="h-6 w-6"
+            style={{ color: '#ff6666' }}
+            data-testid={`button-cancel-order-${order.id}`}
+          >
+            {cancelMutation.isPending ? (
+              <Loader2 className="h-3 w-3 animate-spin" />
+            ) : (
+              <X className="h-3 w-3" />
+            )}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+
+  // Groups with open orders are listed as a unit below the ungrouped orders
+  const activeGroups = (groups ?? []).filter((g) => g.status === "active");
+  const activeGroupIds = new Set(activeGroups.map((g) => g.id));
+
   return (
     <div 
       className="font-mono"
@@ -94,58 +190,33 @@ export function PendingOrdersPanel({ marketId }: PendingOrdersPanelProps) {
               <span></span>
             </div>
             
-            {orders.map((order) => (
-              <div 
-                key={order.id}
-                className="grid grid-cols-6 gap-2 text-xs py-2 border-b items-center"
-                style={{ borderColor: '#222222' }}
-                data-testid={`row-order-${order.id}`}
+            {orders.filter((o) => o.groupId === null || !activeGroupIds.has(o.groupId)).map(renderOrderRow)}
+
+            {activeGroups.map((group) => (
+              <div
+                key={`group-${group.id}`}
+                className="border-l-2 pl-2 mt-2"
+                style={{ borderColor: '#66ff66' }}
+                data-testid={`group-orders-${group.id}`}
               >
-                <span style={{ color: '#888888' }}>
-                  {formatOrderType(order.orderType)}
-                </span>
-                <span 
-                  className="font-bold"
-                  style={{ color: getSideColor(order.side) }}
-                >
-                  {order.side}
-                </span>
-                <span className="text-right" style={{ color: '#cccccc' }}>
-                  ${order.totalSize.toLocaleString()}
-                  {order.filledSize > 0 && (
-                    <span style={{ color: '#666666' }}>
-                      {" "}({order.filledSize}/{order.totalSize})
-                    </span>
-                  )}
-                </span>
-                <span 
-                  className="text-center uppercase text-[10px]"
-                  style={{ color: getStatusColor(order.status) }}
-                >
-                  {order.status}
-                </span>
-                <span className="text-right" style={{ color: '#666666' }}>
-                  {order.createdAt ? format(new Date(order.createdAt), 'HH:mm') : '-'}
-                </span>
-                <div className="flex justify-end">
-                  {canCancel(order.status) && (
-                    <Button
-                      size="icon"
-                      variant="ghost"
-                      onClick={() => handleCancel(order.id)}
-                      disabled={cancelMutation.isPending}
-                      className="h-6 w-6"
-                      style={{ color: '#ff6666' }}
-                      data-testid={`button-cancel-order-${order.id}`}
-                    >
-                      {cancelMutation.isPending ? (
-                        <Loader2 className="h-3 w-3 animate-spin" />
-                      ) : (
-                        <X className="h-3 w-3" />
-                      )}
-                    </Button>
-                  )}
+                <div className="flex items-center justify-between text-xs py-1">
+                  <span className="flex items-center gap-1" style={{ color: '#66ff66' }}>
+                    <Link2 className="w-3 h-3" />
+                    {group.groupType.toUpperCase()} #{group.id}
+                  </span>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => handleCancelGroup(group.id)}
+                    disabled={cancelGroupMutation.isPending}
+                    className="h-6 px-2 text-[10px]"
+                    style={{ color: '#ff6666' }}
+                    data-testid={`button-cancel-group-${group.id}`}
+                  >
+                    {cancelGroupMutation.isPending ? <Loader2 className="h-3 w-3 animate-spin" /> : "CANCEL GROUP"}
+                  </Button>
                 </div>
+                {orders.filter((o) => o.groupId === group.id).map(renderOrderRow)}
               </div>
             ))}
           </div>
@@ -4,9 +4,10 @@ import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Slider } from "@/components/ui/slider";
+import { Input } from "@/components/ui/input";
 import { Loader2, ExternalLink, AlertTriangle } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
-import { useClosePosition, usePartialClosePosition } from "@/hooks/use-markets";
+import { useClosePosition, usePartialClosePosition, useCreateOrder, useCreateOrderGroup, useMarketFunding, useAdjustPositionMargin, type GroupOrderInput } from "@/hooks/use-markets";
 import { useToast } from "@/hooks/use-toast";
 import clsx from "clsx";
 import type { Position, Market } from "@shared/schema";
@@ -22,6 +23,15 @@ export function PositionCard({ position, currentPrice }: PositionCardProps) {
   const { toast } = useToast();
   const [showPartialClose, setShowPartialClose] = useState(false);
   const [closePercent, setClosePercent] = useState(50);
+  const createOrder = useCreateOrder();
+  const createOrderGroup = useCreateOrderGroup();
+  const [showProtect, setShowProtect] = useState(false);
+  const [stopLoss, setStopLoss] = useState("");
+  const [takeProfit, setTakeProfit] = useState("");
+  const [trailingDistance, setTrailingDistance] = useState("");
+  const adjustMargin = useAdjustPositionMargin();
+  const [showMargin, setShowMargin] = useState(false);
+  const [marginAmount, setMarginAmount] = useState("");
 
   const isLong = position.side === "YES";
   // Probabilities are normalized in usePositions hook, but TypeScript doesn't know
@@ -39,12 +49,20 @@ export function PositionCard({ position, currentPrice }: PositionCardProps) {
     ? (position.size * (currentProb - entryProb)) / 100
     : (position.size * (entryProb - currentProb)) / 100;
 
-  const margin = Math.ceil(position.size / position.leverage);
+  // Isolated positions can carry margin added after opening
+  const isIsolated = position.marginMode === "isolated";
+  const extraMargin = parseFloat(String(position.extraMargin ?? 0)) || 0;
+  const margin = Math.ceil(position.size / position.leverage) + extraMargin;
   // PnL percentage is gain relative to total size (leveraged notional)
   const pnlPercent = position.size > 0 ? (unrealizedPnL / position.size) * 100 : 0;
   const isProfitable = unrealizedPnL >= 0;
   const isClosed = position.status === "closed" || position.status === "liquidated";
 
+  // Funding is booked to cash each interval; positive means this position has paid
+  const accruedFunding = parseFloat(String(position.accruedFunding ?? 0)) || 0;
+  const { data: funding } = useMarketFunding(position.marketId, !isClosed);
+  const nextFundingRate = funding ? (isLong ? funding.predictedRate : -funding.predictedRate) : null;
+
   // Liquidation warning logic
   const liqPrice = typeof position.liquidationProbability === 'number'
     ? position.liquidationProbability
@@ -92,7 +110,72 @@ export function PositionCard({ position, currentPrice }: PositionCardProps) {
     }
   };
 
-  const isPending = closePosition.isPending || partialClose.isPending;
+  // One protective order per filled-in field, each closing the whole position when triggered.
+  // Several are placed as an OCO group so the first to fire cancels the rest
+  const handleProtect = async () => {
+    const orders: GroupOrderInput[] = [];
+    if (stopLoss) orders.push({ orderType: "stop_loss", triggerPrice: parseFloat(stopLoss) });
+    if (takeProfit) orders.push({ orderType: "take_profit", triggerPrice: parseFloat(takeProfit) });
+    if (trailingDistance) orders.push({ orderType: "trailing_stop", trailingDistance: parseFloat(trailingDistance) });
+    if (orders.length === 0) return;
+
+    try {
+      if (orders.length === 1) {
+        await createOrder.mutateAsync({
+          ...orders[0],
+          marketId: position.marketId,
+          side: position.side,
+          totalSize: position.size,
+          positionId: position.id,
+        });
+      } else {
+        await createOrderGroup.mutateAsync({
+          groupType: "oco",
+          marketId: position.marketId,
+          positionId: position.id,
+          orders,
+        });
+      }
+      toast({
+        title: "Protection Set",
+        description: `${orders.length} order${orders.length > 1 ? "s" : ""} placed on your ${position.side} position`,
+      });
+      setShowProtect(false);
+      setStopLoss("");
+      setTakeProfit("");
+      setTrailingDistance("");
+    } catch (error) {
+      toast({
+        title: "Failed to Set Protection",
+        description: error instanceof Error ? error.message : "An error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // sign is +1 to add margin, -1 to remove it
+  const handleAdjustMargin = async (sign: 1 | -1) => {
+    const amount = parseFloat(marginAmount);
+    if (isNaN(amount) || amount <= 0) return;
+    try {
+      const updated = await adjustMargin.mutateAsync({ id: position.id, amount: sign * amount });
+      toast({
+        title: sign > 0 ? "Margin Added" : "Margin Removed",
+        description: `$${amount.toFixed(2)} ${sign > 0 ? "added to" : "removed from"} your position. Liquidation price: ${parseFloat(String(updated.liquidationProbability)).toFixed(2)}%`,
+      });
+      setShowMargin(false);
+      setMarginAmount("");
+    } catch (error) {
+      toast({
+        title: "Failed to Adjust Margin",
+        description: error instanceof Error ? error.message : "An error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const isPlacingProtection = createOrder.isPending || createOrderGroup.isPending;
+  const isPending = closePosition.isPending || partialClose.isPending || isPlacingProtection || adjustMargin.isPending;
 
   return (
     <Card 
@@ -133,7 +216,7 @@ export function PositionCard({ position, currentPrice }: PositionCardProps) {
           className="flex-shrink-0"
           data-testid={`badge-position-side-${position.id}`}
         >
-          {position.side} {position.leverage}x
+          {position.side} {position.leverage}x{isIsolated ? " ISO" : ""}
         </Badge>
       </div>
 
@@ -185,14 +268,50 @@ export function PositionCard({ position, currentPrice }: PositionCardProps) {
         </div>
       </div>
 
+      {(accruedFunding !== 0 || nextFundingRate !== null) && (
+        <div className="flex items-center justify-between gap-2 text-xs font-mono" data-testid={`text-position-funding-${position.id}`}>
+          <span className="text-muted-foreground">
+            Funding{" "}
+            <span className={accruedFunding > 0 ? "text-destructive" : "text-primary"}>
+              {accruedFunding > 0 ? "-" : "+"}${Math.abs(accruedFunding).toFixed(2)}
+            </span>
+          </span>
+          {!isClosed && nextFundingRate !== null && (
+            <span className="text-muted-foreground">
+              Next: {nextFundingRate > 0 ? "pay" : "receive"} {(Math.abs(nextFundingRate) * 100).toFixed(4)}%/h
+            </span>
+          )}
+        </div>
+      )}
+
       <div className="flex items-center justify-between gap-2 mt-1 flex-wrap">
         <span className="text-xs text-muted-foreground font-mono" data-testid={`text-position-date-${position.id}`}>
           {isClosed ? "Closed" : "Opened"}{" "}
           {position.createdAt ? formatDistanceToNow(new Date(position.createdAt), { addSuffix: true }) : ""}
         </span>
         
-        {!isClosed && !showPartialClose && (
+        {!isClosed && !showPartialClose && !showProtect && !showMargin && (
           <div className="flex gap-2">
+            {isIsolated && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setShowMargin(true)}
+                disabled={isPending}
+                data-testid={`button-adjust-margin-${position.id}`}
+              >
+                Margin
+              </Button>
+            )}
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => setShowProtect(true)}
+              disabled={isPending}
+              data-testid={`button-protect-position-${position.id}`}
+            >
+              SL/TP
+            </Button>
             <Button
               size="sm"
               variant="outline"
@@ -225,6 +344,122 @@ export function PositionCard({ position, currentPrice }: PositionCardProps) {
         )}
       </div>
 
+      {!isClosed && showProtect && (
+        <div className="space-y-3 pt-3 mt-3 border-t border-border/40">
+          <div className="grid grid-cols-3 gap-2">
+            <div>
+              <p className="text-muted-foreground text-xs uppercase tracking-wider font-mono mb-1">Stop Loss %</p>
+              <Input
+                type="number"
+                value={stopLoss}
+                onChange={(e) => setStopLoss(e.target.value)}
+                placeholder={isLong ? "below" : "above"}
+                className="font-mono h-8"
+                data-testid={`input-stop-loss-${position.id}`}
+              />
+            </div>
+            <div>
+              <p className="text-muted-foreground text-xs uppercase tracking-wider font-mono mb-1">Take Profit %</p>
+              <Input
+                type="number"
+                value={takeProfit}
+                onChange={(e) => setTakeProfit(e.target.value)}
+                placeholder={isLong ? "above" : "below"}
+                className="font-mono h-8"
+                data-testid={`input-take-profit-${position.id}`}
+              />
+            </div>
+            <div>
+              <p className="text-muted-foreground text-xs uppercase tracking-wider font-mono mb-1">Trailing pts</p>
+              <Input
+                type="number"
+                value={trailingDistance}
+                onChange={(e) => setTrailingDistance(e.target.value)}
+                placeholder="5"
+                className="font-mono h-8"
+                data-testid={`input-trailing-distance-${position.id}`}
+              />
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Triggers are checked against the market price ({currentProb.toFixed(1)}%) and close the full position. The first to fire cancels the others.
+          </p>
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => setShowProtect(false)}
+              disabled={isPending}
+              className="flex-1"
+              data-testid={`button-cancel-protect-${position.id}`}
+            >
+              Cancel
+            </Button>
+            <Button
+              size="sm"
+              onClick={handleProtect}
+              disabled={isPending || (!stopLoss && !takeProfit && !trailingDistance)}
+              className="flex-1"
+              data-testid={`button-confirm-protect-${position.id}`}
+            >
+              {isPlacingProtection ? <Loader2 className="h-3 w-3 animate-spin" /> : "Place Orders"}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {!isClosed && showMargin && (
+        <div className="space-y-3 pt-3 mt-3 border-t border-border/40">
+          <div className="flex items-center justify-between text-xs font-mono text-muted-foreground">
+            <span>Margin ${margin.toLocaleString(undefined, { maximumFractionDigits: 2 })}{extraMargin > 0 ? ` (+$${extraMargin.toFixed(2)} added)` : ""}</span>
+            <span>Liq. {liqPrice.toFixed(2)}%</span>
+          </div>
+          <Input
+            type="number"
+            value={marginAmount}
+            onChange={(e) => setMarginAmount(e.target.value)}
+            placeholder="Amount ($)"
+            min={0}
+            className="font-mono h-8"
+            data-testid={`input-margin-amount-${position.id}`}
+          />
+          <p className="text-xs text-muted-foreground">
+            Adding margin moves the liquidation price away from the market. Only margin you added can be removed.
+          </p>
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => setShowMargin(false)}
+              disabled={isPending}
+              className="flex-1"
+              data-testid={`button-cancel-margin-${position.id}`}
+            >
+              Cancel
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => handleAdjustMargin(-1)}
+              disabled={isPending || !marginAmount || extraMargin <= 0}
+              className="flex-1"
+              data-testid={`button-remove-margin-${position.id}`}
+            >
+              Remove
+            </Button>
+            <Button
+              size="sm"
+              onClick={() => handleAdjustMargin(1)}
+              disabled={isPending || !marginAmount}
+              className="flex-1"
+              data-testid={`button-add-margin-${position.id}`}
+            >
+              {adjustMargin.isPending ? <Loader2 className="h-3 w-3 animate-spin" /> : "Add"}
+            </Button>
+          </div>
+        </div>
+      )}
+
       {!isClosed && showPartialClose && (
         <div className="space-y-3 pt-3 mt-3 border-t border-border/40">
           <div className="flex items-center justify-between">
@@ -80,11 +80,16 @@ export function SettlrektOverlay() {
                   </p>
                   <p className="text-destructive-foreground/90 text-sm mt-1" data-testid="settlrekt-message">
                     <span className="font-medium">{visibleEvent.user.displayName}</span>
-                    {" "}liquidated{" "}
-                    <span className="font-mono font-semibold">{formatCurrency(visibleEvent.size)}</span>
+                    {visibleEvent.remainingPosition ? " partially liquidated " : " liquidated "}
+                    <span className="font-mono font-semibold">{formatCurrency(visibleEvent.reducedSize)}</span>
                     {" "}on{" "}
                     <span className="font-medium">"{truncateQuestion(visibleEvent.market.question)}"</span>
                   </p>
+                  {visibleEvent.remainingPosition && (
+                    <p className="text-destructive-foreground/70 text-xs mt-1 font-mono" data-testid="settlrekt-remaining">
+                      {formatCurrency(visibleEvent.remainingPosition.size)} of {formatCurrency(visibleEvent.size)} still open
+                    </p>
+                  )}
                 </div>
                 <Button
                   size="icon"
@@ -1,110 +1,78 @@
 import { useEffect, useRef, useState, useMemo } from "react";
 import { createChart, IChartApi, ISeriesApi, CandlestickData, LineData, Time, CandlestickSeries, LineSeries } from "lightweight-charts";
+import { candleResolutions, type Candle, type CandleResolution } from "@shared/routes";
+import { useMarketCandles } from "@/hooks/use-markets";
 
 interface TradingViewChartProps {
-  marketId: number;
+  marketId?: number; // Omit for series without persisted history (combos): only the live price is drawn
   currentProbability: number;
 }
 
-type TimeFrame = "5m" | "30m" | "1H" | "4H" | "1D" | "1W";
 type ChartMode = "candle" | "line";
 
-interface TimeFrameConfig {
-  label: string;
-  intervalMs: number;
-  candleCount: number;
-  volatility: number;
-}
-
-const timeFrameConfigs: Record<TimeFrame, TimeFrameConfig> = {
-  "5m": { label: "5m", intervalMs: 5 * 60 * 1000, candleCount: 60, volatility: 1.5 },
-  "30m": { label: "30m", intervalMs: 30 * 60 * 1000, candleCount: 48, volatility: 2.5 },
-  "1H": { label: "1H", intervalMs: 60 * 60 * 1000, candleCount: 48, volatility: 3 },
-  "4H": { label: "4H", intervalMs: 4 * 60 * 60 * 1000, candleCount: 42, volatility: 5 },
-  "1D": { label: "1D", intervalMs: 24 * 60 * 60 * 1000, candleCount: 60, volatility: 8 },
-  "1W": { label: "1W", intervalMs: 7 * 24 * 60 * 60 * 1000, candleCount: 52, volatility: 12 },
+const RESOLUTION_SECONDS: Record<CandleResolution, number> = {
+  "1m": 60,
+  "5m": 5 * 60,
+  "1h": 60 * 60,
+  "1d": 24 * 60 * 60,
 };
 
-function generateCandleData(
-  basePrice: number,
-  config: TimeFrameConfig,
-  marketId: number
+// Server candles with the live price folded into the current bucket, so the last candle
+// moves with the simulation between refetches
+function buildCandleData(
+  candles: Candle[],
+  currentProbability: number,
+  resolution: CandleResolution
 ): CandlestickData[] {
-  const data: CandlestickData[] = [];
-  let price = basePrice;
-  const now = Date.now();
-  const seed = marketId * 12345;
-
-  const seededRandom = (i: number) => {
-    const x = Math.sin(seed + i * 9999) * 10000;
-    return x - Math.floor(x);
-  };
+  const data: CandlestickData[] = candles.map((c) => ({
+    time: c.time as Time,
+    open: c.open,
+    high: c.high,
+    low: c.low,
+    close: c.close,
+  }));
 
-  for (let i = config.candleCount - 1; i >= 0; i--) {
-    const timestamp = Math.floor((now - i * config.intervalMs) / 1000) as Time;
-    
-    const change = (seededRandom(i) - 0.5) * config.volatility;
-    const trendBias = (seededRandom(i + 1000) - 0.5) * 0.5;
-    
-    const open = Math.max(0.5, Math.min(99.5, price));
-    const close = Math.max(0.5, Math.min(99.5, price + change + trendBias));
-    const wickUp = seededRandom(i + 2000) * (config.volatility / 2);
-    const wickDown = seededRandom(i + 3000) * (config.volatility / 2);
-    const high = Math.min(99.5, Math.max(open, close) + wickUp);
-    const low = Math.max(0.5, Math.min(open, close) - wickDown);
+  const bucketSeconds = RESOLUTION_SECONDS[resolution];
+  const currentBucket = Math.floor(Date.now() / 1000 / bucketSeconds) * bucketSeconds;
+  const last = data[data.length - 1];
 
+  if (last && last.time === currentBucket) {
+    last.close = currentProbability;
+    last.high = Math.max(last.high, currentProbability);
+    last.low = Math.min(last.low, currentProbability);
+  } else {
+    const open = last ? last.close : currentProbability;
     data.push({
-      time: timestamp,
-      open: Math.round(open * 100) / 100,
-      high: Math.round(high * 100) / 100,
-      low: Math.round(low * 100) / 100,
-      close: Math.round(close * 100) / 100,
+      time: currentBucket as Time,
+      open,
+      high: Math.max(open, currentProbability),
+      low: Math.min(open, currentProbability),
+      close: currentProbability,
     });
-
-    price = close;
-  }
-
-  if (data.length > 0) {
-    const lastCandle = data[data.length - 1];
-    lastCandle.close = basePrice;
-    lastCandle.high = Math.max(lastCandle.high, basePrice);
-    lastCandle.low = Math.min(lastCandle.low, basePrice);
   }
 
   return data;
 }
 
-function generateLineData(
-  basePrice: number,
-  config: TimeFrameConfig,
-  marketId: number
-): LineData[] {
-  const candleData = generateCandleData(basePrice, config, marketId);
-  return candleData.map(candle => ({
-    time: candle.time,
-    value: candle.close,
-  }));
-}
-
 export function TradingViewChart({ marketId, currentProbability }: TradingViewChartProps) {
   const chartContainerRef = useRef<HTMLDivElement>(null);
   const chartRef = useRef<IChartApi | null>(null);
   const candleSeriesRef = useRef<ISeriesApi<"Candlestick"> | null>(null);
   const lineSeriesRef = useRef<ISeriesApi<"Line"> | null>(null);
   
-  const [timeFrame, setTimeFrame] = useState<TimeFrame>("1H");
+  const [timeFrame, setTimeFrame] = useState<CandleResolution>("1h");
   const [chartMode, setChartMode] = useState<ChartMode>("candle");
 
-  const config = timeFrameConfigs[timeFrame];
+  const { data: candleResponse } = useMarketCandles(marketId ?? 0, timeFrame, marketId !== undefined);
 
   const candleData = useMemo(
-    () => generateCandleData(currentProbability, config, marketId),
-    [currentProbability, config, marketId]
+    () => buildCandleData(candleResponse?.candles ?? [], currentProbability, timeFrame),
+    [candleResponse, currentProbability, timeFrame]
   );
 
-  const lineData = useMemo(
-    () => generateLineData(currentProbability, config, marketId),
-    [currentProbability, config, marketId]
+  const lineData = useMemo<LineData[]>(
+    () => candleData.map((candle) => ({ time: candle.time, value: candle.close })),
+    [candleData]
   );
 
   useEffect(() => {
@@ -328,7 +296,7 @@ export function TradingViewChart({ marketId, currentProbability }: TradingViewCh
         
         <div className="flex gap-3 flex-wrap items-center">
           <div className="flex gap-1" style={{ border: "1px solid rgba(102, 255, 102, 0.3)", padding: "2px" }}>
-            {(["5m", "30m", "1H", "4H", "1D", "1W"] as TimeFrame[]).map((tf) => (
+            {candleResolutions.map((tf) => (
               <button
                 key={tf}
                 onClick={() => setTimeFrame(tf)}
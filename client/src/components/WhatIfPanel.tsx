@@ -0,0 +1,254 @@
+import { useMemo, useState } from "react";
+import { useSimulatePortfolio } from "@/hooks/use-markets";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, FlaskConical } from "lucide-react";
+import clsx from "clsx";
+import type { Market, PortfolioSimulation } from "@shared/schema";
+
+interface WhatIfPanelProps {
+  positions: { marketId: number; market: Market }[];
+}
+
+interface DraftOrder {
+  marketId: string;
+  side: "YES" | "NO";
+  size: string;
+  leverage: string;
+  marginMode: "cross" | "isolated";
+}
+
+const EMPTY_ORDER: DraftOrder = { marketId: "", side: "YES", size: "", leverage: "1", marginMode: "cross" };
+
+function formatRatio(ratio: number): string {
+  return ratio === Infinity || ratio === null ? "-" : `${(ratio * 100).toFixed(0)}%`;
+}
+
+function formatUsd(value: number): string {
+  return `$${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+// Stress test for the open portfolio: shock prices per market or per category, optionally add an
+// order, and see projected equity, margin ratio and which positions would be liquidated
+export function WhatIfPanel({ positions }: WhatIfPanelProps) {
+  const simulate = useSimulatePortfolio();
+  const { toast } = useToast();
+  const [marketShocks, setMarketShocks] = useState<Record<number, string>>({});
+  const [category, setCategory] = useState("");
+  const [categoryChange, setCategoryChange] = useState("");
+  const [order, setOrder] = useState<DraftOrder>(EMPTY_ORDER);
+  const [result, setResult] = useState<PortfolioSimulation | null>(null);
+
+  const markets = useMemo(() => {
+    const byId = new Map<number, Market>();
+    for (const p of positions) byId.set(p.marketId, p.market);
+    return Array.from(byId.values());
+  }, [positions]);
+  const categories = useMemo(() => Array.from(new Set(markets.map((m) => m.category))), [markets]);
+
+  const handleRun = async () => {
+    const shocks = Object.entries(marketShocks)
+      .filter(([, change]) => change.trim() !== "" && !isNaN(Number(change)))
+      .map(([marketId, change]) => ({ marketId: Number(marketId), change: Number(change) }));
+    const categoryShocks = category && categoryChange.trim() !== "" && !isNaN(Number(categoryChange))
+      ? [{ category, change: Number(categoryChange) }]
+      : [];
+    const orders = order.marketId && Number(order.size) > 0
+      ? [{
+          marketId: Number(order.marketId),
+          side: order.side,
+          size: Number(order.size),
+          leverage: Math.max(1, Math.floor(Number(order.leverage) || 1)),
+          marginMode: order.marginMode,
+        }]
+      : [];
+
+    try {
+      setResult(await simulate.mutateAsync({ shocks, categoryShocks, orders }));
+    } catch (error) {
+      toast({
+        title: "Scenario Failed",
+        description: error instanceof Error ? error.message : "An error occurred",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const inputClass = "h-8 font-mono text-xs bg-black border-[#66ff66]/30";
+
+  return (
+    <Card className="bg-card border-border p-6 mb-8" data-testid="card-what-if">
+      <div className="flex items-center gap-2 mb-4">
+        <FlaskConical className="w-5 h-5 text-primary" />
+        <h3 className="font-semibold">What If</h3>
+        <span className="text-xs text-muted-foreground">Price moves in probability points; nothing is traded</span>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-6">
+        <div className="space-y-2">
+          <p className="text-xs text-muted-foreground uppercase tracking-wide">Market Shocks</p>
+          {markets.map((market) => (
+            <div key={market.id} className="flex items-center gap-2">
+              <span className="flex-1 text-xs truncate" title={market.question}>{market.question}</span>
+              <Input
+                type="number"
+                placeholder="+/- pts"
+                className={clsx(inputClass, "w-24")}
+                value={marketShocks[market.id] ?? ""}
+                onChange={(e) => setMarketShocks({ ...marketShocks, [market.id]: e.target.value })}
+                data-testid={`input-shock-${market.id}`}
+              />
+            </div>
+          ))}
+          <div className="flex items-center gap-2 pt-2">
+            <select
+              className="flex-1 h-8 rounded-md bg-black border border-[#66ff66]/30 text-xs font-mono px-2"
+              value={category}
+              onChange={(e) => setCategory(e.target.value)}
+              data-testid="select-shock-category"
+            >
+              <option value="">Category shock...</option>
+              {categories.map((c) => <option key={c} value={c}>{c}</option>)}
+            </select>
+            <Input
+              type="number"
+              placeholder="+/- pts"
+              className={clsx(inputClass, "w-24")}
+              value={categoryChange}
+              onChange={(e) => setCategoryChange(e.target.value)}
+              data-testid="input-shock-category"
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-xs text-muted-foreground uppercase tracking-wide">Hypothetical Order</p>
+          <Input
+            type="number"
+            placeholder="Market ID"
+            className={inputClass}
+            value={order.marketId}
+            onChange={(e) => setOrder({ ...order, marketId: e.target.value })}
+            data-testid="input-whatif-market"
+          />
+          <div className="flex gap-2">
+            {(["YES", "NO"] as const).map((side) => (
+              <Button
+                key={side}
+                size="sm"
+                variant={order.side === side ? "default" : "outline"}
+                className="flex-1 h-8 text-xs"
+                onClick={() => setOrder({ ...order, side })}
+                data-testid={`button-whatif-side-${side.toLowerCase()}`}
+              >
+                {side}
+              </Button>
+            ))}
+            {(["cross", "isolated"] as const).map((mode) => (
+              <Button
+                key={mode}
+                size="sm"
+                variant={order.marginMode === mode ? "default" : "outline"}
+                className="flex-1 h-8 text-xs uppercase"
+                onClick={() => setOrder({ ...order, marginMode: mode })}
+                data-testid={`button-whatif-mode-${mode}`}
+              >
+                {mode}
+              </Button>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <Input
+              type="number"
+              placeholder="Size ($)"
+              className={inputClass}
+              value={order.size}
+              onChange={(e) => setOrder({ ...order, size: e.target.value })}
+              data-testid="input-whatif-size"
+            />
+            <Input
+              type="number"
+              placeholder="Leverage"
+              className={clsx(inputClass, "w-24")}
+              value={order.leverage}
+              onChange={(e) => setOrder({ ...order, leverage: e.target.value })}
+              data-testid="input-whatif-leverage"
+            />
+          </div>
+          <div className="flex gap-2 pt-2">
+            <Button className="flex-1" onClick={handleRun} disabled={simulate.isPending} data-testid="button-run-scenario">
+              {simulate.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : "Run Scenario"}
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => { setMarketShocks({}); setCategory(""); setCategoryChange(""); setOrder(EMPTY_ORDER); setResult(null); }}
+              data-testid="button-reset-scenario"
+            >
+              Reset
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      {result && (
+        <div className="mt-6 space-y-4" data-testid="panel-scenario-result">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div>
+              <p className="text-xs text-muted-foreground uppercase tracking-wide mb-1">Equity</p>
+              <p className="font-mono text-sm">{formatUsd(result.current.equity)} → <span className="font-bold">{formatUsd(result.projected.equity)}</span></p>
+            </div>
+            <div>
+              <p className="text-xs text-muted-foreground uppercase tracking-wide mb-1">Total Equity</p>
+              <p className="font-mono text-sm font-bold" data-testid="text-projected-total-equity">{formatUsd(result.projectedTotalEquity)}</p>
+            </div>
+            <div>
+              <p className="text-xs text-muted-foreground uppercase tracking-wide mb-1">Margin Ratio</p>
+              <p className={clsx("font-mono text-sm font-bold", result.projected.marginRatio < 1 ? "text-destructive" : "text-primary")} data-testid="text-projected-margin-ratio">
+                {formatRatio(result.current.marginRatio)} → {formatRatio(result.projected.marginRatio)}
+              </p>
+            </div>
+            <div>
+              <p className="text-xs text-muted-foreground uppercase tracking-wide mb-1">Liquidations</p>
+              <p className={clsx("font-mono text-sm font-bold", result.liquidationCount > 0 ? "text-destructive" : "text-primary")} data-testid="text-projected-liquidations">
+                {result.liquidationCount}
+              </p>
+            </div>
+          </div>
+
+          {result.rejectedOrders.map((r) => (
+            <p key={r.index} className="text-xs text-amber-500" data-testid={`text-rejected-order-${r.index}`}>
+              Order not placed: {r.reason}
+            </p>
+          ))}
+
+          <div className="space-y-1">
+            {result.positions.map((p, i) => (
+              <div
+                key={p.positionId ?? `new-${i}`}
+                className={clsx("flex items-center gap-3 text-xs font-mono p-2 rounded border", p.liquidatedSize > 0 ? "border-destructive/50 bg-destructive/5" : "border-border")}
+                data-testid={`row-scenario-position-${p.positionId ?? `new-${i}`}`}
+              >
+                <span className="flex-1 truncate font-sans" title={p.question}>
+                  {p.positionId === null && <span className="text-primary mr-1">NEW</span>}
+                  {p.question}
+                </span>
+                <span>{p.side} ${p.size.toLocaleString()} {p.leverage}x{p.marginMode === "isolated" ? " ISO" : ""}</span>
+                <span>{p.currentPrice.toFixed(1)}% → {p.projectedPrice.toFixed(1)}%</span>
+                <span className={p.projectedPnl >= 0 ? "text-primary" : "text-destructive"}>
+                  {p.projectedPnl >= 0 ? "+" : ""}{formatUsd(p.projectedPnl)}
+                </span>
+                {p.liquidatedSize > 0 && (
+                  <span className="text-destructive font-bold">
+                    {p.remainingSize > 0 ? `LIQ $${p.liquidatedSize.toLocaleString()}` : "LIQUIDATED"}
+                  </span>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,69 @@
+import { useEffect, useRef } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { api, type GatewayChannel } from "@shared/routes";
+import type { CrossMarginMetrics } from "@shared/schema";
+import { subscribeChannel, reconnectGateway, type GatewayEvent } from "@/lib/gateway";
+import { useAuth } from "./use-auth";
+
+// Subscribes for the lifetime of the component; the handler may change between renders
+export function useGatewayChannel<T = unknown>(
+  channel: GatewayChannel,
+  key: number | null,
+  handler: (event: GatewayEvent<T>) => void,
+  enabled: boolean = true
+) {
+  const handlerRef = useRef(handler);
+  handlerRef.current = handler;
+
+  useEffect(() => {
+    if (!enabled) return;
+    return subscribeChannel<T>(channel, key, (event) => handlerRef.current(event));
+  }, [channel, key, enabled]);
+}
+
+// Private account channels: order, fill and position changes refresh the queries that show them,
+// margin updates replace the cached metrics directly
+export function useAccountStream() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+  const lastUserIdRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    // The gateway authenticates the socket from the session cookie at connect time
+    if (lastUserIdRef.current !== userId) {
+      if (lastUserIdRef.current !== null || userId !== null) reconnectGateway();
+      lastUserIdRef.current = userId;
+    }
+  }, [userId]);
+
+  const refreshOrders = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/orders/market"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/orders/groups/market"] });
+  };
+
+  const refreshPositions = () => {
+    queryClient.invalidateQueries({ queryKey: [api.positions.list.path] });
+    queryClient.invalidateQueries({ queryKey: [api.positions.byMarket.path] });
+    queryClient.invalidateQueries({ queryKey: [api.portfolio.summary.path] });
+    queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/account/fees"] });
+  };
+
+  const isLoggedIn = userId !== null;
+  useGatewayChannel("orders", null, (event) => {
+    if (event.type === "update") refreshOrders();
+  }, isLoggedIn);
+  useGatewayChannel("fills", null, (event) => {
+    if (event.type === "update") {
+      refreshOrders();
+      refreshPositions();
+    }
+  }, isLoggedIn);
+  useGatewayChannel("positions", null, (event) => {
+    if (event.type === "update") refreshPositions();
+  }, isLoggedIn);
+  useGatewayChannel<CrossMarginMetrics>("margin", null, (event) => {
+    queryClient.setQueryData(["/api/portfolio/margin"], event.data);
+  }, isLoggedIn);
+}
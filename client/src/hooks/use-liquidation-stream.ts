@@ -6,6 +6,8 @@ export interface LiquidationEvent {
   user: { address: string; displayName: string };
   market: { id: number; question: string };
   size: number;
+  reducedSize: number;
+  remainingPosition: { id: number; size: number } | null;
   side: "YES" | "NO";
 }
 
@@ -1,19 +1,10 @@
-import { useState, useEffect, useRef, useCallback, useMemo, createContext, useContext, type ReactNode } from "react";
-
-interface OrderBookEntry {
-  price: number;
-  size: number;
-}
-
-interface OrderBook {
-  bids: OrderBookEntry[];
-  asks: OrderBookEntry[];
-}
+import { useState, useEffect, useCallback, useMemo, createContext, useContext, type ReactNode } from "react";
+import { subscribeChannel, onGatewayStatus } from "@/lib/gateway";
+import { useAccountStream } from "./use-gateway";
 
 export interface MarketStreamData {
   marketId: number;
   currentProbability: number;
-  orderBook: OrderBook;
 }
 
 interface MarketStreamState {
@@ -38,68 +29,38 @@ export function MarketStreamProvider({ children }: { children: ReactNode }) {
     isConnected: false,
     error: null,
   });
-  
-  const eventSourceRef = useRef<EventSource | null>(null);
-  const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-  const reconnectAttemptsRef = useRef(0);
 
-  const connect = useCallback(() => {
-    if (eventSourceRef.current) {
-      eventSourceRef.current.close();
-    }
-
-    const eventSource = new EventSource("/api/markets/stream");
-    eventSourceRef.current = eventSource;
-
-    eventSource.onopen = () => {
-      setState(prev => ({ ...prev, isConnected: true, error: null }));
-      reconnectAttemptsRef.current = 0;
-    };
-
-    eventSource.onmessage = (event) => {
-      try {
-        const data = JSON.parse(event.data);
-        if (data.markets && Array.isArray(data.markets)) {
-          const marketsMap = new Map<number, MarketStreamData>();
-          for (const market of data.markets) {
-            marketsMap.set(market.marketId, {
-              marketId: market.marketId,
-              currentProbability: market.currentProbability,
-              orderBook: market.orderBook,
-            });
-          }
-          setState(prev => ({ ...prev, markets: marketsMap }));
-        }
-      } catch (err) {
-        console.error("Failed to parse SSE data:", err);
-      }
-    };
-
-    eventSource.onerror = () => {
-      setState(prev => ({ ...prev, isConnected: false, error: "Connection lost" }));
-      eventSource.close();
-      
-      const delay = Math.min(1000 * Math.pow(2, reconnectAttemptsRef.current), 30000);
-      reconnectAttemptsRef.current += 1;
-      
-      reconnectTimeoutRef.current = setTimeout(() => {
-        connect();
-      }, delay);
-    };
-  }, []);
+  // Keeps the signed-in user's order, position and margin queries fresh from the same connection
+  useAccountStream();
 
   useEffect(() => {
-    connect();
+    const unsubscribeStatus = onGatewayStatus((connected) => {
+      setState(prev => ({
+        ...prev,
+        isConnected: connected,
+        error: connected ? null : prev.isConnected ? "Connection lost" : prev.error,
+      }));
+    });
+
+    // The snapshot lists every market; updates carry only the markets whose price moved
+    const unsubscribe = subscribeChannel<{ markets: MarketStreamData[] }>("tickers", null, (event) => {
+      setState(prev => {
+        const marketsMap = new Map(event.type === "snapshot" ? [] : prev.markets);
+        for (const market of event.data.markets) {
+          marketsMap.set(market.marketId, {
+            marketId: market.marketId,
+            currentProbability: market.currentProbability,
+          });
+        }
+        return { ...prev, markets: marketsMap };
+      });
+    });
 
     return () => {
-      if (eventSourceRef.current) {
-        eventSourceRef.current.close();
-      }
-      if (reconnectTimeoutRef.current) {
-        clearTimeout(reconnectTimeoutRef.current);
-      }
+      unsubscribe();
+      unsubscribeStatus();
     };
-  }, [connect]);
+  }, []);
 
   const getMarketPrice = useCallback((marketId: number): number | undefined => {
     return state.markets.get(marketId)?.currentProbability;
@@ -1,5 +1,6 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { api, buildUrl, type CreatePositionInput } from "@shared/routes";
+import { api, buildUrl, type CreatePositionInput, type CandleResolution } from "@shared/routes";
+import { useGatewayChannel } from "./use-gateway";
 
 // Cache for CSRF token
 let csrfTokenCache: string | null = null;
@@ -84,6 +85,14 @@ export function useMarkets(category?: string, status?: "active" | "resolved" | "
 }
 
 export function useMarket(id: number) {
+  const queryClient = useQueryClient();
+  // Price changes arrive on the gateway ticker instead of polling
+  useGatewayChannel<{ currentProbability: number }>("ticker", id, (event) => {
+    queryClient.setQueryData<{ currentProbability: number } | null>([api.markets.get.path, id], (market) =>
+      market ? { ...market, currentProbability: event.data.currentProbability } : market
+    );
+  });
+
   return useQuery({
     queryKey: [api.markets.get.path, id],
     queryFn: async () => {
@@ -94,11 +103,19 @@ export function useMarket(id: number) {
       const market = api.markets.get.responses[200].parse(await res.json());
       return normalizeMarketProbability(market);
     },
-    refetchInterval: 2000, // Real-time updates synced with order book
   });
 }
 
 export function useMarketTrades(id: number) {
+  const queryClient = useQueryClient();
+  // Snapshot replaces the list, updates prepend new trades (both newest first)
+  useGatewayChannel("trades", id, (event) => {
+    const incoming = api.markets.trades.responses[200].parse(event.data);
+    queryClient.setQueryData([api.markets.trades.path, id], (trades: typeof incoming | undefined) =>
+      event.type === "snapshot" ? incoming : [...incoming, ...(trades ?? [])].slice(0, 50)
+    );
+  });
+
   return useQuery({
     queryKey: [api.markets.trades.path, id],
     queryFn: async () => {
@@ -107,7 +124,35 @@ export function useMarketTrades(id: number) {
       if (!res.ok) throw new Error("Failed to fetch trades");
       return api.markets.trades.responses[200].parse(await res.json());
     },
-    refetchInterval: 5000, // Real-time feel
+  });
+}
+
+// Predicted funding rate and history; refreshed each minute since rates only change hourly
+export function useMarketFunding(id: number, enabled: boolean = true) {
+  return useQuery({
+    queryKey: [api.markets.funding.path, id],
+    queryFn: async () => {
+      const res = await fetch(buildUrl(api.markets.funding.path, { id }), { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch funding");
+      return api.markets.funding.responses[200].parse(await res.json());
+    },
+    enabled,
+    refetchInterval: 60000,
+  });
+}
+
+// Candles for the default window ending now; pass enabled=false for charts without history
+export function useMarketCandles(id: number, resolution: CandleResolution, enabled: boolean = true) {
+  return useQuery({
+    queryKey: [api.markets.candles.path, id, resolution],
+    queryFn: async () => {
+      const url = `${buildUrl(api.markets.candles.path, { id })}?resolution=${resolution}`;
+      const res = await fetch(url, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch candles");
+      return api.markets.candles.responses[200].parse(await res.json());
+    },
+    enabled,
+    refetchInterval: resolution === "1m" ? 15000 : 60000,
   });
 }
 
@@ -233,6 +278,45 @@ export function usePartialClosePosition() {
   });
 }
 
+// amount > 0 adds margin to an isolated position, amount < 0 takes added margin back out
+export function useAdjustPositionMargin() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ id, amount }: { id: number; amount: number }) => {
+      const csrfToken = await getCsrfToken();
+      const url = buildUrl(api.positions.adjustMargin.path, { id });
+      const res = await fetch(url, { 
+        method: api.positions.adjustMargin.method,
+        headers: { 
+          "Content-Type": "application/json",
+          "x-csrf-token": csrfToken,
+        },
+        body: JSON.stringify({ amount }),
+        credentials: "include" 
+      });
+      
+      if (!res.ok) {
+        if (res.status === 400) {
+          const error = await res.json();
+          throw new Error(error.message || "Invalid margin amount");
+        }
+        if (res.status === 403) {
+          csrfTokenCache = null;
+          throw new Error("Session expired. Please refresh the page.");
+        }
+        throw new Error("Failed to adjust margin");
+      }
+      return api.positions.adjustMargin.responses[200].parse(await res.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.positions.list.path] });
+      queryClient.invalidateQueries({ queryKey: [api.positions.byMarket.path] });
+      queryClient.invalidateQueries({ queryKey: ["/api/portfolio/margin"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+    },
+  });
+}
+
 export function usePositionsByMarket(marketId: number) {
   return useQuery({
     queryKey: [api.positions.byMarket.path, marketId],
@@ -275,7 +359,55 @@ export function useCrossMarginMetrics() {
       if (!res.ok) throw new Error("Failed to fetch margin metrics");
       return res.json();
     },
-    refetchInterval: 2000, // Poll every 2 seconds for live margin updates
+    // Kept current by the gateway "margin" channel (see useAccountStream)
+  });
+}
+
+import type { AccountFees } from "@shared/schema";
+
+export function useAccountFees() {
+  return useQuery<AccountFees | null>({
+    queryKey: ["/api/account/fees"],
+    queryFn: async () => {
+      const res = await fetch("/api/account/fees", { credentials: "include" });
+      if (res.status === 401) return null;
+      if (!res.ok) throw new Error("Failed to fetch fee rates");
+      return res.json();
+    },
+    staleTime: 60000, // Tiers move with 30-day volume; a minute old is fine for previews
+  });
+}
+
+import type { PortfolioSimulationInput } from "@shared/routes";
+
+// Read-only: nothing is opened or changed, so no queries are invalidated
+export function useSimulatePortfolio() {
+  return useMutation({
+    mutationFn: async (input: PortfolioSimulationInput) => {
+      const csrfToken = await getCsrfToken();
+      const res = await fetch(api.portfolio.simulate.path, {
+        method: api.portfolio.simulate.method,
+        headers: {
+          "Content-Type": "application/json",
+          "x-csrf-token": csrfToken,
+        },
+        body: JSON.stringify(input),
+        credentials: "include",
+      });
+
+      if (!res.ok) {
+        if (res.status === 400) {
+          const error = await res.json();
+          throw new Error(error.message || "Invalid scenario");
+        }
+        if (res.status === 403) {
+          csrfTokenCache = null;
+          throw new Error("Session expired. Please refresh the page.");
+        }
+        throw new Error("Failed to run scenario");
+      }
+      return api.portfolio.simulate.responses[200].parse(await res.json());
+    },
   });
 }
 
@@ -353,6 +485,8 @@ export function useCreateCustomCombo() {
 export interface LiveCustomComboResponse extends CustomComboResponse {
   orderBook?: { bids: { price: number; size: number }[]; asks: { price: number; size: number }[] };
   isLive?: boolean;
+  naiveProbability?: number | null; // Legs priced as independent
+  correlatedProbability?: number | null; // Same as impliedProbability while live
 }
 
 export function useLiveCustomCombo(id: number) {
@@ -406,6 +540,7 @@ export interface ComboPositionWithCombo {
   createdAt: Date | string | null;
   closedAt: Date | string | null;
   combo: CustomComboResponse;
+  listing: { id: number; price: number } | null; // Open sale listing, if any
 }
 
 export function useComboPositions() {
@@ -449,21 +584,107 @@ export function useCloseComboPosition() {
   });
 }
 
+import type { ComboExitQuote, ComboListingResponse } from "@shared/schema";
+
+// Early exit quote: mark value at the live combo price less the early exit penalty and fee
+export function useComboExitQuote(positionId: number, enabled: boolean = true) {
+  return useQuery<ComboExitQuote>({
+    queryKey: ["/api/combo-positions", positionId, "quote"],
+    queryFn: async () => {
+      const res = await fetch(`/api/combo-positions/${positionId}/quote`, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch exit quote");
+      return res.json();
+    },
+    enabled,
+    refetchInterval: 5000,
+  });
+}
+
+// Secondary market for open combo positions
+export function useComboListings() {
+  return useQuery<ComboListingResponse[]>({
+    queryKey: ["/api/combo-listings"],
+    queryFn: async () => {
+      const res = await fetch("/api/combo-listings", { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch combo listings");
+      return res.json();
+    },
+    refetchInterval: 5000,
+  });
+}
+
+async function postComboMarket(path: string, body?: object) {
+  const csrfToken = await getCsrfToken();
+  const res = await fetch(path, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", "x-csrf-token": csrfToken },
+    body: body ? JSON.stringify(body) : undefined,
+    credentials: "include",
+  });
+  if (!res.ok) {
+    if (res.status === 403) {
+      csrfTokenCache = null;
+      throw new Error("Session expired. Please refresh the page.");
+    }
+    const error = await res.json();
+    throw new Error(error.message || "Request failed");
+  }
+  return res.json();
+}
+
+function invalidateComboMarket() {
+  queryClient.invalidateQueries({ queryKey: ["/api/combo-listings"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/combo-positions"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+}
+
+export function useListComboPosition() {
+  return useMutation({
+    mutationFn: async ({ positionId, price }: { positionId: number; price: number }) =>
+      postComboMarket(`/api/combo-positions/${positionId}/list`, { price }),
+    onSuccess: invalidateComboMarket,
+  });
+}
+
+export function useCancelComboListing() {
+  return useMutation({
+    mutationFn: async (listingId: number) => postComboMarket(`/api/combo-listings/${listingId}/cancel`),
+    onSuccess: invalidateComboMarket,
+  });
+}
+
+export function useBuyComboListing() {
+  return useMutation({
+    mutationFn: async (listingId: number) => postComboMarket(`/api/combo-listings/${listingId}/buy`),
+    onSuccess: () => {
+      invalidateComboMarket();
+      queryClient.invalidateQueries({ queryKey: [api.portfolio.summary.path] });
+    },
+  });
+}
+
 // ============================================
 // ORDERS (Advanced Order Types)
 // ============================================
 
+import type { MarginMode } from "@shared/schema";
+
 export interface CreateOrderInput {
   marketId: number;
-  orderType: "market" | "limit" | "iceberg" | "twap";
+  orderType: "market" | "limit" | "iceberg" | "twap" | "stop_loss" | "take_profit" | "trailing_stop";
   side: "YES" | "NO";
   totalSize: number;
   leverage?: number;
+  marginMode?: MarginMode;
   visibleSize?: number;
   limitPrice?: number;
   twapDurationMs?: number;
   twapIntervalMs?: number;
   expiresAt?: string;
+  // Protective orders: the position to close and when to close it
+  positionId?: number;
+  triggerPrice?: number;
+  trailingDistance?: number;
 }
 
 export function useCreateOrder() {
@@ -517,7 +738,7 @@ export function useOrdersByMarket(marketId: number) {
       if (!res.ok) throw new Error("Failed to fetch orders");
       return res.json();
     },
-    refetchInterval: 3000,
+    // Refreshed by the gateway "orders" and "fills" channels (see useAccountStream)
   });
 }
 
@@ -549,3 +770,152 @@ export function useCancelOrder() {
     },
   });
 }
+
+// ============================================
+// ORDER GROUPS (OCO / OTO / BRACKET)
+// ============================================
+
+import type { OrderGroup } from "@shared/schema";
+
+export type OrderGroupWithOrders = OrderGroup & { orders: Order[] };
+
+export interface GroupOrderInput {
+  orderType: "stop_loss" | "take_profit" | "trailing_stop";
+  triggerPrice?: number;
+  trailingDistance?: number;
+  totalSize?: number; // oco only; defaults to the full position
+}
+
+export interface CreateOrderGroupInput {
+  groupType: "oco" | "oto" | "bracket";
+  marketId: number;
+  positionId?: number; // oco: the position the orders protect
+  entry?: { side: "YES" | "NO"; totalSize: number; limitPrice: number; leverage?: number; marginMode?: MarginMode }; // oto / bracket
+  orders: GroupOrderInput[];
+  expiresAt?: string;
+}
+
+export function useOrderGroupsByMarket(marketId: number) {
+  return useQuery<OrderGroupWithOrders[]>({
+    queryKey: ["/api/orders/groups/market", marketId],
+    queryFn: async () => {
+      const res = await fetch(`/api/orders/groups/market/${marketId}`, { credentials: "include" });
+      if (res.status === 401) return [];
+      if (!res.ok) throw new Error("Failed to fetch order groups");
+      return res.json();
+    },
+    // Refreshed by the gateway "orders" and "fills" channels (see useAccountStream)
+  });
+}
+
+export function useCreateOrderGroup() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (data: CreateOrderGroupInput) => {
+      const csrfToken = await getCsrfToken();
+      const res = await fetch("/api/orders/groups", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-csrf-token": csrfToken,
+        },
+        body: JSON.stringify(data),
+        credentials: "include",
+      });
+
+      if (!res.ok) {
+        if (res.status === 401) throw new Error("Unauthorized");
+        if (res.status === 403) {
+          csrfTokenCache = null;
+          throw new Error("Session expired. Please refresh the page.");
+        }
+        const error = await res.json();
+        throw new Error(error.message || "Failed to place order group");
+      }
+      return res.json() as Promise<OrderGroupWithOrders>;
+    },
+    onSuccess: (_, variables) => {
+      queryClient.invalidateQueries({ queryKey: [api.positions.list.path] });
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders/market", variables.marketId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders/groups/market", variables.marketId] });
+    },
+  });
+}
+
+export function useCancelOrderGroup() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async ({ groupId, marketId }: { groupId: number; marketId: number }) => {
+      const csrfToken = await getCsrfToken();
+      const res = await fetch(`/api/orders/groups/${groupId}/cancel`, {
+        method: "POST",
+        headers: { "x-csrf-token": csrfToken },
+        credentials: "include",
+      });
+
+      if (!res.ok) {
+        if (res.status === 403) {
+          csrfTokenCache = null;
+          throw new Error("Session expired. Please refresh the page.");
+        }
+        const error = await res.json();
+        throw new Error(error.message || "Failed to cancel order group");
+      }
+      return { ...(await res.json()), marketId };
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/orders/market", data.marketId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders/groups/market", data.marketId] });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+    },
+  });
+}
+
+// ============================================
+// NOTIFICATIONS
+// ============================================
+
+import type { Notification } from "@shared/schema";
+
+export function useNotifications(enabled: boolean = true) {
+  return useQuery<Notification[]>({
+    queryKey: ["/api/account/notifications"],
+    queryFn: async () => {
+      const res = await fetch("/api/account/notifications", { credentials: "include" });
+      if (res.status === 401) return [];
+      if (!res.ok) throw new Error("Failed to fetch notifications");
+      return res.json();
+    },
+    enabled,
+    refetchInterval: 60000,
+  });
+}
+
+export function useMarkNotificationsRead() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async () => {
+      const csrfToken = await getCsrfToken();
+      const res = await fetch("/api/account/notifications/read", {
+        method: "POST",
+        headers: { "x-csrf-token": csrfToken },
+        credentials: "include",
+      });
+
+      if (!res.ok) {
+        if (res.status === 403) {
+          csrfTokenCache = null;
+          throw new Error("Session expired. Please refresh the page.");
+        }
+        const error = await res.json();
+        throw new Error(error.message || "Failed to mark notifications read");
+      }
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/account/notifications"] });
+    },
+  });
+}
@@ -0,0 +1,158 @@
+import { GATEWAY_PATH, type GatewayChannel, type GatewayClientMessage, type GatewayServerMessage } from "@shared/routes";
+
+// Single shared WebSocket connection to the server gateway. Components subscribe to a channel
+// (and market/combo id) with a handler; the connection opens on the first subscription,
+// reconnects with backoff and resubscribes everything, and resyncs a topic from a fresh
+// snapshot whenever its sequence numbers skip.
+
+export interface GatewayEvent<T = unknown> {
+  type: "snapshot" | "update";
+  data: T;
+}
+
+type Handler = (event: GatewayEvent<any>) => void;
+
+interface Subscription {
+  channel: GatewayChannel;
+  key: number | null;
+  handlers: Set<Handler>;
+  seq: number | null; // null until the snapshot arrives
+}
+
+const subscriptions = new Map<string, Subscription>();
+const statusListeners = new Set<(connected: boolean) => void>();
+let socket: WebSocket | null = null;
+let isConnected = false;
+let reconnectAttempts = 0;
+let reconnectTimeout: ReturnType<typeof setTimeout> | null = null;
+
+function topicId(channel: GatewayChannel, key: number | null): string {
+  return `${channel}:${key ?? ""}`;
+}
+
+function setConnected(connected: boolean) {
+  isConnected = connected;
+  statusListeners.forEach((listener) => listener(connected));
+}
+
+function sendMessage(message: GatewayClientMessage) {
+  if (socket?.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+}
+
+function requestSnapshot(sub: Subscription) {
+  sub.seq = null;
+  sendMessage({ op: "subscribe", channel: sub.channel, key: sub.key });
+}
+
+function handleMessage(message: GatewayServerMessage) {
+  if (message.type === "pong") return;
+  if (message.type === "error") {
+    console.warn(`[gateway] ${message.channel ?? "request"}: ${message.message}`);
+    return;
+  }
+
+  const sub = subscriptions.get(topicId(message.channel, message.key));
+  if (!sub) return;
+
+  if (message.type === "snapshot") {
+    sub.seq = message.seq;
+  } else {
+    if (sub.seq === null) return; // Waiting for the snapshot that this update builds on
+    if (message.seq !== sub.seq + 1) {
+      requestSnapshot(sub);
+      return;
+    }
+    sub.seq = message.seq;
+  }
+
+  const event: GatewayEvent = { type: message.type, data: message.data };
+  sub.handlers.forEach((handler) => handler(event));
+}
+
+function connect() {
+  if (socket) return;
+
+  const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+  const ws = new WebSocket(`${protocol}//${window.location.host}${GATEWAY_PATH}`);
+  socket = ws;
+
+  ws.onopen = () => {
+    reconnectAttempts = 0;
+    setConnected(true);
+    subscriptions.forEach((sub) => requestSnapshot(sub));
+  };
+
+  ws.onmessage = (event) => {
+    try {
+      handleMessage(JSON.parse(event.data));
+    } catch (err) {
+      console.error("Failed to parse gateway message:", err);
+    }
+  };
+
+  ws.onclose = () => {
+    if (socket !== ws) return;
+    socket = null;
+    setConnected(false);
+    if (subscriptions.size === 0) return;
+
+    const delay = Math.min(1000 * Math.pow(2, reconnectAttempts), 30000);
+    reconnectAttempts += 1;
+    reconnectTimeout = setTimeout(() => {
+      reconnectTimeout = null;
+      connect();
+    }, delay);
+  };
+}
+
+export function subscribeChannel<T = unknown>(
+  channel: GatewayChannel,
+  key: number | null,
+  handler: (event: GatewayEvent<T>) => void
+): () => void {
+  const id = topicId(channel, key);
+  let sub = subscriptions.get(id);
+  if (!sub) {
+    sub = { channel, key, handlers: new Set(), seq: null };
+    subscriptions.set(id, sub);
+    requestSnapshot(sub);
+  } else if (sub.seq !== null) {
+    // Late joiners need the full state too, not just the next update
+    requestSnapshot(sub);
+  }
+  sub.handlers.add(handler);
+  connect();
+
+  return () => {
+    const current = subscriptions.get(id);
+    if (!current) return;
+    current.handlers.delete(handler);
+    if (current.handlers.size === 0) {
+      subscriptions.delete(id);
+      sendMessage({ op: "unsubscribe", channel, key });
+    }
+  };
+}
+
+export function onGatewayStatus(listener: (connected: boolean) => void): () => void {
+  statusListeners.add(listener);
+  listener(isConnected);
+  return () => {
+    statusListeners.delete(listener);
+  };
+}
+
+// The server reads the session when the socket opens, so login and logout need a new connection
+export function reconnectGateway() {
+  if (reconnectTimeout) {
+    clearTimeout(reconnectTimeout);
+    reconnectTimeout = null;
+  }
+  const ws = socket;
+  socket = null;
+  ws?.close();
+  setConnected(false);
+  if (subscriptions.size > 0) connect();
+}
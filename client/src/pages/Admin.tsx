@@ -2,7 +2,7 @@ import { useState, useEffect } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Lock, Users, TrendingUp, Activity, DollarSign, Eye, Coins, BarChart3, Target, Percent } from "lucide-react";
+import { Lock, Users, TrendingUp, Activity, DollarSign, Eye, Coins, BarChart3, Target, Percent, Shield, Layers, Gavel } from "lucide-react";
 
 interface AdminStats {
   summary: {
@@ -28,6 +28,7 @@ interface AdminStats {
     dailyTraders: number;
     tradesToday: number;
     platformEdge: number;
+    protocolFees: number;
     topMarketName: string;
     totalReferrals: number;
     totalReferralStlr: number;
@@ -59,6 +60,20 @@ interface AdminStats {
     probability: number;
     volume: number;
     status: string;
+    statusReason: string | null;
+    priceSource: string;
+    priceSourceConfig: string | null;
+    riskParams: {
+      maxLeverage: number;
+      maintenanceFactor: number;
+      minPositionSize: number;
+      maxPositionSize: number;
+      maxOpenInterest: number | null;
+      maxOpenPositionsPerUser: number;
+      priceBandMin: number;
+      priceBandMax: number;
+      isDefault: boolean;
+    };
   }>;
   referrals: Array<{
     wallet: string;
@@ -68,8 +83,92 @@ interface AdminStats {
     stlr: number;
     balance: number;
   }>;
+  ledger: {
+    ranAt: string;
+    usersChecked: number;
+    mismatches: Array<{
+      userId: string;
+      walletAddress: string | null;
+      balance: number;
+      ledgerBalance: number;
+      difference: number;
+    }>;
+    unbalancedTransactions: Array<{ transactionId: string; total: number }>;
+  } | null;
+  insurance: {
+    balance: number;
+    events: Array<{
+      id: number;
+      eventType: "liquidation_penalty" | "shortfall_covered" | "shortfall_uncovered" | "auto_deleverage" | "deposit";
+      amount: number;
+      fundBalanceAfter: number;
+      positionId: number | null;
+      userId: string | null;
+      marketId: number | null;
+      details: Record<string, unknown> | null;
+      createdAt: string;
+    }>;
+  };
+  correlations: Array<{
+    marketIdA: number;
+    marketIdB: number;
+    correlation: number;
+    estimated: number | null;
+    override: number | null;
+    observations: number;
+  }>;
+  curatedCombos: Array<{
+    id: number;
+    name: string;
+    probability: number;
+    multiplier: number;
+    openInterest: number;
+    legs: Array<{ marketId: number; marketName: string; side: "YES" | "NO"; probability: number }>;
+    expiry: string;
+    status: string;
+    isTradable: boolean;
+    retiredAt: string | null;
+  }>;
+  earlyExitCurve: { maxPenaltyBps: number; minPenaltyBps: number; exponent: number };
+  marketReview: ReviewMarket[];
+  disputedMarkets: ReviewMarket[];
+}
+
+// Permissionless market as listed in the review queue and dispute list
+interface ReviewMarket {
+  id: number;
+  question: string;
+  category: string;
+  creator: string | null;
+  resolutionDate: string;
+  createdAt: string | null;
+  proposedOutcome: boolean | null;
+  proposedBy: string | null;
+  disputedBy: string | null;
+  disputedAt: string | null;
 }
 
+const INSURANCE_EVENT_COLORS: Record<string, string> = {
+  liquidation_penalty: "text-green-500",
+  deposit: "text-green-500",
+  shortfall_covered: "text-[#ffaa00]",
+  auto_deleverage: "text-red-500",
+  shortfall_uncovered: "text-red-500",
+};
+
+const PRICE_SOURCES = ["random_walk", "replay", "trade_driven", "external_feed"];
+const ADMIN_MARKET_STATUSES = ["active", "halted", "close_only"];
+const RESOLVABLE_MARKET_STATUSES = ["active", "halted", "close_only", "awaiting_resolution"];
+const MARKET_STATUS_REASONS = ["news_pending", "price_anomaly", "oracle_issue", "technical_issue", "regulatory", "other"];
+
+// Starting settings offered when switching a market to each price source
+const PRICE_SOURCE_TEMPLATES: Record<string, string> = {
+  random_walk: "{}",
+  replay: '{"file":"example.csv","loop":true}',
+  trade_driven: '{"impactPer1000":0.1}',
+  external_feed: '{"url":"http://127.0.0.1:5055/markets/1","field":"price"}',
+};
+
 function formatNumber(num: number): string {
   if (num >= 1000000) return `${(num / 1000000).toFixed(1)}M`;
   if (num >= 1000) return `${(num / 1000).toFixed(1)}K`;
@@ -81,7 +180,7 @@ export default function Admin() {
   const [stats, setStats] = useState<AdminStats | null>(null);
   const [error, setError] = useState("");
   const [loading, setLoading] = useState(false);
-  const [activeTab, setActiveTab] = useState<'users' | 'trades' | 'markets' | 'referrals'>('users');
+  const [activeTab, setActiveTab] = useState<'users' | 'trades' | 'markets' | 'referrals' | 'insurance' | 'correlations' | 'combos' | 'review'>('users');
   
   // Set balance form state
   const [balanceWallet, setBalanceWallet] = useState("");
@@ -202,6 +301,293 @@ export default function Admin() {
     setStlrLoading(false);
   };
 
+  const handleReconcileLedger = async () => {
+    try {
+      const res = await fetch("/api/admin/ledger/reconcile", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ password }),
+      });
+      const data = await res.json();
+      alert(data.message || "Failed to reconcile ledger");
+      fetchStats();
+    } catch {
+      alert("Error reconciling ledger");
+    }
+  };
+
+  const handleResolveMarket = async (marketId: number, question: string, outcome: boolean) => {
+    if (!confirm(`Resolve #${marketId} "${question}" to ${outcome ? "YES" : "NO"}? All open positions will be settled and orders cancelled.`)) {
+      return;
+    }
+    try {
+      const res = await fetch("/api/admin/resolve-market", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ password, marketId, outcome }),
+      });
+      const data = await res.json();
+      alert(data.message || "Failed to resolve market");
+      fetchStats();
+    } catch {
+      alert("Error resolving market");
+    }
+  };
+
+  const handleCancelMarket = async (marketId: number, question: string) => {
+    if (!confirm(`Cancel #${marketId} "${question}"? Open positions are refunded at entry, orders cancelled, combo legs voided and affected users notified.`)) {
+      return;
+    }
+    const unwindRealizedPnl = confirm("Also unwind PnL already realized on closed positions in this market? (Cancel = keep it)");
+    try {
+      const res = await fetch("/api/admin/cancel-market", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ password, marketId, unwindRealizedPnl }),
+      });
+      const data = await res.json();
+      alert(data.message || "Failed to cancel market");
+      fetchStats();
+    } catch {
+      alert("Error canceling market");
+    }
+  };
+
+  // Halting and close-only ask for a reason code; resuming clears it
+  const handleSetMarketStatus = async (marketId: number, status: string) => {
+    let reason: string | undefined;
+    if (status !== "active") {
+      const input = prompt(`Reason for setting market #${marketId} ${status} (${MARKET_STATUS_REASONS.join(", ")}):`, "news_pending");
+      if (input === null) return;
+      reason = input.trim();
+    }
+    try {
+      const res = await fetch("/api/admin/set-market-status", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ password, marketId, status, reason }),
+      });
+      const data = await res.json();
+      alert(data.message || "Failed to set market status");
+      fetchStats();
+    } catch {
+      alert("Error setting market status");
+    }
+  };
+
+  const handleSetPriceSource = async (marketId: number, priceSource: string) => {
+    let config = {};
+    if (priceSource !== "random_walk") {
+      const input = prompt(`Settings (JSON) for ${priceSource} on market #${marketId}:`, PRICE_SOURCE_TEMPLATES[priceSource]);
+      if (input === null) return;
+      try {
+        config = JSON.parse(input);
+      } catch {
+        alert("Settings must be valid JSON");
+        return;
+      }
+    }
+    try {
+      const res = await fetch("/api/admin/set-price-source", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ password, marketId, priceSource, config }),
+      });
+      const data = await res.json();
+      alert(data.message || "Failed to set price source");
+      fetchStats();
+    } catch {
+      alert("Error setting price source");
+    }
+  };
+
+  // Edits the market's risk limits as JSON; "default" drops its overrides
+  const handleSetRiskParams = async (market: AdminStats["markets"][number]) => {
+    const { isDefault, ...current } = market.riskParams;
+    const input = prompt(
+      `Risk parameters (JSON) for market #${market.id}. Enter "default" to reset:`,
+      JSON.stringify(current)
+    );
+    if (input === null) return;
+    let body: Record<string, unknown>;
+    if (input.trim() === "default") {
+      body = { password, marketId: market.id, reset: true };
+    } else {
+      try {
+        body = { password, marketId: market.id, params: JSON.parse(input) };
+      } catch {
+        alert("Risk parameters must be valid JSON");
+        return;
+      }
+    }
+    try {
+      const res = await fetch("/api/admin/set-risk-params", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json();
+      alert(data.message || "Failed to set risk parameters");
+      fetchStats();
+    } catch {
+      alert("Error setting risk parameters");
+    }
+  };
+
+  // Overrides a market pair's combo pricing correlation; "estimate" drops the override
+  const handleSetCorrelation = async (pair?: { marketIdA: number; marketIdB: number; correlation: number }) => {
+    let marketIdA = pair?.marketIdA;
+    let marketIdB = pair?.marketIdB;
+    if (!pair) {
+      const ids = prompt("Market IDs of the pair (e.g. 12,34):");
+      if (ids === null) return;
+      [marketIdA, marketIdB] = ids.split(",").map((id) => parseInt(id.trim(), 10));
+    }
+    const input = prompt(
+      `Correlation (-1 to 1) for markets #${marketIdA} and #${marketIdB}. Enter "estimate" to drop the override:`,
+      pair ? String(pair.correlation) : "0"
+    );
+    if (input === null) return;
+    const body = input.trim() === "estimate"
+      ? { password, marketIdA, marketIdB, reset: true }
+      : { password, marketIdA, marketIdB, correlation: parseFloat(input) };
+    try {
+      const res = await fetch("/api/admin/set-correlation", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json();
+      alert(data.message || "Failed to set correlation");
+      fetchStats();
+    } catch {
+      alert("Error setting correlation");
+    }
+  };
+
+  // Legs are entered as marketId:side pairs, e.g. "2:YES, 11:NO"
+  const handleCreateCuratedCombo = async () => {
+    const name = prompt("Combo name:");
+    if (!name) return;
+    const legsInput = prompt('Legs as marketId:side, comma separated (e.g. "2:YES, 11:NO"):');
+    if (!legsInput) return;
+    const expiresAt = prompt("Expiry date (YYYY-MM-DD, UTC):");
+    if (!expiresAt) return;
+    const legs = legsInput.split(",").map((leg) => {
+      const [marketId, side] = leg.split(":").map((part) => part.trim());
+      return { marketId: parseInt(marketId, 10), side: (side || "YES").toUpperCase() };
+    });
+    try {
+      const res = await fetch("/api/admin/curated-combos/create", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ password, name, legs, expiresAt }),
+      });
+      const data = await res.json();
+      alert(data.message || "Failed to create combo");
+      fetchStats();
+    } catch {
+      alert("Error creating combo");
+    }
+  };
+
+  const handleRetireCuratedCombo = async (comboId: number, name: string) => {
+    if (!confirm(`Retire "${name}"? It leaves the combo listing and takes no new positions; open positions are kept.`)) return;
+    try {
+      const res = await fetch("/api/admin/curated-combos/retire", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ password, comboId }),
+      });
+      const data = await res.json();
+      alert(data.message || "Failed to retire combo");
+      fetchStats();
+    } catch {
+      alert("Error retiring combo");
+    }
+  };
+
+  const handleReviewMarket = async (market: ReviewMarket, approve: boolean) => {
+    let slashBond = false;
+    if (approve) {
+      if (!confirm(`Approve #${market.id} "${market.question}"? It starts trading immediately.`)) return;
+    } else {
+      if (!confirm(`Reject #${market.id} "${market.question}"? The market is canceled.`)) return;
+      slashBond = confirm("Slash the creation bond to the house? Cancel refunds it to the creator instead.");
+    }
+    try {
+      const res = await fetch("/api/admin/review-market", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ password, marketId: market.id, approve, slashBond }),
+      });
+      const data = await res.json();
+      alert(data.message || "Failed to review market");
+      fetchStats();
+    } catch {
+      alert("Error reviewing market");
+    }
+  };
+
+  const handleResolveDispute = async (market: ReviewMarket, outcome: boolean) => {
+    const upheld = market.proposedOutcome === outcome;
+    if (!confirm(`Resolve #${market.id} to ${outcome ? "YES" : "NO"}? The proposal is ${upheld ? "upheld and the disputer's" : "overturned and the proposer's"} bond is slashed to the other side.`)) {
+      return;
+    }
+    try {
+      const res = await fetch("/api/admin/resolve-dispute", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ password, marketId: market.id, outcome }),
+      });
+      const data = await res.json();
+      alert(data.message || "Failed to resolve dispute");
+      fetchStats();
+    } catch {
+      alert("Error resolving dispute");
+    }
+  };
+
+  // Penalty on closing combo positions early: max bps at open, min bps at the lock date
+  const handleSetEarlyExitCurve = async () => {
+    const current = stats?.earlyExitCurve;
+    const input = prompt(
+      "Early exit penalty as maxBps,minBps,exponent (e.g. 500,50,1):",
+      current ? `${current.maxPenaltyBps},${current.minPenaltyBps},${current.exponent}` : ""
+    );
+    if (input === null) return;
+    const [maxPenaltyBps, minPenaltyBps, exponent] = input.split(",").map((v) => parseFloat(v.trim()));
+    try {
+      const res = await fetch("/api/admin/set-early-exit-curve", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ password, maxPenaltyBps, minPenaltyBps, exponent }),
+      });
+      const data = await res.json();
+      alert(data.message || "Failed to set early exit curve");
+      fetchStats();
+    } catch {
+      alert("Error setting early exit curve");
+    }
+  };
+
+  const handleInsuranceDeposit = async () => {
+    const input = prompt("Amount (USD) to move from platform equity into the insurance fund:");
+    if (input === null) return;
+    try {
+      const res = await fetch("/api/admin/insurance/deposit", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ password, amount: parseFloat(input) }),
+      });
+      const data = await res.json();
+      alert(data.message || "Failed to deposit");
+      fetchStats();
+    } catch {
+      alert("Error depositing into the insurance fund");
+    }
+  };
+
   const copyWalletToClipboard = async (wallet: string) => {
     try {
       await navigator.clipboard.writeText(wallet);
@@ -394,6 +780,59 @@ export default function Admin() {
           </Card>
         </div>
         
+        {stats.ledger && (
+          <Card className={`bg-black border ${stats.ledger.mismatches.length > 0 || stats.ledger.unbalancedTransactions.length > 0 ? 'border-red-500/50' : 'border-[#66ff66]/30'}`}>
+            <CardContent className="p-3 space-y-2">
+              <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                <span className="text-[#66ff66]" data-testid="text-ledger-status">
+                  LEDGER:{' '}
+                  {stats.ledger.mismatches.length === 0 && stats.ledger.unbalancedTransactions.length === 0 ? (
+                    <span className="text-green-500">OK</span>
+                  ) : (
+                    <span className="text-red-500">
+                      {stats.ledger.mismatches.length} MISMATCHES, {stats.ledger.unbalancedTransactions.length} UNBALANCED TX
+                    </span>
+                  )}
+                  <span className="text-[#66ff66]/50 ml-2 text-xs">
+                    {stats.ledger.usersChecked} accounts, checked {new Date(stats.ledger.ranAt).toLocaleString()}
+                  </span>
+                </span>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={handleReconcileLedger}
+                  className="text-[#66ff66] border border-[#66ff66]/50"
+                  data-testid="button-reconcile-ledger"
+                >
+                  RECONCILE
+                </Button>
+              </div>
+              {stats.ledger.mismatches.length > 0 && (
+                <table className="w-full text-xs">
+                  <thead className="text-[#66ff66]/70 border-b border-[#66ff66]/20">
+                    <tr>
+                      <th className="text-left py-1">WALLET</th>
+                      <th className="text-right">BALANCE</th>
+                      <th className="text-right">LEDGER</th>
+                      <th className="text-right">DIFF</th>
+                    </tr>
+                  </thead>
+                  <tbody className="text-[#88ffff]">
+                    {stats.ledger.mismatches.slice(0, 20).map((m) => (
+                      <tr key={m.userId} className="border-b border-[#66ff66]/10" data-testid={`row-ledger-mismatch-${m.userId}`}>
+                        <td className="py-1 text-[#66ff66]">{m.walletAddress ? `${m.walletAddress.slice(0, 10)}...` : m.userId}</td>
+                        <td className="text-right">${m.balance.toLocaleString()}</td>
+                        <td className="text-right">${m.ledgerBalance.toLocaleString()}</td>
+                        <td className="text-right text-red-500">{m.difference > 0 ? '+' : ''}{m.difference.toLocaleString()}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
         {copiedWallet && (
           <div className="fixed bottom-4 right-4 bg-[#66ff66] text-black px-4 py-2 rounded font-mono text-sm z-50">
             Copied: {copiedWallet.slice(0, 10)}...
@@ -512,7 +951,11 @@ export default function Admin() {
             <span className="text-[#88ffff]">{stats.summary.tradesToday}</span>
             <span className="text-[#66ff66]/50 ml-1">trades today</span>
           </div>
-          <div className="bg-black/50 border border-[#66ff66]/20 p-2 rounded col-span-2">
+          <div className="bg-black/50 border border-[#66ff66]/20 p-2 rounded" data-testid="text-protocol-fees">
+            <span className="text-green-500">${formatNumber(stats.summary.protocolFees)}</span>
+            <span className="text-[#66ff66]/50 ml-1">fees collected</span>
+          </div>
+          <div className="bg-black/50 border border-[#66ff66]/20 p-2 rounded">
             <span className="text-[#ffaa00]">{stats.summary.topMarketName}</span>
             <span className="text-[#66ff66]/50 ml-1">top market</span>
           </div>
@@ -552,6 +995,42 @@ export default function Admin() {
           >
             <Target className="w-4 h-4 mr-1" /> Referrals ({stats.referrals?.length || 0})
           </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setActiveTab('insurance')}
+            className={activeTab === 'insurance' ? 'text-[#ffaa00] bg-[#ffaa00]/10' : 'text-[#ffaa00]/50'}
+            data-testid="button-tab-insurance"
+          >
+            <Shield className="w-4 h-4 mr-1" /> Insurance (${formatNumber(stats.insurance.balance)})
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setActiveTab('correlations')}
+            className={activeTab === 'correlations' ? 'text-[#88ffff] bg-[#88ffff]/10' : 'text-[#88ffff]/50'}
+            data-testid="button-tab-correlations"
+          >
+            <Percent className="w-4 h-4 mr-1" /> Correlations ({stats.correlations.length})
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setActiveTab('combos')}
+            className={activeTab === 'combos' ? 'text-[#ff88ff] bg-[#ff88ff]/10' : 'text-[#ff88ff]/50'}
+            data-testid="button-tab-combos"
+          >
+            <Layers className="w-4 h-4 mr-1" /> Combos ({stats.curatedCombos.filter((c) => c.isTradable).length})
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setActiveTab('review')}
+            className={activeTab === 'review' ? 'text-[#ffaa00] bg-[#ffaa00]/10' : 'text-[#ffaa00]/50'}
+            data-testid="button-tab-review"
+          >
+            <Gavel className="w-4 h-4 mr-1" /> Review ({stats.marketReview.length + stats.disputedMarkets.length})
+          </Button>
         </div>
 
         {activeTab === 'users' && (
@@ -619,6 +1098,9 @@ export default function Admin() {
                       <th className="text-right">PROB</th>
                       <th className="text-right hidden md:table-cell">VOL</th>
                       <th className="text-right">STATUS</th>
+                      <th className="text-right hidden md:table-cell">PRICE SRC</th>
+                      <th className="text-right hidden md:table-cell">RISK</th>
+                      <th className="text-right">RESOLVE</th>
                     </tr>
                   </thead>
                   <tbody className="text-[#88ffff]">
@@ -629,8 +1111,76 @@ export default function Admin() {
                         <td className="text-right hidden md:table-cell text-[#ffaa00]">{m.category}</td>
                         <td className="text-right">{m.probability}%</td>
                         <td className="text-right hidden md:table-cell">${formatNumber(m.volume || 0)}</td>
-                        <td className={`text-right ${m.status === 'active' ? 'text-green-500' : 'text-[#66ff66]/50'}`}>
-                          {m.status?.toUpperCase()}
+                        <td className={`text-right ${m.status === 'active' ? 'text-green-500' : m.status === 'halted' || m.status === 'close_only' ? 'text-[#ffaa00]' : 'text-[#66ff66]/50'}`}>
+                          {ADMIN_MARKET_STATUSES.includes(m.status) ? (
+                            <select
+                              value={m.status}
+                              onChange={(e) => handleSetMarketStatus(m.id, e.target.value)}
+                              className="bg-black border border-[#66ff66]/30 text-xs px-1 py-0.5"
+                              title={m.statusReason || undefined}
+                              data-testid={`select-admin-market-status-${m.id}`}
+                            >
+                              {ADMIN_MARKET_STATUSES.map((status) => (
+                                <option key={status} value={status}>{status.toUpperCase()}</option>
+                              ))}
+                            </select>
+                          ) : (
+                            m.status?.toUpperCase()
+                          )}
+                        </td>
+                        <td className="text-right hidden md:table-cell">
+                          {m.status === 'active' ? (
+                            <select
+                              value={m.priceSource}
+                              onChange={(e) => handleSetPriceSource(m.id, e.target.value)}
+                              className="bg-black border border-[#66ff66]/30 text-[#88ffff] text-xs px-1 py-0.5"
+                              title={m.priceSourceConfig || undefined}
+                              data-testid={`select-admin-price-source-${m.id}`}
+                            >
+                              {PRICE_SOURCES.map((source) => (
+                                <option key={source} value={source}>{source}</option>
+                              ))}
+                            </select>
+                          ) : (
+                            <span className="text-[#66ff66]/50">{m.priceSource}</span>
+                          )}
+                        </td>
+                        <td className="text-right hidden md:table-cell whitespace-nowrap">
+                          <button
+                            onClick={() => handleSetRiskParams(m)}
+                            className={`hover:underline ${m.riskParams.isDefault ? 'text-[#66ff66]/50' : 'text-[#ffaa00]'}`}
+                            title={`Maintenance ${m.riskParams.maintenanceFactor}, size $${m.riskParams.minPositionSize}-$${formatNumber(m.riskParams.maxPositionSize)}, OI cap ${m.riskParams.maxOpenInterest === null ? 'none' : `$${formatNumber(m.riskParams.maxOpenInterest)}`}, band ${m.riskParams.priceBandMin}-${m.riskParams.priceBandMax}%`}
+                            data-testid={`button-admin-risk-params-${m.id}`}
+                          >
+                            {m.riskParams.maxLeverage}x{m.riskParams.isDefault ? '' : ' *'}
+                          </button>
+                        </td>
+                        <td className="text-right whitespace-nowrap">
+                          {RESOLVABLE_MARKET_STATUSES.includes(m.status) && (
+                            <>
+                              <button
+                                onClick={() => handleResolveMarket(m.id, m.question, true)}
+                                className="text-green-500 hover:underline mr-2"
+                                data-testid={`button-admin-resolve-yes-${m.id}`}
+                              >
+                                YES
+                              </button>
+                              <button
+                                onClick={() => handleResolveMarket(m.id, m.question, false)}
+                                className="text-red-500 hover:underline mr-2"
+                                data-testid={`button-admin-resolve-no-${m.id}`}
+                              >
+                                NO
+                              </button>
+                              <button
+                                onClick={() => handleCancelMarket(m.id, m.question)}
+                                className="text-[#66ff66]/50 hover:underline"
+                                data-testid={`button-admin-cancel-${m.id}`}
+                              >
+                                VOID
+                              </button>
+                            </>
+                          )}
                         </td>
                       </tr>
                     ))}
@@ -693,6 +1243,277 @@ export default function Admin() {
             </CardContent>
           </Card>
         )}
+
+        {activeTab === 'insurance' && (
+          <Card className="bg-black border border-[#ffaa00]/30">
+            <CardContent className="p-2 md:p-4">
+              <div className="mb-4 flex flex-wrap items-center justify-between gap-2">
+                <div className="bg-black/50 border border-[#ffaa00]/20 p-3 rounded text-center min-w-[160px]">
+                  <span className={`text-2xl ${stats.insurance.balance > 0 ? 'text-[#ffaa00]' : 'text-red-500'}`} data-testid="text-insurance-balance">
+                    ${stats.insurance.balance.toLocaleString(undefined, { maximumFractionDigits: 2 })}
+                  </span>
+                  <p className="text-xs text-[#66ff66]/50 mt-1">Insurance Fund</p>
+                </div>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={handleInsuranceDeposit}
+                  className="text-[#ffaa00] border border-[#ffaa00]/50"
+                  data-testid="button-insurance-deposit"
+                >
+                  DEPOSIT
+                </Button>
+              </div>
+              <div className="overflow-x-auto max-h-[50vh] overflow-y-auto">
+                <table className="w-full text-xs md:text-sm">
+                  <thead className="text-[#ffaa00]/70 border-b border-[#ffaa00]/20 sticky top-0 bg-black">
+                    <tr>
+                      <th className="text-left py-2">TIME</th>
+                      <th className="text-left">EVENT</th>
+                      <th className="text-right">AMOUNT</th>
+                      <th className="text-right">FUND AFTER</th>
+                      <th className="text-right hidden md:table-cell">POSITION</th>
+                      <th className="text-right hidden md:table-cell">MARKET</th>
+                      <th className="text-left hidden lg:table-cell pl-4">DETAILS</th>
+                    </tr>
+                  </thead>
+                  <tbody className="text-[#88ffff]">
+                    {stats.insurance.events.map((e) => (
+                      <tr key={e.id} className="border-b border-[#ffaa00]/10" data-testid={`row-insurance-event-${e.id}`}>
+                        <td className="py-2 text-[#66ff66]/70">{new Date(e.createdAt).toLocaleString()}</td>
+                        <td className={INSURANCE_EVENT_COLORS[e.eventType]}>{e.eventType.replace(/_/g, ' ').toUpperCase()}</td>
+                        <td className="text-right">${e.amount.toLocaleString(undefined, { maximumFractionDigits: 2 })}</td>
+                        <td className="text-right">${e.fundBalanceAfter.toLocaleString(undefined, { maximumFractionDigits: 2 })}</td>
+                        <td className="text-right hidden md:table-cell">{e.positionId ?? '-'}</td>
+                        <td className="text-right hidden md:table-cell">{e.marketId ?? '-'}</td>
+                        <td className="hidden lg:table-cell pl-4 text-[#66ff66]/50 truncate max-w-[300px]" title={e.details ? JSON.stringify(e.details) : ''}>
+                          {e.details ? JSON.stringify(e.details) : ''}
+                        </td>
+                      </tr>
+                    ))}
+                    {stats.insurance.events.length === 0 && (
+                      <tr><td colSpan={7} className="text-center py-8 text-[#ffaa00]/50">No insurance fund activity yet</td></tr>
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {activeTab === 'correlations' && (
+          <Card className="bg-black border border-[#88ffff]/30">
+            <CardContent className="p-2 md:p-4">
+              <div className="mb-4 flex flex-wrap items-center justify-between gap-2">
+                <p className="text-xs text-[#66ff66]/50">
+                  Combo pricing correlations for market pairs in active combos, estimated from hourly price history. Click a pair to override it.
+                </p>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => handleSetCorrelation()}
+                  className="text-[#88ffff] border border-[#88ffff]/50"
+                  data-testid="button-add-correlation"
+                >
+                  OVERRIDE PAIR
+                </Button>
+              </div>
+              <div className="overflow-x-auto max-h-[50vh] overflow-y-auto">
+                <table className="w-full text-xs md:text-sm">
+                  <thead className="text-[#88ffff]/70 border-b border-[#88ffff]/20 sticky top-0 bg-black">
+                    <tr>
+                      <th className="text-left py-2">MARKETS</th>
+                      <th className="text-right">USED</th>
+                      <th className="text-right">ESTIMATED</th>
+                      <th className="text-right">OVERRIDE</th>
+                      <th className="text-right hidden md:table-cell">HOURS</th>
+                    </tr>
+                  </thead>
+                  <tbody className="text-[#88ffff]">
+                    {stats.correlations.map((c) => (
+                      <tr
+                        key={`${c.marketIdA}:${c.marketIdB}`}
+                        className="border-b border-[#88ffff]/10 cursor-pointer hover:bg-[#88ffff]/5"
+                        onClick={() => handleSetCorrelation(c)}
+                        data-testid={`row-correlation-${c.marketIdA}-${c.marketIdB}`}
+                      >
+                        <td className="py-2 text-[#66ff66]/70">#{c.marketIdA} / #{c.marketIdB}</td>
+                        <td className={`text-right ${c.override !== null ? 'text-[#ffaa00]' : ''}`}>{c.correlation.toFixed(2)}</td>
+                        <td className="text-right">{c.estimated === null ? '-' : c.estimated.toFixed(2)}</td>
+                        <td className="text-right">{c.override === null ? '-' : c.override.toFixed(2)}</td>
+                        <td className="text-right hidden md:table-cell">{c.observations}</td>
+                      </tr>
+                    ))}
+                    {stats.correlations.length === 0 && (
+                      <tr><td colSpan={5} className="text-center py-8 text-[#88ffff]/50">No market pairs in active combos yet</td></tr>
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {activeTab === 'combos' && (
+          <Card className="bg-black border border-[#ff88ff]/30">
+            <CardContent className="p-2 md:p-4">
+              <div className="mb-4 flex flex-wrap items-center justify-between gap-2">
+                <p className="text-xs text-[#66ff66]/50">
+                  Curated combos listed on the Combos page, priced live from their legs. Past expiry they are retired automatically.
+                </p>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={handleSetEarlyExitCurve}
+                  className="text-[#ff88ff] border border-[#ff88ff]/50 ml-auto"
+                  data-testid="button-set-early-exit-curve"
+                >
+                  EXIT PENALTY {stats.earlyExitCurve.maxPenaltyBps}-{stats.earlyExitCurve.minPenaltyBps} BPS
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={handleCreateCuratedCombo}
+                  className="text-[#ff88ff] border border-[#ff88ff]/50"
+                  data-testid="button-create-curated-combo"
+                >
+                  NEW COMBO
+                </Button>
+              </div>
+              <div className="overflow-x-auto max-h-[50vh] overflow-y-auto">
+                <table className="w-full text-xs md:text-sm">
+                  <thead className="text-[#ff88ff]/70 border-b border-[#ff88ff]/20 sticky top-0 bg-black">
+                    <tr>
+                      <th className="text-left py-2">COMBO</th>
+                      <th className="text-left hidden md:table-cell">LEGS</th>
+                      <th className="text-right">PROB</th>
+                      <th className="text-right hidden md:table-cell">OI</th>
+                      <th className="text-right">EXPIRY</th>
+                      <th className="text-right">STATUS</th>
+                      <th className="text-right"></th>
+                    </tr>
+                  </thead>
+                  <tbody className="text-[#ff88ff]">
+                    {stats.curatedCombos.map((c) => (
+                      <tr key={c.id} className="border-b border-[#ff88ff]/10" data-testid={`row-curated-combo-${c.id}`}>
+                        <td className="py-2">#{c.id} {c.name}</td>
+                        <td className="text-[#66ff66]/70 hidden md:table-cell">
+                          {c.legs.map((leg) => `#${leg.marketId} ${leg.side}`).join(", ")}
+                        </td>
+                        <td className="text-right">{c.probability.toFixed(1)}%</td>
+                        <td className="text-right hidden md:table-cell">${formatNumber(c.openInterest)}</td>
+                        <td className="text-right">{new Date(c.expiry).toISOString().split('T')[0]}</td>
+                        <td className={`text-right uppercase ${c.isTradable ? 'text-green-500' : 'text-[#ff88ff]/50'}`}>
+                          {c.isTradable ? 'listed' : c.status !== 'active' ? c.status : c.retiredAt ? 'retired' : 'expired'}
+                        </td>
+                        <td className="text-right">
+                          {!c.retiredAt && (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => handleRetireCuratedCombo(c.id, c.name)}
+                              className="h-6 px-2 text-xs text-red-500"
+                              data-testid={`button-retire-combo-${c.id}`}
+                            >
+                              RETIRE
+                            </Button>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                    {stats.curatedCombos.length === 0 && (
+                      <tr><td colSpan={7} className="text-center py-8 text-[#ff88ff]/50">No curated combos yet</td></tr>
+                    )}
+                  </tbody>
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {activeTab === 'review' && (
+          <Card className="bg-black border border-[#ffaa00]/30">
+            <CardContent className="p-2 md:p-4 space-y-6">
+              <div>
+                <p className="text-xs text-[#66ff66]/50 mb-2">
+                  Permissionless markets awaiting review. Approved markets start trading; rejected ones are canceled and their creation bond refunded or slashed.
+                </p>
+                <div className="overflow-x-auto max-h-[40vh] overflow-y-auto">
+                  <table className="w-full text-xs md:text-sm">
+                    <thead className="text-[#ffaa00]/70 border-b border-[#ffaa00]/20 sticky top-0 bg-black">
+                      <tr>
+                        <th className="text-left py-2">MARKET</th>
+                        <th className="text-left hidden md:table-cell">CREATOR</th>
+                        <th className="text-right">RESOLVES</th>
+                        <th className="text-right"></th>
+                      </tr>
+                    </thead>
+                    <tbody className="text-[#ffaa00]">
+                      {stats.marketReview.map((m) => (
+                        <tr key={m.id} className="border-b border-[#ffaa00]/10" data-testid={`row-review-market-${m.id}`}>
+                          <td className="py-2">#{m.id} {m.question} <span className="text-[#66ff66]/50">({m.category})</span></td>
+                          <td className="text-[#66ff66]/70 hidden md:table-cell">{m.creator ? `${m.creator.slice(0, 6)}...${m.creator.slice(-4)}` : '-'}</td>
+                          <td className="text-right">{new Date(m.resolutionDate).toISOString().split('T')[0]}</td>
+                          <td className="text-right whitespace-nowrap">
+                            <Button size="sm" variant="ghost" onClick={() => handleReviewMarket(m, true)} className="h-6 px-2 text-xs text-green-500" data-testid={`button-approve-market-${m.id}`}>
+                              APPROVE
+                            </Button>
+                            <Button size="sm" variant="ghost" onClick={() => handleReviewMarket(m, false)} className="h-6 px-2 text-xs text-red-500" data-testid={`button-reject-market-${m.id}`}>
+                              REJECT
+                            </Button>
+                          </td>
+                        </tr>
+                      ))}
+                      {stats.marketReview.length === 0 && (
+                        <tr><td colSpan={4} className="text-center py-8 text-[#ffaa00]/50">No markets awaiting review</td></tr>
+                      )}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+
+              <div>
+                <p className="text-xs text-[#66ff66]/50 mb-2">
+                  Disputed resolution proposals. The side your decision proves wrong forfeits its bond to the other.
+                </p>
+                <div className="overflow-x-auto max-h-[40vh] overflow-y-auto">
+                  <table className="w-full text-xs md:text-sm">
+                    <thead className="text-[#ffaa00]/70 border-b border-[#ffaa00]/20 sticky top-0 bg-black">
+                      <tr>
+                        <th className="text-left py-2">MARKET</th>
+                        <th className="text-left hidden md:table-cell">PROPOSER / DISPUTER</th>
+                        <th className="text-right">PROPOSED</th>
+                        <th className="text-right"></th>
+                      </tr>
+                    </thead>
+                    <tbody className="text-[#ffaa00]">
+                      {stats.disputedMarkets.map((m) => (
+                        <tr key={m.id} className="border-b border-[#ffaa00]/10" data-testid={`row-disputed-market-${m.id}`}>
+                          <td className="py-2">#{m.id} {m.question}</td>
+                          <td className="text-[#66ff66]/70 hidden md:table-cell">
+                            {m.proposedBy ? `${m.proposedBy.slice(0, 6)}...${m.proposedBy.slice(-4)}` : '-'} / {m.disputedBy ? `${m.disputedBy.slice(0, 6)}...${m.disputedBy.slice(-4)}` : '-'}
+                          </td>
+                          <td className="text-right">{m.proposedOutcome ? 'YES' : 'NO'}</td>
+                          <td className="text-right whitespace-nowrap">
+                            <Button size="sm" variant="ghost" onClick={() => handleResolveDispute(m, true)} className="h-6 px-2 text-xs text-green-500" data-testid={`button-dispute-yes-${m.id}`}>
+                              YES
+                            </Button>
+                            <Button size="sm" variant="ghost" onClick={() => handleResolveDispute(m, false)} className="h-6 px-2 text-xs text-red-500" data-testid={`button-dispute-no-${m.id}`}>
+                              NO
+                            </Button>
+                          </td>
+                        </tr>
+                      ))}
+                      {stats.disputedMarkets.length === 0 && (
+                        <tr><td colSpan={4} className="text-center py-8 text-[#ffaa00]/50">No open disputes</td></tr>
+                      )}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        )}
       </div>
     </div>
   );
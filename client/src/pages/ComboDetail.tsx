@@ -149,6 +149,8 @@ export default function ComboDetail() {
   };
 
   const today = new Date().toISOString().split('T')[0];
+  // Positions must lock by the combo's expiry
+  const lastLockDay = new Date(combo.expiry).toISOString().split('T')[0];
 
   return (
     <div className="min-h-screen bg-background flex flex-col">
@@ -164,10 +166,16 @@ export default function ComboDetail() {
                   <Layers className="w-3.5 h-3.5" />
                   {combo.legs.length}-Leg Combo
                 </span>
-                <span className="flex items-center gap-1.5 px-3 py-1 rounded-full text-xs font-medium bg-primary/10 text-primary border border-primary/20">
-                  <div className="w-2 h-2 rounded-full bg-primary animate-pulse" />
-                  LIVE
-                </span>
+                {combo.isTradable ? (
+                  <span className="flex items-center gap-1.5 px-3 py-1 rounded-full text-xs font-medium bg-primary/10 text-primary border border-primary/20">
+                    <div className="w-2 h-2 rounded-full bg-primary animate-pulse" />
+                    LIVE
+                  </span>
+                ) : (
+                  <span className="px-3 py-1 rounded-full text-xs font-medium bg-muted text-muted-foreground border border-border uppercase" data-testid="text-combo-status">
+                    {combo.status === "active" ? "Closed" : combo.status}
+                  </span>
+                )}
               </div>
               
               <h1 className="text-2xl md:text-3xl font-display font-bold leading-tight" data-testid="text-combo-name">
@@ -214,7 +222,6 @@ export default function ComboDetail() {
 
             <div className="glass-card rounded-xl p-4 h-[350px] flex flex-col overflow-hidden">
               <TradingViewChart 
-                marketId={combo.id + 10000}
                 currentProbability={probability} 
               />
             </div>
@@ -390,6 +397,7 @@ export default function ComboDetail() {
                     <Input
                       type="date"
                       min={today}
+                      max={lastLockDay}
                       onChange={(e) => setLockDate(parseDateToGMT(e.target.value))}
                       className="bg-input/50 border-border/40 font-mono"
                       data-testid="input-lock-date"
@@ -466,7 +474,7 @@ export default function ComboDetail() {
                     className="w-full btn-glow"
                     size="lg"
                     onClick={handlePlaceOrder}
-                    disabled={placeOrderMutation.isPending}
+                    disabled={placeOrderMutation.isPending || !combo.isTradable}
                     data-testid="button-place-order"
                   >
                     {placeOrderMutation.isPending ? (
@@ -474,7 +482,7 @@ export default function ComboDetail() {
                     ) : (
                       <Zap className="h-4 w-4 mr-2" />
                     )}
-                    {placeOrderMutation.isPending ? "Opening Position..." : isAuthenticated ? "Open Time-Lock Position" : "Connect Wallet"}
+                    {placeOrderMutation.isPending ? "Opening Position..." : !combo.isTradable ? "Closed to New Positions" : isAuthenticated ? "Open Time-Lock Position" : "Connect Wallet"}
                   </Button>
                 </div>
               </div>
@@ -4,6 +4,7 @@ import { useCombos, useCustomCombos } from "@/hooks/use-markets";
 import { Navbar } from "@/components/Navbar";
 import { Footer } from "@/components/Footer";
 import { ComboBuilder } from "@/components/ComboBuilder";
+import { ComboListings } from "@/components/ComboListings";
 import { Search, Layers, TrendingUp, Flame, Clock, User } from "lucide-react";
 import { motion } from "framer-motion";
 import { formatDistanceToNow } from "date-fns";
@@ -134,6 +135,14 @@ function CustomComboCard({ combo }: { combo: CustomComboResponse }) {
               <Layers className="w-3 h-3 inline mr-1" />
               {legs.length}-Leg
             </span>
+            {combo.status !== "active" && (
+              <span
+                className={`px-2 py-0.5 text-xs bg-black border ${combo.outcome ? 'text-[#66ff66] border-[#66ff66]' : 'text-[#ff3366] border-[#ff3366]'}`}
+                data-testid={`badge-custom-combo-status-${combo.id}`}
+              >
+                {combo.status === "resolved" ? `RESOLVED ${combo.outcome ? "YES" : "NO"}` : "CANCELED"}
+              </span>
+            )}
             <span className="px-2 py-0.5 text-xs bg-black text-[#66ff66] border border-[#444444]">
               <User className="w-3 h-3 inline mr-1" />
               {truncateAddress(combo.creatorAddress)}
@@ -148,7 +157,7 @@ function CustomComboCard({ combo }: { combo: CustomComboResponse }) {
           </h3>
 
           <div className="space-y-1 mb-4 flex-1">
-            {legs.slice(0, 3).map((leg: { marketName: string; side: string; price: number }, i: number) => (
+            {legs.slice(0, 3).map((leg: { marketName: string; side: string; price: number; voided?: boolean }, i: number) => (
               <div key={i} className="flex items-center gap-2 text-xs text-[#444444]">
                 <span 
                   className={`text-[10px] px-1.5 py-0 border ${
@@ -159,7 +168,8 @@ function CustomComboCard({ combo }: { combo: CustomComboResponse }) {
                 >
                   {leg.side}
                 </span>
-                <span className="truncate text-[#66ff66]/70">{leg.marketName}</span>
+                <span className={`truncate text-[#66ff66]/70 ${leg.voided ? 'line-through' : ''}`}>{leg.marketName}</span>
+                {leg.voided && <span className="text-[10px] text-[#444444]">VOID</span>}
               </div>
             ))}
             {legs.length > 3 && (
@@ -339,6 +349,8 @@ export default function Combos() {
             </div>
           )}
         </section>
+
+        <ComboListings />
       </main>
 
       <Footer />
@@ -216,6 +216,11 @@ export default function CustomComboDetail() {
                   >
                     {probability.toFixed(2)}%
                   </span>
+                  {combo.naiveProbability != null && Math.abs(combo.naiveProbability - probability) >= 0.01 && (
+                    <p className="text-xs font-mono mt-1" style={{ color: '#444444' }} data-testid="text-naive-probability">
+                      {combo.naiveProbability.toFixed(2)}% if legs were independent
+                    </p>
+                  )}
                 </div>
                 <div className="text-right">
                   <p className="text-xs uppercase tracking-wider mb-1 font-mono" style={{ color: '#444444' }}>Payout Multiplier</p>
@@ -228,7 +233,6 @@ export default function CustomComboDetail() {
 
             <div className="glass-card rounded-xl p-4 h-[350px] flex flex-col overflow-hidden">
               <TradingViewChart 
-                marketId={combo.id + 10000}
                 currentProbability={probability} 
               />
             </div>
@@ -266,11 +270,17 @@ export default function CustomComboDetail() {
                     {combo.legs.map((leg, i) => (
                       <tr key={i} className="hover:bg-white/[0.02] transition-colors" data-testid={`row-leg-${i}`}>
                         <td className="px-4 py-4">
-                          <Link href={`/market/${leg.marketId}`}>
-                            <span className="hover:text-accent transition-colors cursor-pointer" data-testid={`link-market-${leg.marketId}`}>
+                          <Link href={leg.comboId !== undefined ? `/custom-combo/${leg.comboId}` : `/market/${leg.marketId}`}>
+                            <span className="hover:text-accent transition-colors cursor-pointer" data-testid={leg.comboId !== undefined ? `link-combo-${leg.comboId}` : `link-market-${leg.marketId}`}>
                               {leg.marketName}
                             </span>
                           </Link>
+                          {(leg.comboId !== undefined || combo.kind === "basket") && (
+                            <span className="block text-xs text-muted-foreground mt-0.5">
+                              {leg.comboId !== undefined ? "Combo leg" : "Market leg"}
+                              {combo.kind === "basket" ? ` · weight ${leg.weight ?? 1}` : ""}
+                            </span>
+                          )}
                         </td>
                         <td className="px-4 py-4 text-center">
                           <Badge 
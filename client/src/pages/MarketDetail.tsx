@@ -14,6 +14,20 @@ import { useAuth } from "@/hooks/use-auth";
 import { useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import type { MarketStatus } from "@shared/schema";
+
+const STATUS_LABELS: Record<MarketStatus, string> = {
+  scheduled: "SCHEDULED",
+  active: "LIVE",
+  halted: "HALTED",
+  close_only: "CLOSE ONLY",
+  awaiting_resolution: "AWAITING RESOLUTION",
+  resolved: "RESOLVED",
+  canceled: "CANCELED",
+};
+
+// Outcomes can be proposed once the market has opened (see server/marketOracle.ts)
+const PROPOSABLE_STATUSES: MarketStatus[] = ["active", "halted", "close_only", "awaiting_resolution"];
 
 export default function MarketDetail() {
   const [, params] = useRoute("/market/:id");
@@ -28,31 +42,85 @@ export default function MarketDetail() {
 
   const openPositions = positions?.filter(p => p.status === "open") || [];
 
-  // UMA Mock Resolution mutation
-  const resolveMutation = useMutation({
+  // Optimistic oracle: bonded proposal, challenge window, dispute escalates to an admin
+  const invalidateMarket = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/markets', id] });
+    queryClient.invalidateQueries({ queryKey: ['/api/markets'] });
+    queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+  };
+
+  const proposeMutation = useMutation({
     mutationFn: async ({ outcome }: { outcome: boolean }) => {
-      const res = await apiRequest("POST", `/api/markets/${id}/resolve`, { outcome });
+      const res = await apiRequest("POST", `/api/markets/${id}/propose`, { outcome });
       return res.json();
     },
     onSuccess: (data) => {
-      queryClient.invalidateQueries({ queryKey: ['/api/markets', id] });
-      queryClient.invalidateQueries({ queryKey: ['/api/markets'] });
+      invalidateMarket();
       toast({
-        title: "Market Resolved",
-        description: `Market resolved to ${data.outcome ? 'YES ($1)' : 'NO ($0)'} via UMA Oracle (mock)`,
+        title: "Outcome Proposed",
+        description: `Proposed ${data.proposedOutcome ? 'YES' : 'NO'} with a $${data.proposalBond} bond. It settles when the challenge window closes unless disputed.`,
       });
     },
     onError: (error: Error) => {
       toast({
-        title: "Resolution Failed",
+        title: "Proposal Failed",
         description: error.message,
         variant: "destructive",
       });
     },
   });
 
-  const canResolve = isAuthenticated && market && !market.resolved && 
-    market.creator && user?.walletAddress === market.creator;
+  const disputeMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/markets/${id}/dispute`, {});
+      return res.json();
+    },
+    onSuccess: (data) => {
+      invalidateMarket();
+      toast({
+        title: "Proposal Disputed",
+        description: `Posted a $${data.disputeBond} dispute bond. An admin will decide the outcome.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Dispute Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Creators can void their market until an outcome is proposed; open positions are refunded at entry
+  const cancelMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/markets/${id}/cancel`, {});
+      return res.json();
+    },
+    onSuccess: (data) => {
+      invalidateMarket();
+      toast({
+        title: "Market Canceled",
+        description: `Refunded ${data.positionsRefunded} open positions ($${Number(data.totalRefunded).toFixed(2)}) and cancelled ${data.ordersCancelled} orders.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Cancel Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const inChallengeWindow = !!market?.proposedAt && !market.disputedAt &&
+    !!market.livenessEndsAt && new Date(market.livenessEndsAt) > new Date();
+  const canPropose = isAuthenticated && market && !market.resolved && market.isPermissionless &&
+    market.reviewStatus === "approved" && PROPOSABLE_STATUSES.includes(market.status) && !market.proposedAt;
+  const canDispute = isAuthenticated && market && !market.resolved && market.status !== "canceled" && inChallengeWindow &&
+    user?.walletAddress !== market.proposedBy;
+  const canCancel = isAuthenticated && market && market.isPermissionless && !market.resolved &&
+    market.status !== "canceled" && !market.proposedAt && !!user?.walletAddress && user.walletAddress === market.creator;
 
   if (isLoading) {
     return (
@@ -94,10 +162,22 @@ export default function MarketDetail() {
                 <span className="px-3 py-1 rounded-full text-xs font-medium bg-white/5 text-muted-foreground border border-white/10">
                   {market.category}
                 </span>
-                <span className="flex items-center gap-1.5 px-3 py-1 rounded-full text-xs font-medium bg-primary/10 text-primary border border-primary/20">
-                  <div className="live-dot" />
-                  LIVE
-                </span>
+                {market.status === "active" && !market.resolved ? (
+                  <span className="flex items-center gap-1.5 px-3 py-1 rounded-full text-xs font-medium bg-primary/10 text-primary border border-primary/20">
+                    <div className="live-dot" />
+                    LIVE
+                  </span>
+                ) : (
+                  <span
+                    className="px-3 py-1 rounded-full text-xs font-medium bg-[#ffaa00]/10 text-[#ffaa00] border border-[#ffaa00]/20"
+                    title={market.statusReason ? `Reason: ${market.statusReason.replace(/_/g, " ")}` : undefined}
+                    data-testid="text-market-status"
+                  >
+                    {market.status === "scheduled" && market.opensAt
+                      ? `OPENS ${format(new Date(market.opensAt), 'MMM d, HH:mm')}`
+                      : STATUS_LABELS[market.status]}
+                  </span>
+                )}
               </div>
               
               <h1 className="text-2xl md:text-3xl font-display font-bold leading-tight" data-testid="text-market-question">
@@ -180,43 +260,97 @@ export default function MarketDetail() {
                 ) : (
                   <div className="space-y-3">
                     <p style={{ color: '#66ff66' }} className="text-sm">
-                      Status: <span style={{ color: '#88ffff' }}>Unresolved</span> (Expected: {format(new Date(market.resolutionDate), 'MMM d, yyyy')})
+                      Status: <span style={{ color: '#88ffff' }}>
+                        {market.status === "canceled" ? "Canceled, open positions refunded at entry" : market.reviewStatus === "pending" ? "Awaiting review" : market.disputedAt ? "Disputed" : market.proposedAt ? "Proposed" : "Unresolved"}
+                      </span> (Expected: {format(new Date(market.resolutionDate), 'MMM d, yyyy')})
                     </p>
+
+                    {market.proposedAt && (
+                      <p style={{ color: '#888888' }} className="text-xs" data-testid="text-proposal">
+                        Proposed {market.proposedOutcome ? 'YES' : 'NO'} by {market.proposedBy?.slice(0, 6)}...{market.proposedBy?.slice(-4)}
+                        {market.disputedAt
+                          ? ` · disputed by ${market.disputedBy?.slice(0, 6)}...${market.disputedBy?.slice(-4)}, awaiting admin decision`
+                          : market.livenessEndsAt
+                            ? ` · challenge window ${inChallengeWindow ? 'closes' : 'closed'} ${format(new Date(market.livenessEndsAt), 'MMM d, HH:mm')}`
+                            : ''}
+                      </p>
+                    )}
                     
-                    {canResolve && (
+                    {canPropose && (
                       <div className="flex items-center gap-4 pt-2">
                         <button
-                          onClick={() => resolveMutation.mutate({ outcome: true })}
-                          disabled={resolveMutation.isPending}
+                          onClick={() => proposeMutation.mutate({ outcome: true })}
+                          disabled={proposeMutation.isPending}
                           className="font-mono text-sm transition-colors py-2 px-4"
                           style={{ 
                             backgroundColor: 'transparent',
                             border: '1px solid #66ff66',
                             color: '#66ff66'
                           }}
-                          data-testid="button-resolve-yes"
+                          data-testid="button-propose-yes"
                         >
-                          {resolveMutation.isPending ? '...' : '> resolve YES'}
+                          {proposeMutation.isPending ? '...' : '> propose YES'}
                         </button>
                         <button
-                          onClick={() => resolveMutation.mutate({ outcome: false })}
-                          disabled={resolveMutation.isPending}
+                          onClick={() => proposeMutation.mutate({ outcome: false })}
+                          disabled={proposeMutation.isPending}
                           className="font-mono text-sm transition-colors py-2 px-4"
                           style={{ 
                             backgroundColor: 'transparent',
                             border: '1px solid #ff6666',
                             color: '#ff6666'
                           }}
-                          data-testid="button-resolve-no"
+                          data-testid="button-propose-no"
                         >
-                          {resolveMutation.isPending ? '...' : '> resolve NO'}
+                          {proposeMutation.isPending ? '...' : '> propose NO'}
                         </button>
                       </div>
                     )}
+
+                    {canDispute && (
+                      <button
+                        onClick={() => disputeMutation.mutate()}
+                        disabled={disputeMutation.isPending}
+                        className="font-mono text-sm transition-colors py-2 px-4"
+                        style={{ 
+                          backgroundColor: 'transparent',
+                          border: '1px solid #ffaa00',
+                          color: '#ffaa00'
+                        }}
+                        data-testid="button-dispute"
+                      >
+                        {disputeMutation.isPending ? '...' : '> dispute proposal'}
+                      </button>
+                    )}
                     
-                    {!canResolve && market.creator && (
+                    {canCancel && (
+                      <button
+                        onClick={() => {
+                          if (confirm("Cancel this market? Open positions are refunded at entry and all orders are cancelled. Once trading has started your creation bond goes to the house.")) {
+                            cancelMutation.mutate();
+                          }
+                        }}
+                        disabled={cancelMutation.isPending}
+                        className="font-mono text-sm transition-colors py-2 px-4"
+                        style={{ 
+                          backgroundColor: 'transparent',
+                          border: '1px solid #444444',
+                          color: '#888888'
+                        }}
+                        data-testid="button-cancel-market"
+                      >
+                        {cancelMutation.isPending ? '...' : '> cancel market'}
+                      </button>
+                    )}
+
+                    {market.isPermissionless && !market.proposedAt && market.reviewStatus === "approved" && market.status !== "canceled" && (
+                      <p style={{ color: '#444444' }} className="text-xs">
+                        Anyone can propose the outcome by posting a bond; proposals can be disputed during the challenge window
+                      </p>
+                    )}
+                    {!market.isPermissionless && (
                       <p style={{ color: '#444444' }} className="text-xs">
-                        Only the market creator can resolve this market
+                        System markets are resolved by admins
                       </p>
                     )}
                   </div>
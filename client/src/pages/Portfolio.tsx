@@ -1,8 +1,9 @@
-import { usePositions, usePortfolioSummary, useCrossMarginMetrics, useComboPositions, useCloseComboPosition, useLiveCustomCombo, type ComboPositionWithCombo } from "@/hooks/use-markets";
+import { usePositions, usePortfolioSummary, useCrossMarginMetrics, useComboPositions, useCloseComboPosition, useLiveCustomCombo, useComboExitQuote, useListComboPosition, useCancelComboListing, type ComboPositionWithCombo } from "@/hooks/use-markets";
 import { useMarketStream } from "@/hooks/use-market-stream";
 import { Navbar } from "@/components/Navbar";
 import { Footer } from "@/components/Footer";
 import { PositionCard } from "@/components/PositionCard";
+import { WhatIfPanel } from "@/components/WhatIfPanel";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -20,9 +21,35 @@ function ComboPositionCard({ position, onClose, isClosing }: {
   isClosing: boolean;
 }) {
   const { data: liveCombo } = useLiveCustomCombo(position.comboId);
+  const { data: exitQuote } = useComboExitQuote(position.id, position.status === "open");
+  const listPosition = useListComboPosition();
+  const cancelListing = useCancelComboListing();
+  const { toast } = useToast();
   
   const isParlay = position.positionType === "parlay";
   const isClosed = position.status !== "open";
+
+  const handleSell = async () => {
+    const suggested = exitQuote ? exitQuote.markValue.toFixed(2) : "";
+    const input = prompt("Asking price (USD) for the whole position:", suggested);
+    if (input === null) return;
+    try {
+      const result = await listPosition.mutateAsync({ positionId: position.id, price: parseFloat(input) });
+      toast({ title: "Position Listed", description: result.message });
+    } catch (error) {
+      toast({ title: "Failed to List", description: error instanceof Error ? error.message : "An error occurred", variant: "destructive" });
+    }
+  };
+
+  const handleUnlist = async () => {
+    if (!position.listing) return;
+    try {
+      await cancelListing.mutateAsync(position.listing.id);
+      toast({ title: "Listing Cancelled", description: "Your position is no longer for sale." });
+    } catch (error) {
+      toast({ title: "Failed to Cancel", description: error instanceof Error ? error.message : "An error occurred", variant: "destructive" });
+    }
+  };
   const isWon = position.status === "won";
   const isLost = position.status === "lost";
   
@@ -171,7 +198,33 @@ function ComboPositionCard({ position, onClose, isClosing }: {
       )}
 
       {!isClosed && (
-        <div className="flex justify-end pt-2">
+        <div className="flex items-center justify-end gap-2 pt-2 flex-wrap">
+          {exitQuote && (
+            <span className="text-xs text-muted-foreground font-mono mr-auto" data-testid={`text-combo-exit-quote-${position.id}`}>
+              Exit now: ${exitQuote.proceeds.toFixed(2)} (penalty ${exitQuote.penalty.toFixed(2)} at {(exitQuote.penaltyBps / 100).toFixed(2)}%)
+            </span>
+          )}
+          {position.listing ? (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={handleUnlist}
+              disabled={cancelListing.isPending}
+              data-testid={`button-unlist-combo-${position.id}`}
+            >
+              Listed ${position.listing.price.toFixed(2)} · Unlist
+            </Button>
+          ) : (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={handleSell}
+              disabled={listPosition.isPending}
+              data-testid={`button-sell-combo-${position.id}`}
+            >
+              Sell
+            </Button>
+          )}
           <Button
             size="sm"
             variant="outline"
@@ -273,8 +326,8 @@ export default function Portfolio() {
     };
   }, [positions, markets]);
   
-  // Use backend-calculated usedMargin from cross-margin metrics (more reliable)
-  const usedMargin = marginMetrics?.usedMargin ?? 0;
+  // Use backend-calculated usedMargin from cross-margin metrics (more reliable), plus isolated margin
+  const usedMargin = (marginMetrics?.usedMargin ?? 0) + (marginMetrics?.isolatedMargin ?? 0);
 
   // Separate combo positions into open and closed
   const { openComboPositions, closedComboPositions } = useMemo(() => {
@@ -413,6 +466,16 @@ export default function Portfolio() {
                 <p className="text-xl font-bold font-mono" data-testid="text-used-margin">
                   ${marginMetrics.usedMargin.toLocaleString(undefined, { minimumFractionDigits: 2 })}
                 </p>
+                {marginMetrics.isolatedMargin > 0 && (
+                  <p className="text-xs text-muted-foreground" data-testid="text-isolated-margin">
+                    Isolated: ${marginMetrics.isolatedMargin.toLocaleString(undefined, { minimumFractionDigits: 2 })}
+                  </p>
+                )}
+                {marginMetrics.accruedFunding !== 0 && (
+                  <p className="text-xs text-muted-foreground" data-testid="text-accrued-funding">
+                    Funding {marginMetrics.accruedFunding > 0 ? "paid" : "received"}: ${Math.abs(marginMetrics.accruedFunding).toFixed(2)}
+                  </p>
+                )}
               </div>
               
               <div>
@@ -453,6 +516,8 @@ export default function Portfolio() {
           </Card>
         )}
 
+        {openPositions.length > 0 && <WhatIfPanel positions={openPositions} />}
+
         <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-10">
           <Card className="bg-card border-border p-6 flex items-center gap-4" data-testid="card-total-invested">
             <div className="p-3 rounded-xl bg-primary/10 text-primary">
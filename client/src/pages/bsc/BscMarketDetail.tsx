@@ -30,15 +30,15 @@ export default function BscMarketDetail() {
 
   const resolveMutation = useMutation({
     mutationFn: async ({ outcome }: { outcome: boolean }) => {
-      const res = await apiRequest("POST", `/api/markets/${id}/resolve`, { outcome });
+      const res = await apiRequest("POST", `/api/markets/${id}/propose`, { outcome });
       return res.json();
     },
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ['/api/markets', id] });
       queryClient.invalidateQueries({ queryKey: ['/api/markets'] });
       toast({
-        title: "Market Resolved",
-        description: `Market resolved to ${data.outcome ? 'YES ($1)' : 'NO ($0)'} via UMA Oracle (mock)`,
+        title: "Outcome Proposed",
+        description: `Proposed ${data.proposedOutcome ? 'YES' : 'NO'} with a $${data.proposalBond} bond; it settles after the challenge window unless disputed`,
       });
     },
     onError: (error: Error) => {
@@ -50,8 +50,8 @@ export default function BscMarketDetail() {
     },
   });
 
-  const canResolve = isAuthenticated && market && !market.resolved && 
-    market.creator && user?.walletAddress === market.creator;
+  const canResolve = isAuthenticated && market && !market.resolved && market.isPermissionless &&
+    market.reviewStatus === "approved" && market.status === "active" && !market.proposedAt;
 
   if (isLoading) {
     return (
@@ -187,7 +187,7 @@ export default function BscMarketDetail() {
                           }}
                           data-testid="button-resolve-yes"
                         >
-                          {resolveMutation.isPending ? '...' : '> resolve YES'}
+                          {resolveMutation.isPending ? '...' : '> propose YES'}
                         </button>
                         <button
                           onClick={() => resolveMutation.mutate({ outcome: false })}
@@ -200,14 +200,14 @@ export default function BscMarketDetail() {
                           }}
                           data-testid="button-resolve-no"
                         >
-                          {resolveMutation.isPending ? '...' : '> resolve NO'}
+                          {resolveMutation.isPending ? '...' : '> propose NO'}
                         </button>
                       </div>
                     )}
                     
-                    {!canResolve && market.creator && (
+                    {market.proposedAt && (
                       <p style={{ color: '#444444' }} className="text-xs">
-                        Only the market creator can resolve this market
+                        {market.disputedAt ? "Proposal disputed, awaiting admin decision" : `Proposed ${market.proposedOutcome ? "YES" : "NO"}, pending the challenge window`}
                       </p>
                     )}
                   </div>
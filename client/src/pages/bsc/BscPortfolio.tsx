@@ -67,7 +67,7 @@ export default function BscPortfolio() {
     };
   }, [positions, markets]);
   
-  const usedMargin = marginMetrics?.usedMargin ?? 0;
+  const usedMargin = (marginMetrics?.usedMargin ?? 0) + (marginMetrics?.isolatedMargin ?? 0);
 
   if (isAuthLoading || isPosLoading || isSummaryLoading || isMarginLoading) {
     return (
@@ -184,6 +184,16 @@ export default function BscPortfolio() {
                 <p className="text-xl font-bold font-mono" data-testid="text-used-margin">
                   ${marginMetrics.usedMargin.toLocaleString(undefined, { minimumFractionDigits: 2 })}
                 </p>
+                {marginMetrics.isolatedMargin > 0 && (
+                  <p className="text-xs text-muted-foreground" data-testid="text-isolated-margin">
+                    Isolated: ${marginMetrics.isolatedMargin.toLocaleString(undefined, { minimumFractionDigits: 2 })}
+                  </p>
+                )}
+                {marginMetrics.accruedFunding !== 0 && (
+                  <p className="text-xs text-muted-foreground" data-testid="text-accrued-funding">
+                    Funding {marginMetrics.accruedFunding > 0 ? "paid" : "received"}: ${Math.abs(marginMetrics.accruedFunding).toFixed(2)}
+                  </p>
+                )}
               </div>
               
               <div>
@@ -0,0 +1,28 @@
+import { createServer } from "http";
+
+// Local mock for the external_feed price source. Every path is its own feed that drifts
+// a little on each request and answers { "price": <0-100> }:
+//
+//   npx tsx scripts/mock-price-feed.ts
+//   POST /api/admin/set-price-source { marketId, priceSource: "external_feed",
+//     config: { url: "http://127.0.0.1:5055/markets/1" } }
+//
+// Local development only: it binds to 127.0.0.1 so Replit does not pick it up as a public port.
+
+const port = parseInt(process.env.MOCK_FEED_PORT || "5055", 10);
+const feeds = new Map<string, number>();
+
+const server = createServer((req, res) => {
+  const url = new URL(req.url || "/", `http://127.0.0.1:${port}`);
+  const start = Number(url.searchParams.get("start"));
+  const previous = feeds.get(url.pathname) ?? (start >= 0 && start <= 100 && url.searchParams.has("start") ? start : 50);
+  const price = Math.max(1, Math.min(99, previous + (Math.random() - 0.5) * 2));
+  feeds.set(url.pathname, price);
+
+  res.writeHead(200, { "Content-Type": "application/json" });
+  res.end(JSON.stringify({ price: Number(price.toFixed(4)), timestamp: new Date().toISOString() }));
+});
+
+server.listen(port, "127.0.0.1", () => {
+  console.log(`mock price feed on http://127.0.0.1:${port}/<any path>`);
+});
@@ -0,0 +1,83 @@
+import { storage } from "./storage";
+import type { Candle, CandleResolution } from "@shared/routes";
+
+// OHLCV candles built from persisted price history: simulation ticks (price_ticks) and real
+// fills (trades). Empty buckets carry the previous close forward so the series has no gaps.
+
+const RESOLUTION_SECONDS: Record<CandleResolution, number> = {
+  "1m": 60,
+  "5m": 5 * 60,
+  "1h": 60 * 60,
+  "1d": 24 * 60 * 60,
+};
+
+const DEFAULT_CANDLES = 200;
+const MAX_CANDLES = 1000;
+const RETENTION_MS = 90 * 24 * 60 * 60 * 1000; // Ticks older than this are pruned
+const PRUNE_INTERVAL_MS = 24 * 60 * 60 * 1000; // Daily
+
+let pruneInterval: NodeJS.Timeout | null = null;
+
+const round = (value: number) => Math.round(value * 10000) / 10000;
+
+// from/to are unix seconds; the range is capped at MAX_CANDLES buckets ending at `to`
+export async function getCandles(
+  marketId: number,
+  resolution: CandleResolution,
+  from?: number,
+  to?: number
+): Promise<Candle[]> {
+  const bucketSeconds = RESOLUTION_SECONDS[resolution];
+  const end = to ?? Math.floor(Date.now() / 1000);
+  let start = from ?? end - DEFAULT_CANDLES * bucketSeconds;
+  start = Math.max(start, end - MAX_CANDLES * bucketSeconds);
+  start = Math.floor(start / bucketSeconds) * bucketSeconds;
+  if (start >= end) return [];
+
+  const fromDate = new Date(start * 1000);
+  const toDate = new Date(end * 1000);
+  const [buckets, openingPrice] = await Promise.all([
+    storage.getCandleBuckets(marketId, bucketSeconds, fromDate, toDate),
+    storage.getLastPriceBefore(marketId, fromDate),
+  ]);
+
+  const byTime = new Map(buckets.map((b) => [Math.floor(b.bucketStart.getTime() / 1000), b]));
+  const candles: Candle[] = [];
+  let lastClose = openingPrice;
+
+  for (let time = start; time < end; time += bucketSeconds) {
+    const bucket = byTime.get(time);
+    if (bucket) {
+      candles.push({
+        time,
+        open: round(bucket.open),
+        high: round(bucket.high),
+        low: round(bucket.low),
+        close: round(bucket.close),
+        volume: Math.round(bucket.volume),
+      });
+      lastClose = bucket.close;
+    } else if (lastClose !== null) {
+      const flat = round(lastClose);
+      candles.push({ time, open: flat, high: flat, low: flat, close: flat, volume: 0 });
+    }
+  }
+
+  return candles;
+}
+
+async function prunePriceHistory(): Promise<void> {
+  const removed = await storage.prunePriceTicks(new Date(Date.now() - RETENTION_MS));
+  if (removed > 0) {
+    console.log(`[candles] Pruned ${removed} price ticks older than 90 days`);
+  }
+}
+
+export function schedulePriceHistoryPruning(): void {
+  prunePriceHistory().catch((err) => console.error("[candles] Price history pruning failed:", err));
+
+  if (pruneInterval) clearInterval(pruneInterval);
+  pruneInterval = setInterval(() => {
+    prunePriceHistory().catch((err) => console.error("[candles] Price history pruning failed:", err));
+  }, PRUNE_INTERVAL_MS);
+}
@@ -0,0 +1,117 @@
+// Time source for the simulation, order engine and combo settlement scheduler. The server runs on
+// the system clock; a test harness installs a manual clock (createManualClock) and advances it
+// explicitly, which fires due timers in order and waits for their callbacks to finish.
+
+export type TimerCallback = () => void | Promise<void>;
+
+export interface Clock {
+  now(): number; // Milliseconds since the epoch
+  setTimeout(callback: TimerCallback, ms: number): number;
+  setInterval(callback: TimerCallback, ms: number): number;
+  clearTimer(timer: number | null): void;
+}
+
+export interface ManualClock extends Clock {
+  // Moves time forward, running every timer that falls due on the way
+  advance(ms: number): Promise<void>;
+  pendingTimers(): number;
+}
+
+function createSystemClock(): Clock {
+  const handles: Map<number, NodeJS.Timeout> = new Map();
+  let nextId = 1;
+
+  return {
+    now: () => Date.now(),
+    setTimeout(callback, ms) {
+      const id = nextId++;
+      handles.set(id, setTimeout(() => {
+        handles.delete(id);
+        callback();
+      }, ms));
+      return id;
+    },
+    setInterval(callback, ms) {
+      const id = nextId++;
+      handles.set(id, setInterval(callback, ms));
+      return id;
+    },
+    clearTimer(timer) {
+      if (timer === null) return;
+      const handle = handles.get(timer);
+      if (handle) {
+        clearTimeout(handle); // Also clears intervals
+        handles.delete(timer);
+      }
+    },
+  };
+}
+
+interface ManualTimer {
+  id: number;
+  dueAt: number;
+  interval: number | null;
+  callback: TimerCallback;
+}
+
+export function createManualClock(startAt: number = Date.now()): ManualClock {
+  let time = startAt;
+  let nextId = 1;
+  const timers: Map<number, ManualTimer> = new Map();
+
+  const schedule = (callback: TimerCallback, ms: number, repeat: boolean): number => {
+    const id = nextId++;
+    const delay = Math.max(0, ms);
+    timers.set(id, { id, dueAt: time + delay, interval: repeat ? Math.max(1, delay) : null, callback });
+    return id;
+  };
+
+  return {
+    now: () => time,
+    setTimeout: (callback, ms) => schedule(callback, ms, false),
+    setInterval: (callback, ms) => schedule(callback, ms, true),
+    clearTimer(timer) {
+      if (timer !== null) timers.delete(timer);
+    },
+    async advance(ms) {
+      const target = time + Math.max(0, ms);
+      while (true) {
+        // Earliest due timer, ties broken by creation order
+        const due = Array.from(timers.values())
+          .filter((t) => t.dueAt <= target)
+          .sort((a, b) => a.dueAt - b.dueAt || a.id - b.id)[0];
+        if (!due) break;
+
+        time = due.dueAt;
+        if (due.interval !== null) {
+          due.dueAt += due.interval;
+        } else {
+          timers.delete(due.id);
+        }
+        await due.callback();
+      }
+      time = target;
+    },
+    pendingTimers: () => timers.size,
+  };
+}
+
+export function isManualClock(clock: Clock): clock is ManualClock {
+  return "advance" in clock;
+}
+
+export const systemClock: Clock = createSystemClock();
+let activeClock: Clock = systemClock;
+
+export function getClock(): Clock {
+  return activeClock;
+}
+
+// Install before starting the simulation and schedulers; timers already scheduled stay on the old clock
+export function setClock(clock: Clock): void {
+  activeClock = clock;
+}
+
+export function currentDate(): Date {
+  return new Date(activeClock.now());
+}
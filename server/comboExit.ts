@@ -0,0 +1,97 @@
+import { z } from "zod";
+import type { ComboExitQuote, ComboPosition, CustomComboResponse, EarlyExitCurve } from "@shared/schema";
+import { storage, calculateFee } from "./storage";
+import { getComboState } from "./simulation";
+import { comboPositionPnl, trackCombo } from "./comboSettlement";
+import { currentComboPrice } from "./comboLegs";
+import { currentDate } from "./clock";
+
+// Early exit of time-locked combo positions: a position closed before its lock date is marked at
+// the live combo price and pays a penalty on that value, falling along the curve below as the lock
+// date approaches. The curve lives in system_settings and is cached so quotes stay synchronous.
+
+const CURVE_SETTING_KEY = "combo_early_exit_curve";
+
+export const DEFAULT_EARLY_EXIT_CURVE: EarlyExitCurve = {
+  maxPenaltyBps: 500,
+  minPenaltyBps: 50,
+  exponent: 1,
+};
+
+export const earlyExitCurveSchema = z.object({
+  maxPenaltyBps: z.number().min(0).max(5000),
+  minPenaltyBps: z.number().min(0).max(5000),
+  exponent: z.number().gt(0).max(10),
+}).strict()
+  .refine((c) => c.minPenaltyBps <= c.maxPenaltyBps, { message: "minPenaltyBps must not exceed maxPenaltyBps" });
+
+let curve: EarlyExitCurve = DEFAULT_EARLY_EXIT_CURVE;
+
+// Called once at startup; a malformed stored curve falls back to the default
+export async function loadEarlyExitCurve(): Promise<EarlyExitCurve> {
+  const stored = await storage.getSystemSetting(CURVE_SETTING_KEY);
+  if (stored) {
+    const parsed = earlyExitCurveSchema.safeParse(JSON.parse(stored));
+    if (parsed.success) curve = parsed.data;
+    else console.error("[combo-exit] Ignoring invalid stored early exit curve:", parsed.error.errors[0]?.message);
+  }
+  return curve;
+}
+
+export function getEarlyExitCurve(): EarlyExitCurve {
+  return curve;
+}
+
+export async function setEarlyExitCurve(next: EarlyExitCurve): Promise<EarlyExitCurve> {
+  await storage.setSystemSetting(CURVE_SETTING_KEY, JSON.stringify(next));
+  curve = next;
+  return curve;
+}
+
+// Share of the lock period still to run: 1 when the position opens, 0 at the lock date
+function remainingFraction(position: ComboPosition, now: Date): number {
+  const lock = new Date(position.lockDate).getTime();
+  const opened = position.createdAt ? new Date(position.createdAt).getTime() : now.getTime();
+  if (lock <= now.getTime()) return 0;
+  if (lock <= opened) return 1;
+  return Math.min(1, (lock - now.getTime()) / (lock - opened));
+}
+
+export function earlyExitPenaltyBps(fraction: number): number {
+  return curve.minPenaltyBps + (curve.maxPenaltyBps - curve.minPenaltyBps) * Math.pow(fraction, curve.exponent);
+}
+
+// Live combo price, registering the combo with the simulation if it is not tracked yet
+export function comboMarkProbability(combo: CustomComboResponse): number {
+  if (combo.status === "active" && !getComboState(combo.id)) trackCombo(combo);
+  return currentComboPrice(combo);
+}
+
+// stake + PnL at the live price, never below zero
+export function comboMarkValue(position: ComboPosition, combo: CustomComboResponse): number {
+  return Math.max(0, (position.stake || 0) + comboPositionPnl(position, comboMarkProbability(combo)));
+}
+
+// What closing now returns: mark value, less the early exit penalty and the taker fee on the
+// notional (both capped so proceeds never go negative)
+export function quoteEarlyExit(position: ComboPosition, combo: CustomComboResponse, takerBps: number): ComboExitQuote {
+  const markProbability = comboMarkProbability(combo);
+  const pnl = comboPositionPnl(position, markProbability);
+  const markValue = Math.max(0, (position.stake || 0) + pnl);
+  const fraction = remainingFraction(position, currentDate());
+  const penaltyBps = Number(earlyExitPenaltyBps(fraction).toFixed(2));
+  const penalty = Math.min(calculateFee(markValue, penaltyBps), markValue);
+  const fee = Math.min(calculateFee((position.stake || 0) * (position.leverage || 1), takerBps), markValue - penalty);
+
+  return {
+    positionId: position.id,
+    markProbability: Number(markProbability.toFixed(6)),
+    pnl,
+    markValue,
+    remainingFraction: Number(fraction.toFixed(4)),
+    penaltyBps,
+    penalty,
+    fee,
+    proceeds: markValue - penalty - fee,
+  };
+}
@@ -0,0 +1,146 @@
+import { z } from "zod";
+import { COMBO_KINDS, MAX_COMBO_DEPTH, type ComboKind, type CustomComboLeg, type CustomComboResponse } from "@shared/schema";
+import { storage } from "./storage";
+import { getComboState, getMarketState } from "./simulation";
+
+// Combo definitions: legs on markets or on other custom combos, for parlays (every leg must hit)
+// and weighted baskets. Legs are priced and named from the server's own state, never the client's.
+// Nesting is checked here: no cycles, at most MAX_COMBO_DEPTH levels, and parlays only hold
+// parlays, so every parlay leg has a yes/no outcome.
+
+export const comboLegInputSchema = z.object({
+  marketId: z.number().int().positive().optional(),
+  comboId: z.number().int().positive().optional(),
+  side: z.enum(["YES", "NO"]),
+  weight: z.number().positive().max(1000).optional(),
+}).refine((leg) => (leg.marketId === undefined) !== (leg.comboId === undefined), {
+  message: "Each leg needs exactly one of marketId or comboId",
+});
+
+export const comboDefinitionSchema = z.object({
+  kind: z.enum(COMBO_KINDS).default("parlay"),
+  legs: z.array(comboLegInputSchema).min(2).max(10),
+});
+
+type ComboLegInput = z.infer<typeof comboLegInputSchema>;
+
+export function activeLegs(legs: CustomComboLeg[]): CustomComboLeg[] {
+  return legs.filter((leg) => !leg.voided);
+}
+
+// Markets a combo's own legs sit on (not those of nested combos)
+export function marketLegIds(legs: CustomComboLeg[]): number[] {
+  return activeLegs(legs).flatMap((leg) => (leg.marketId !== undefined ? [leg.marketId] : []));
+}
+
+export function nestedComboIds(legs: CustomComboLeg[]): number[] {
+  return activeLegs(legs).flatMap((leg) => (leg.comboId !== undefined ? [leg.comboId] : []));
+}
+
+// Combos with a leg on the market, directly or through nested combos at any depth
+export function combosHoldingMarket<T extends CustomComboResponse>(combos: T[], marketId: number): T[] {
+  const holding = new Set(combos.filter((c) => marketLegIds(c.legs).includes(marketId)).map((c) => c.id));
+  for (let level = 1; level < MAX_COMBO_DEPTH; level++) {
+    const parents = combos.filter((c) => !holding.has(c.id) && nestedComboIds(c.legs).some((id) => holding.has(id)));
+    if (parents.length === 0) break;
+    for (const parent of parents) holding.add(parent.id);
+  }
+  return combos.filter((c) => holding.has(c.id));
+}
+
+// Settled price of a resolved combo: 0/100 for a parlay, its final value for a basket
+export function finalComboPrice(combo: CustomComboResponse): number {
+  if (combo.kind === "basket") return combo.impliedProbability * 100;
+  return combo.outcome ? 100 : 0;
+}
+
+// Live YES price of a combo, its final price once resolved, or its stored price when it is not tracked
+export function currentComboPrice(combo: CustomComboResponse): number {
+  if (combo.status === "resolved") return finalComboPrice(combo);
+  return getComboState(combo.id)?.currentProbability ?? combo.impliedProbability * 100;
+}
+
+export class ComboCycleError extends Error {
+  constructor(path: number[]) {
+    super(`Combo legs form a cycle: ${path.map((id) => `#${id}`).join(" -> ")}`);
+    this.name = "ComboCycleError";
+  }
+}
+
+// Nesting depth of a stored combo (1 for market legs only), walking its nested combos
+export async function comboDepth(combo: CustomComboResponse, path: number[] = []): Promise<number> {
+  if (path.includes(combo.id)) throw new ComboCycleError([...path, combo.id]);
+  let depth = 1;
+  for (const childId of nestedComboIds(combo.legs)) {
+    const child = await storage.getCustomCombo(childId);
+    if (child) depth = Math.max(depth, 1 + await comboDepth(child, [...path, combo.id]));
+  }
+  return depth;
+}
+
+async function buildMarketLeg(input: ComboLegInput & { marketId: number }): Promise<CustomComboLeg | string> {
+  const market = await storage.getMarket(input.marketId);
+  if (!market) return `Market ${input.marketId} not found`;
+  if (market.resolved || market.status !== "active") {
+    return `Market ${input.marketId} is ${market.resolved ? "resolved" : market.status} and cannot be a leg`;
+  }
+  if (market.reviewStatus !== "approved") return `Market ${input.marketId} is awaiting review and cannot be a leg`;
+  return {
+    marketId: market.id,
+    marketName: market.question,
+    side: input.side,
+    price: getMarketState(market.id)?.currentProbability ?? parseFloat(market.currentProbability.toString()),
+  };
+}
+
+async function buildComboLeg(kind: ComboKind, input: ComboLegInput & { comboId: number }): Promise<{ leg: CustomComboLeg; depth: number } | string> {
+  const combo = await storage.getCustomCombo(input.comboId);
+  if (!combo) return `Combo ${input.comboId} not found`;
+  if (combo.status !== "active") return `Combo ${input.comboId} is ${combo.status} and cannot be a leg`;
+  if (kind === "parlay" && combo.kind !== "parlay") {
+    return `Combo ${input.comboId} is a basket; parlay legs need a yes/no outcome`;
+  }
+  let depth: number;
+  try {
+    depth = await comboDepth(combo);
+  } catch (err) {
+    if (err instanceof ComboCycleError) return err.message;
+    throw err;
+  }
+  return {
+    leg: { comboId: combo.id, marketName: combo.name, side: input.side, price: currentComboPrice(combo) },
+    depth,
+  };
+}
+
+// Validates and prices the legs of a new combo
+export async function buildComboLegs(kind: ComboKind, inputs: ComboLegInput[]): Promise<{ legs: CustomComboLeg[] } | { error: string }> {
+  const seen = new Set<string>();
+  const legs: CustomComboLeg[] = [];
+  let depth = 1;
+
+  for (const input of inputs) {
+    const key = input.marketId !== undefined ? `market:${input.marketId}` : `combo:${input.comboId}`;
+    if (seen.has(key)) return { error: `Each ${input.marketId !== undefined ? "market" : "combo"} can appear in only one leg` };
+    seen.add(key);
+
+    let leg: CustomComboLeg;
+    if (input.marketId !== undefined) {
+      const built = await buildMarketLeg({ ...input, marketId: input.marketId });
+      if (typeof built === "string") return { error: built };
+      leg = built;
+    } else {
+      const built = await buildComboLeg(kind, { ...input, comboId: input.comboId! });
+      if (typeof built === "string") return { error: built };
+      leg = built.leg;
+      depth = Math.max(depth, 1 + built.depth);
+    }
+    if (kind === "basket") leg.weight = input.weight ?? 1;
+    legs.push(leg);
+  }
+
+  if (depth > MAX_COMBO_DEPTH) {
+    return { error: `Combos nest at most ${MAX_COMBO_DEPTH} levels deep (this one would be ${depth})` };
+  }
+  return { legs };
+}
@@ -0,0 +1,299 @@
+import type { MarketCorrelation, MarketCorrelationRow } from "@shared/schema";
+import { storage } from "./storage";
+import { getClock, currentDate } from "./clock";
+
+// Combo pricing: a parlay wins when every leg wins, and legs on related markets (two crypto price
+// markets, say) move together, so multiplying leg probabilities misprices them. Each market gets a
+// standard normal latent variable that resolves YES below the inverse-normal of its probability;
+// the latents are correlated pairwise and the combo probability is the multivariate normal CDF at
+// the legs' thresholds (a Gaussian copula). Correlations are estimated from hourly price history
+// of the markets that appear in active combos; admins can override any pair (market_correlations).
+// Estimates and overrides are cached in memory so the simulation can price combos synchronously.
+
+const ESTIMATION_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+const ESTIMATION_BUCKET_SECONDS = 60 * 60; // Hourly closes
+const MIN_OBSERVATIONS = 24; // Below this the estimate is too noisy to use; pairs price as independent
+const MAX_ESTIMATED_CORRELATION = 0.95;
+const REFRESH_INTERVAL_MS = 30 * 60 * 1000;
+const COPULA_SAMPLES = 2000;
+const PROBABILITY_EPSILON = 1e-6;
+
+interface Estimate {
+  correlation: number | null;
+  observations: number;
+}
+
+const overrides: Map<string, number> = new Map();
+const estimates: Map<string, Estimate> = new Map();
+let refreshTimer: number | null = null;
+
+export interface ComboLegPrice {
+  marketId: number;
+  side: "YES" | "NO";
+  probability: number; // Market price, 0-100
+}
+
+export interface ComboPrice {
+  naive: number; // Legs treated as independent, 0-100
+  correlated: number; // Gaussian copula, 0-100
+}
+
+function pairKey(a: number, b: number): string {
+  return a < b ? `${a}:${b}` : `${b}:${a}`;
+}
+
+function parseKey(key: string): [number, number] {
+  const [a, b] = key.split(":").map(Number);
+  return [a, b];
+}
+
+// === Correlations ===
+
+export async function loadCorrelationOverrides(): Promise<number> {
+  const rows = await storage.getMarketCorrelations();
+  overrides.clear();
+  for (const row of rows) overrides.set(pairKey(row.marketIdA, row.marketIdB), parseFloat(row.correlation));
+  return rows.length;
+}
+
+// Override if set, else the estimate, else 0 (independent)
+export function getCorrelation(marketIdA: number, marketIdB: number): number {
+  if (marketIdA === marketIdB) return 1;
+  const key = pairKey(marketIdA, marketIdB);
+  return overrides.get(key) ?? estimates.get(key)?.correlation ?? 0;
+}
+
+export function listCorrelations(): MarketCorrelation[] {
+  const keys = new Set([...Array.from(overrides.keys()), ...Array.from(estimates.keys())]);
+  return Array.from(keys)
+    .map((key) => {
+      const [marketIdA, marketIdB] = parseKey(key);
+      const estimate = estimates.get(key);
+      return {
+        marketIdA,
+        marketIdB,
+        correlation: getCorrelation(marketIdA, marketIdB),
+        estimated: estimate?.correlation ?? null,
+        override: overrides.get(key) ?? null,
+        observations: estimate?.observations ?? 0,
+      };
+    })
+    .sort((a, b) => a.marketIdA - b.marketIdA || a.marketIdB - b.marketIdB);
+}
+
+export async function setCorrelationOverride(marketIdA: number, marketIdB: number, correlation: number, updatedBy: string): Promise<MarketCorrelationRow> {
+  const [a, b] = parseKey(pairKey(marketIdA, marketIdB));
+  const row = await storage.upsertMarketCorrelation({ marketIdA: a, marketIdB: b, correlation: correlation.toFixed(4), updatedBy });
+  overrides.set(pairKey(a, b), parseFloat(row.correlation));
+  return row;
+}
+
+export async function clearCorrelationOverride(marketIdA: number, marketIdB: number): Promise<boolean> {
+  const [a, b] = parseKey(pairKey(marketIdA, marketIdB));
+  overrides.delete(pairKey(a, b));
+  return storage.deleteMarketCorrelation(a, b);
+}
+
+function logOdds(probability: number): number {
+  const p = Math.min(99.5, Math.max(0.5, probability));
+  return Math.log(p / (100 - p));
+}
+
+// Pearson correlation of hourly log-odds changes over the hours both markets have history for
+async function estimateCorrelation(marketIdA: number, marketIdB: number): Promise<Estimate> {
+  const to = currentDate();
+  const from = new Date(to.getTime() - ESTIMATION_WINDOW_MS);
+  const [bucketsA, bucketsB] = await Promise.all([
+    storage.getCandleBuckets(marketIdA, ESTIMATION_BUCKET_SECONDS, from, to),
+    storage.getCandleBuckets(marketIdB, ESTIMATION_BUCKET_SECONDS, from, to),
+  ]);
+  const closesB = new Map(bucketsB.map((b) => [b.bucketStart.getTime(), b.close]));
+  const hour = ESTIMATION_BUCKET_SECONDS * 1000;
+
+  const changesA: number[] = [];
+  const changesB: number[] = [];
+  const closesA = new Map(bucketsA.map((b) => [b.bucketStart.getTime(), b.close]));
+  for (const [time, closeA] of Array.from(closesA.entries())) {
+    const prevA = closesA.get(time - hour);
+    const closeB = closesB.get(time);
+    const prevB = closesB.get(time - hour);
+    if (prevA === undefined || closeB === undefined || prevB === undefined) continue;
+    changesA.push(logOdds(closeA) - logOdds(prevA));
+    changesB.push(logOdds(closeB) - logOdds(prevB));
+  }
+
+  const n = changesA.length;
+  if (n < MIN_OBSERVATIONS) return { correlation: null, observations: n };
+  const meanA = changesA.reduce((s, x) => s + x, 0) / n;
+  const meanB = changesB.reduce((s, x) => s + x, 0) / n;
+  let cov = 0;
+  let varA = 0;
+  let varB = 0;
+  for (let i = 0; i < n; i++) {
+    cov += (changesA[i] - meanA) * (changesB[i] - meanB);
+    varA += (changesA[i] - meanA) ** 2;
+    varB += (changesB[i] - meanB) ** 2;
+  }
+  if (varA === 0 || varB === 0) return { correlation: null, observations: n };
+  const correlation = Math.max(-MAX_ESTIMATED_CORRELATION, Math.min(MAX_ESTIMATED_CORRELATION, cov / Math.sqrt(varA * varB)));
+  return { correlation: Number(correlation.toFixed(4)), observations: n };
+}
+
+function pairsOf(marketIds: number[]): string[] {
+  const unique = Array.from(new Set(marketIds));
+  const pairs: string[] = [];
+  for (let i = 0; i < unique.length; i++) {
+    for (let j = i + 1; j < unique.length; j++) pairs.push(pairKey(unique[i], unique[j]));
+  }
+  return pairs;
+}
+
+// Estimates every pair among the given markets (e.g. a new combo's legs)
+export async function estimateCorrelations(marketIds: number[]): Promise<void> {
+  for (const key of pairsOf(marketIds)) {
+    const [a, b] = parseKey(key);
+    estimates.set(key, await estimateCorrelation(a, b));
+  }
+}
+
+// Re-estimates every pair of markets that share an active combo
+export async function refreshCorrelations(): Promise<number> {
+  const combos = await storage.getActiveCustomCombos();
+  const pairs = new Set(combos.flatMap((c) => pairsOf(c.legs.flatMap((leg) => (!leg.voided && leg.marketId !== undefined ? [leg.marketId] : [])))));
+  const refreshed: Map<string, Estimate> = new Map();
+  for (const key of Array.from(pairs)) {
+    const [a, b] = parseKey(key);
+    refreshed.set(key, await estimateCorrelation(a, b));
+  }
+  // Swapped in whole so pricing never sees a half-refreshed set
+  estimates.clear();
+  for (const [key, estimate] of Array.from(refreshed.entries())) estimates.set(key, estimate);
+  if (pairs.size > 0) {
+    console.log(`[combo-pricing] Estimated correlations for ${pairs.size} market pairs`);
+  }
+  return pairs.size;
+}
+
+export async function scheduleCorrelationRefresh(): Promise<void> {
+  const clock = getClock();
+  clock.clearTimer(refreshTimer);
+  await refreshCorrelations().catch((err) => console.error("[combo-pricing] Correlation refresh failed:", err));
+  refreshTimer = clock.setInterval(async () => {
+    await refreshCorrelations().catch((err) => console.error("[combo-pricing] Correlation refresh failed:", err));
+  }, REFRESH_INTERVAL_MS);
+}
+
+// === Gaussian copula ===
+
+// Abramowitz-Stegun 7.1.26 (error below 1.5e-7)
+function normalCdf(x: number): number {
+  const t = 1 / (1 + 0.3275911 * Math.abs(x) / Math.SQRT2);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-(x * x) / 2);
+  return x >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+// Acklam's rational approximation (relative error below 1.2e-9)
+function inverseNormalCdf(p: number): number {
+  const a = [-3.969683028665376e1, 2.209460984245205e2, -2.759285104469687e2, 1.38357751867269e2, -3.066479806614716e1, 2.506628277459239];
+  const b = [-5.447609879822406e1, 1.615858368580409e2, -1.556989798598866e2, 6.680131188771972e1, -1.328068155288572e1];
+  const c = [-7.784894002430293e-3, -3.223964580411365e-1, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [7.784695709041462e-3, 3.224671290700398e-1, 2.445134137142996, 3.754408661907416];
+  const low = 0.02425;
+  const q = Math.min(1 - PROBABILITY_EPSILON, Math.max(PROBABILITY_EPSILON, p));
+
+  if (q < low) {
+    const r = Math.sqrt(-2 * Math.log(q));
+    return (((((c[0] * r + c[1]) * r + c[2]) * r + c[3]) * r + c[4]) * r + c[5]) / ((((d[0] * r + d[1]) * r + d[2]) * r + d[3]) * r + 1);
+  }
+  if (q > 1 - low) {
+    const r = Math.sqrt(-2 * Math.log(1 - q));
+    return -(((((c[0] * r + c[1]) * r + c[2]) * r + c[3]) * r + c[4]) * r + c[5]) / ((((d[0] * r + d[1]) * r + d[2]) * r + d[3]) * r + 1);
+  }
+  const r = q - 0.5;
+  const s = r * r;
+  return (((((a[0] * s + a[1]) * s + a[2]) * s + a[3]) * s + a[4]) * s + a[5]) * r / (((((b[0] * s + b[1]) * s + b[2]) * s + b[3]) * s + b[4]) * s + 1);
+}
+
+// Lower-triangular L with L * L^T = matrix, or null if it is not positive definite
+function cholesky(matrix: number[][]): number[][] | null {
+  const n = matrix.length;
+  const L = matrix.map(() => new Array(n).fill(0));
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= i; j++) {
+      let sum = matrix[i][j];
+      for (let k = 0; k < j; k++) sum -= L[i][k] * L[j][k];
+      if (i === j) {
+        if (sum <= 1e-10) return null;
+        L[i][i] = Math.sqrt(sum);
+      } else {
+        L[i][j] = sum / L[j][j];
+      }
+    }
+  }
+  return L;
+}
+
+// Pairwise overrides need not form a valid correlation matrix; shrink toward independence until they do
+function choleskyWithRepair(matrix: number[][]): number[][] {
+  let shrink = 1;
+  for (let attempt = 0; attempt < 100; attempt++) {
+    const adjusted = matrix.map((row, i) => row.map((value, j) => (i === j ? 1 : value * shrink)));
+    const L = cholesky(adjusted);
+    if (L) return L;
+    shrink *= 0.95;
+  }
+  return matrix.map((row, i) => row.map((_, j) => (i === j ? 1 : 0)));
+}
+
+// Fixed Richtmyer points (fractional multiples of square roots of primes): deterministic, so the
+// same inputs always give the same price
+const PRIMES = [2, 3, 5, 7, 11, 13, 17, 19, 23, 29, 31, 37, 41, 43, 47];
+function quasiRandom(sample: number, dimension: number): number {
+  const x = (sample + 0.5) * Math.sqrt(PRIMES[dimension % PRIMES.length]);
+  return x - Math.floor(x);
+}
+
+// P(Z_i <= t_i for all i), Z ~ N(0, R), by Genz's sequential conditioning
+function multivariateNormalCdf(thresholds: number[], L: number[][]): number {
+  const n = thresholds.length;
+  let total = 0;
+  for (let sample = 0; sample < COPULA_SAMPLES; sample++) {
+    const y: number[] = [];
+    let e = normalCdf(thresholds[0] / L[0][0]);
+    let f = e;
+    for (let i = 1; i < n && f > 0; i++) {
+      y.push(inverseNormalCdf(quasiRandom(sample, i - 1) * e));
+      let shift = 0;
+      for (let j = 0; j < i; j++) shift += L[i][j] * y[j];
+      e = normalCdf((thresholds[i] - shift) / L[i][i]);
+      f *= e;
+    }
+    total += f;
+  }
+  return total / COPULA_SAMPLES;
+}
+
+export function priceCombo(legs: ComboLegPrice[]): ComboPrice {
+  const winProbabilities = legs.map((leg) => (leg.side === "YES" ? leg.probability : 100 - leg.probability) / 100);
+  const naive = winProbabilities.reduce((p, q) => p * q, 1) * 100;
+
+  // A lost leg settles the combo; a leg that has already won drops out of the joint probability
+  if (winProbabilities.some((q) => q <= 0)) return { naive: 0, correlated: 0 };
+  const live = legs.map((leg, i) => ({ leg, q: winProbabilities[i] })).filter(({ q }) => q < 1);
+  if (live.length <= 1) return { naive, correlated: naive };
+
+  // A NO leg wins when its market's latent is high, so its correlations flip sign
+  const signs = live.map(({ leg }) => (leg.side === "YES" ? 1 : -1));
+  const matrix = live.map((a, i) =>
+    live.map((b, j) => (i === j ? 1 : getCorrelation(a.leg.marketId, b.leg.marketId) * signs[i] * signs[j]))
+  );
+  if (matrix.every((row, i) => row.every((value, j) => i === j || value === 0))) {
+    return { naive, correlated: naive };
+  }
+
+  const L = choleskyWithRepair(matrix);
+  const thresholds = live.map(({ q }) => inverseNormalCdf(q));
+  const correlated = Math.min(1, Math.max(0, multivariateNormalCdf(thresholds, L))) * 100;
+  return { naive, correlated };
+}
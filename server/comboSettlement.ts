@@ -0,0 +1,262 @@
+import { MAX_COMBO_DEPTH, type ComboPosition, type CustomComboLeg, type CustomComboResponse, type Market } from "@shared/schema";
+import { storage } from "./storage";
+import { getComboState, getMarketState, priceComboDefinition, registerCombo, settleComboState, unregisterCombo, type ComboStateLeg } from "./simulation";
+import { activeLegs, currentComboPrice, finalComboPrice, marketLegIds, nestedComboIds } from "./comboLegs";
+
+// Combo resolution: a combo follows its legs' markets and nested combos. Once a parlay leg
+// resolves against it the parlay resolves to 0; once every remaining leg has resolved in its
+// favour it resolves to 100. A basket resolves at its weighted value once every leg has resolved.
+// Open combo positions are paid out at that price and the combo is marked resolved. A leg whose
+// market or combo is canceled is voided: the combo is repriced on the remaining legs, and a combo
+// with every leg voided is canceled and its stakes refunded. Positions a failed payout or refund
+// left open on a resolved or canceled combo are picked up by the catch-up sweep.
+
+// PnL on the leveraged notional: stake * leverage * (exit - entry) / 100, negated for NO
+export function comboPositionPnl(position: ComboPosition, exitProbability: number): number {
+  const entryProbability = parseFloat(position.entryProbability || "0");
+  const notional = (position.stake || 0) * (position.leverage || 1);
+  return position.side === "YES"
+    ? notional * (exitProbability - entryProbability) / 100
+    : notional * (entryProbability - exitProbability) / 100;
+}
+
+// Closes at exitProbability and returns stake + PnL (never less than zero)
+export async function settleComboPositionAt(position: ComboPosition, exitProbability: number, memo: string): Promise<ComboPosition | undefined> {
+  const pnl = comboPositionPnl(position, exitProbability);
+  return storage.settleComboPosition(position.id, {
+    exitProbability,
+    pnl,
+    payout: Math.max(0, (position.stake || 0) + pnl),
+    status: "settled",
+    memo,
+  });
+}
+
+function legProbability(leg: { side: "YES" | "NO" }, price: number): number {
+  return leg.side === "YES" ? price / 100 : (100 - price) / 100;
+}
+
+function stateLegs(legs: CustomComboLeg[]): ComboStateLeg[] {
+  return activeLegs(legs).map((leg) => ({ marketId: leg.marketId, comboId: leg.comboId, side: leg.side, weight: leg.weight, price: leg.price }));
+}
+
+// Live tracking in the simulation only prices the legs that are still in play. Nested combos that
+// are not tracked yet are loaded in the background: active ones are tracked, resolved ones leave
+// their final price; until then the parent prices them at the leg's stored price.
+export function trackCombo(combo: CustomComboResponse): void {
+  unregisterCombo(combo.id);
+  registerCombo(combo.id, stateLegs(combo.legs), combo.kind);
+  for (const childId of nestedComboIds(combo.legs)) {
+    if (getComboState(childId)) continue;
+    storage.getCustomCombo(childId)
+      .then((child) => {
+        if (!child || getComboState(child.id)) return;
+        if (child.status === "active") trackCombo(child);
+        else if (child.status === "resolved") settleComboState(child.id, finalComboPrice(child));
+      })
+      .catch((err) => console.error(`[combo-settlement] Failed to load nested combo ${childId}:`, err));
+  }
+}
+
+async function voidLeg(combo: CustomComboResponse, isVoided: (leg: CustomComboLeg) => boolean, lastPrice: number, label: string): Promise<CustomComboResponse | undefined> {
+  const legs = combo.legs.map((leg) => (!leg.voided && isVoided(leg) ? { ...leg, voided: true } : leg));
+  const remaining = activeLegs(legs);
+  const after = priceComboDefinition(combo.kind, stateLegs(remaining));
+  const impliedProbability = after.probability / 100;
+  const multiplier = impliedProbability > 0 ? Math.min(1 / impliedProbability, 999) : 999;
+
+  // Open positions are rescaled by where the voided leg last traded; basket positions move by
+  // the change in basket value instead
+  const voidedLeg = combo.legs.find((leg) => !leg.voided && isVoided(leg))!;
+  const before = combo.kind === "basket" ? priceComboDefinition(combo.kind, stateLegs(combo.legs)).probability : 0;
+
+  const updated = await storage.voidComboLeg({
+    comboId: combo.id,
+    legs,
+    impliedProbability: impliedProbability.toFixed(6),
+    multiplier: multiplier.toFixed(2),
+    legProbability: combo.kind === "basket" ? 0 : legProbability(voidedLeg, lastPrice),
+    entryShift: combo.kind === "basket" && remaining.length > 0 ? after.probability - before : undefined,
+  });
+  if (updated && remaining.length > 0) trackCombo(updated);
+  console.log(`[combo-settlement] Combo ${combo.id}: leg on ${label} voided, ${remaining.length} legs remain`);
+  return updated;
+}
+
+// Resolved at exitProbability: 0 or 100 for a parlay (outcome), the final value for a basket. The
+// final price is stored as the combo's implied probability.
+async function resolveCombo(combo: CustomComboResponse, exitProbability: number, outcome: boolean | null): Promise<boolean> {
+  const resolved = await storage.resolveCustomCombo(combo.id, "resolved", outcome, exitProbability);
+  if (!resolved) return false; // Resolved or canceled concurrently
+  settleComboState(combo.id, exitProbability);
+  await payOutResolvedCombo(resolved);
+  return true;
+}
+
+// Pays out the open positions of a resolved combo at its final price; safe to re-run
+async function payOutResolvedCombo(combo: CustomComboResponse): Promise<void> {
+  const exitProbability = finalComboPrice(combo);
+  const label = combo.outcome === null ? `at ${exitProbability.toFixed(2)}` : combo.outcome ? "YES" : "NO";
+  let settled = 0;
+  let paidOut = 0;
+  for (const position of await storage.getOpenComboPositionsForCombo(combo.id)) {
+    try {
+      const closed = await settleComboPositionAt(position, exitProbability, `Combo ${combo.id} resolved ${label}`);
+      if (!closed) continue;
+      settled++;
+      paidOut += Math.max(0, (position.stake || 0) + comboPositionPnl(position, exitProbability));
+    } catch (err) {
+      console.error(`[combo-settlement] Failed to settle position ${position.id} of combo ${combo.id}:`, err);
+    }
+  }
+  console.log(`[combo-settlement] Combo ${combo.id} resolved ${label}: ${settled} positions settled, $${paidOut.toFixed(2)} paid out`);
+}
+
+// Every leg voided: stakes are returned in full (fees are not)
+async function cancelCombo(combo: CustomComboResponse): Promise<boolean> {
+  const canceled = await storage.resolveCustomCombo(combo.id, "canceled", null);
+  if (!canceled) return false;
+  unregisterCombo(combo.id);
+  await refundCanceledCombo(canceled);
+  return true;
+}
+
+// Returns the stakes of the open positions of a canceled combo; safe to re-run
+async function refundCanceledCombo(combo: CustomComboResponse): Promise<void> {
+  let refunded = 0;
+  for (const position of await storage.getOpenComboPositionsForCombo(combo.id)) {
+    try {
+      const closed = await storage.settleComboPosition(position.id, {
+        exitProbability: parseFloat(position.entryProbability || "0"),
+        pnl: 0,
+        payout: position.stake || 0,
+        status: "cancelled",
+        memo: `Combo ${combo.id} canceled: every leg voided`,
+      });
+      if (closed) refunded++;
+    } catch (err) {
+      console.error(`[combo-settlement] Failed to refund position ${position.id} of combo ${combo.id}:`, err);
+    }
+  }
+  console.log(`[combo-settlement] Combo ${combo.id} canceled: ${refunded} positions refunded`);
+}
+
+interface LegUnderlyings {
+  markets: Map<number, Market>;
+  combos: Map<number, CustomComboResponse>;
+}
+
+// Final YES price of a leg's market or combo, or undefined while it is still open
+function settledLegPrice(leg: CustomComboLeg, underlyings: LegUnderlyings): number | undefined {
+  if (leg.comboId !== undefined) {
+    const child = underlyings.combos.get(leg.comboId);
+    return child?.status === "resolved" ? finalComboPrice(child) : undefined;
+  }
+  const market = leg.marketId !== undefined ? underlyings.markets.get(leg.marketId) : undefined;
+  return market?.resolved ? (market.outcome ? 100 : 0) : undefined;
+}
+
+function isLegCanceled(leg: CustomComboLeg, underlyings: LegUnderlyings): boolean {
+  if (leg.comboId !== undefined) return underlyings.combos.get(leg.comboId)?.status === "canceled";
+  return leg.marketId !== undefined && underlyings.markets.get(leg.marketId)?.status === "canceled";
+}
+
+// Voids legs on canceled markets and combos, then resolves or cancels the combo if its outcome is
+// decided. Returns true when the combo was resolved or canceled.
+async function reconcileCombo(combo: CustomComboResponse, underlyings: LegUnderlyings): Promise<boolean> {
+  let current: CustomComboResponse | undefined = combo;
+  for (const leg of activeLegs(combo.legs)) {
+    if (!current || !isLegCanceled(leg, underlyings)) continue;
+    const lastPrice = leg.comboId !== undefined
+      ? currentComboPrice(underlyings.combos.get(leg.comboId)!)
+      : getMarketState(leg.marketId!)?.currentProbability ?? parseFloat(underlyings.markets.get(leg.marketId!)!.currentProbability.toString());
+    current = await voidLeg(
+      current,
+      (l) => (leg.comboId !== undefined ? l.comboId === leg.comboId : l.marketId === leg.marketId),
+      lastPrice,
+      leg.comboId !== undefined ? `combo ${leg.comboId}` : `market ${leg.marketId}`
+    );
+  }
+  if (!current) return false;
+
+  const remaining = activeLegs(current.legs);
+  if (remaining.length === 0) {
+    return cancelCombo(current);
+  }
+
+  const settled = remaining.map((leg) => ({ leg, price: settledLegPrice(leg, underlyings) }));
+  if (current.kind === "basket") {
+    if (settled.some(({ price }) => price === undefined)) return false;
+    const totalWeight = settled.reduce((sum, { leg }) => sum + (leg.weight ?? 1), 0);
+    const value = settled.reduce((sum, { leg, price }) => sum + (leg.weight ?? 1) * legProbability(leg, price!) * 100, 0) / totalWeight;
+    return resolveCombo(current, Number(value.toFixed(6)), null);
+  }
+
+  const lost = settled.some(({ leg, price }) => price !== undefined && legProbability(leg, price) === 0);
+  if (lost) {
+    return resolveCombo(current, 0, false);
+  } else if (settled.every(({ price }) => price !== undefined)) {
+    return resolveCombo(current, 100, true);
+  }
+  return false;
+}
+
+// Reconciles the given combos; returns the ids of those resolved or canceled
+async function reconcileCombos(combos: CustomComboResponse[]): Promise<number[]> {
+  if (combos.length === 0) return [];
+  const underlyings: LegUnderlyings = { markets: new Map(), combos: new Map() };
+  for (const marketId of Array.from(new Set(combos.flatMap((c) => marketLegIds(c.legs))))) {
+    const market = await storage.getMarket(marketId);
+    if (market) underlyings.markets.set(marketId, market);
+  }
+  for (const comboId of Array.from(new Set(combos.flatMap((c) => nestedComboIds(c.legs))))) {
+    const child = await storage.getCustomCombo(comboId);
+    if (child) underlyings.combos.set(comboId, child);
+  }
+
+  const closed: number[] = [];
+  for (const combo of combos) {
+    try {
+      if (await reconcileCombo(combo, underlyings)) closed.push(combo.id);
+    } catch (err) {
+      console.error(`[combo-settlement] Failed to reconcile combo ${combo.id}:`, err);
+    }
+  }
+  return closed;
+}
+
+// A combo closing can decide the combos holding it, and so on up to MAX_COMBO_DEPTH levels
+async function reconcileWithParents(combos: CustomComboResponse[]): Promise<number> {
+  let pending = combos;
+  let reconciled = 0;
+  for (let level = 0; level < MAX_COMBO_DEPTH && pending.length > 0; level++) {
+    reconciled += pending.length;
+    const closed = await reconcileCombos(pending);
+    if (closed.length === 0) break;
+    pending = (await storage.getActiveCustomCombos())
+      .filter((c) => nestedComboIds(c.legs).some((id) => closed.includes(id)));
+  }
+  return reconciled;
+}
+
+// Called when a market resolves or is canceled
+export async function resolveCombosForMarket(marketId: number): Promise<number> {
+  const combos = (await storage.getActiveCustomCombos())
+    .filter((c) => marketLegIds(c.legs).includes(marketId));
+  return reconcileWithParents(combos);
+}
+
+// Catch-up sweep over every active combo, run by the combo settlement scheduler. It then finishes
+// payouts and refunds left open on resolved and canceled combos.
+export async function resolveCombos(): Promise<number> {
+  const reconciled = await reconcileWithParents(await storage.getActiveCustomCombos());
+  for (const combo of await storage.getClosedCombosWithOpenPositions()) {
+    try {
+      if (combo.status === "resolved") await payOutResolvedCombo(combo);
+      else await refundCanceledCombo(combo);
+    } catch (err) {
+      console.error(`[combo-settlement] Failed to resume settlement of combo ${combo.id}:`, err);
+    }
+  }
+  return reconciled;
+}
@@ -0,0 +1,101 @@
+import { z } from "zod";
+import type { Combo, CustomComboResponse } from "@shared/schema";
+import { storage } from "./storage";
+import { getComboState, getMarketState, priceComboDefinition } from "./simulation";
+import { estimateCorrelations } from "./comboPricing";
+import { trackCombo } from "./comboSettlement";
+import { activeLegs, buildComboLegs, marketLegIds } from "./comboLegs";
+import { currentDate } from "./clock";
+
+// Curated combos: house-listed parlays served by /api/combos. They are custom_combos rows flagged
+// curated, so positions, lock-date settlement and resolution from the legs' markets work exactly as
+// for user-created combos. Admins create and retire them; past expiresAt they take no new positions
+// and the combo settlement scheduler retires them. Retiring never touches open positions.
+
+export const CURATED_COMBO_CREATOR_ID = "house";
+
+export const curatedComboSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  legs: z.array(z.object({
+    marketId: z.number().int().positive(),
+    side: z.enum(["YES", "NO"]),
+  })).min(2).max(10),
+  expiresAt: z.coerce.date(),
+});
+
+function legProbability(side: "YES" | "NO", price: number): number {
+  return side === "YES" ? price : 100 - price;
+}
+
+export function isComboTradable(combo: CustomComboResponse, now: Date = currentDate()): boolean {
+  if (combo.status !== "active" || combo.retiredAt) return false;
+  return !combo.expiresAt || new Date(combo.expiresAt) > now;
+}
+
+// Listing shape, priced from the simulation; voided legs are left out
+export function toListedCombo(combo: CustomComboResponse): Combo {
+  const live = combo.status === "active";
+  if (live && !getComboState(combo.id)) trackCombo(combo);
+  const state = live ? getComboState(combo.id) : undefined;
+  const settledProbability = combo.status === "resolved" ? (combo.outcome ? 100 : 0) : combo.impliedProbability * 100;
+
+  return {
+    id: combo.id,
+    name: combo.name,
+    category: "Combo",
+    probability: Number((state?.currentProbability ?? settledProbability).toFixed(2)),
+    multiplier: state?.multiplier ?? combo.multiplier,
+    volume24h: combo.volume24h,
+    openInterest: combo.openInterest,
+    legs: activeLegs(combo.legs).flatMap((leg) => (leg.marketId === undefined ? [] : [{
+      marketId: leg.marketId,
+      marketName: leg.marketName,
+      side: leg.side,
+      probability: Number(legProbability(leg.side, getMarketState(leg.marketId)?.currentProbability ?? leg.price).toFixed(2)),
+    }])),
+    expiry: combo.expiresAt ?? combo.createdAt ?? currentDate(),
+    isCombo: true,
+    status: combo.status,
+    isTradable: isComboTradable(combo),
+  };
+}
+
+export async function createCuratedCombo(input: z.infer<typeof curatedComboSchema>): Promise<{ combo: CustomComboResponse } | { error: string }> {
+  if (input.expiresAt <= currentDate()) {
+    return { error: "expiresAt must be in the future" };
+  }
+  const built = await buildComboLegs("parlay", input.legs);
+  if ("error" in built) return built;
+  const { legs } = built;
+
+  const impliedProbability = priceComboDefinition("parlay", legs).probability / 100;
+  const multiplier = impliedProbability > 0 ? Math.min(1 / impliedProbability, 999) : 999;
+  const combo = await storage.createCustomCombo({
+    name: input.name,
+    creatorId: CURATED_COMBO_CREATOR_ID,
+    legs,
+    impliedProbability: impliedProbability.toFixed(6),
+    multiplier: multiplier.toFixed(2),
+    curated: true,
+    expiresAt: input.expiresAt,
+  });
+
+  trackCombo(combo);
+  estimateCorrelations(marketLegIds(legs))
+    .catch((err) => console.error(`[curated-combos] Failed to estimate correlations for combo ${combo.id}:`, err));
+  return { combo };
+}
+
+// Run by the combo settlement scheduler
+export async function retireExpiredCuratedCombos(): Promise<number> {
+  const now = currentDate();
+  let retired = 0;
+  for (const combo of await storage.getCuratedCombos()) {
+    if (combo.retiredAt || !combo.expiresAt || new Date(combo.expiresAt) > now) continue;
+    if (await storage.retireCuratedCombo(combo.id)) {
+      retired++;
+      console.log(`[curated-combos] Combo ${combo.id} expired and was retired`);
+    }
+  }
+  return retired;
+}
@@ -0,0 +1,58 @@
+import type { AccountFees, FeeTier, StlrFeeDiscount } from "@shared/schema";
+import { storage } from "./storage";
+import { currentDate } from "./clock";
+
+// Fee schedule: every fill pays a maker or taker rate on its notional, credited to the "fees"
+// ledger account. The tier comes from the user's 30-day trade volume; STLR holders get a
+// percentage off both rates. Settlement and liquidation closes are not charged.
+
+export const FEE_VOLUME_WINDOW_MS = 30 * 24 * 60 * 60 * 1000;
+
+export const FEE_TIERS: FeeTier[] = [
+  { tier: 0, minVolume: 0, makerBps: 2, takerBps: 5 },
+  { tier: 1, minVolume: 100_000, makerBps: 1.5, takerBps: 4.5 },
+  { tier: 2, minVolume: 1_000_000, makerBps: 1, takerBps: 4 },
+  { tier: 3, minVolume: 10_000_000, makerBps: 0.5, takerBps: 3 },
+  { tier: 4, minVolume: 50_000_000, makerBps: 0, takerBps: 2.5 },
+];
+
+export const STLR_FEE_DISCOUNTS: StlrFeeDiscount[] = [
+  { minStlr: 10_000, discountPct: 5 },
+  { minStlr: 50_000, discountPct: 10 },
+  { minStlr: 250_000, discountPct: 20 },
+  { minStlr: 1_000_000, discountPct: 25 },
+];
+
+function applyDiscount(bps: number, discountPct: number): number {
+  return Number((bps * (1 - discountPct / 100)).toFixed(4));
+}
+
+export function resolveFeeRates(volume30d: number, stlrPoints: number): AccountFees {
+  const tierIndex = FEE_TIERS.reduce((best, t, i) => (volume30d >= t.minVolume ? i : best), 0);
+  const tier = FEE_TIERS[tierIndex];
+  const discount = STLR_FEE_DISCOUNTS.filter((d) => stlrPoints >= d.minStlr).pop();
+  const stlrDiscountPct = discount?.discountPct ?? 0;
+
+  return {
+    tier: tier.tier,
+    volume30d,
+    stlrPoints,
+    stlrDiscountPct,
+    makerBps: applyDiscount(tier.makerBps, stlrDiscountPct),
+    takerBps: applyDiscount(tier.takerBps, stlrDiscountPct),
+    nextTier: FEE_TIERS[tierIndex + 1] ?? null,
+    tiers: FEE_TIERS,
+    stlrDiscounts: STLR_FEE_DISCOUNTS,
+  };
+}
+
+// Current rates for a user; read once per request or fill, not cached, so a tier change
+// applies from the next fill
+export async function getFeeRates(userId: string): Promise<AccountFees> {
+  const since = new Date(currentDate().getTime() - FEE_VOLUME_WINDOW_MS);
+  const [user, volume30d] = await Promise.all([
+    storage.getUser(userId),
+    storage.getTradingVolume(userId, since),
+  ]);
+  return resolveFeeRates(volume30d, user?.stlrPoints ?? 0);
+}
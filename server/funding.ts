@@ -0,0 +1,133 @@
+import type { MarketFunding, Position } from "@shared/schema";
+import { storage } from "./storage";
+import { getClock, currentDate } from "./clock";
+import { calculatePositionMargin } from "./riskEngine";
+import { canClose } from "./marketLifecycle";
+
+// Funding: every interval each open position pays or receives a rate on its notional set by the
+// market's YES/NO open-interest imbalance, so the crowded side pays the other. Leveraged positions
+// also pay a borrow rate on the part of the notional not covered by margin. Payments are booked
+// against the house account and accumulated on positions.accruedFunding; each market's interval
+// is recorded in funding_rates.
+
+export const FUNDING_INTERVAL_MS = 60 * 60 * 1000; // Hourly
+const MAX_FUNDING_RATE = 0.0005; // 5 bps of notional per interval when open interest is all on one side
+const BORROW_RATE = 0.00001; // 0.1 bps per interval of the borrowed notional
+const HISTORY_LIMIT = 48;
+
+let fundingTimer: number | null = null;
+let nextFundingAt: number | null = null;
+let isFunding = false;
+
+interface OpenInterest {
+  long: number; // YES notional
+  short: number; // NO notional
+}
+
+function getOpenInterest(openPositions: Position[]): OpenInterest {
+  return openPositions.reduce(
+    (oi, p) => (p.side === "YES" ? { ...oi, long: oi.long + p.size } : { ...oi, short: oi.short + p.size }),
+    { long: 0, short: 0 }
+  );
+}
+
+// Positive: YES pays NO. Scales linearly with the imbalance, zero when balanced or empty.
+export function calculateFundingRate(oi: OpenInterest): number {
+  const total = oi.long + oi.short;
+  if (total === 0) return 0;
+  const imbalance = (oi.long - oi.short) / total;
+  return Number((imbalance * MAX_FUNDING_RATE).toFixed(8));
+}
+
+// Amount the position pays this interval (negative when it receives), rounded to the cent
+export function calculateFundingPayment(position: Position, rate: number): number {
+  const signedRate = position.side === "YES" ? rate : -rate;
+  const borrowed = Math.max(0, position.size - calculatePositionMargin(position));
+  const payment = position.size * signedRate + borrowed * BORROW_RATE;
+  return Math.round(payment * 100) / 100;
+}
+
+async function fundMarket(marketId: number, openPositions: Position[]): Promise<void> {
+  const oi = getOpenInterest(openPositions);
+  const rate = calculateFundingRate(oi);
+  const fundedAt = currentDate();
+
+  let positionsCharged = 0;
+  let netCollected = 0;
+  for (const position of openPositions) {
+    const payment = calculateFundingPayment(position, rate);
+    if (payment === 0) continue;
+    const memo = `Funding ${(rate * 100).toFixed(4)}% at ${fundedAt.toISOString()}`;
+    try {
+      if (await storage.applyFundingPayment(position.id, payment, memo)) {
+        positionsCharged++;
+        netCollected += payment;
+      }
+    } catch (err) {
+      console.error(`[funding] Failed to book funding for position ${position.id}:`, err);
+    }
+  }
+
+  await storage.createFundingRate({
+    marketId,
+    rate: rate.toFixed(8),
+    longOpenInterest: oi.long,
+    shortOpenInterest: oi.short,
+    positionsCharged,
+    netCollected: netCollected.toFixed(8),
+    fundedAt,
+  });
+}
+
+// One funding interval across every market with open positions
+export async function runFundingInterval(): Promise<void> {
+  if (isFunding) return;
+  isFunding = true;
+  try {
+    const openPositions = await storage.getAllOpenPositions();
+    const byMarket = new Map<number, Position[]>();
+    for (const { market, ...position } of openPositions) {
+      // Settlement or cancellation closes positions on resolved and canceled markets, and holders
+      // are not charged while a halted or awaiting-resolution market does not let them close
+      if (market.resolved || !canClose(market.status)) continue;
+      byMarket.set(position.marketId, [...(byMarket.get(position.marketId) ?? []), position]);
+    }
+
+    for (const [marketId, positions] of Array.from(byMarket.entries())) {
+      await fundMarket(marketId, positions);
+    }
+    if (byMarket.size > 0) {
+      console.log(`[funding] Booked funding for ${openPositions.length} positions in ${byMarket.size} markets`);
+    }
+  } finally {
+    isFunding = false;
+  }
+}
+
+export function scheduleFunding(): void {
+  const clock = getClock();
+  clock.clearTimer(fundingTimer);
+  nextFundingAt = clock.now() + FUNDING_INTERVAL_MS;
+  fundingTimer = clock.setInterval(async () => {
+    nextFundingAt = getClock().now() + FUNDING_INTERVAL_MS;
+    await runFundingInterval().catch((err) => console.error("[funding] Funding interval failed:", err));
+  }, FUNDING_INTERVAL_MS);
+}
+
+export async function getMarketFunding(marketId: number): Promise<MarketFunding> {
+  const [openPositions, history] = await Promise.all([
+    storage.getOpenPositionsForMarket(marketId),
+    storage.getFundingHistory(marketId, HISTORY_LIMIT),
+  ]);
+  const oi = getOpenInterest(openPositions);
+  return {
+    marketId,
+    predictedRate: calculateFundingRate(oi),
+    borrowRate: BORROW_RATE,
+    longOpenInterest: oi.long,
+    shortOpenInterest: oi.short,
+    intervalMs: FUNDING_INTERVAL_MS,
+    nextFundingAt: nextFundingAt !== null ? new Date(nextFundingAt).toISOString() : null,
+    history,
+  };
+}
@@ -0,0 +1,484 @@
+import type { Server, IncomingMessage } from "http";
+import type { Duplex } from "stream";
+import type { Request, RequestHandler, Response } from "express";
+import { WebSocketServer, WebSocket } from "ws";
+import { storage, type Fill } from "./storage";
+import { getMarketState, getAllMarketStates, getComboState } from "./simulation";
+import { getOrderBookDepth } from "./orderBook";
+import { calculateCrossMarginMetrics } from "./riskEngine";
+import {
+  GATEWAY_PATH,
+  gatewayClientMessageSchema,
+  gatewayPrivateChannels,
+  type GatewayChannel,
+  type GatewayServerMessage,
+} from "@shared/routes";
+import type { CrossMarginMetrics, Market, Order, Position, Trade } from "@shared/schema";
+
+// WebSocket gateway: clients subscribe to topics (a channel plus a market/combo id, or the session
+// user for private channels). A topic is only computed while it has subscribers. Each publish tick
+// recomputes the topic's view, diffs it against the last published view and sends the difference
+// as an update with the next sequence number; a (re)subscribe gets the last published view as a
+// snapshot with the current sequence number.
+
+const PUBLISH_INTERVAL_MS = 1000;
+const HEARTBEAT_INTERVAL_MS = 30000;
+const MAX_SUBSCRIPTIONS_PER_CLIENT = 100;
+const MAX_MESSAGE_BYTES = 4096;
+
+interface BookLevel {
+  price: number;
+  size: number;
+}
+
+interface BookView {
+  bids: BookLevel[];
+  asks: BookLevel[];
+  currentProbability: number;
+}
+
+interface TickerView {
+  marketId: number;
+  currentProbability: number;
+}
+
+// Open orders or positions plus those that changed since the previous load
+interface LiveRowsView<R> {
+  rows: R[];
+  loadedAt: Date;
+}
+
+interface MarginView {
+  metrics: CrossMarginMetrics;
+}
+
+// How one channel loads its current view and what it publishes from it
+interface ChannelSource<T> {
+  everyTicks: number; // In-memory channels publish every tick; DB-backed ones less often
+  load(key: string, prev: T | undefined): Promise<T | null>; // null: nothing to subscribe to
+  snapshot(view: T): unknown;
+  diff(prev: T, next: T): unknown | null; // null: nothing changed
+}
+
+interface Topic {
+  id: string;
+  channel: GatewayChannel;
+  key: string;
+  wireKey: number | null;
+  seq: number;
+  view: unknown;
+  ready: Promise<boolean>;
+  subscribers: Set<GatewayClient>;
+}
+
+interface GatewayClient {
+  socket: WebSocket;
+  userId: string | null;
+  topics: Set<Topic>;
+  isAlive: boolean;
+}
+
+function currentProbability(marketId: number, prev: number | undefined, market?: Market): number | null {
+  const state = getMarketState(marketId);
+  if (state) return state.currentProbability;
+  if (prev !== undefined) return prev;
+  return market ? parseFloat(market.currentProbability.toString()) : null;
+}
+
+// Only levels whose size changed; size 0 removes the level
+function diffLevels(prev: BookLevel[], next: BookLevel[]): BookLevel[] {
+  const before = new Map(prev.map((l) => [l.price, l.size]));
+  const after = new Map(next.map((l) => [l.price, l.size]));
+  const changed: BookLevel[] = [];
+  for (const [price, size] of Array.from(after.entries())) {
+    if (before.get(price) !== size) changed.push({ price, size });
+  }
+  for (const price of Array.from(before.keys())) {
+    if (!after.has(price)) changed.push({ price, size: 0 });
+  }
+  return changed;
+}
+
+// Rows whose serialized form changed since the previous view, keyed by id
+function diffRows<R extends { id: number }>(prev: R[], next: R[], fingerprint: (row: R) => string = (row) => JSON.stringify(row)): R[] {
+  const before = new Map(prev.map((r) => [r.id, fingerprint(r)]));
+  return next.filter((r) => before.get(r.id) !== fingerprint(r));
+}
+
+function newerRows<R extends { id: number }>(prev: R[], next: R[]): R[] {
+  const lastId = prev.reduce((max, r) => Math.max(max, r.id), 0);
+  return next.filter((r) => r.id > lastId);
+}
+
+// Where the next load of a LiveRowsView starts: one publish interval before the previous load, so
+// a change committed while that load ran is not missed
+function changedSince(prev: LiveRowsView<unknown> | undefined, loadedAt: Date): Date {
+  return prev ? new Date(prev.loadedAt.getTime() - PUBLISH_INTERVAL_MS) : loadedAt;
+}
+
+function isOpenOrder(order: Order): boolean {
+  return order.status === "active" || order.status === "partial" || order.status === "pending" || order.status === "waiting";
+}
+
+// Position rows carry the joined market, whose stored price changes constantly; compare the position only
+function positionFingerprint({ market, ...position }: Position & { market: Market }): string {
+  return JSON.stringify(position);
+}
+
+const tickerSource: ChannelSource<TickerView> = {
+  everyTicks: 1,
+  async load(key, prev) {
+    const marketId = Number(key);
+    const market = prev ? undefined : await storage.getMarket(marketId);
+    if (!prev && !market) return null;
+    const probability = currentProbability(marketId, prev?.currentProbability, market);
+    return probability === null ? null : { marketId, currentProbability: probability };
+  },
+  snapshot: (view) => ({ ...view, timestamp: Date.now() }),
+  diff: (prev, next) =>
+    prev.currentProbability === next.currentProbability ? null : { ...next, timestamp: Date.now() },
+};
+
+const tickersSource: ChannelSource<TickerView[]> = {
+  everyTicks: 1,
+  async load() {
+    return getAllMarketStates().map((s) => ({ marketId: s.marketId, currentProbability: s.currentProbability }));
+  },
+  snapshot: (view) => ({ markets: view }),
+  diff(prev, next) {
+    const before = new Map(prev.map((t) => [t.marketId, t.currentProbability]));
+    const changed = next.filter((t) => before.get(t.marketId) !== t.currentProbability);
+    return changed.length > 0 ? { markets: changed } : null;
+  },
+};
+
+const bookSource: ChannelSource<BookView> = {
+  everyTicks: 1,
+  async load(key, prev) {
+    const marketId = Number(key);
+    const market = prev ? undefined : await storage.getMarket(marketId);
+    if (!prev && !market) return null;
+    const depth = getOrderBookDepth(marketId);
+    const probability = currentProbability(marketId, prev?.currentProbability, market) ?? 50;
+    return { bids: depth.bids, asks: depth.asks, currentProbability: probability };
+  },
+  snapshot: (view) => view,
+  diff(prev, next) {
+    const bids = diffLevels(prev.bids, next.bids);
+    const asks = diffLevels(prev.asks, next.asks);
+    if (bids.length === 0 && asks.length === 0 && prev.currentProbability === next.currentProbability) return null;
+    return { bids, asks, currentProbability: next.currentProbability };
+  },
+};
+
+const tradesSource: ChannelSource<Trade[]> = {
+  everyTicks: 2,
+  async load(key, prev) {
+    const marketId = Number(key);
+    if (!prev && !(await storage.getMarket(marketId))) return null;
+    return storage.getTrades(marketId);
+  },
+  snapshot: (view) => view,
+  diff(prev, next) {
+    const added = newerRows(prev, next);
+    return added.length > 0 ? added : null;
+  },
+};
+
+const comboSource: ChannelSource<{ comboId: number; currentProbability: number; multiplier: number }> = {
+  everyTicks: 1,
+  async load(key) {
+    const state = getComboState(Number(key));
+    if (!state) return null;
+    return { comboId: state.comboId, currentProbability: state.currentProbability, multiplier: state.multiplier };
+  },
+  snapshot: (view) => view,
+  diff: (prev, next) =>
+    prev.currentProbability === next.currentProbability && prev.multiplier === next.multiplier ? null : next,
+};
+
+// Loads open orders plus those changed since the previous load; updates include fills and cancels
+const ordersSource: ChannelSource<LiveRowsView<Order>> = {
+  everyTicks: 2,
+  async load(userId, prev) {
+    const loadedAt = new Date();
+    return { rows: await storage.getOpenOrders(userId, changedSince(prev, loadedAt)), loadedAt };
+  },
+  snapshot: (view) => view.rows.filter(isOpenOrder),
+  diff(prev, next) {
+    const changed = diffRows(prev.rows, next.rows);
+    return changed.length > 0 ? changed : null;
+  },
+};
+
+const fillsSource: ChannelSource<Fill[]> = {
+  everyTicks: 2,
+  load: (userId) => storage.getRecentFills(userId),
+  snapshot: (view) => view,
+  diff(prev, next) {
+    const added = newerRows(prev, next);
+    return added.length > 0 ? added : null;
+  },
+};
+
+// Loads open positions plus those closed since the previous load; updates include those closes
+// and liquidations
+const positionsSource: ChannelSource<LiveRowsView<Position & { market: Market }>> = {
+  everyTicks: 2,
+  async load(userId, prev) {
+    const loadedAt = new Date();
+    return { rows: await storage.getOpenPositions(userId, changedSince(prev, loadedAt)), loadedAt };
+  },
+  snapshot: (view) => view.rows.filter((p) => p.status === "open"),
+  diff(prev, next) {
+    const changed = diffRows(prev.rows, next.rows, positionFingerprint);
+    return changed.length > 0 ? changed : null;
+  },
+};
+
+const marginSource: ChannelSource<MarginView> = {
+  everyTicks: 2,
+  async load(userId) {
+    const user = await storage.getUser(userId);
+    if (!user) return null;
+    const openPositions = await storage.getOpenPositions(userId);
+    const metrics = calculateCrossMarginMetrics(
+      parseFloat(user.balance || "0"),
+      openPositions,
+      (marketId) => getMarketState(marketId)?.currentProbability ?? null
+    );
+    return { metrics };
+  },
+  snapshot: (view) => view.metrics,
+  diff: (prev, next) => (JSON.stringify(prev.metrics) === JSON.stringify(next.metrics) ? null : next.metrics),
+};
+
+const sources: Record<GatewayChannel, ChannelSource<unknown>> = {
+  ticker: tickerSource,
+  tickers: tickersSource,
+  book: bookSource,
+  trades: tradesSource,
+  combo: comboSource,
+  orders: ordersSource,
+  fills: fillsSource,
+  positions: positionsSource,
+  margin: marginSource,
+};
+
+const topics: Map<string, Topic> = new Map();
+const clients: Set<GatewayClient> = new Set();
+let publishTick = 0;
+let isPublishing = false;
+
+function isPrivateChannel(channel: GatewayChannel): boolean {
+  return (gatewayPrivateChannels as readonly string[]).includes(channel);
+}
+
+function send(client: GatewayClient, message: GatewayServerMessage): void {
+  if (client.socket.readyState === WebSocket.OPEN) {
+    client.socket.send(JSON.stringify(message));
+  }
+}
+
+function getOrCreateTopic(channel: GatewayChannel, key: string, wireKey: number | null): Topic {
+  const id = `${channel}:${key}`;
+  let topic = topics.get(id);
+  if (topic) return topic;
+
+  const created: Topic = { id, channel, key, wireKey, seq: 0, view: undefined, ready: Promise.resolve(false), subscribers: new Set() };
+  created.ready = sources[channel].load(key, undefined).then(
+    (view) => {
+      created.view = view ?? undefined;
+      return view !== null;
+    },
+    (err) => {
+      console.error(`[gateway] Failed to load ${id}:`, err);
+      return false;
+    }
+  );
+  topics.set(id, created);
+  return created;
+}
+
+function releaseTopic(topic: Topic, client: GatewayClient): void {
+  topic.subscribers.delete(client);
+  client.topics.delete(topic);
+  if (topic.subscribers.size === 0 && topics.get(topic.id) === topic) {
+    topics.delete(topic.id);
+  }
+}
+
+async function subscribe(client: GatewayClient, channel: GatewayChannel, wireKey: number | null): Promise<void> {
+  let key: string;
+  if (isPrivateChannel(channel)) {
+    if (!client.userId) {
+      send(client, { type: "error", message: "Authentication required", channel, key: null });
+      return;
+    }
+    key = client.userId;
+    wireKey = null;
+  } else if (channel === "tickers") {
+    key = "all";
+    wireKey = null;
+  } else {
+    if (wireKey === null) {
+      send(client, { type: "error", message: `Channel ${channel} requires a key`, channel, key: null });
+      return;
+    }
+    key = String(wireKey);
+  }
+
+  const topic = getOrCreateTopic(channel, key, wireKey);
+  if (!client.topics.has(topic) && client.topics.size >= MAX_SUBSCRIPTIONS_PER_CLIENT) {
+    send(client, { type: "error", message: "Too many subscriptions", channel, key: wireKey });
+    return;
+  }
+  topic.subscribers.add(client);
+  client.topics.add(topic);
+
+  const found = await topic.ready;
+  if (!found) {
+    releaseTopic(topic, client);
+    const message = channel === "combo" ? "Combo not found" : isPrivateChannel(channel) ? "User not found" : "Market not found";
+    send(client, { type: "error", message, channel, key: wireKey });
+    return;
+  }
+  // Re-subscribing to a topic is how clients resync after a sequence gap
+  if (topic.subscribers.has(client)) {
+    send(client, {
+      type: "snapshot",
+      channel,
+      key: topic.wireKey,
+      seq: topic.seq,
+      data: sources[channel].snapshot(topic.view),
+    });
+  }
+}
+
+function unsubscribe(client: GatewayClient, channel: GatewayChannel, wireKey: number | null): void {
+  for (const topic of Array.from(client.topics)) {
+    if (topic.channel === channel && (isPrivateChannel(channel) || channel === "tickers" || topic.wireKey === wireKey)) {
+      releaseTopic(topic, client);
+    }
+  }
+}
+
+async function publishTopic(topic: Topic): Promise<void> {
+  const source = sources[topic.channel];
+  if (topic.view === undefined) return; // Still loading
+  const next = await source.load(topic.key, topic.view);
+  if (next === null || topics.get(topic.id) !== topic) return;
+
+  const data = source.diff(topic.view, next);
+  topic.view = next;
+  if (data === null) return;
+
+  topic.seq += 1;
+  const message: GatewayServerMessage = { type: "update", channel: topic.channel, key: topic.wireKey, seq: topic.seq, data };
+  Array.from(topic.subscribers).forEach((client) => send(client, message));
+}
+
+async function publishAll(): Promise<void> {
+  // A slow DB poll must not overlap the next tick, or updates could be published out of order
+  if (isPublishing) return;
+  isPublishing = true;
+  publishTick += 1;
+  try {
+    const due = Array.from(topics.values()).filter((t) => publishTick % sources[t.channel].everyTicks === 0);
+    await Promise.all(
+      due.map((topic) =>
+        publishTopic(topic).catch((err) => console.error(`[gateway] Failed to publish ${topic.id}:`, err))
+      )
+    );
+  } finally {
+    isPublishing = false;
+  }
+}
+
+function handleMessage(client: GatewayClient, raw: string): void {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    send(client, { type: "error", message: "Invalid JSON" });
+    return;
+  }
+  const result = gatewayClientMessageSchema.safeParse(parsed);
+  if (!result.success) {
+    send(client, { type: "error", message: result.error.errors[0].message });
+    return;
+  }
+
+  const message = result.data;
+  if (message.op === "ping") {
+    send(client, { type: "pong" });
+  } else if (message.op === "subscribe") {
+    subscribe(client, message.channel, message.key ?? null).catch((err) =>
+      console.error("[gateway] Subscribe failed:", err)
+    );
+  } else {
+    unsubscribe(client, message.channel, message.key ?? null);
+  }
+}
+
+// Upgrade request once the session middleware has run on it
+type SessionUpgradeRequest = IncomingMessage & { session?: { userId?: string } };
+
+// Attaches the gateway to the HTTP server. The session middleware authenticates the upgrade
+// request from the same cookie as the REST API; other upgrade paths (Vite HMR) are left alone.
+export function attachGateway(httpServer: Server, sessionMiddleware: RequestHandler): void {
+  const wss = new WebSocketServer({ noServer: true, maxPayload: MAX_MESSAGE_BYTES });
+
+  httpServer.on("upgrade", (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    const { pathname } = new URL(req.url || "/", "http://localhost");
+    if (pathname !== GATEWAY_PATH) return;
+
+    // express-session only reads the cookie from the request and never writes to the response here
+    sessionMiddleware(req as Request, {} as Response, () => {
+      wss.handleUpgrade(req, socket, head, (ws) => wss.emit("connection", ws, req));
+    });
+  });
+
+  wss.on("connection", (socket: WebSocket, req: SessionUpgradeRequest) => {
+    const client: GatewayClient = {
+      socket,
+      userId: req.session?.userId ?? null,
+      topics: new Set(),
+      isAlive: true,
+    };
+    clients.add(client);
+
+    socket.on("pong", () => {
+      client.isAlive = true;
+    });
+    socket.on("message", (data) => handleMessage(client, data.toString()));
+    socket.on("close", () => {
+      clients.delete(client);
+      Array.from(client.topics).forEach((topic) => releaseTopic(topic, client));
+    });
+    socket.on("error", (err) => console.error("[gateway] Socket error:", err.message));
+  });
+
+  // Drop connections that stopped answering pings
+  const heartbeat = setInterval(() => {
+    Array.from(clients).forEach((client) => {
+      if (!client.isAlive) {
+        client.socket.terminate();
+        return;
+      }
+      client.isAlive = false;
+      client.socket.ping();
+    });
+  }, HEARTBEAT_INTERVAL_MS);
+
+  const publisher = setInterval(() => {
+    publishAll().catch((err) => console.error("[gateway] Publish failed:", err));
+  }, PUBLISH_INTERVAL_MS);
+
+  wss.on("close", () => {
+    clearInterval(heartbeat);
+    clearInterval(publisher);
+  });
+
+  console.log(`[gateway] WebSocket gateway listening on ${GATEWAY_PATH}`);
+}
@@ -73,6 +73,22 @@ httpServer.listen(port, "0.0.0.0", async () => {
   log(`serving on port ${port}`);
   
   try {
+    // Deterministic mode for reproducible test runs: a seeded PRNG and/or a clock that only
+    // moves when stepped through /api/admin/simulation/step. Ignored in production.
+    if (!isProduction && (process.env.SIMULATION_SEED || process.env.SIMULATION_MANUAL_CLOCK)) {
+      const { setRandomSeed } = await import("./random");
+      const { setClock, createManualClock } = await import("./clock");
+      if (process.env.SIMULATION_SEED) {
+        setRandomSeed(parseInt(process.env.SIMULATION_SEED, 10));
+        log(`Seeded simulation (seed ${process.env.SIMULATION_SEED})`, "simulation");
+      }
+      if (process.env.SIMULATION_MANUAL_CLOCK) {
+        const startAt = process.env.SIMULATION_START_AT ? Date.parse(process.env.SIMULATION_START_AT) : Date.now();
+        setClock(createManualClock(startAt));
+        log(`Manual clock installed at ${new Date(startAt).toISOString()}`, "simulation");
+      }
+    }
+
     // Now load and register routes
     const { registerRoutes, scheduleWeeklyReset, scheduleComboSettlement } = await import("./routes");
     await registerRoutes(httpServer, app);
@@ -97,11 +113,31 @@ httpServer.listen(port, "0.0.0.0", async () => {
     const { cleanupUserContent, seedMarkets, seedReferralCodes, restoreMissingStlr, fixTargetUser, fixHighBalanceUsers, fixWallet10d6d4, fixStlrCap, resetAllBalancesOnce } = await import("./seed");
     const { storage } = await import("./storage");
     const { startSimulation } = await import("./simulation");
+    const { initOrderBooks } = await import("./orderEngine");
+    const { scheduleLedgerReconciliation } = await import("./ledger");
+    const { schedulePriceHistoryPruning } = await import("./candles");
+    const { scheduleFunding } = await import("./funding");
+    const { loadRiskParams } = await import("./riskParams");
+    const { loadCorrelationOverrides, scheduleCorrelationRefresh } = await import("./comboPricing");
+    const { loadEarlyExitCurve } = await import("./comboExit");
+    const { scheduleProposalFinalization } = await import("./marketOracle");
+    const { scheduleMarketLifecycle } = await import("./marketLifecycle");
+    const { scheduleSettlementSweep } = await import("./settlement");
     
     await cleanupUserContent();
     await seedMarkets();
     await seedReferralCodes();
     await restoreMissingStlr();
+    // Before any balance fixes below, so pre-ledger accounts get their opening entries first
+    await scheduleLedgerReconciliation();
+
+    // Before the simulation starts checking margin against them
+    const riskOverrides = await loadRiskParams();
+    log(`Loaded risk parameters for ${riskOverrides} markets`, "startup");
+    const correlationOverrides = await loadCorrelationOverrides();
+    log(`Loaded ${correlationOverrides} combo correlation overrides`, "startup");
+    const exitCurve = await loadEarlyExitCurve();
+    log(`Combo early exit penalty ${exitCurve.maxPenaltyBps}-${exitCurve.minPenaltyBps} bps (exponent ${exitCurve.exponent})`, "startup");
 
     const markets = await storage.getMarkets();
     if (markets.length > 0) {
@@ -109,6 +145,11 @@ httpServer.listen(port, "0.0.0.0", async () => {
       log(`Market simulation started with ${markets.length} markets`, "simulation");
     }
     
+    await initOrderBooks();
+    schedulePriceHistoryPruning();
+    scheduleFunding();
+    await scheduleCorrelationRefresh();
+    
     await fixTargetUser();
     await fixHighBalanceUsers();
     await fixWallet10d6d4();
@@ -117,6 +158,9 @@ httpServer.listen(port, "0.0.0.0", async () => {
     
     await scheduleWeeklyReset();
     await scheduleComboSettlement();
+    await scheduleProposalFinalization();
+    await scheduleMarketLifecycle();
+    await scheduleSettlementSweep();
     
     log("All startup tasks completed", "startup");
   } catch (error: any) {
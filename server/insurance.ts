@@ -0,0 +1,120 @@
+import type { InsuranceFundEvent, Position } from "@shared/schema";
+import { storage, LEDGER_ACCOUNTS, type LiquidationResult } from "./storage";
+import { calculateBankruptcyPrice, calculatePositionMargin, calculatePositionPnL } from "./riskEngine";
+
+// Insurance fund and auto-deleveraging. Every liquidation pays a penalty into the fund; when the
+// close price has gapped past the position's bankruptcy price (where the loss equals its margin),
+// the fund pays the shortfall. Whatever the fund cannot cover is recovered by auto-deleveraging:
+// profitable positions on the other side of the market are ranked by profit and leverage and
+// closed at the bankruptcy price until the shortfall is absorbed. Every step is recorded in
+// insurance_fund_events for the admin dashboard.
+
+export const LIQUIDATION_PENALTY_RATE = 0.01; // 1% of the liquidated notional
+const EVENT_LIMIT = 100;
+
+export interface InsuranceFundSummary {
+  balance: number;
+  events: ReturnType<typeof formatEvent>[];
+}
+
+interface AdlCandidate {
+  position: Position;
+  pnl: number;
+  score: number;
+}
+
+// Most profitable relative to margin, times leverage, goes first
+function rankForDeleveraging(positions: Position[], markPrice: number): AdlCandidate[] {
+  return positions
+    .map((position) => {
+      const pnl = calculatePositionPnL(position, markPrice);
+      const margin = calculatePositionMargin(position);
+      return { position, pnl, score: (pnl / margin) * position.leverage };
+    })
+    .filter((c) => c.pnl > 0)
+    .sort((a, b) => b.score - a.score);
+}
+
+// Closes opposing positions at the bankruptcy price until they have given up the uncovered
+// shortfall. Returns what is still uncovered (absorbed by the house).
+async function autoDeleverage(bankrupt: Position, shortfall: number, markPrice: number): Promise<number> {
+  const bankruptcyPrice = calculateBankruptcyPrice(bankrupt);
+  // Per unit of notional, closing at the bankruptcy price instead of the mark gives up this much
+  const givenUpPerUnit = Math.abs(bankruptcyPrice - markPrice) / 100;
+  if (givenUpPerUnit === 0) return shortfall;
+
+  const opposing = (await storage.getOpenPositionsForMarket(bankrupt.marketId))
+    .filter((p) => p.side !== bankrupt.side && p.userId !== bankrupt.userId);
+  let remaining = shortfall;
+
+  for (const { position, score } of rankForDeleveraging(opposing, markPrice)) {
+    if (remaining <= 0) break;
+    const closeSize = Math.min(position.size, Math.ceil(remaining / givenUpPerUnit));
+    const result = await storage.deleveragePosition(position.id, bankruptcyPrice, closeSize);
+    if (!result) continue;
+
+    const absorbed = Math.min(remaining, Math.round(result.closeSize * givenUpPerUnit * 100) / 100);
+    remaining = Math.round((remaining - absorbed) * 100) / 100;
+    await storage.recordInsuranceFundEvent({
+      eventType: "auto_deleverage",
+      amount: absorbed.toFixed(8),
+      positionId: result.closedPosition.id,
+      userId: position.userId,
+      marketId: position.marketId,
+      details: JSON.stringify({
+        bankruptPositionId: bankrupt.id,
+        bankruptcyPrice,
+        markPrice,
+        closeSize: result.closeSize,
+        remainingSize: result.remainingPosition?.size ?? 0,
+        rankScore: Math.round(score * 100) / 100,
+      }),
+    });
+    console.log(`[insurance] ADL closed ${result.closeSize} of position ${position.id} at ${bankruptcyPrice.toFixed(2)}% to absorb $${absorbed}`);
+  }
+
+  return remaining;
+}
+
+// Liquidates a position (or closeSize of it) and resolves any shortfall through the fund, then ADL
+export async function liquidatePosition(position: Position, price: number, closeSize?: number): Promise<LiquidationResult | null> {
+  const result = await storage.liquidatePosition(position.id, price, LIQUIDATION_PENALTY_RATE, closeSize);
+  if (!result || result.uncoveredShortfall <= 0) return result;
+
+  console.warn(`[insurance] Position ${position.id} shortfall $${result.shortfall}, fund covered $${result.insuranceCovered}; auto-deleveraging $${result.uncoveredShortfall}`);
+  const unabsorbed = await autoDeleverage(position, result.uncoveredShortfall, price);
+  if (unabsorbed > 0) {
+    await storage.recordInsuranceFundEvent({
+      eventType: "shortfall_uncovered",
+      amount: unabsorbed.toFixed(8),
+      positionId: result.closedPosition.id,
+      userId: position.userId,
+      marketId: position.marketId,
+      details: JSON.stringify({ shortfall: result.shortfall, insuranceCovered: result.insuranceCovered }),
+    });
+    console.warn(`[insurance] $${unabsorbed} of position ${position.id}'s shortfall left with the house`);
+  }
+  return result;
+}
+
+function formatEvent(event: InsuranceFundEvent) {
+  return {
+    id: event.id,
+    eventType: event.eventType,
+    amount: parseFloat(event.amount),
+    fundBalanceAfter: parseFloat(event.fundBalanceAfter),
+    positionId: event.positionId,
+    userId: event.userId,
+    marketId: event.marketId,
+    details: event.details ? JSON.parse(event.details) : null,
+    createdAt: event.createdAt,
+  };
+}
+
+export async function getInsuranceFundSummary(): Promise<InsuranceFundSummary> {
+  const [balance, events] = await Promise.all([
+    storage.getLedgerAccountBalance(LEDGER_ACCOUNTS.insurance),
+    storage.getInsuranceFundEvents(EVENT_LIMIT),
+  ]);
+  return { balance, events: events.map(formatEvent) };
+}
@@ -0,0 +1,69 @@
+import { storage } from "./storage";
+import { currentDate, getClock } from "./clock";
+
+// Ledger reconciliation: recomputes every user's cash balance from ledger_entries and compares it
+// with users.balance. Mismatches and unbalanced transactions are kept for the admin dashboard.
+
+const RECONCILE_INTERVAL_MS = 60 * 60 * 1000; // Hourly
+const TOLERANCE = 0.01; // Balances are stored as decimal strings; ignore sub-cent rounding
+
+export interface LedgerMismatch {
+  userId: string;
+  walletAddress: string | null;
+  balance: number;
+  ledgerBalance: number;
+  difference: number;
+}
+
+export interface LedgerReconciliationReport {
+  ranAt: string;
+  usersChecked: number;
+  mismatches: LedgerMismatch[];
+  unbalancedTransactions: { transactionId: string; total: number }[];
+}
+
+let lastReport: LedgerReconciliationReport | null = null;
+let reconcileTimer: number | null = null;
+
+export async function reconcileLedger(): Promise<LedgerReconciliationReport> {
+  const rows = await storage.getLedgerReconciliation();
+  const mismatches: LedgerMismatch[] = rows
+    .map((r) => ({ ...r, difference: Math.round((r.balance - r.ledgerBalance) * 100) / 100 }))
+    .filter((r) => Math.abs(r.difference) >= TOLERANCE)
+    .sort((a, b) => Math.abs(b.difference) - Math.abs(a.difference));
+  const unbalancedTransactions = await storage.getUnbalancedLedgerTransactions();
+
+  lastReport = {
+    ranAt: currentDate().toISOString(),
+    usersChecked: rows.length,
+    mismatches,
+    unbalancedTransactions,
+  };
+
+  if (mismatches.length > 0 || unbalancedTransactions.length > 0) {
+    console.warn(`[ledger] Reconciliation found ${mismatches.length} balance mismatches and ${unbalancedTransactions.length} unbalanced transactions`);
+  } else {
+    console.log(`[ledger] Reconciliation OK: ${rows.length} accounts match the ledger`);
+  }
+  return lastReport;
+}
+
+export function getLastReconciliation(): LedgerReconciliationReport | null {
+  return lastReport;
+}
+
+export async function scheduleLedgerReconciliation(): Promise<void> {
+  // Accounts created before the ledger existed start from an opening entry
+  const backfilled = await storage.backfillOpeningBalances();
+  if (backfilled > 0) {
+    console.log(`[ledger] Recorded opening balances for ${backfilled} accounts`);
+  }
+
+  await reconcileLedger().catch((err) => console.error("[ledger] Reconciliation failed:", err));
+
+  const clock = getClock();
+  clock.clearTimer(reconcileTimer);
+  reconcileTimer = clock.setInterval(() => {
+    reconcileLedger().catch((err) => console.error("[ledger] Reconciliation failed:", err));
+  }, RECONCILE_INTERVAL_MS);
+}
@@ -0,0 +1,124 @@
+import type { Market, MarketStatus, MarketStatusReason } from "@shared/schema";
+import { storage } from "./storage";
+import { addMarket, setMarketStatus } from "./simulation";
+import { currentDate, getClock } from "./clock";
+
+// Market lifecycle. What each status allows is set out in STATUS_RULES and enforced by the
+// positions and orders routes (openBlockedReason / closeBlockedReason), the order engine and the
+// simulation, which freezes the price of markets that are not trading. The scheduler opens
+// scheduled markets at opensAt and moves trading markets to awaiting_resolution once their
+// resolutionDate is reached; admins halt, resume and set close-only with a reason code.
+
+interface StatusRules {
+  open: boolean; // New exposure: positions, entry orders, fills of resting orders
+  close: boolean; // Reducing exposure: closes and protective orders triggering
+  priceMoves: boolean;
+}
+
+const STATUS_RULES: Record<MarketStatus, StatusRules> = {
+  scheduled: { open: false, close: false, priceMoves: false },
+  active: { open: true, close: true, priceMoves: true },
+  halted: { open: false, close: false, priceMoves: false },
+  close_only: { open: false, close: true, priceMoves: true },
+  awaiting_resolution: { open: false, close: false, priceMoves: false },
+  resolved: { open: false, close: false, priceMoves: false },
+  canceled: { open: false, close: false, priceMoves: false },
+};
+
+const STATUS_LABELS: Record<MarketStatus, string> = {
+  scheduled: "is scheduled and not open yet",
+  active: "is trading",
+  halted: "is halted",
+  close_only: "is close-only: positions can be reduced but not opened",
+  awaiting_resolution: "has reached its resolution date and is awaiting resolution",
+  resolved: "is resolved and no longer trading",
+  canceled: "is canceled and no longer trading",
+};
+
+// Statuses an admin can move a market between, and where the scheduler can take them
+const ADMIN_STATUSES = ["active", "halted", "close_only"] as const;
+const TRADING_STATUSES: MarketStatus[] = ["active", "halted", "close_only"];
+
+export type AdminMarketStatus = typeof ADMIN_STATUSES[number];
+
+const LIFECYCLE_INTERVAL_MS = 60 * 1000;
+
+export function canOpen(status: MarketStatus): boolean {
+  return STATUS_RULES[status].open;
+}
+
+export function canClose(status: MarketStatus): boolean {
+  return STATUS_RULES[status].close;
+}
+
+export function pricesMove(status: MarketStatus): boolean {
+  return STATUS_RULES[status].priceMoves;
+}
+
+function statusMessage(market: Market): string {
+  const reason = market.statusReason ? ` (${market.statusReason})` : "";
+  return `Market ${STATUS_LABELS[market.status]}${reason}`;
+}
+
+// Why a market takes no new exposure, or null when it does
+export function openBlockedReason(market: Market): string | null {
+  if (market.resolved) return "Market is resolved and no longer trading";
+  if (market.reviewStatus === "pending") return "Market is awaiting review and not trading yet";
+  return canOpen(market.status) ? null : statusMessage(market);
+}
+
+// Why positions in a market cannot be closed, or null when they can
+export function closeBlockedReason(market: Market): string | null {
+  if (market.resolved) return "Market is resolved and no longer trading";
+  return canClose(market.status) ? null : statusMessage(market);
+}
+
+export function isAdminMarketStatus(status: unknown): status is AdminMarketStatus {
+  return (ADMIN_STATUSES as readonly unknown[]).includes(status);
+}
+
+// Admin halt / close-only / resume. Halting and close-only need a reason code; resuming clears it.
+// Undefined when the market is not in a status an admin can change (scheduled, expired, settled).
+export async function setAdminMarketStatus(market: Market, status: AdminMarketStatus, reason: MarketStatusReason | null): Promise<Market | undefined> {
+  const updated = await storage.updateMarketStatus(market.id, TRADING_STATUSES, status, status === "active" ? null : reason);
+  if (updated) setMarketStatus(updated.id, updated.status);
+  return updated;
+}
+
+// Opens scheduled markets whose opensAt has passed and stops trading on markets past their
+// resolution date. Returns the number of markets moved.
+export async function advanceMarketLifecycles(): Promise<number> {
+  const now = currentDate();
+  let moved = 0;
+  for (const market of await storage.getMarkets()) {
+    if (market.resolved || market.reviewStatus !== "approved") continue;
+    let next: MarketStatus | null = null;
+    if (TRADING_STATUSES.includes(market.status) && new Date(market.resolutionDate) <= now) {
+      next = "awaiting_resolution";
+    } else if (market.status === "scheduled" && (!market.opensAt || new Date(market.opensAt) <= now)) {
+      next = new Date(market.resolutionDate) <= now ? "awaiting_resolution" : "active";
+    }
+    if (!next) continue;
+
+    const updated = await storage.updateMarketStatus(market.id, [market.status], next, null);
+    if (!updated) continue;
+    addMarket(updated);
+    setMarketStatus(updated.id, next);
+    moved++;
+    console.log(`[market-lifecycle] Market ${market.id}: ${market.status} -> ${next}`);
+  }
+  return moved;
+}
+
+export async function scheduleMarketLifecycle(): Promise<void> {
+  getClock().setInterval(async () => {
+    try {
+      await advanceMarketLifecycles();
+    } catch (error) {
+      console.error("[market-lifecycle] Scheduler error:", error);
+    }
+  }, LIFECYCLE_INTERVAL_MS);
+
+  const initial = await advanceMarketLifecycles();
+  console.log(`[market-lifecycle] Scheduler initialized - ${initial} markets moved on startup`);
+}
@@ -0,0 +1,247 @@
+import type { Market, MarketBond } from "@shared/schema";
+import { storage } from "./storage";
+import { cancelMarket, settleMarket, type CancellationPolicy, type CancellationResult, type SettlementResult } from "./settlement";
+import { addMarket } from "./simulation";
+import { currentDate, getClock } from "./clock";
+
+// Permissionless markets, modeled on an optimistic oracle. Creating one debits a creation bond and
+// puts the market in the admin review queue; it only trades once approved. Anyone may then propose
+// the outcome by posting a proposal bond. Unless someone disputes within the liveness window (by
+// posting a dispute bond), the proposal settles the market. A disputed proposal escalates to the
+// admin, whose decision settles it. On settlement the creation bond is refunded and the losing
+// side of a dispute forfeits its bond to the winning side; a wrong proposal nobody disputed (an
+// admin override) is slashed to the house. A canceled market proves no one right: proposal and
+// dispute bonds are refunded, and the creation bond too unless the cancellation slashes it. Every
+// refund and slash is written to the audit log.
+
+export const CREATION_BOND = 100;
+export const PROPOSAL_BOND = 250;
+export const DISPUTE_BOND = PROPOSAL_BOND;
+export const LIVENESS_MS = 2 * 60 * 60 * 1000; // Challenge window after a proposal
+
+const FINALIZE_INTERVAL_MS = 60 * 1000;
+
+export interface Bonder {
+  userId: string;
+  walletAddress: string;
+}
+
+// Outcomes can be proposed while trading, halted or awaiting resolution, not before opening
+function proposalBlockedReason(market: Market): string | null {
+  if (market.resolved) return "Market is already resolved";
+  if (market.reviewStatus === "pending") return "Market is awaiting review and not trading yet";
+  if (market.status === "scheduled") return "Market has not opened yet";
+  if (market.status === "canceled") return "Market is canceled";
+  return null;
+}
+
+async function recordBondSettlement(bond: MarketBond, action: "bond-refund" | "bond-slash", reason: string): Promise<void> {
+  const [poster, recipient] = await Promise.all([
+    storage.getUser(bond.userId),
+    bond.recipientId ? storage.getUser(bond.recipientId) : Promise.resolve(undefined),
+  ]);
+  await storage.recordAuditEvent(action, poster?.walletAddress ?? null, {
+    bondId: bond.id,
+    marketId: bond.marketId,
+    kind: bond.kind,
+    amount: parseFloat(bond.amount),
+    userId: bond.userId,
+    recipient: action === "bond-slash" ? recipient?.walletAddress ?? bond.recipientId ?? "house" : undefined,
+    reason,
+  });
+}
+
+async function refundBond(bond: MarketBond, reason: string): Promise<void> {
+  const settled = await storage.settleMarketBond(bond.id, { status: "refunded", memo: `Refund: ${reason}` });
+  if (settled) await recordBondSettlement(settled, "bond-refund", reason);
+}
+
+async function slashBond(bond: MarketBond, recipientId: string | null, reason: string): Promise<void> {
+  const settled = await storage.settleMarketBond(bond.id, { status: "slashed", recipientId, memo: `Slashed: ${reason}` });
+  if (settled) await recordBondSettlement(settled, "bond-slash", reason);
+}
+
+// Releases the bonds of a settled market. The side proven right by the outcome is refunded and
+// receives the other side's bond.
+async function settleMarketBonds(market: Market, outcome: boolean): Promise<void> {
+  const held = (await storage.getMarketBonds(market.id)).filter((b) => b.status === "held");
+  const proposal = held.find((b) => b.kind === "proposal");
+  const dispute = held.find((b) => b.kind === "dispute");
+  const proposalCorrect = market.proposedOutcome === outcome;
+  const label = outcome ? "YES" : "NO";
+
+  for (const bond of held) {
+    try {
+      if (bond.kind === "creation") {
+        await refundBond(bond, `market ${market.id} resolved ${label}`);
+      } else if (bond.kind === "proposal") {
+        if (proposalCorrect) await refundBond(bond, `proposal upheld, market ${market.id} resolved ${label}`);
+        else await slashBond(bond, dispute?.userId ?? null, `proposal overturned, market ${market.id} resolved ${label}`);
+      } else if (proposalCorrect) {
+        await slashBond(bond, proposal?.userId ?? null, `dispute rejected, market ${market.id} resolved ${label}`);
+      } else {
+        await refundBond(bond, `dispute upheld, market ${market.id} resolved ${label}`);
+      }
+    } catch (err) {
+      console.error(`[market-oracle] Failed to settle bond ${bond.id} of market ${market.id}:`, err);
+    }
+  }
+}
+
+// Settles the market and then its bonds; null if it was already resolved
+export async function resolveBondedMarket(market: Market, outcome: boolean, resolvedBy: string): Promise<SettlementResult | null> {
+  const result = await settleMarket(market.id, outcome, resolvedBy);
+  if (!result) return null;
+  await settleMarketBonds(market, outcome);
+  return result;
+}
+
+// Refunds every bond a canceled market still holds. A forfeited creation bond was already slashed
+// in the cancellation itself, so whatever is left here belongs back with its poster.
+async function refundCanceledMarketBonds(market: Market, reason = `market ${market.id} canceled`): Promise<void> {
+  for (const bond of await storage.getMarketBonds(market.id)) {
+    if (bond.status !== "held") continue;
+    try {
+      await refundBond(bond, reason);
+    } catch (err) {
+      console.error(`[market-oracle] Failed to release bond ${bond.id} of canceled market ${market.id}:`, err);
+    }
+  }
+}
+
+// Cancels the market and then releases its bonds; null if it was already resolved or canceled
+export async function cancelBondedMarket(market: Market, canceledBy: string, policy: CancellationPolicy): Promise<CancellationResult | null> {
+  const result = await cancelMarket(market.id, canceledBy, policy);
+  if (!result) return null;
+
+  if (result.slashedBond) {
+    await recordBondSettlement(result.slashedBond, "bond-slash", `market ${market.id} canceled by ${canceledBy}`);
+  }
+  await refundCanceledMarketBonds(result.market);
+  return result;
+}
+
+// Creators may void their own market until an outcome is proposed. Realized PnL stands, and once
+// the market has opened for trading the creation bond goes to the house.
+export async function cancelByCreator(market: Market, creator: Bonder): Promise<CancellationResult | { error: string }> {
+  if (!market.isPermissionless || market.creator !== creator.walletAddress) {
+    return { error: "Only the creator can cancel this market" };
+  }
+  if (market.resolved || market.status === "canceled") return { error: "Market is already settled" };
+  if (market.proposedAt) return { error: "An outcome has been proposed; only an admin can cancel this market now" };
+
+  const opened = market.reviewStatus === "approved" && market.status !== "scheduled";
+  const result = await cancelBondedMarket(market, creator.walletAddress, { unwindRealizedPnl: false, slashCreationBond: opened });
+  return result ?? { error: "Market is already settled" };
+}
+
+export async function createPermissionlessMarket(
+  input: { question: string; description: string; category: string; resolutionDate: Date; opensAt?: Date },
+  creator: Bonder
+): Promise<Market> {
+  const scheduled = !!input.opensAt && input.opensAt > currentDate();
+  return storage.createBondedMarket({
+    ...input,
+    opensAt: input.opensAt ?? null,
+    currentProbability: "50",
+    volume24h: 0,
+    status: scheduled ? "scheduled" : "active",
+    creator: creator.walletAddress,
+    isPermissionless: true,
+    imageUrl: null,
+  }, creator.userId, CREATION_BOND);
+}
+
+// Approval starts trading; rejection cancels the market and refunds or slashes the creation bond
+export async function reviewMarket(market: Market, approve: boolean, slashBondOnReject: boolean): Promise<Market | undefined> {
+  const reviewed = await storage.reviewMarket(market.id, approve ? "approved" : "rejected", slashBondOnReject);
+  if (!reviewed) return undefined;
+
+  if (approve) {
+    addMarket(reviewed.market);
+    return reviewed.market;
+  }
+  if (reviewed.slashedBond) {
+    await recordBondSettlement(reviewed.slashedBond, "bond-slash", `market ${market.id} rejected in review`);
+  }
+  await refundCanceledMarketBonds(reviewed.market, `market ${market.id} rejected in review`);
+  return reviewed.market;
+}
+
+export async function proposeOutcome(market: Market, proposer: Bonder, outcome: boolean): Promise<Market | { error: string }> {
+  if (!market.isPermissionless) return { error: "System markets are resolved by admins" };
+  const blocked = proposalBlockedReason(market);
+  if (blocked) return { error: blocked };
+  if (market.proposedAt) return { error: "An outcome has already been proposed for this market" };
+
+  const livenessEndsAt = new Date(currentDate().getTime() + LIVENESS_MS);
+  const proposed = await storage.proposeMarketOutcome(market.id, proposer.userId, {
+    outcome,
+    proposedBy: proposer.walletAddress,
+    livenessEndsAt,
+  }, PROPOSAL_BOND);
+  if (!proposed) return { error: "An outcome has already been proposed for this market" };
+  console.log(`[market-oracle] Market ${market.id}: ${proposer.walletAddress} proposed ${outcome ? "YES" : "NO"}, liveness ends ${livenessEndsAt.toISOString()}`);
+  return proposed;
+}
+
+export async function disputeProposal(market: Market, disputer: Bonder): Promise<Market | { error: string }> {
+  if (!market.proposedAt || market.resolved || market.status === "canceled") return { error: "There is no open proposal to dispute" };
+  if (market.disputedAt) return { error: "The proposal is already disputed" };
+  if (market.proposedBy === disputer.walletAddress) return { error: "You cannot dispute your own proposal" };
+  const now = currentDate();
+  if (market.livenessEndsAt && new Date(market.livenessEndsAt) <= now) {
+    return { error: "The challenge window has closed" };
+  }
+
+  const disputed = await storage.disputeMarketProposal(market.id, disputer.userId, disputer.walletAddress, DISPUTE_BOND, now);
+  if (!disputed) return { error: "The proposal can no longer be disputed" };
+  console.log(`[market-oracle] Market ${market.id}: proposal disputed by ${disputer.walletAddress}, escalated to admin`);
+  return disputed;
+}
+
+// Settles every undisputed proposal whose liveness window has ended
+export async function finalizeExpiredProposals(): Promise<number> {
+  let finalized = 0;
+  for (const market of await storage.getExpiredProposals(currentDate())) {
+    try {
+      const result = await resolveBondedMarket(market, market.proposedOutcome!, market.proposedBy ?? "oracle");
+      if (!result) continue;
+      finalized++;
+      console.log(`[market-oracle] Market ${market.id}: undisputed proposal settled ${market.proposedOutcome ? "YES" : "NO"}`);
+    } catch (err) {
+      console.error(`[market-oracle] Failed to finalize proposal on market ${market.id}:`, err);
+    }
+  }
+  return finalized;
+}
+
+// Releases bonds still held by resolved or canceled markets, e.g. after a crash between settling a
+// market and settling its bonds
+export async function releaseHeldBonds(): Promise<number> {
+  const markets = await storage.getSettledMarketsWithHeldBonds();
+  for (const market of markets) {
+    try {
+      if (market.resolved && market.outcome !== null) await settleMarketBonds(market, market.outcome);
+      else if (market.status === "canceled") await refundCanceledMarketBonds(market);
+    } catch (err) {
+      console.error(`[market-oracle] Failed to release held bonds of market ${market.id}:`, err);
+    }
+  }
+  return markets.length;
+}
+
+export async function scheduleProposalFinalization(): Promise<void> {
+  getClock().setInterval(async () => {
+    try {
+      await finalizeExpiredProposals();
+      await releaseHeldBonds();
+    } catch (error) {
+      console.error("[market-oracle] Scheduler error:", error);
+    }
+  }, FINALIZE_INTERVAL_MS);
+
+  const initial = await finalizeExpiredProposals();
+  const released = await releaseHeldBonds();
+  console.log(`[market-oracle] Scheduler initialized - ${initial} proposals finalized, bonds released on ${released} settled markets on startup`);
+}
@@ -0,0 +1,157 @@
+import type { Order } from "@shared/schema";
+import type { OrderBook, OrderBookEntry } from "./simulation";
+
+// Central limit order book (price-time priority), one per market.
+// YES limit orders are bids on the probability axis, NO limit orders are asks.
+// A YES bid at 60 crosses a NO ask at 58: the YES side pays up to 60, the NO side sells down to 58.
+// This module is purely in-memory; persistence lives in the orders table and the book is
+// rebuilt from it on startup (see initOrderBooks in orderEngine.ts).
+
+export interface RestingOrder {
+  orderId: number;
+  userId: string;
+  side: "YES" | "NO";
+  price: number;
+  remainingSize: number;
+  sequence: number; // Monotonic arrival counter for time priority
+}
+
+interface MarketBook {
+  bids: RestingOrder[]; // Sorted best (highest) price first, then oldest first
+  asks: RestingOrder[]; // Sorted best (lowest) price first, then oldest first
+}
+
+const books: Map<number, MarketBook> = new Map();
+const orderIndex: Map<number, number> = new Map(); // orderId -> marketId
+let sequenceCounter = 0;
+
+function getBook(marketId: number): MarketBook {
+  let book = books.get(marketId);
+  if (!book) {
+    book = { bids: [], asks: [] };
+    books.set(marketId, book);
+  }
+  return book;
+}
+
+function compareBids(a: RestingOrder, b: RestingOrder): number {
+  return b.price - a.price || a.sequence - b.sequence;
+}
+
+function compareAsks(a: RestingOrder, b: RestingOrder): number {
+  return a.price - b.price || a.sequence - b.sequence;
+}
+
+function insertSorted(levels: RestingOrder[], entry: RestingOrder, compare: (a: RestingOrder, b: RestingOrder) => number): void {
+  let i = levels.length;
+  while (i > 0 && compare(levels[i - 1], entry) > 0) {
+    i--;
+  }
+  levels.splice(i, 0, entry);
+}
+
+export function addRestingOrder(order: Order): RestingOrder | null {
+  const price = parseFloat(String(order.limitPrice ?? ""));
+  if (isNaN(price) || order.remainingSize <= 0) return null;
+  if (orderIndex.has(order.id)) removeRestingOrder(order.id);
+
+  const entry: RestingOrder = {
+    orderId: order.id,
+    userId: order.userId,
+    side: order.side as "YES" | "NO",
+    price,
+    remainingSize: order.remainingSize,
+    sequence: ++sequenceCounter,
+  };
+
+  const book = getBook(order.marketId);
+  if (entry.side === "YES") {
+    insertSorted(book.bids, entry, compareBids);
+  } else {
+    insertSorted(book.asks, entry, compareAsks);
+  }
+  orderIndex.set(order.id, order.marketId);
+  return entry;
+}
+
+export function removeRestingOrder(orderId: number): boolean {
+  const marketId = orderIndex.get(orderId);
+  if (marketId === undefined) return false;
+  orderIndex.delete(orderId);
+
+  const book = books.get(marketId);
+  if (!book) return false;
+  book.bids = book.bids.filter(o => o.orderId !== orderId);
+  book.asks = book.asks.filter(o => o.orderId !== orderId);
+  return true;
+}
+
+// Reduce a resting order after a fill, dropping it from the book once exhausted
+export function reduceRestingOrder(orderId: number, filledSize: number): void {
+  const marketId = orderIndex.get(orderId);
+  if (marketId === undefined) return;
+  const book = books.get(marketId);
+  if (!book) return;
+
+  const entry = book.bids.find(o => o.orderId === orderId) ?? book.asks.find(o => o.orderId === orderId);
+  if (!entry) return;
+  entry.remainingSize -= filledSize;
+  if (entry.remainingSize <= 0) {
+    removeRestingOrder(orderId);
+  }
+}
+
+export function isResting(orderId: number): boolean {
+  return orderIndex.has(orderId);
+}
+
+// Best resting counter-order if it crosses the given price (the book is sorted, so nothing
+// behind it can cross). It may belong to the taker's own user; the engine cancels such takers.
+export function getBestCounterOrder(
+  marketId: number,
+  side: "YES" | "NO",
+  limitPrice: number
+): RestingOrder | undefined {
+  const book = books.get(marketId);
+  const best = book ? (side === "YES" ? book.asks : book.bids)[0] : undefined;
+  if (!best) return undefined;
+  const crosses = side === "YES" ? best.price <= limitPrice : best.price >= limitPrice;
+  return crosses ? best : undefined;
+}
+
+function aggregateLevels(levels: RestingOrder[]): OrderBookEntry[] {
+  const result: OrderBookEntry[] = [];
+  for (const entry of levels) {
+    const last = result[result.length - 1];
+    if (last && last.price === entry.price) {
+      last.size += entry.remainingSize;
+    } else {
+      result.push({ price: entry.price, size: entry.remainingSize });
+    }
+  }
+  return result;
+}
+
+// Aggregated depth per price level (bids descending, asks ascending)
+export function getOrderBookDepth(marketId: number): OrderBook {
+  const book = books.get(marketId);
+  if (!book) return { bids: [], asks: [] };
+  return {
+    bids: aggregateLevels(book.bids),
+    asks: aggregateLevels(book.asks),
+  };
+}
+
+export function clearOrderBooks(): void {
+  books.clear();
+  orderIndex.clear();
+}
+
+export function clearMarketBook(marketId: number): void {
+  const book = books.get(marketId);
+  if (!book) return;
+  for (const entry of [...book.bids, ...book.asks]) {
+    orderIndex.delete(entry.orderId);
+  }
+  books.delete(marketId);
+}
@@ -1,6 +1,12 @@
-import { storage } from "./storage";
-import type { Order, Market, Position } from "@shared/schema";
+import { z } from "zod";
+import { storage, calculateFee, type OrderPairFill } from "./storage";
+import { MARGIN_MODES, PROTECTIVE_ORDER_TYPES, type Order, type OrderGroup, type Market, type Position } from "@shared/schema";
 import { getMarketState } from "./simulation";
+import { canClose, canOpen } from "./marketLifecycle";
+import { currentDate } from "./clock";
+import { getFeeRates } from "./fees";
+import { checkFill } from "./riskParams";
+import { addRestingOrder, removeRestingOrder, reduceRestingOrder, getBestCounterOrder, clearOrderBooks, clearMarketBook, isResting } from "./orderBook";
 
 function calculateLiquidationProbability(
   entryProbability: number,
@@ -18,69 +24,50 @@ function calculateLiquidationProbability(
 async function executeOrder(
   order: Order,
   executionSize: number,
-  executionPrice: number
+  executionPrice: number,
+  recordTrade: boolean = true
 ): Promise<Position | null> {
   try {
-    const user = await storage.getUser(order.userId);
-    if (!user) {
-      console.log(`[orderEngine] User ${order.userId} not found, skipping order ${order.id}`);
-      return null;
-    }
-
-    const leverage = order.leverage || 1;
-    const margin = Math.ceil(executionSize / leverage);
-    const currentBalance = parseFloat(user.balance || "0");
-
-    if (currentBalance < margin) {
-      console.log(`[orderEngine] Insufficient balance for order ${order.id}. Required: $${margin}, Available: $${currentBalance}`);
+    // The market's price band and open-interest cap apply at fill time, not just at placement
+    const riskError = await checkFill(order.marketId, executionSize, executionPrice);
+    if (riskError) {
+      console.log(`[orderEngine] Order ${order.id} cancelled at ${executionPrice.toFixed(2)}%: ${riskError}`);
       await storage.updateOrder(order.id, { status: "cancelled" });
       return null;
     }
 
     const liquidationProbability = calculateLiquidationProbability(
       executionPrice,
-      leverage,
+      order.leverage || 1,
       order.side as "YES" | "NO"
     );
 
-    const position = await storage.createPosition({
-      marketId: order.marketId,
-      side: order.side as "YES" | "NO",
-      size: executionSize,
-      leverage,
-      userId: order.userId,
-      entryProbability: executionPrice.toFixed(8),
-      liquidationProbability: liquidationProbability.toFixed(8),
-    });
-
-    await storage.createTrade({
-      marketId: order.marketId,
-      price: executionPrice.toFixed(8),
-      size: executionSize,
-      side: order.side as "YES" | "NO",
-      userId: order.userId,
-    });
-
-    await storage.createOrderExecution({
+    // Margin debit, fee, position, trade, execution and order progress are written in one transaction.
+    // Book fills record a single trade on the taker side; the maker fill only gets an execution.
+    // Only a resting order filled by an incoming one provides liquidity; everything else is a taker.
+    const liquidity = recordTrade ? "taker" : "maker";
+    const rates = await getFeeRates(order.userId);
+    const position = await storage.fillOrder({
       orderId: order.id,
-      executionPrice: executionPrice.toFixed(4),
-      executionSize: executionSize,
-      positionId: position.id,
+      executionSize,
+      executionPrice,
+      liquidationProbability,
+      recordTrade,
+      liquidity,
+      feeBps: liquidity === "maker" ? rates.makerBps : rates.takerBps,
     });
 
-    await storage.updateUserBalance(order.userId, -margin);
-
-    const newFilledSize = order.filledSize + executionSize;
-    const newRemainingSize = order.remainingSize - executionSize;
-    const newStatus = newRemainingSize <= 0 ? "filled" : "partial";
+    if (!position) {
+      // fillOrder cancels the order when the balance cannot cover the margin
+      console.log(`[orderEngine] Order ${order.id} not filled (no longer live or insufficient balance)`);
+      return null;
+    }
 
-    await storage.updateOrder(order.id, {
-      filledSize: newFilledSize,
-      remainingSize: Math.max(0, newRemainingSize),
-      status: newStatus,
-    });
+    console.log(`[orderEngine] Executed order ${order.id}: ${position.size} @ ${executionPrice.toFixed(2)}% (${order.orderType}, ${order.side})`);
 
-    console.log(`[orderEngine] Executed order ${order.id}: ${executionSize} @ ${executionPrice.toFixed(2)}% (${order.orderType}, ${order.side})`);
+    if (order.groupId) {
+      await applyGroupFill(order, position.id);
+    }
 
     return position;
   } catch (error) {
@@ -89,34 +76,179 @@ async function executeOrder(
   }
 }
 
-async function processLimitOrders(): Promise<void> {
-  const activeOrders = await storage.getActiveOrders();
-  const limitOrders = activeOrders.filter(
-    (o) => o.orderType === "limit" && o.remainingSize > 0
-  );
+// === Central limit order book matching ===
 
-  for (const order of limitOrders) {
-    if (order.expiresAt && new Date(order.expiresAt) < new Date()) {
-      await storage.updateOrder(order.id, { status: "expired" });
-      console.log(`[orderEngine] Order ${order.id} expired`);
+// Matching mutates balances and order rows across several awaits, so every book operation
+// runs through this queue to keep the in-memory book and the orders table in step
+let matchingQueue: Promise<unknown> = Promise.resolve();
+
+function withMatchingLock<T>(fn: () => Promise<T>): Promise<T> {
+  const run = matchingQueue.then(fn, fn);
+  matchingQueue = run.catch(() => undefined);
+  return run;
+}
+
+function isOrderLive(order: Order | undefined): order is Order {
+  return !!order && order.remainingSize > 0 &&
+    (order.status === "active" || order.status === "partial" || order.status === "pending");
+}
+
+async function hasMarginFor(order: Order, size: number): Promise<boolean> {
+  const user = await storage.getUser(order.userId);
+  if (!user) return false;
+  const margin = Math.ceil(size / (order.leverage || 1));
+  const { takerBps } = await getFeeRates(order.userId);
+  return parseFloat(user.balance || "0") >= margin + calculateFee(size, takerBps);
+}
+
+// Match an incoming limit order against resting counter-orders at the makers' prices,
+// then rest whatever is left on the book
+async function matchLimitOrder(incoming: Order): Promise<Order> {
+  let taker: Order | undefined = incoming;
+  const side = incoming.side as "YES" | "NO";
+  const limitPrice = parseFloat(String(incoming.limitPrice ?? ""));
+  if (isNaN(limitPrice)) return incoming;
+
+  // Halted, close-only and expired markets take no fills; the order rests until trading resumes
+  const state = getMarketState(incoming.marketId);
+  while (isOrderLive(taker) && (!state || canOpen(state.status))) {
+    const maker = getBestCounterOrder(taker.marketId, side, limitPrice);
+    if (!maker) break;
+
+    // Self-trade prevention: an order that would cross its owner's own resting order is cancelled
+    // rather than left resting against it in a crossed book
+    if (maker.userId === taker.userId) {
+      console.log(`[orderEngine] Order ${taker.id} cancelled: it would cross the same user's resting order ${maker.orderId}`);
+      await storage.updateOrder(taker.id, { status: "cancelled" });
+      return (await storage.getOrder(taker.id)) ?? taker;
+    }
+
+    const makerOrder = await storage.getOrder(maker.orderId);
+    if (!isOrderLive(makerOrder)) {
+      removeRestingOrder(maker.orderId);
       continue;
     }
 
-    const marketState = getMarketState(order.marketId);
-    if (!marketState) continue;
+    const fillSize = Math.min(taker.remainingSize, makerOrder.remainingSize);
 
-    const currentPrice = marketState.currentProbability;
-    const limitPrice = parseFloat(String(order.limitPrice || "0"));
+    if (!(await hasMarginFor(taker, fillSize))) {
+      console.log(`[orderEngine] Insufficient balance for taker order ${taker.id}, cancelling`);
+      await storage.updateOrder(taker.id, { status: "cancelled" });
+      return (await storage.getOrder(taker.id)) ?? taker;
+    }
 
-    let shouldExecute = false;
-    if (order.side === "YES") {
-      shouldExecute = currentPrice <= limitPrice;
-    } else {
-      shouldExecute = currentPrice >= limitPrice;
+    // Both sides open a position, so the fill adds twice its size to open interest
+    const riskError = await checkFill(taker.marketId, fillSize * 2, maker.price);
+    if (riskError) {
+      console.log(`[orderEngine] Taker order ${taker.id} cancelled: ${riskError}`);
+      await storage.updateOrder(taker.id, { status: "cancelled" });
+      return (await storage.getOrder(taker.id)) ?? taker;
+    }
+
+    // Maker and taker fill in one transaction: either both positions open or neither does.
+    // Book fills record a single trade on the taker side; the maker fill only gets an execution.
+    const [makerRates, takerRates] = await Promise.all([getFeeRates(makerOrder.userId), getFeeRates(taker.userId)]);
+    const fillInput = (order: Order, liquidity: "maker" | "taker", feeBps: number) => ({
+      orderId: order.id,
+      executionSize: fillSize,
+      executionPrice: maker.price,
+      liquidationProbability: calculateLiquidationProbability(maker.price, order.leverage || 1, order.side as "YES" | "NO"),
+      recordTrade: liquidity === "taker",
+      liquidity,
+      feeBps,
+    });
+    let fill: OrderPairFill;
+    try {
+      fill = await storage.fillOrderPair(
+        fillInput(makerOrder, "maker", makerRates.makerBps),
+        fillInput(taker, "taker", takerRates.takerBps)
+      );
+    } catch (error) {
+      console.error(`[orderEngine] Error matching order ${taker.id} against ${makerOrder.id}:`, error);
+      break;
+    }
+
+    if ("failed" in fill) {
+      if (fill.failed === "maker") {
+        // The maker is no longer live or could not cover margin (and was cancelled)
+        removeRestingOrder(maker.orderId);
+        continue;
+      }
+      console.log(`[orderEngine] Taker order ${taker.id} not filled (no longer live or insufficient balance)`);
+      return (await storage.getOrder(taker.id)) ?? taker;
+    }
+
+    reduceRestingOrder(maker.orderId, fillSize);
+    console.log(`[orderEngine] Matched order ${taker.id} with ${makerOrder.id}: ${fillSize} @ ${maker.price.toFixed(2)}%`);
+    if (makerOrder.groupId) await applyGroupFill(makerOrder, fill.makerPosition.id);
+    if (taker.groupId) await applyGroupFill(taker, fill.takerPosition.id);
+    taker = await storage.getOrder(taker.id);
+  }
+
+  if (isOrderLive(taker)) {
+    addRestingOrder(taker);
+    return taker;
+  }
+  return taker ?? incoming;
+}
+
+// Entry point for newly created limit orders (called from the orders route)
+export function submitLimitOrder(order: Order): Promise<Order> {
+  return withMatchingLock(() => matchLimitOrder(order));
+}
+
+export function cancelRestingOrder(orderId: number): Promise<boolean> {
+  return withMatchingLock(async () => removeRestingOrder(orderId));
+}
+
+// Cancel every outstanding order in a market (all order types) and drop its book
+export function cancelMarketOrders(marketId: number): Promise<Order[]> {
+  return withMatchingLock(async () => {
+    const activeOrders = await storage.getActiveOrders();
+    const cancelled: Order[] = [];
+    for (const order of activeOrders.filter((o) => o.marketId === marketId)) {
+      cancelled.push(await storage.cancelOrder(order.id));
     }
+    clearMarketBook(marketId);
+    return cancelled;
+  });
+}
 
-    if (shouldExecute) {
-      await executeOrder(order, order.remainingSize, currentPrice);
+// Rebuild every market's book from persisted active limit orders in arrival order
+export async function initOrderBooks(): Promise<number> {
+  return withMatchingLock(async () => {
+    clearOrderBooks();
+    const activeOrders = await storage.getActiveOrders();
+    const limitOrders = activeOrders
+      .filter((o) => o.orderType === "limit" && o.remainingSize > 0)
+      .sort((a, b) => (a.createdAt ? new Date(a.createdAt).getTime() : 0) - (b.createdAt ? new Date(b.createdAt).getTime() : 0) || a.id - b.id);
+
+    let rested = 0;
+    for (const order of limitOrders) {
+      // Re-run matching in case a crash left crossing orders behind
+      const result = await matchLimitOrder(order);
+      if (isResting(result.id)) rested++;
+    }
+    console.log(`[orderEngine] Order books rebuilt: ${rested} resting limit orders`);
+    return rested;
+  });
+}
+
+// Expire stale resting limit orders; fills happen on arrival in submitLimitOrder
+async function processLimitOrders(): Promise<void> {
+  const activeOrders = await storage.getActiveOrders();
+  const limitOrders = activeOrders.filter(
+    (o) => o.orderType === "limit" && o.remainingSize > 0
+  );
+  const now = currentDate();
+
+  for (const order of limitOrders) {
+    if (order.expiresAt && new Date(order.expiresAt) < now) {
+      await withMatchingLock(async () => {
+        removeRestingOrder(order.id);
+        await storage.updateOrder(order.id, { status: "expired" });
+      });
+      console.log(`[orderEngine] Order ${order.id} expired`);
     }
   }
 }
@@ -127,7 +259,7 @@ async function processIcebergOrders(): Promise<void> {
     (o) => o.orderType === "iceberg" && o.remainingSize > 0
   );
 
-  const now = new Date();
+  const now = currentDate();
   const DEFAULT_ICEBERG_INTERVAL_MS = 30000; // 30 seconds between clips
 
   for (const order of icebergOrders) {
@@ -144,7 +276,7 @@ async function processIcebergOrders(): Promise<void> {
     }
 
     const marketState = getMarketState(order.marketId);
-    if (!marketState) continue;
+    if (!marketState || !canOpen(marketState.status)) continue;
 
     const currentPrice = marketState.currentProbability;
     const limitPrice = parseFloat(String(order.limitPrice || "0"));
@@ -193,7 +325,7 @@ async function processTwapOrders(): Promise<void> {
     (o) => o.orderType === "twap" && o.remainingSize > 0
   );
 
-  const now = new Date();
+  const now = currentDate();
 
   for (const order of twapOrders) {
     if (order.expiresAt && new Date(order.expiresAt) < now) {
@@ -209,7 +341,7 @@ async function processTwapOrders(): Promise<void> {
     }
 
     const marketState = getMarketState(order.marketId);
-    if (!marketState) continue;
+    if (!marketState || !canOpen(marketState.status)) continue;
 
     const durationMs = order.twapDurationMs || 3600000;
     const intervalMs = order.twapIntervalMs || 60000;
@@ -231,13 +363,235 @@ async function processTwapOrders(): Promise<void> {
   }
 }
 
+// === Protective orders (stop-loss, take-profit, trailing stop) ===
+
+// Orders share the side of the position they protect: a YES position is stopped out
+// when the price falls and takes profit when it rises, a NO position the reverse
+function isProtectiveTriggered(order: Order, price: number, trailingPeak: number | null): boolean {
+  const isYes = order.side === "YES";
+  switch (order.orderType) {
+    case "stop_loss": {
+      const trigger = parseFloat(String(order.triggerPrice));
+      return isYes ? price <= trigger : price >= trigger;
+    }
+    case "take_profit": {
+      const trigger = parseFloat(String(order.triggerPrice));
+      return isYes ? price >= trigger : price <= trigger;
+    }
+    case "trailing_stop": {
+      const distance = parseFloat(String(order.trailingDistance));
+      if (trailingPeak === null || isNaN(distance)) return false;
+      return isYes ? price <= trailingPeak - distance : price >= trailingPeak + distance;
+    }
+    default:
+      return false;
+  }
+}
+
+// Body of POST /api/orders/groups. Which fields a group needs (positionId for oco, marketId and
+// entry for oto / bracket) and whether triggers sit on the right side are checked by the route.
+export const orderGroupSchema = z.object({
+  groupType: z.enum(["oco", "oto", "bracket"]),
+  marketId: z.number().int().positive().optional(),
+  positionId: z.number().int().positive().optional(),
+  entry: z.object({
+    side: z.enum(["YES", "NO"]),
+    totalSize: z.number().int().positive(),
+    limitPrice: z.number().min(0).max(100),
+    leverage: z.number().int().min(1).default(1),
+    marginMode: z.enum(MARGIN_MODES).default("cross"),
+  }).optional(),
+  orders: z.array(z.object({
+    orderType: z.enum(PROTECTIVE_ORDER_TYPES),
+    triggerPrice: z.number().min(0).max(100).optional(),
+    trailingDistance: z.number().gt(0).lt(100).optional(),
+    totalSize: z.number().int().positive().nullish(), // oco only; defaults to the full position
+  })).min(1).max(3),
+  expiresAt: z.coerce.date().nullish(),
+});
+
+// Rejects a stop/target that would already be crossed at the reference price (the current
+// price for an open position, the entry limit for bracket children)
+export function validateProtectiveTrigger(
+  orderType: string,
+  side: "YES" | "NO",
+  referencePrice: number,
+  triggerPrice: unknown,
+  trailingDistance: unknown
+): string | null {
+  if (orderType === "trailing_stop") {
+    const distance = Number(trailingDistance);
+    if (!(distance > 0 && distance < 100)) {
+      return "Trailing stops require a trailingDistance between 0 and 100";
+    }
+    return null;
+  }
+
+  const trigger = Number(triggerPrice);
+  if (triggerPrice === undefined || triggerPrice === null || isNaN(trigger) || trigger < 0 || trigger > 100) {
+    return "triggerPrice must be between 0 and 100";
+  }
+  const isStop = orderType === "stop_loss";
+  const mustBeBelow = isStop === (side === "YES");
+  if (mustBeBelow ? trigger >= referencePrice : trigger <= referencePrice) {
+    return `${isStop ? "Stop-loss" : "Take-profit"} for a ${side} position must be ${mustBeBelow ? "below" : "above"} ${referencePrice.toFixed(2)}%`;
+  }
+  return null;
+}
+
+async function processProtectiveOrders(): Promise<void> {
+  const activeOrders = await storage.getActiveOrders();
+  const protectiveOrders = activeOrders.filter(
+    (o) => (PROTECTIVE_ORDER_TYPES as readonly string[]).includes(o.orderType) && o.remainingSize > 0
+  );
+  const now = currentDate();
+
+  for (const order of protectiveOrders) {
+    if (order.expiresAt && new Date(order.expiresAt) < now) {
+      await storage.updateOrder(order.id, { status: "expired" });
+      console.log(`[orderEngine] ${order.orderType} order ${order.id} expired`);
+      continue;
+    }
+
+    const position = order.positionId ? await storage.getPosition(order.positionId) : undefined;
+    if (!position || position.status !== "open") {
+      // Position closed or liquidated by other means; nothing left to protect
+      await storage.cancelOrder(order.id);
+      console.log(`[orderEngine] ${order.orderType} order ${order.id} cancelled: position no longer open`);
+      continue;
+    }
+
+    const marketState = getMarketState(order.marketId);
+    if (!marketState || !canClose(marketState.status)) continue;
+    const currentPrice = marketState.currentProbability;
+
+    let trailingPeak: number | null = null;
+    if (order.orderType === "trailing_stop") {
+      const storedPeak = order.trailingPeak !== null ? parseFloat(String(order.trailingPeak)) : currentPrice;
+      trailingPeak = order.side === "YES" ? Math.max(storedPeak, currentPrice) : Math.min(storedPeak, currentPrice);
+      if (trailingPeak !== storedPeak || order.trailingPeak === null) {
+        await storage.updateOrder(order.id, { trailingPeak: trailingPeak.toFixed(4) });
+      }
+    }
+
+    if (!isProtectiveTriggered(order, currentPrice, trailingPeak)) continue;
+
+    try {
+      const { takerBps } = await getFeeRates(order.userId);
+      const result = await storage.triggerProtectiveOrder(order.id, currentPrice, takerBps);
+      if (result) {
+        console.log(`[orderEngine] ${order.orderType} order ${order.id} triggered at ${currentPrice.toFixed(2)}%: closed ${result.closeSize} of position ${position.id}, PnL ${result.pnl}`);
+        if (order.groupId) {
+          await applyGroupFill(order, position.id);
+        }
+      }
+    } catch (error) {
+      console.error(`[orderEngine] Error triggering ${order.orderType} order ${order.id}:`, error);
+    }
+  }
+}
+
+// === Order groups (oco / oto / bracket) ===
+
+// Live, or a group child still waiting for its entry
+function isOrderOpen(order: Order): boolean {
+  return order.status === "waiting" || isOrderLive(order);
+}
+
+function cancelsSiblings(group: OrderGroup, order: Order): boolean {
+  return group.groupType === "oco" || (group.groupType === "bracket" && order.parentOrderId !== null);
+}
+
+// Called after any fill of a grouped order. An entry fill activates its children against the
+// new position; a fill of an oco member (or bracket child) cancels the members it is linked to
+async function applyGroupFill(order: Order, positionId: number): Promise<void> {
+  try {
+    const group = await storage.getOrderGroup(order.groupId!);
+    if (!group || group.status !== "active") return;
+
+    const isEntry = order.parentOrderId === null && group.groupType !== "oco";
+    if (isEntry) {
+      const position = await storage.getPosition(positionId);
+      if (!position) return;
+      const activated = await storage.activateChildOrders(order.id, position);
+      if (activated.length > 0) {
+        console.log(`[orderEngine] Group ${group.id}: entry ${order.id} fill activated ${activated.map((o) => o.id).join(", ")} for position ${positionId}`);
+      }
+      return;
+    }
+
+    if (!cancelsSiblings(group, order)) return;
+
+    // Siblings protect the same position (bracket copies per partial fill share a parent)
+    const members = await storage.getOrdersByGroup(group.id);
+    const siblings = members.filter(
+      (o) => o.id !== order.id &&
+        o.parentOrderId === order.parentOrderId &&
+        o.positionId === order.positionId &&
+        isOrderLive(o)
+    );
+    for (const sibling of siblings) {
+      // Callers may already hold the matching lock, so drop the book entry directly
+      removeRestingOrder(sibling.id);
+      await storage.cancelOrder(sibling.id);
+    }
+    if (siblings.length > 0) {
+      console.log(`[orderEngine] Group ${group.id}: order ${order.id} filled, cancelled ${siblings.map((o) => o.id).join(", ")}`);
+    }
+  } catch (error) {
+    console.error(`[orderEngine] Error applying group fill for order ${order.id}:`, error);
+  }
+}
+
+// Cancel every live or waiting order in a group as a unit
+export function cancelOrderGroup(groupId: number): Promise<Order[]> {
+  return withMatchingLock(async () => {
+    const members = await storage.getOrdersByGroup(groupId);
+    const cancelled: Order[] = [];
+    for (const order of members.filter(isOrderOpen)) {
+      removeRestingOrder(order.id);
+      cancelled.push(await storage.cancelOrder(order.id));
+    }
+    await storage.updateOrderGroup(groupId, { status: "cancelled" });
+    return cancelled;
+  });
+}
+
+// Drop children whose entry was cancelled or expired, and close out groups with nothing left to do
+async function processOrderGroups(): Promise<void> {
+  const groups = await storage.getActiveOrderGroups();
+
+  for (const group of groups) {
+    const members = await storage.getOrdersByGroup(group.id);
+    const byId = new Map(members.map((o) => [o.id, o]));
+
+    for (const child of members.filter((o) => o.status === "waiting")) {
+      const parent = child.parentOrderId !== null ? byId.get(child.parentOrderId) : undefined;
+      if (!parent || parent.status === "cancelled" || parent.status === "expired") {
+        await storage.cancelOrder(child.id);
+        child.status = "cancelled";
+        console.log(`[orderEngine] Group ${group.id}: child order ${child.id} cancelled with its entry`);
+      }
+    }
+
+    const open = members.some(isOrderOpen);
+    if (!open) {
+      const anyFilled = members.some((o) => o.filledSize > 0);
+      await storage.updateOrderGroup(group.id, { status: anyFilled ? "completed" : "cancelled" });
+    }
+  }
+}
+
 export async function tickOrderEngine(): Promise<void> {
   try {
     await Promise.all([
       processLimitOrders(),
       processIcebergOrders(),
       processTwapOrders(),
+      processProtectiveOrders(),
     ]);
+    // After fills so groups see this tick's cancellations and completions
+    await processOrderGroups();
   } catch (error) {
     console.error("[orderEngine] Error in tick:", error);
   }
@@ -247,6 +601,8 @@ export {
   processLimitOrders,
   processIcebergOrders,
   processTwapOrders,
+  processProtectiveOrders,
+  processOrderGroups,
   executeOrder,
   calculateLiquidationProbability,
 };
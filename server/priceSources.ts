@@ -0,0 +1,276 @@
+import { readFile } from "fs/promises";
+import path from "path";
+import { z } from "zod";
+import type { Market, PriceSourceType } from "@shared/schema";
+import { storage } from "./storage";
+import { random } from "./random";
+
+// Price sources: each simulated market asks its source for the next price every tick.
+// The source is chosen per market (markets.priceSource) with JSON settings in
+// markets.priceSourceConfig:
+//   random_walk   - the default random walk; exotic markets oscillate with rare jumps
+//   replay        - plays back a recorded price file from data/price-recordings, one sample per tick
+//   trade_driven  - moves only with executed order flow: net YES notional pushes the price up
+//   external_feed - polls a JSON endpoint (e.g. a local mock server) for the current price
+
+export interface PriceSource {
+  readonly type: PriceSourceType;
+  // Next price for this tick, or null to keep the current one
+  nextPrice(current: number): Promise<number | null>;
+}
+
+export const PRICE_RECORDINGS_DIR = path.resolve(process.cwd(), "data", "price-recordings");
+
+export const priceSourceConfigSchemas = {
+  random_walk: z.object({}).strict(),
+  replay: z.object({
+    file: z.string().min(1), // Relative to PRICE_RECORDINGS_DIR; .json or .csv
+    loop: z.boolean().default(true),
+  }).strict(),
+  trade_driven: z.object({
+    impactPer1000: z.number().positive().max(10).default(0.1), // Probability points per $1,000 net notional
+  }).strict(),
+  external_feed: z.object({
+    url: z.string().url(),
+    field: z.string().min(1).default("price"), // Property holding the 0-100 price in the response
+    timeoutMs: z.number().int().min(100).max(10000).default(3000),
+  }).strict(),
+} satisfies Record<PriceSourceType, z.ZodTypeAny>;
+
+type PriceSourceConfig<T extends PriceSourceType> = z.infer<typeof priceSourceConfigSchemas[T]>;
+
+// Validates settings for a source type; returns an error message or the parsed settings
+export function parsePriceSourceConfig<T extends PriceSourceType>(
+  type: T,
+  raw: unknown
+): { config: PriceSourceConfig<T> } | { error: string } {
+  const result = priceSourceConfigSchemas[type].safeParse(raw ?? {});
+  if (!result.success) {
+    const issue = result.error.errors[0];
+    return { error: issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message };
+  }
+  if (type === "replay" && !resolveRecordingPath((result.data as PriceSourceConfig<"replay">).file)) {
+    return { error: "file must be inside data/price-recordings" };
+  }
+  return { config: result.data as PriceSourceConfig<T> };
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+// === RANDOM WALK ===
+
+// Exotic bet constants
+const EXOTIC_MIN_PROB = 0.01;
+const EXOTIC_MAX_PROB = 3;
+const EXOTIC_JUMP_CHANCE = 0.0001; // 0.01% chance per update
+const EXOTIC_JUMP_TARGET = 99;
+
+function getRandomDelta(): number {
+  const roll = random();
+
+  // Add randomized "no movement" periods (40% chance)
+  if (roll < 0.4) {
+    return 0;
+  }
+
+  // 50% chance of small move (±0.2 to ±0.8) - slower, smaller moves
+  if (roll < 0.9) {
+    const magnitude = 0.2 + random() * 0.6;
+    // Add non-uniform direction bias based on secondary random
+    const directionBias = random();
+    return directionBias > 0.5 ? magnitude : -magnitude;
+  }
+
+  // 10% chance of larger move (±1 to ±2) - reduced from ±3 to ±5
+  const magnitude = 1 + random() * 1;
+  const directionRandom = random();
+  return directionRandom > 0.5 ? magnitude : -magnitude;
+}
+
+function getExoticDelta(currentProb: number, hasJumped: boolean): { newProb: number; jumped: boolean } {
+  // If already jumped, stay at high probability with small oscillation
+  if (hasJumped) {
+    const delta = (random() - 0.5) * 2; // ±1%
+    return { newProb: clamp(currentProb + delta, 90, 99), jumped: true };
+  }
+
+  // Check for rare jump event (0.01% chance)
+  if (random() < EXOTIC_JUMP_CHANCE) {
+    console.log(`[exotic] RARE JUMP! Market jumping to ${EXOTIC_JUMP_TARGET}%`);
+    return { newProb: EXOTIC_JUMP_TARGET, jumped: true };
+  }
+
+  // Normal exotic oscillation between 0.01% and 3%
+  const delta = (random() - 0.5) * 0.5; // ±0.25%
+  const newProb = clamp(currentProb + delta, EXOTIC_MIN_PROB, EXOTIC_MAX_PROB);
+  return { newProb, jumped: false };
+}
+
+function createRandomWalkSource(isExotic: boolean, currentProb: number): PriceSource {
+  let hasJumped = isExotic && currentProb > 50; // Assume jumped if already high
+  return {
+    type: "random_walk",
+    async nextPrice(current) {
+      if (isExotic) {
+        // Exotic bet: oscillate 0.01-3% with rare jump to 99%
+        const result = getExoticDelta(current, hasJumped);
+        hasJumped = result.jumped;
+        return Number(result.newProb.toFixed(8)); // Keep high precision
+      }
+      // Regular market: apply random walk
+      const newProb = clamp(current + getRandomDelta(), 5, 95);
+      return Number(newProb.toFixed(4)); // Standard precision
+    },
+  };
+}
+
+// === REPLAY ===
+
+function resolveRecordingPath(file: string): string | null {
+  const resolved = path.resolve(PRICE_RECORDINGS_DIR, file);
+  return resolved.startsWith(PRICE_RECORDINGS_DIR + path.sep) ? resolved : null;
+}
+
+// .json: an array of prices or of objects with a price field. .csv: the last column of each
+// row is the price; header and other non-numeric rows are skipped.
+function parseRecording(file: string, content: string): number[] {
+  let samples: number[];
+  if (file.endsWith(".json")) {
+    const parsed = JSON.parse(content);
+    if (!Array.isArray(parsed)) throw new Error("recording must be a JSON array");
+    samples = parsed.map((s) => Number(typeof s === "object" && s !== null ? s.price : s));
+  } else {
+    samples = content
+      .split(/\r?\n/)
+      .filter((line) => line.trim() !== "")
+      .map((line) => Number(line.split(",").pop()!.trim()));
+  }
+  const prices = samples.filter((price) => Number.isFinite(price) && price >= 0 && price <= 100);
+  if (prices.length === 0) throw new Error("recording has no prices between 0 and 100");
+  return prices;
+}
+
+function createReplaySource(marketId: number, config: PriceSourceConfig<"replay">): PriceSource {
+  let prices: Promise<number[]> | null = null;
+  let index = 0;
+  let finished = false;
+
+  return {
+    type: "replay",
+    async nextPrice() {
+      if (finished) return null;
+      if (!prices) {
+        const filePath = resolveRecordingPath(config.file)!;
+        prices = readFile(filePath, "utf8").then((content) => parseRecording(config.file, content));
+      }
+      let samples: number[];
+      try {
+        samples = await prices;
+      } catch (err: any) {
+        console.error(`[price-source] Market ${marketId} replay of ${config.file} failed: ${err.message}`);
+        finished = true;
+        return null;
+      }
+      if (index >= samples.length) {
+        if (!config.loop) {
+          finished = true;
+          console.log(`[price-source] Market ${marketId} finished replaying ${config.file}`);
+          return null;
+        }
+        index = 0;
+      }
+      return Number(samples[index++].toFixed(8));
+    },
+  };
+}
+
+// === TRADE DRIVEN ===
+
+function createTradeDrivenSource(marketId: number, config: PriceSourceConfig<"trade_driven">): PriceSource {
+  let lastTradeId: number | null = null;
+
+  return {
+    type: "trade_driven",
+    async nextPrice(current) {
+      // Start from the latest trade so history recorded before the switch does not move the price
+      if (lastTradeId === null) {
+        const recent = await storage.getTrades(marketId);
+        lastTradeId = recent.reduce((max, t) => Math.max(max, t.id), 0);
+        return null;
+      }
+
+      const newTrades = await storage.getTradesSince(marketId, lastTradeId);
+      if (newTrades.length === 0) return null;
+      lastTradeId = newTrades[newTrades.length - 1].id;
+
+      // Closes are recorded on the opposite side, so they push the price back
+      const netNotional = newTrades.reduce((sum, t) => sum + (t.side === "YES" ? t.size : -t.size), 0);
+      if (netNotional === 0) return null;
+      const newProb = clamp(current + (netNotional / 1000) * config.impactPer1000, 1, 99);
+      return Number(newProb.toFixed(4));
+    },
+  };
+}
+
+// === EXTERNAL FEED ===
+
+function createExternalFeedSource(marketId: number, config: PriceSourceConfig<"external_feed">): PriceSource {
+  let failing = false;
+
+  return {
+    type: "external_feed",
+    async nextPrice() {
+      try {
+        const res = await fetch(config.url, { signal: AbortSignal.timeout(config.timeoutMs) });
+        if (!res.ok) throw new Error(`HTTP ${res.status}`);
+        const body = await res.json();
+        const price = Number(typeof body === "number" ? body : body?.[config.field]);
+        if (!Number.isFinite(price) || price < 0 || price > 100) {
+          throw new Error(`"${config.field}" is not a price between 0 and 100`);
+        }
+        if (failing) {
+          console.log(`[price-source] Market ${marketId} feed ${config.url} recovered`);
+          failing = false;
+        }
+        return Number(price.toFixed(8));
+      } catch (err: any) {
+        // Keep the last price while the feed is down; log once per outage
+        if (!failing) {
+          console.error(`[price-source] Market ${marketId} feed ${config.url} failed: ${err.message}`);
+          failing = true;
+        }
+        return null;
+      }
+    },
+  };
+}
+
+// Builds the configured source for a market; invalid settings fall back to the random walk
+export function createPriceSource(market: Market, currentProb: number): PriceSource {
+  const isExotic = market.category === "Exotic Bet";
+  const type = market.priceSource ?? "random_walk";
+  if (type === "random_walk") return createRandomWalkSource(isExotic, currentProb);
+
+  let raw: unknown = {};
+  try {
+    raw = market.priceSourceConfig ? JSON.parse(market.priceSourceConfig) : {};
+  } catch {
+    raw = null;
+  }
+  const parsed = raw === null ? { error: "config is not valid JSON" } : parsePriceSourceConfig(type, raw);
+  if ("error" in parsed) {
+    console.error(`[price-source] Market ${market.id} has invalid ${type} settings (${parsed.error}); using random walk`);
+    return createRandomWalkSource(isExotic, currentProb);
+  }
+
+  switch (type) {
+    case "replay":
+      return createReplaySource(market.id, parsed.config as PriceSourceConfig<"replay">);
+    case "trade_driven":
+      return createTradeDrivenSource(market.id, parsed.config as PriceSourceConfig<"trade_driven">);
+    case "external_feed":
+      return createExternalFeedSource(market.id, parsed.config as PriceSourceConfig<"external_feed">);
+  }
+}
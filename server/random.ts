@@ -0,0 +1,38 @@
+import { randomBytes } from "crypto";
+
+// Cryptographically secure random number generator [0, 1)
+// Uses crypto.randomBytes instead of Math.random to prevent prediction attacks
+export function secureRandom(): number {
+  const bytes = randomBytes(4);
+  const value = bytes.readUInt32BE(0);
+  return value / 0x100000000; // Divide by 2^32 to get [0, 1) range
+}
+
+// Mulberry32: small, fast and fully determined by its 32-bit seed
+function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  };
+}
+
+let seededRandom: (() => number) | null = null;
+
+// Random number in [0, 1) for the simulation. Secure by default; after setRandomSeed the
+// sequence is reproducible, so tests can assert exact prices. Never seed in production.
+export function random(): number {
+  return seededRandom ? seededRandom() : secureRandom();
+}
+
+// Pass null to go back to the secure generator
+export function setRandomSeed(seed: number | null): void {
+  seededRandom = seed === null ? null : createSeededRandom(seed);
+}
+
+export function isSeeded(): boolean {
+  return seededRandom !== null;
+}
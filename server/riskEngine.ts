@@ -1,8 +1,10 @@
 import type { Position, Market, CrossMarginMetrics } from "@shared/schema";
 import { getMarketState } from "./simulation";
+import { getRiskParams } from "./riskParams";
 
-const MAINTENANCE_FACTOR = 0.5;
 const WARNING_THRESHOLD = 1.2;
+const LIQUIDATION_TARGET_RATIO = 1.25; // Margin ratio a partial liquidation restores
+const MIN_REMAINING_SIZE = 10; // Same as the minimum position size
 
 export function calculatePositionPnL(position: Position, currentPrice: number): number {
   const isLong = position.side === "YES";
@@ -14,15 +16,43 @@ export function calculatePositionPnL(position: Position, currentPrice: number):
 }
 
 export function calculatePositionMargin(position: Position): number {
+  // Isolated positions may carry margin added after opening
+  const extraMargin = parseFloat(position.extraMargin ?? "0");
   // Leverage is sanitized at position creation time to always be >= 1
   // If somehow invalid (legacy data), log warning and use 1 as safe fallback
   if (!position.leverage || position.leverage <= 0) {
     console.warn(`[riskEngine] Position ${position.id} has invalid leverage: ${position.leverage}. Using 1.`);
-    return position.size; // size / 1 = size
+    return position.size + extraMargin; // size / 1 = size
   }
-  return Math.ceil(position.size / position.leverage);
+  return Math.ceil(position.size / position.leverage) + extraMargin;
 }
 
+// Share of a position's margin that must remain as equity, set per market (market_risk_params)
+function maintenanceFactorFor(position: Position): number {
+  return getRiskParams(position.marketId).maintenanceFactor;
+}
+
+export function isIsolated(position: Position): boolean {
+  return position.marginMode === "isolated";
+}
+
+// Price at which the position's loss equals its margin. An isolated position's
+// liquidationProbability is kept at this price as margin is added or removed.
+export function calculateBankruptcyPrice(position: Position): number {
+  const entryProb = parseFloat(position.entryProbability.toString());
+  const buffer = (calculatePositionMargin(position) * 100) / position.size;
+  const price = position.side === "YES" ? entryProb - buffer : entryProb + buffer;
+  return Math.max(0, Math.min(100, price));
+}
+
+// Isolated positions are liquidated on their own once the price reaches liquidationProbability
+export function isIsolatedPositionLiquidatable(position: Position, currentPrice: number): boolean {
+  const liquidationPrice = parseFloat(position.liquidationProbability.toString());
+  return position.side === "YES" ? currentPrice <= liquidationPrice : currentPrice >= liquidationPrice;
+}
+
+// Covers cross positions only; isolated margin is reported separately and isolated PnL never
+// reaches the shared equity
 export function calculateCrossMarginMetrics(
   cashBalance: number,
   openPositions: (Position & { market: Market })[],
@@ -31,15 +61,24 @@ export function calculateCrossMarginMetrics(
   let usedMargin = 0;
   let unrealizedPnL = 0;
   let maintenanceMargin = 0;
+  let accruedFunding = 0;
+  let isolatedMargin = 0;
 
   for (const pos of openPositions) {
+    if (isIsolated(pos)) {
+      isolatedMargin += calculatePositionMargin(pos);
+      accruedFunding += parseFloat(pos.accruedFunding ?? "0");
+      continue;
+    }
+
     const margin = calculatePositionMargin(pos);
     usedMargin += margin;
-    maintenanceMargin += margin * MAINTENANCE_FACTOR;
+    maintenanceMargin += margin * maintenanceFactorFor(pos);
 
     const currentPrice = getPrice(pos.marketId) ?? parseFloat(pos.market?.currentProbability?.toString() ?? "50");
     const pnl = calculatePositionPnL(pos, currentPrice);
     unrealizedPnL += pnl;
+    accruedFunding += parseFloat(pos.accruedFunding ?? "0");
   }
 
   const equity = cashBalance + usedMargin + unrealizedPnL;
@@ -56,6 +95,8 @@ export function calculateCrossMarginMetrics(
     maintenanceMargin: Math.round(maintenanceMargin * 100) / 100,
     marginRatio: Math.round(marginRatio * 100) / 100,
     isAtRisk,
+    accruedFunding: Math.round(accruedFunding * 100) / 100,
+    isolatedMargin: Math.round(isolatedMargin * 100) / 100,
   };
 }
 
@@ -67,7 +108,7 @@ export function calculateDynamicLiquidationPrice(
   getPrice: (marketId: number) => number | null
 ): number {
   const margin = calculatePositionMargin(position);
-  const positionMaintenance = margin * MAINTENANCE_FACTOR;
+  const positionMaintenance = margin * maintenanceFactorFor(position);
   const otherMaintenance = portfolioMaintenance - positionMaintenance;
   const currentPrice = getPrice(position.marketId) ?? parseFloat(position.entryProbability.toString());
   const currentPnL = calculatePositionPnL(position, currentPrice);
@@ -85,12 +126,25 @@ export function calculateDynamicLiquidationPrice(
   return Math.max(0, Math.min(100, Math.round(liqPrice * 100) / 100));
 }
 
-export function getPositionsToLiquidate(
+export interface LiquidationStep {
+  position: Position;
+  closeSize: number; // Notional to liquidate; equal to position.size for a full liquidation
+  remainingSize: number;
+}
+
+// Smallest reductions that bring the portfolio's margin ratio back to LIQUIDATION_TARGET_RATIO,
+// worst positions first. Closing at the current price leaves equity unchanged apart from the
+// liquidation penalty, while each unit of notional closed releases its maintenance margin, so the
+// size needed from a position is (target * maintenance - equity) / (target * factor / leverage - penalty).
+// Positions already past their bankruptcy price, and every position of a portfolio with no equity
+// left, are closed in full.
+export function getLiquidationPlan(
   openPositions: (Position & { market: Market })[],
   equity: number,
   maintenanceMargin: number,
-  getPrice: (marketId: number) => number | null
-): Position[] {
+  getPrice: (marketId: number) => number | null,
+  penaltyRate: number
+): LiquidationStep[] {
   if (equity >= maintenanceMargin) {
     return [];
   }
@@ -105,17 +159,34 @@ export function getPositionsToLiquidate(
     })
     .sort((a, b) => a.lossRatio - b.lossRatio);
 
-  const toLiquidate: Position[] = [];
+  if (equity <= 0) {
+    return positionsWithRisk.map(({ position }) => ({ position, closeSize: position.size, remainingSize: 0 }));
+  }
+
+  const plan: LiquidationStep[] = [];
   let currentEquity = equity;
   let currentMaintenance = maintenanceMargin;
 
   for (const { position, pnl, margin } of positionsWithRisk) {
-    if (currentEquity >= currentMaintenance) break;
-
-    toLiquidate.push(position);
-    const positionMaintenance = margin * MAINTENANCE_FACTOR;
-    currentMaintenance -= positionMaintenance;
+    if (currentEquity >= currentMaintenance * LIQUIDATION_TARGET_RATIO) break;
+
+    const leverage = position.leverage > 0 ? position.leverage : 1;
+    const maintenanceFactor = maintenanceFactorFor(position);
+    const released = (LIQUIDATION_TARGET_RATIO * maintenanceFactor) / leverage - penaltyRate;
+    let closeSize = position.size;
+    if (pnl > -margin && released > 0) {
+      const needed = (currentMaintenance * LIQUIDATION_TARGET_RATIO - currentEquity) / released;
+      closeSize = Math.min(position.size, Math.max(1, Math.ceil(needed)));
+      // Don't leave a remainder too small to trade or close
+      if (position.size - closeSize < MIN_REMAINING_SIZE) closeSize = position.size;
+    }
+
+    plan.push({ position, closeSize, remainingSize: position.size - closeSize });
+    currentEquity -= closeSize * penaltyRate;
+    currentMaintenance -= closeSize >= position.size
+      ? margin * maintenanceFactor
+      : (closeSize / leverage) * maintenanceFactor;
   }
 
-  return toLiquidate;
+  return plan;
 }
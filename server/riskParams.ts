@@ -0,0 +1,156 @@
+import { z } from "zod";
+import type { MarketRiskParams, MarketRiskParamsRow } from "@shared/schema";
+import { storage, type ExposureReader } from "./storage";
+
+// Risk parameters: per-market caps on leverage, position size, open interest and positions per
+// user, the price band new exposure may open in, and the maintenance factor the risk engine
+// liquidates against. Rows in market_risk_params override the defaults below. They are cached in
+// memory so the risk engine can read them synchronously; admin edits write through the cache.
+
+export const MAX_OPEN_POSITIONS_PER_ACCOUNT = 100;
+
+const isProduction = process.env.NODE_ENV === "production";
+
+export const DEFAULT_RISK_PARAMS: Omit<MarketRiskParams, "marketId" | "isDefault"> = {
+  maxLeverage: 50,
+  maintenanceFactor: 0.5,
+  minPositionSize: 10, // Below this, margin rounding distorts PnL
+  maxPositionSize: isProduction ? 1_000_000 : 500_000,
+  maxOpenInterest: null,
+  maxOpenPositionsPerUser: MAX_OPEN_POSITIONS_PER_ACCOUNT,
+  priceBandMin: 0,
+  priceBandMax: 100,
+};
+
+const cache: Map<number, MarketRiskParams> = new Map();
+
+export const riskParamsSchema = z.object({
+  maxLeverage: z.number().int().min(1).max(100),
+  maintenanceFactor: z.number().gt(0).max(1),
+  minPositionSize: z.number().int().min(1),
+  maxPositionSize: z.number().int().min(1).max(10_000_000_000),
+  maxOpenInterest: z.number().int().positive().nullable(),
+  maxOpenPositionsPerUser: z.number().int().min(1).max(MAX_OPEN_POSITIONS_PER_ACCOUNT),
+  priceBandMin: z.number().min(0).max(100),
+  priceBandMax: z.number().min(0).max(100),
+}).strict()
+  .refine((p) => p.minPositionSize <= p.maxPositionSize, { message: "minPositionSize must not exceed maxPositionSize" })
+  .refine((p) => p.priceBandMin < p.priceBandMax, { message: "priceBandMin must be below priceBandMax" });
+
+type RiskParamsValues = z.infer<typeof riskParamsSchema>;
+
+function fromRow(row: MarketRiskParamsRow): MarketRiskParams {
+  return {
+    marketId: row.marketId,
+    maxLeverage: row.maxLeverage,
+    maintenanceFactor: parseFloat(row.maintenanceFactor),
+    minPositionSize: row.minPositionSize,
+    maxPositionSize: row.maxPositionSize,
+    maxOpenInterest: row.maxOpenInterest,
+    maxOpenPositionsPerUser: row.maxOpenPositionsPerUser,
+    priceBandMin: parseFloat(row.priceBandMin),
+    priceBandMax: parseFloat(row.priceBandMax),
+    isDefault: false,
+  };
+}
+
+// Called once at startup, before the simulation starts checking liquidations
+export async function loadRiskParams(): Promise<number> {
+  const rows = await storage.getMarketRiskParams();
+  cache.clear();
+  for (const row of rows) cache.set(row.marketId, fromRow(row));
+  return rows.length;
+}
+
+export function getRiskParams(marketId: number): MarketRiskParams {
+  return cache.get(marketId) ?? { marketId, ...DEFAULT_RISK_PARAMS, isDefault: true };
+}
+
+// Validates a partial update applied on top of the market's current parameters
+export function parseRiskParamsUpdate(marketId: number, raw: unknown): { params: RiskParamsValues } | { error: string } {
+  const { marketId: _, isDefault, ...current } = getRiskParams(marketId);
+  const update = raw !== null && typeof raw === "object" ? raw : {};
+  const result = riskParamsSchema.safeParse({ ...current, ...update });
+  if (!result.success) {
+    const issue = result.error.errors[0];
+    return { error: issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message };
+  }
+  return { params: result.data };
+}
+
+export async function setRiskParams(marketId: number, params: RiskParamsValues): Promise<MarketRiskParams> {
+  const row = await storage.upsertMarketRiskParams({
+    marketId,
+    ...params,
+    maintenanceFactor: params.maintenanceFactor.toFixed(4),
+    priceBandMin: params.priceBandMin.toFixed(4),
+    priceBandMax: params.priceBandMax.toFixed(4),
+  });
+  const saved = fromRow(row);
+  cache.set(marketId, saved);
+  return saved;
+}
+
+export async function resetRiskParams(marketId: number): Promise<MarketRiskParams> {
+  await storage.deleteMarketRiskParams(marketId);
+  cache.delete(marketId);
+  return getRiskParams(marketId);
+}
+
+export interface Exposure {
+  leverage: number;
+  size: number; // Notional
+  price: number; // Entry price, or the limit price for a limit order
+}
+
+function checkPriceBand(params: MarketRiskParams, price: number): string | null {
+  if (price < params.priceBandMin || price > params.priceBandMax) {
+    return `New positions on this market only open between ${params.priceBandMin}% and ${params.priceBandMax}%`;
+  }
+  return null;
+}
+
+async function checkOpenInterest(params: MarketRiskParams, size: number, reader: ExposureReader = storage): Promise<string | null> {
+  if (params.maxOpenInterest === null) return null;
+  const open = await reader.getOpenPositionsForMarket(params.marketId);
+  const openInterest = open.reduce((sum, p) => sum + p.size, 0);
+  if (openInterest + size > params.maxOpenInterest) {
+    const available = Math.max(0, params.maxOpenInterest - openInterest);
+    return `Open interest cap reached on this market: $${available.toLocaleString()} of $${params.maxOpenInterest.toLocaleString()} available`;
+  }
+  return null;
+}
+
+// Leverage, size, price band, open interest and the user's open positions in the market.
+// Returns an error message to reject the position or order, or null. Positions are read through
+// reader, the open transaction's when called from openPosition.
+export async function checkNewExposure(userId: string, marketId: number, exposure: Exposure, reader: ExposureReader = storage): Promise<string | null> {
+  const params = getRiskParams(marketId);
+  if (exposure.leverage < 1 || exposure.leverage > params.maxLeverage) {
+    return `Leverage must be between 1 and ${params.maxLeverage}`;
+  }
+  if (exposure.size < params.minPositionSize) {
+    return `Minimum position size is $${params.minPositionSize.toLocaleString()}`;
+  }
+  if (exposure.size > params.maxPositionSize) {
+    return `Maximum position size is $${params.maxPositionSize.toLocaleString()}`;
+  }
+  const bandError = checkPriceBand(params, exposure.price);
+  if (bandError) return bandError;
+
+  const oiError = await checkOpenInterest(params, exposure.size, reader);
+  if (oiError) return oiError;
+
+  const userPositions = await reader.getOpenPositions(userId);
+  if (userPositions.filter((p) => p.marketId === marketId).length >= params.maxOpenPositionsPerUser) {
+    return `Maximum ${params.maxOpenPositionsPerUser} open positions per account on this market`;
+  }
+  return null;
+}
+
+// Re-checked by the order engine on every fill: the price band and open interest can have moved
+// since the order was placed. Slices of iceberg and TWAP orders may be below the minimum size.
+export async function checkFill(marketId: number, size: number, price: number): Promise<string | null> {
+  const params = getRiskParams(marketId);
+  return checkPriceBand(params, price) ?? await checkOpenInterest(params, size);
+}
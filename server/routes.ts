@@ -1,17 +1,35 @@
 import type { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import { storage, InsufficientMarginError, InsufficientBalanceError, ExposureLimitError, LEDGER_ACCOUNTS, marginAccount, calculateFee } from "./storage";
 import { getSession } from "./replit_integrations/auth";
 import { api } from "@shared/routes";
 import { z } from "zod";
 import { db } from "./db";
 import { users } from "@shared/models/auth";
 import { eq, sql, desc, notInArray, inArray } from "drizzle-orm";
-import { positions, trades, markets, userProfiles, orderExecutions, systemSettings, adminAuditLog } from "@shared/schema";
-import { getMarketState, getAllMarketStates, getComboState, registerCombo, removeMarkets } from "./simulation";
-import { calculateCrossMarginMetrics, calculatePositionMargin, calculatePositionPnL } from "./riskEngine";
-import type { Combo, ComboLeg } from "@shared/schema";
-import { siteVisits } from "@shared/schema";
+import { positions, trades, markets, userProfiles, orderExecutions, systemSettings, adminAuditLog, PROTECTIVE_ORDER_TYPES, PRICE_SOURCE_TYPES, MARGIN_MODES, MARKET_STATUS_REASONS, type PriceSourceType } from "@shared/schema";
+import { getMarketState, getAllMarketStates, getComboState, priceComboDefinition, removeMarkets, setMarketPriceSource, runSimulationTick } from "./simulation";
+import { parsePriceSourceConfig } from "./priceSources";
+import { calculateCrossMarginMetrics, calculatePositionMargin, calculatePositionPnL, calculateBankruptcyPrice } from "./riskEngine";
+import { cancelBondedMarket, cancelByCreator, createPermissionlessMarket, disputeProposal, proposeOutcome, resolveBondedMarket, reviewMarket, CREATION_BOND, DISPUTE_BOND, PROPOSAL_BOND } from "./marketOracle";
+import { openBlockedReason, closeBlockedReason, isAdminMarketStatus, setAdminMarketStatus } from "./marketLifecycle";
+import { reconcileLedger, getLastReconciliation } from "./ledger";
+import { getCandles } from "./candles";
+import { getFeeRates } from "./fees";
+import { getMarketFunding } from "./funding";
+import { simulatePortfolio } from "./scenarios";
+import { comboPositionPnl, settleComboPositionAt, resolveCombos, trackCombo } from "./comboSettlement";
+import { quoteEarlyExit, comboMarkValue, getEarlyExitCurve, setEarlyExitCurve, earlyExitCurveSchema } from "./comboExit";
+import { createCuratedCombo, curatedComboSchema, isComboTradable, retireExpiredCuratedCombos, toListedCombo } from "./curatedCombos";
+import { buildComboLegs, comboDefinitionSchema, currentComboPrice, marketLegIds } from "./comboLegs";
+import { estimateCorrelations, listCorrelations, getCorrelation, setCorrelationOverride, clearCorrelationOverride } from "./comboPricing";
+import { checkNewExposure, getRiskParams, parseRiskParamsUpdate, setRiskParams, resetRiskParams, MAX_OPEN_POSITIONS_PER_ACCOUNT } from "./riskParams";
+import { liquidatePosition, getInsuranceFundSummary } from "./insurance";
+import { attachGateway } from "./gateway";
+import { getClock, currentDate, isManualClock } from "./clock";
+import { submitLimitOrder, cancelRestingOrder, cancelOrderGroup, orderGroupSchema, validateProtectiveTrigger } from "./orderEngine";
+import { getOrderBookDepth } from "./orderBook";
+import { siteVisits, type ComboListingResponse, type MarketBond } from "@shared/schema";
 import rateLimit from "express-rate-limit";
 import { doubleCsrf } from "csrf-csrf";
 import cookieParser from "cookie-parser";
@@ -110,7 +128,9 @@ export interface LiquidationEvent {
   timestamp: Date;
   user: { address: string; displayName: string };
   market: { id: number; question: string };
-  size: number;
+  size: number; // Position size before liquidation
+  reducedSize: number; // Notional liquidated; less than size for a partial liquidation
+  remainingPosition: { id: number; size: number } | null;
   side: "YES" | "NO";
 }
 
@@ -274,9 +294,13 @@ async function performWeeklyReset(): Promise<{ usersReset: number; positionsClos
   const allUsers = await db.select().from(users);
   for (const user of allUsers) {
     const newStlr = Math.floor((user.stlrPoints || 0) / 2);
+    await storage.setUserBalance(user.id, 10000, {
+      entryType: "reset",
+      counterAccount: LEDGER_ACCOUNTS.equity,
+      memo: "Weekly reset",
+    });
     await db.update(users)
       .set({ 
-        balance: "10000",
         stlrPoints: newStlr,
         weeklyPnl: 0,
       })
@@ -315,7 +339,7 @@ async function scheduleWeeklyReset(): Promise<void> {
 
 // Auto-settle combo positions where lockDate has passed
 async function settleExpiredComboPositions(): Promise<number> {
-  const now = new Date();
+  const now = currentDate();
   const openPositions = await storage.getAllOpenComboPositions();
   let settled = 0;
   
@@ -324,17 +348,13 @@ async function settleExpiredComboPositions(): Promise<number> {
     if (position.lockDate && new Date(position.lockDate) <= now) {
       try {
         // Get current combo probability
+        // Positions on resolved or canceled combos are paid out by the combo resolution sweep
         const combo = await storage.getCustomCombo(position.comboId);
-        if (!combo) continue;
+        if (!combo || combo.status !== "active") continue;
         
-        // Get live probability from simulation state (normalize to number)
-        const comboState = getComboState(position.comboId);
-        const rawExitProb = comboState?.currentProbability ?? combo.impliedProbability;
-        const exitProb = typeof rawExitProb === "number" ? rawExitProb : parseFloat(String(rawExitProb));
+        // Live probability from simulation state, else the stored price (0-1, scaled to a percentage)
+        const exitProb = currentComboPrice(combo);
         const entryProb = parseFloat(position.entryProbability || "0");
-        const stake = position.stake || 0;
-        const leverage = position.leverage || 1;
-        const notionalSize = stake * leverage;
         
         // Skip if probability values are invalid
         if (isNaN(exitProb) || isNaN(entryProb)) {
@@ -342,25 +362,13 @@ async function settleExpiredComboPositions(): Promise<number> {
           continue;
         }
         
-        // PnL formula: notionalSize * (exitProb - entryProb) / 100
-        // YES side: profit when probability goes up
-        // NO side: profit when probability goes down
-        let pnl: number;
-        if (position.side === "YES") {
-          pnl = notionalSize * (exitProb - entryProb) / 100;
-        } else {
-          pnl = notionalSize * (entryProb - exitProb) / 100;
-        }
-        
-        // Return stake + pnl to user (minimum 0)
-        const returnAmount = Math.max(0, stake + pnl);
-        await storage.updateUserBalance(position.userId, returnAmount);
-        
-        // Close the position
-        await storage.closeComboPosition(position.id, Math.floor(pnl), exitProb.toFixed(6));
+        // Closes the position and returns stake + PnL (minimum 0) atomically; skipped if the
+        // combo resolved in the meantime and already paid it out
+        const closed = await settleComboPositionAt(position, exitProb, `Lock date settlement at ${exitProb.toFixed(2)}%`);
+        if (!closed) continue;
         settled++;
         
-        console.log(`[combo-settlement] Position ${position.id} settled: PnL $${pnl.toFixed(2)}, exitProb ${exitProb.toFixed(2)}%`);
+        console.log(`[combo-settlement] Position ${position.id} settled: PnL $${comboPositionPnl(position, exitProb).toFixed(2)}, exitProb ${exitProb.toFixed(2)}%`);
       } catch (err) {
         console.error(`[combo-settlement] Failed to settle position ${position.id}:`, err);
       }
@@ -370,10 +378,13 @@ async function settleExpiredComboPositions(): Promise<number> {
   return settled;
 }
 
-// Schedule combo position settlement check (runs every 5 minutes)
+// Schedule combo position settlement check (runs every 5 minutes). Combos whose legs have all
+// resolved are normally settled by the market's resolution; the sweep catches any that were missed.
 async function scheduleComboSettlement(): Promise<void> {
-  setInterval(async () => {
+  getClock().setInterval(async () => {
     try {
+      await resolveCombos();
+      await retireExpiredCuratedCombos();
       const settled = await settleExpiredComboPositions();
       if (settled > 0) {
         console.log(`[combo-settlement] Settled ${settled} expired positions`);
@@ -384,12 +395,14 @@ async function scheduleComboSettlement(): Promise<void> {
   }, 5 * 60 * 1000); // Check every 5 minutes
   
   // Also run immediately on startup
+  await resolveCombos().catch((error) => console.error("[combo-settlement] Combo resolution sweep failed:", error));
+  await retireExpiredCuratedCombos().catch((error) => console.error("[curated-combos] Expiry sweep failed:", error));
   const initialSettled = await settleExpiredComboPositions();
   console.log(`[combo-settlement] Scheduler initialized - ${initialSettled} positions settled on startup`);
 }
 
 // Export for use in index.ts
-export { scheduleWeeklyReset, performWeeklyReset, scheduleComboSettlement };
+export { scheduleWeeklyReset, performWeeklyReset, scheduleComboSettlement, settleExpiredComboPositions };
 
 // CSRF Protection setup - only enforce in production (isProduction defined above with rate limiters)
 const { doubleCsrfProtection, generateCsrfToken } = doubleCsrf({
@@ -421,7 +434,10 @@ export async function registerRoutes(
   // Setup session (reuse existing session infrastructure)
   app.set("trust proxy", 1);
   app.use(cookieParser());  // Required for CSRF protection
-  app.use(getSession());
+  const sessionMiddleware = getSession();
+  app.use(sessionMiddleware);
+  // Market data and account updates over WebSocket, authenticated by the same session cookie
+  attachGateway(httpServer, sessionMiddleware);
   
   // Apply general rate limiting to all routes
   app.use("/api", generalLimiter);
@@ -604,6 +620,7 @@ export async function registerRoutes(
         referralCode: newReferralCode,
         referredBy: referrerId,
       }).returning();
+      await storage.recordOpeningBalance(newUser.id);
       
       // Set session
       req.session.userId = newUser.id;
@@ -757,7 +774,8 @@ export async function registerRoutes(
   app.get(api.markets.list.path, async (req, res) => {
     try {
       const markets = await storage.getMarkets();
-      res.json(markets.map(normalizeMarket));
+      // Permissionless markets are listed once approved in review
+      res.json(markets.filter((m) => m.reviewStatus === "approved").map(normalizeMarket));
     } catch (err: any) {
       console.error("[api/markets] Database error:", err.message);
       res.status(500).json({ message: "Failed to fetch markets", error: err.message });
@@ -772,45 +790,58 @@ export async function registerRoutes(
     res.setHeader("Surrogate-Control", "no-store");
     try {
       const markets = await storage.getMarkets();
-      res.json(markets.map(normalizeMarket));
+      // Permissionless markets are listed once approved in review
+      res.json(markets.filter((m) => m.reviewStatus === "approved").map(normalizeMarket));
     } catch (err: any) {
       console.error("[api/markets/v2] Database error:", err.message);
       res.status(500).json({ message: "Failed to fetch markets", error: err.message });
     }
   });
 
-  // Create new market (permissionless) - with CSRF protection
+  // Create new market (permissionless) - with CSRF protection. Debits the creation bond; the market
+  // trades once approved in admin review (see marketOracle.ts)
   app.post("/api/markets", csrfProtection, isAuthenticated, async (req, res) => {
     try {
-      const { question, description, category, resolutionDate } = req.body;
+      const { question, description, category, resolutionDate, opensAt } = req.body;
       
       if (!question || !category || !resolutionDate) {
         return res.status(400).json({ message: "Missing required fields: question, category, resolutionDate" });
       }
+      const resolvesAt = new Date(resolutionDate);
+      if (isNaN(resolvesAt.getTime())) {
+        return res.status(400).json({ message: "resolutionDate must be a valid date" });
+      }
+      // Optional scheduled open; the market stays frozen until then
+      const opensAtDate = opensAt ? new Date(opensAt) : undefined;
+      if (opensAtDate && (isNaN(opensAtDate.getTime()) || opensAtDate >= resolvesAt)) {
+        return res.status(400).json({ message: "opensAt must be a valid date before resolutionDate" });
+      }
 
       const walletAddress = req.session.walletAddress;
+      if (!walletAddress) {
+        return res.status(400).json({ message: "A connected wallet is required to create a market" });
+      }
       
-      const newMarket = await storage.createMarket({
+      const newMarket = await createPermissionlessMarket({
         question,
         description: description || "",
         category,
-        resolutionDate: new Date(resolutionDate),
-        currentProbability: "50",
-        volume24h: 0,
-        status: "active",
-        creator: walletAddress || null,
-        isPermissionless: true,
-        imageUrl: null,
-      });
+        resolutionDate: resolvesAt,
+        opensAt: opensAtDate,
+      }, { userId: req.session.userId!, walletAddress });
 
-      res.status(201).json(newMarket);
+      res.status(201).json({ ...newMarket, creationBond: CREATION_BOND });
     } catch (error) {
+      if (error instanceof InsufficientBalanceError) {
+        return res.status(400).json({ message: error.message });
+      }
       console.error("Error creating market:", error);
       res.status(500).json({ message: "Failed to create market" });
     }
   });
 
   // === SSE Market Stream (must be before :id route) ===
+  // Superseded by the WebSocket gateway's "tickers" channel; kept for older clients
   app.get("/api/markets/stream", (req, res) => {
     // Disable request timeout for long-lived connection
     req.socket?.setTimeout(0);
@@ -888,29 +919,60 @@ export async function registerRoutes(
   });
 
   // === Order Book ===
+  // Depth comes from resting limit orders in the central limit order book
+  // Predicted funding rate, open interest and recent funding history
+  app.get(api.markets.funding.path, async (req, res) => {
+    const marketId = Number(req.params.id);
+    const market = await storage.getMarket(marketId);
+    if (!market) {
+      return res.status(404).json({ message: "Market not found" });
+    }
+    res.json(await getMarketFunding(marketId));
+  });
+
+  // OHLCV candles from persisted price ticks and trades
+  app.get(api.markets.candles.path, async (req, res) => {
+    const marketId = Number(req.params.id);
+    const parsed = api.markets.candles.input.safeParse(req.query);
+    if (!parsed.success) {
+      return res.status(400).json({
+        message: parsed.error.errors[0].message,
+        field: parsed.error.errors[0].path.join('.'),
+      });
+    }
+
+    const market = await storage.getMarket(marketId);
+    if (!market) {
+      return res.status(404).json({ message: "Market not found" });
+    }
+
+    const { resolution, from, to } = parsed.data;
+    const candles = await getCandles(marketId, resolution, from, to);
+    res.json({ marketId, resolution, candles });
+  });
+
   app.get("/api/markets/:id/orderbook", async (req, res) => {
     const marketId = Number(req.params.id);
     const state = getMarketState(marketId);
+    const depth = getOrderBookDepth(marketId);
     
-    // If simulation hasn't started yet, return empty order book with default probability
+    // If simulation hasn't started yet, fall back to the stored probability
     if (!state) {
-      // Try to get probability from database as fallback
       const market = await storage.getMarket(marketId);
       if (!market) {
         return res.status(404).json({ message: "Market not found" });
       }
       
-      // Return empty order book with market's stored probability
       return res.json({
-        bids: [],
-        asks: [],
+        bids: depth.bids,
+        asks: depth.asks,
         currentProbability: parseFloat(market.currentProbability.toString()),
       });
     }
 
     res.json({
-      bids: state.orderBook.bids,
-      asks: state.orderBook.asks,
+      bids: depth.bids,
+      asks: depth.asks,
       currentProbability: state.currentProbability,
     });
   });
@@ -936,6 +998,10 @@ export async function registerRoutes(
       if (!market) {
         return res.status(404).json({ message: "Market not found" });
       }
+      const blocked = openBlockedReason(market);
+      if (blocked) {
+        return res.status(400).json({ message: blocked });
+      }
 
       // Use real-time price from simulation for entry if available
       const marketState = getMarketState(input.marketId);
@@ -944,24 +1010,6 @@ export async function registerRoutes(
       // Calculate liquidation probability based on notional size and leverage
       const leverage = Math.max(1, input.leverage ?? 1);
       
-      // Validate minimum position size (must be at least $10 to avoid rounding issues)
-      if (input.size < 10) {
-        return res.status(400).json({ message: "Minimum position size is $10" });
-      }
-      
-      // Validate maximum position size - $1M in production
-      const maxPositionSize = isProduction ? 1000000 : 500000;
-      if (input.size > maxPositionSize) {
-        return res.status(400).json({ message: `Maximum position size is $${maxPositionSize.toLocaleString()}` });
-      }
-      
-      // Enforce maximum 100 open positions per account
-      const userPositions = await storage.getPositions(userId);
-      const userOpenPositions = userPositions.filter(p => p.status === "open");
-      if (userOpenPositions.length >= 100) {
-        return res.status(400).json({ message: "Maximum 100 open positions per account. Close some positions to open new ones." });
-      }
-      
       const liquidationBuffer = 100 / leverage;
       let liquidationProbability = 0;
       
@@ -971,53 +1019,64 @@ export async function registerRoutes(
         liquidationProbability = Math.min(100, entryProbability + liquidationBuffer);
       }
 
-      // Calculate required margin (collateral)
+      // Calculate required margin (collateral) plus the taker fee charged on the notional
       const margin = Math.ceil(input.size / leverage);
+      const { takerBps } = await getFeeRates(userId);
+      const fee = calculateFee(input.size, takerBps);
       
-      // Check user has sufficient margin using cross-margin system
       const user = await storage.getUser(userId);
       if (!user) {
         return res.status(404).json({ message: "User not found" });
       }
       
-      // Calculate cross-margin metrics to get free margin (includes unrealized PnL)
-      const allPositions = await storage.getPositions(userId);
-      const openPositions = allPositions.filter(p => p.status === "open");
-      const cashBalance = parseFloat(user.balance || "0");
-      
       const getPrice = (marketId: number) => {
         const state = getMarketState(marketId);
         return state?.currentProbability ?? null;
       };
       
-      const marginMetrics = calculateCrossMarginMetrics(cashBalance, openPositions, getPrice);
-      
-      // Check if user has enough free margin (cash + unrealized PnL - used margin)
-      if (marginMetrics.freeMargin < margin) {
-        return res.status(400).json({ 
-          message: `Insufficient margin. Required: $${margin}, Free Margin: $${Math.floor(marginMetrics.freeMargin)} (includes unrealized PnL)`
+      // Margin debit, position and trade are written atomically under a lock on the user row.
+      // The risk and cross-margin checks run inside that lock so concurrent opens can't overspend
+      // or exceed the position caps.
+      let position;
+      try {
+        position = await storage.openPosition({
+          userId,
+          marketId: input.marketId,
+          side: input.side,
+          size: input.size,
+          leverage, // Use sanitized leverage (always >= 1)
+          entryProbability,
+          liquidationProbability,
+          marginMode: input.marginMode,
+          feeBps: takerBps,
+          checkExposure: async (reader) => {
+            // Leverage, size, price band, open interest and per-market position caps (market_risk_params)
+            const riskError = await checkNewExposure(userId, input.marketId, { leverage, size: input.size, price: entryProbability }, reader);
+            if (riskError) return riskError;
+
+            // Enforce maximum open positions per account
+            const userOpenPositions = await reader.getOpenPositions(userId);
+            if (userOpenPositions.length >= MAX_OPEN_POSITIONS_PER_ACCOUNT) {
+              return `Maximum ${MAX_OPEN_POSITIONS_PER_ACCOUNT} open positions per account. Close some positions to open new ones.`;
+            }
+            return null;
+          },
+          checkMargin: (cashBalance, openPositions) => {
+            // Free margin = cash + unrealized PnL - used margin across cross positions; the fee is paid from cash.
+            // An isolated position draws its margin from the same free margin.
+            const marginMetrics = calculateCrossMarginMetrics(cashBalance, openPositions, getPrice);
+            if (marginMetrics.freeMargin < margin + fee || cashBalance < fee) {
+              return `Insufficient margin. Required: $${margin + fee} (incl. $${fee} fee), Free Margin: $${Math.floor(marginMetrics.freeMargin)} (includes unrealized PnL)`;
+            }
+            return null;
+          },
         });
+      } catch (err) {
+        if (err instanceof InsufficientMarginError || err instanceof ExposureLimitError) {
+          return res.status(400).json({ message: err.message });
+        }
+        throw err;
       }
-      
-      // Deduct margin from user balance first
-      await storage.updateUserBalance(userId, -margin);
-      
-      const position = await storage.createPosition({
-        ...input,
-        leverage, // Use sanitized leverage (always >= 1)
-        userId,
-        entryProbability: entryProbability.toFixed(8),
-        liquidationProbability: liquidationProbability.toFixed(8),
-      });
-
-      // Record trade in database
-      await storage.createTrade({
-        marketId: input.marketId,
-        price: entryProbability.toFixed(8),
-        size: input.size, // Notional size
-        side: input.side,
-        userId,
-      });
 
       // Check for first trade bonus (STLR earn system)
       // Only award if trading on official markets, not user-made (permissionless) markets
@@ -1081,63 +1140,28 @@ export async function registerRoutes(
       return res.status(401).json({ message: "Unauthorized" });
     }
 
-    // Get current price from simulation, fall back to DB
-    const marketState = getMarketState(position.marketId);
-    let currentProb: number;
-    
-    if (marketState) {
-      currentProb = marketState.currentProbability;
-    } else {
-      const market = await storage.getMarket(position.marketId);
-      if (!market) return res.status(404).json({ message: "Market not found" });
-      currentProb = parseFloat(market.currentProbability.toString());
+    const market = await storage.getMarket(position.marketId);
+    if (!market) return res.status(404).json({ message: "Market not found" });
+    const closeBlocked = closeBlockedReason(market);
+    if (closeBlocked) {
+      return res.status(400).json({ message: closeBlocked });
     }
 
-    // Calculate margin first (this is what was locked when position opened)
-    const margin = Math.ceil(position.size / position.leverage);
-    
-    const entryProb = parseFloat(position.entryProbability.toString());
-    
-    // Calculate realized PnL
-    // size is already the notional (leveraged) amount, so don't multiply by leverage again
-    // For YES: pnl = size * (currentProb - entryProb) / 100
-    // For NO: pnl = size * (entryProb - currentProb) / 100
-    let pnl: number;
-    if (position.side === "YES") {
-      pnl = position.size * (currentProb - entryProb) / 100;
-    } else {
-      pnl = position.size * (entryProb - currentProb) / 100;
-    }
-    pnl = Math.round(pnl);
-    
-    // Cap losses at margin - user cannot lose more than their collateral
-    // Profits are uncapped (leverage amplifies gains)
-    if (pnl < -margin) {
-      pnl = -margin;
-    }
-
-    // Close the position with calculated PnL
-    const updatedPosition = await storage.closePosition(positionId, pnl);
-
-    // Record close trade in database (opposite side to show it's a close)
-    await storage.createTrade({
-      marketId: position.marketId,
-      price: currentProb.toFixed(8),
-      size: position.size, // Notional size
-      side: position.side === "YES" ? "NO" : "YES", // Opposite side for close
-      userId: req.session.userId,
-    });
-
-    // Return margin + PnL to user's balance
-    // If pnl = -margin, user gets 0 back (full loss of collateral)
-    // If pnl > 0, user gets margin + profit
-    const balanceChange = margin + pnl;
-    await storage.updateUserBalance(position.userId, balanceChange);
+    // Get current price from simulation, fall back to DB
+    const currentProb = getMarketState(position.marketId)?.currentProbability ?? parseFloat(market.currentProbability.toString());
+
+    // Realize PnL at the current price, record the close trade and return margin + PnL less the
+    // taker fee in one transaction (losses are capped at margin)
+    const { takerBps } = await getFeeRates(position.userId);
+    const closeResult = await storage.closePositionAtPrice(positionId, currentProb, 100, takerBps);
+    if (!closeResult) {
+      return res.status(400).json({ message: "Position is not open" });
+    }
+    const { closedPosition: updatedPosition, pnl } = closeResult;
 
     // Update weekly PnL for earn tracking (only positive PnL counts)
     // Only award STLR for trading on official markets, not user-made (permissionless) markets
-    const positionMarket = await storage.getMarket(position.marketId);
-    const isPermissionlessMarket = positionMarket?.isPermissionless ?? false;
+    const isPermissionlessMarket = market.isPermissionless ?? false;
     
     if (pnl > 0 && !isPermissionlessMarket) {
       try {
@@ -1193,50 +1217,32 @@ export async function registerRoutes(
         return res.status(401).json({ message: "Unauthorized" });
       }
 
-      const marketState = getMarketState(position.marketId);
-      let currentProb: number;
-      
-      if (marketState) {
-        currentProb = marketState.currentProbability;
-      } else {
-        const market = await storage.getMarket(position.marketId);
-        if (!market) return res.status(404).json({ message: "Market not found" });
-        currentProb = parseFloat(market.currentProbability.toString());
+      const market = await storage.getMarket(position.marketId);
+      if (!market) return res.status(404).json({ message: "Market not found" });
+      const closeBlocked = closeBlockedReason(market);
+      if (closeBlocked) {
+        return res.status(400).json({ message: closeBlocked });
       }
+      const currentProb = getMarketState(position.marketId)?.currentProbability ?? parseFloat(market.currentProbability.toString());
 
       // Calculate close size first
       const closeSize = Math.floor(position.size * (percent / 100));
       if (closeSize <= 0) {
         return res.status(400).json({ message: "Close size too small" });
       }
-      
-      // Calculate margin for the closed portion
-      const closedMargin = Math.ceil(closeSize / position.leverage);
-      
-      const entryProb = parseFloat(position.entryProbability.toString());
-      let pnl: number;
-      if (position.side === "YES") {
-        pnl = closeSize * (currentProb - entryProb) / 100;
-      } else {
-        pnl = closeSize * (entryProb - currentProb) / 100;
-      }
-      pnl = Math.round(pnl);
-      
-      // Cap losses at margin for the closed portion
-      if (pnl < -closedMargin) {
-        pnl = -closedMargin;
-      }
-
-      const result = await storage.partialClosePosition(positionId, percent, pnl);
 
-      // Return closed margin + PnL to user's balance
-      const balanceChange = closedMargin + pnl;
-      await storage.updateUserBalance(position.userId, balanceChange);
+      // Closes the slice and returns its margin + PnL less the taker fee in one transaction
+      // (losses capped at the slice's margin)
+      const { takerBps } = await getFeeRates(position.userId);
+      const result = await storage.closePositionAtPrice(positionId, currentProb, percent, takerBps);
+      if (!result) {
+        return res.status(400).json({ message: "Position is not open" });
+      }
+      const { pnl } = result;
 
       // Update weekly PnL for earn tracking (only positive PnL counts)
       // Only award STLR for trading on official markets, not user-made (permissionless) markets
-      const partialMarket = await storage.getMarket(position.marketId);
-      const isPartialPermissionless = partialMarket?.isPermissionless ?? false;
+      const isPartialPermissionless = market.isPermissionless ?? false;
       
       if (pnl > 0 && !isPartialPermissionless) {
         try {
@@ -1280,6 +1286,59 @@ export async function registerRoutes(
     }
   });
 
+  // Add margin to an isolated position (amount > 0) or take added margin back out (amount < 0);
+  // the liquidation price moves with it
+  app.post(api.positions.adjustMargin.path, csrfProtection, tradeLimiter, isAuthenticated, async (req, res) => {
+    try {
+      const positionId = Number(req.params.id);
+      const { amount } = api.positions.adjustMargin.input.parse(req.body);
+      const position = await storage.getPosition(positionId);
+
+      if (!position) {
+        return res.status(404).json({ message: "Position not found" });
+      }
+      if (position.userId !== req.session.userId) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      if (position.status !== "open") {
+        return res.status(400).json({ message: "Position is not open" });
+      }
+      if (position.marginMode !== "isolated") {
+        return res.status(400).json({ message: "Margin can only be adjusted on isolated positions" });
+      }
+
+      const market = await storage.getMarket(position.marketId);
+      if (!market) return res.status(404).json({ message: "Market not found" });
+      const currentProbability = getMarketState(position.marketId)?.currentProbability ?? parseFloat(market.currentProbability.toString());
+
+      let updated;
+      try {
+        updated = await storage.adjustPositionMargin({
+          positionId,
+          amount,
+          currentProbability,
+          liquidationPriceFor: calculateBankruptcyPrice,
+        });
+      } catch (err) {
+        if (err instanceof InsufficientMarginError) {
+          return res.status(400).json({ message: err.message });
+        }
+        throw err;
+      }
+      if (!updated) {
+        return res.status(400).json({ message: "Position is not open" });
+      }
+
+      console.log(`[positions] ${amount > 0 ? "Added" : "Removed"} $${Math.abs(amount)} margin on isolated position ${positionId}; liquidation price now ${updated.liquidationProbability}%`);
+      res.json(normalizePosition(updated));
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.errors[0].message });
+      }
+      throw err;
+    }
+  });
+
   // Get positions by market
   app.get(api.positions.byMarket.path, isAuthenticated, async (req, res) => {
     const userId = req.session.userId!;
@@ -1309,22 +1368,73 @@ export async function registerRoutes(
   app.post("/api/orders", csrfProtection, tradeLimiter, isAuthenticated, async (req, res) => {
     try {
       const userId = req.session.userId!;
-      const { marketId, orderType, side, totalSize, visibleSize, limitPrice, twapDurationMs, twapIntervalMs, expiresAt, leverage = 1 } = req.body;
+      const { marketId, orderType, side, totalSize, visibleSize, limitPrice, twapDurationMs, twapIntervalMs, expiresAt, leverage = 1, marginMode = "cross" } = req.body;
+
+      // Stop-loss / take-profit / trailing-stop orders close an existing position,
+      // so market, side and leverage come from the position and no margin is reserved
+      if (PROTECTIVE_ORDER_TYPES.includes(orderType)) {
+        const { positionId, triggerPrice, trailingDistance } = req.body;
+        const position = positionId ? await storage.getPosition(Number(positionId)) : undefined;
+        if (!position) {
+          return res.status(400).json({ message: `${orderType} orders require a positionId` });
+        }
+        if (position.userId !== userId) {
+          return res.status(403).json({ message: "Not authorized to protect this position" });
+        }
+        if (position.status !== "open") {
+          return res.status(400).json({ message: "Position is not open" });
+        }
+
+        const market = await storage.getMarket(position.marketId);
+        if (!market) {
+          return res.status(404).json({ message: "Market not found" });
+        }
+        // Stops and targets close the position, so they follow the market's close rules
+        const closeBlocked = closeBlockedReason(market);
+        if (closeBlocked) {
+          return res.status(400).json({ message: closeBlocked });
+        }
+
+        const closeSize = totalSize === undefined || totalSize === null ? position.size : Number(totalSize);
+        if (!Number.isInteger(closeSize) || closeSize <= 0 || closeSize > position.size) {
+          return res.status(400).json({ message: `totalSize must be between 1 and the position size ($${position.size.toLocaleString()})` });
+        }
+
+        // A trigger already crossed would fire on the next tick; reject it instead
+        const currentProb = getMarketState(market.id)?.currentProbability ?? parseFloat(String(market.currentProbability));
+        const triggerError = validateProtectiveTrigger(orderType, position.side, currentProb, triggerPrice, trailingDistance);
+        if (triggerError) {
+          return res.status(400).json({ message: triggerError });
+        }
+
+        const order = await storage.createOrder({
+          userId,
+          marketId: position.marketId,
+          orderType,
+          side: position.side,
+          totalSize: closeSize,
+          remainingSize: closeSize,
+          leverage: position.leverage,
+          positionId: position.id,
+          triggerPrice: orderType === "trailing_stop" ? null : String(triggerPrice),
+          trailingDistance: orderType === "trailing_stop" ? String(trailingDistance) : null,
+          trailingPeak: orderType === "trailing_stop" ? currentProb.toFixed(4) : null,
+          expiresAt: expiresAt ? new Date(expiresAt) : null,
+        });
+
+        console.log(`[orders] Created ${orderType} order ${order.id} for user ${userId}: $${closeSize} of position ${position.id}`);
+        return res.status(201).json(order);
+      }
 
       // Validate required fields
       if (!marketId || !orderType || !side || !totalSize) {
         return res.status(400).json({ message: "Missing required fields: marketId, orderType, side, totalSize" });
       }
 
-      // Validate leverage
-      if (leverage < 1 || leverage > 50) {
-        return res.status(400).json({ message: "Leverage must be between 1 and 50" });
-      }
-
       // Validate orderType
       const validOrderTypes = ["market", "limit", "iceberg", "twap"];
       if (!validOrderTypes.includes(orderType)) {
-        return res.status(400).json({ message: "Invalid orderType. Must be: market, limit, iceberg, or twap" });
+        return res.status(400).json({ message: "Invalid orderType. Must be: market, limit, iceberg, twap, stop_loss, take_profit or trailing_stop" });
       }
 
       // Validate side
@@ -1332,22 +1442,15 @@ export async function registerRoutes(
         return res.status(400).json({ message: "Invalid side. Must be YES or NO" });
       }
 
-      // Validate size
-      if (totalSize < 10) {
-        return res.status(400).json({ message: "Minimum order size is $10" });
-      }
-      
-      // Validate maximum position size - $1M in production
-      const maxOrderSize = isProduction ? 1000000 : 500000;
-      if (totalSize > maxOrderSize) {
-        return res.status(400).json({ message: `Maximum order size is $${maxOrderSize.toLocaleString()}` });
+      if (!MARGIN_MODES.includes(marginMode)) {
+        return res.status(400).json({ message: "Invalid marginMode. Must be cross or isolated" });
       }
-      
-      // Enforce maximum 100 open positions per account  
+
+      // Enforce maximum open positions per account  
       const userOpenPositions = await storage.getPositions(userId);
       const activePositionCount = userOpenPositions.filter(p => p.status === "open").length;
-      if (activePositionCount >= 100) {
-        return res.status(400).json({ message: "Maximum 100 open positions per account. Close some positions to open new ones." });
+      if (activePositionCount >= MAX_OPEN_POSITIONS_PER_ACCOUNT) {
+        return res.status(400).json({ message: `Maximum ${MAX_OPEN_POSITIONS_PER_ACCOUNT} open positions per account. Close some positions to open new ones.` });
       }
 
       // Validate market exists
@@ -1355,6 +1458,10 @@ export async function registerRoutes(
       if (!market) {
         return res.status(404).json({ message: "Market not found" });
       }
+      const blocked = openBlockedReason(market);
+      if (blocked) {
+        return res.status(400).json({ message: blocked });
+      }
 
       // Type-specific validations
       if (orderType === "limit") {
@@ -1387,6 +1494,17 @@ export async function registerRoutes(
         }
       }
 
+      // Market risk limits; a limit order is held to the band at its limit price
+      const currentProb = getMarketState(market.id)?.currentProbability ?? parseFloat(String(market.currentProbability));
+      const riskError = await checkNewExposure(userId, market.id, {
+        leverage,
+        size: totalSize,
+        price: orderType === "limit" ? Number(limitPrice) : currentProb,
+      });
+      if (riskError) {
+        return res.status(400).json({ message: riskError });
+      }
+
       // Create the order (status defaults to "active" in DB)
       const order = await storage.createOrder({
         userId,
@@ -1397,6 +1515,7 @@ export async function registerRoutes(
         remainingSize: totalSize,
         visibleSize: orderType === "iceberg" ? visibleSize : null,
         leverage: leverage,
+        marginMode,
         limitPrice: orderType === "limit" ? String(limitPrice) : null,
         twapDurationMs: orderType === "twap" ? twapDurationMs : null,
         twapIntervalMs: orderType === "twap" ? twapIntervalMs : null,
@@ -1404,18 +1523,205 @@ export async function registerRoutes(
         expiresAt: expiresAt ? new Date(expiresAt) : null,
       });
 
-      // For market orders, they're processed immediately on next tick
-      // Other order types wait for conditions to be met
+      // Limit orders match against the book immediately and rest any remainder
+      // Other order types wait for conditions to be met on the next tick
+      const placedOrder = orderType === "limit" ? await submitLimitOrder(order) : order;
 
       console.log(`[orders] Created ${orderType} order ${order.id} for user ${userId}: ${side} $${totalSize} on market ${marketId}`);
 
-      res.status(201).json(order);
+      res.status(201).json(placedOrder);
     } catch (err) {
       console.error("Error creating order:", err);
       res.status(500).json({ message: "Failed to create order" });
     }
   });
 
+  // === Order groups (OCO, OTO, bracket) ===
+
+  app.get("/api/orders/groups/market/:marketId", isAuthenticated, async (req, res) => {
+    const userId = req.session.userId!;
+    const marketId = Number(req.params.marketId);
+    const groups = await storage.getOrderGroupsByMarket(userId, marketId);
+    res.json(groups);
+  });
+
+  // Create linked orders. "oco": stop/target orders on an open position that cancel each other.
+  // "oto" / "bracket": a limit entry whose stop/target children activate once it fills
+  // (bracket children also cancel each other)
+  app.post("/api/orders/groups", csrfProtection, tradeLimiter, isAuthenticated, async (req, res) => {
+    try {
+      const userId = req.session.userId!;
+      const parsed = orderGroupSchema.safeParse(req.body);
+      if (!parsed.success) {
+        const issue = parsed.error.errors[0];
+        return res.status(400).json({ message: issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message });
+      }
+      const { groupType, marketId, positionId, entry, expiresAt, orders: members } = parsed.data;
+
+      const minMembers = groupType === "oco" ? 2 : 1;
+      if (members.length < minMembers) {
+        return res.status(400).json({ message: `${groupType} groups take ${minMembers} to 3 stop/target orders` });
+      }
+
+      if (groupType === "oco") {
+        const position = positionId ? await storage.getPosition(positionId) : undefined;
+        if (!position) {
+          return res.status(400).json({ message: "OCO groups require a positionId" });
+        }
+        if (position.userId !== userId) {
+          return res.status(403).json({ message: "Not authorized to protect this position" });
+        }
+        if (position.status !== "open") {
+          return res.status(400).json({ message: "Position is not open" });
+        }
+        const market = await storage.getMarket(position.marketId);
+        if (!market) {
+          return res.status(404).json({ message: "Market not found" });
+        }
+        // Stops and targets close the position, so they follow the market's close rules
+        const closeBlocked = closeBlockedReason(market);
+        if (closeBlocked) {
+          return res.status(400).json({ message: closeBlocked });
+        }
+
+        const currentProb = getMarketState(market.id)?.currentProbability ?? parseFloat(String(market.currentProbability));
+        for (const m of members) {
+          const closeSize = m.totalSize ?? position.size;
+          if (closeSize > position.size) {
+            return res.status(400).json({ message: `totalSize must be between 1 and the position size ($${position.size.toLocaleString()})` });
+          }
+          const triggerError = validateProtectiveTrigger(m.orderType, position.side, currentProb, m.triggerPrice, m.trailingDistance);
+          if (triggerError) {
+            return res.status(400).json({ message: triggerError });
+          }
+        }
+
+        const { group, orders } = await storage.createOrderGroup(
+          { userId, marketId: position.marketId, groupType },
+          null,
+          members.map((m) => {
+            const closeSize = m.totalSize ?? position.size;
+            return {
+              userId,
+              marketId: position.marketId,
+              orderType: m.orderType,
+              side: position.side,
+              totalSize: closeSize,
+              remainingSize: closeSize,
+              leverage: position.leverage,
+              positionId: position.id,
+              triggerPrice: m.orderType === "trailing_stop" ? null : String(m.triggerPrice),
+              trailingDistance: m.orderType === "trailing_stop" ? String(m.trailingDistance) : null,
+              trailingPeak: m.orderType === "trailing_stop" ? currentProb.toFixed(4) : null,
+              expiresAt: expiresAt ?? null,
+            };
+          })
+        );
+
+        console.log(`[orders] Created OCO group ${group.id} for user ${userId}: orders ${orders.map((o) => o.id).join(", ")} on position ${position.id}`);
+        return res.status(201).json({ ...group, orders });
+      }
+
+      // oto / bracket: validate the limit entry like a regular limit order
+      if (!marketId || !entry) {
+        return res.status(400).json({ message: "Missing required entry fields: side, totalSize, limitPrice" });
+      }
+      const { side, totalSize, limitPrice, leverage, marginMode } = entry;
+
+      const userOpenPositions = await storage.getPositions(userId);
+      if (userOpenPositions.filter(p => p.status === "open").length >= MAX_OPEN_POSITIONS_PER_ACCOUNT) {
+        return res.status(400).json({ message: `Maximum ${MAX_OPEN_POSITIONS_PER_ACCOUNT} open positions per account. Close some positions to open new ones.` });
+      }
+
+      const market = await storage.getMarket(marketId);
+      if (!market) {
+        return res.status(404).json({ message: "Market not found" });
+      }
+      const blocked = openBlockedReason(market);
+      if (blocked) {
+        return res.status(400).json({ message: blocked });
+      }
+
+      const riskError = await checkNewExposure(userId, market.id, { leverage, size: totalSize, price: limitPrice });
+      if (riskError) {
+        return res.status(400).json({ message: riskError });
+      }
+
+      // Children are checked against the entry price, the price their position will open at
+      for (const m of members) {
+        const triggerError = validateProtectiveTrigger(m.orderType, side, limitPrice, m.triggerPrice, m.trailingDistance);
+        if (triggerError) {
+          return res.status(400).json({ message: triggerError });
+        }
+      }
+
+      const { group, orders } = await storage.createOrderGroup(
+        { userId, marketId, groupType },
+        {
+          userId,
+          marketId,
+          orderType: "limit",
+          side,
+          totalSize,
+          remainingSize: totalSize,
+          leverage,
+          marginMode,
+          limitPrice: String(limitPrice),
+          expiresAt: expiresAt ?? null,
+        },
+        // Size, position and trailing peak are set when the entry fills
+        members.map((m) => ({
+          userId,
+          marketId,
+          orderType: m.orderType,
+          side,
+          totalSize,
+          remainingSize: totalSize,
+          leverage,
+          triggerPrice: m.orderType === "trailing_stop" ? null : String(m.triggerPrice),
+          trailingDistance: m.orderType === "trailing_stop" ? String(m.trailingDistance) : null,
+        }))
+      );
+
+      // The entry may fill (and activate its children) right away
+      await submitLimitOrder(orders[0]);
+      const placed = await storage.getOrdersByGroup(group.id);
+
+      console.log(`[orders] Created ${groupType} group ${group.id} for user ${userId}: entry ${orders[0].id} ${side} $${totalSize} @ ${limitPrice}% on market ${marketId}`);
+      res.status(201).json({ ...group, orders: placed });
+    } catch (err) {
+      console.error("Error creating order group:", err);
+      res.status(500).json({ message: "Failed to create order group" });
+    }
+  });
+
+  // Cancel every open order in a group
+  app.post("/api/orders/groups/:groupId/cancel", csrfProtection, isAuthenticated, async (req, res) => {
+    try {
+      const userId = req.session.userId!;
+      const groupId = Number(req.params.groupId);
+
+      const group = await storage.getOrderGroup(groupId);
+      if (!group) {
+        return res.status(404).json({ message: "Order group not found" });
+      }
+      if (group.userId !== userId) {
+        return res.status(403).json({ message: "Not authorized to cancel this order group" });
+      }
+      if (group.status !== "active") {
+        return res.status(400).json({ message: `Cannot cancel an order group with status: ${group.status}` });
+      }
+
+      const cancelled = await cancelOrderGroup(groupId);
+      console.log(`[orders] Cancelled order group ${groupId} for user ${userId}: ${cancelled.length} orders`);
+
+      res.json({ ...group, status: "cancelled", cancelledOrderIds: cancelled.map((o) => o.id) });
+    } catch (err) {
+      console.error("Error cancelling order group:", err);
+      res.status(500).json({ message: "Failed to cancel order group" });
+    }
+  });
+
   // Cancel an order
   app.post("/api/orders/:orderId/cancel", csrfProtection, isAuthenticated, async (req, res) => {
     try {
@@ -1437,6 +1743,7 @@ export async function registerRoutes(
         return res.status(400).json({ message: `Cannot cancel an order with status: ${order.status}` });
       }
 
+      await cancelRestingOrder(orderId);
       const cancelledOrder = await storage.cancelOrder(orderId);
       console.log(`[orders] Cancelled order ${orderId} for user ${userId}`);
 
@@ -1531,151 +1838,90 @@ export async function registerRoutes(
     res.json(metrics);
   });
 
+  // What-if: price shocks and hypothetical orders run through the margin metrics and liquidation planner
+  app.post(api.portfolio.simulate.path, csrfProtection, isAuthenticated, async (req, res) => {
+    try {
+      const input = api.portfolio.simulate.input.parse(req.body);
+      const simulation = await simulatePortfolio(req.session.userId!, input);
+      if (!simulation) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      res.json(simulation);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({ message: err.errors[0].message, field: err.errors[0].path.join('.') });
+      }
+      throw err;
+    }
+  });
+
+  // Fee tier, 30-day volume, STLR discount and effective maker/taker rates
+  app.get("/api/account/fees", isAuthenticated, async (req, res) => {
+    const fees = await getFeeRates(req.session.userId!);
+    res.json(fees);
+  });
+
+  // Balance history from the double-entry ledger (cash account legs, newest first)
+  app.get("/api/account/ledger", isAuthenticated, async (req, res) => {
+    const userId = req.session.userId!;
+    const limit = Math.min(Math.max(Number(req.query.limit) || 100, 1), 500);
+    const entries = await storage.getLedgerEntries(userId, limit);
+    res.json(entries.map(e => ({
+      id: e.id,
+      transactionId: e.transactionId,
+      entryType: e.entryType,
+      amount: parseFloat(e.amount),
+      balanceAfter: e.balanceAfter !== null ? parseFloat(e.balanceAfter) : null,
+      referenceType: e.referenceType,
+      referenceId: e.referenceId,
+      memo: e.memo,
+      createdAt: e.createdAt,
+    })));
+  });
+
+  // In-app notifications (market cancellations), newest first
+  app.get("/api/account/notifications", isAuthenticated, async (req, res) => {
+    const limit = Math.min(Math.max(Number(req.query.limit) || 50, 1), 200);
+    res.json(await storage.getNotifications(req.session.userId!, limit));
+  });
+
+  app.post("/api/account/notifications/read", csrfProtection, isAuthenticated, async (req, res) => {
+    const marked = await storage.markNotificationsRead(req.session.userId!);
+    res.json({ success: true, marked });
+  });
+
   // === Combos (Structured Parlays) ===
-  const mockCombos: Combo[] = [
-    {
-      id: 1,
-      name: "Crypto Bull Run 2026",
-      category: "Combo",
-      probability: 22,
-      multiplier: 4.55,
-      volume24h: 245000,
-      openInterest: 890000,
-      legs: [
-        { marketId: 2, marketName: "Bitcoin > $150k by 2026?", side: "YES", probability: 62 },
-        { marketId: 4, marketName: "GPT-6 released in 2026?", side: "YES", probability: 70 },
-      ],
-      expiry: new Date("2026-01-01"),
-      isCombo: true,
-    },
-    {
-      id: 2,
-      name: "Trump + Space Exploration",
-      category: "Combo",
-      probability: 11,
-      multiplier: 9.09,
-      volume24h: 178000,
-      openInterest: 520000,
-      legs: [
-        { marketId: 1, marketName: "Trump wins 2028 Election?", side: "YES", probability: 45 },
-        { marketId: 3, marketName: "SpaceX lands on Mars by 2030?", side: "YES", probability: 25 },
-      ],
-      expiry: new Date("2028-11-05"),
-      isCombo: true,
-    },
-    {
-      id: 3,
-      name: "Tech Revolution Bundle",
-      category: "Combo",
-      probability: 17,
-      multiplier: 5.88,
-      volume24h: 312000,
-      openInterest: 1100000,
-      legs: [
-        { marketId: 4, marketName: "GPT-6 released in 2026?", side: "YES", probability: 70 },
-        { marketId: 3, marketName: "SpaceX lands on Mars by 2030?", side: "YES", probability: 25 },
-      ],
-      expiry: new Date("2027-01-01"),
-      isCombo: true,
-    },
-    {
-      id: 4,
-      name: "Bear Market Hedge",
-      category: "Combo",
-      probability: 14,
-      multiplier: 7.14,
-      volume24h: 156000,
-      openInterest: 430000,
-      legs: [
-        { marketId: 2, marketName: "Bitcoin > $150k by 2026?", side: "NO", probability: 38 },
-        { marketId: 1, marketName: "Trump wins 2028 Election?", side: "NO", probability: 55 },
-      ],
-      expiry: new Date("2026-01-01"),
-      isCombo: true,
-    },
-    {
-      id: 5,
-      name: "Full Moon Shot",
-      category: "Combo",
-      probability: 4,
-      multiplier: 25.0,
-      volume24h: 89000,
-      openInterest: 210000,
-      legs: [
-        { marketId: 2, marketName: "Bitcoin > $150k by 2026?", side: "YES", probability: 62 },
-        { marketId: 3, marketName: "SpaceX lands on Mars by 2030?", side: "YES", probability: 25 },
-        { marketId: 4, marketName: "GPT-6 released in 2026?", side: "YES", probability: 70 },
-      ],
-      expiry: new Date("2026-01-01"),
-      isCombo: true,
-    },
-    {
-      id: 6,
-      name: "Political Chaos",
-      category: "Combo",
-      probability: 25,
-      multiplier: 4.0,
-      volume24h: 420000,
-      openInterest: 780000,
-      legs: [
-        { marketId: 1, marketName: "Trump wins 2028 Election?", side: "YES", probability: 45 },
-        { marketId: 4, marketName: "GPT-6 released in 2026?", side: "NO", probability: 30 },
-      ],
-      expiry: new Date("2028-11-05"),
-      isCombo: true,
-    },
-    {
-      id: 7,
-      name: "Degen Special",
-      category: "Combo",
-      probability: 2,
-      multiplier: 50.0,
-      volume24h: 67000,
-      openInterest: 95000,
-      legs: [
-        { marketId: 1, marketName: "Trump wins 2028 Election?", side: "YES", probability: 45 },
-        { marketId: 2, marketName: "Bitcoin > $150k by 2026?", side: "YES", probability: 62 },
-        { marketId: 3, marketName: "SpaceX lands on Mars by 2030?", side: "YES", probability: 25 },
-        { marketId: 4, marketName: "GPT-6 released in 2026?", side: "YES", probability: 70 },
-      ],
-      expiry: new Date("2030-01-01"),
-      isCombo: true,
-    },
-  ];
-
-  app.get("/api/combos", (req, res) => {
-    res.json(mockCombos);
-  });
-
-  app.get("/api/combos/:id", (req, res) => {
-    const comboId = Number(req.params.id);
-    const combo = mockCombos.find(c => c.id === comboId);
-    if (!combo) {
-      return res.status(404).json({ message: "Combo not found" });
-    }
-    res.json(combo);
+  // Curated combos are custom_combos rows listed by the house (see curatedCombos.ts)
+  app.get("/api/combos", async (req, res) => {
+    try {
+      const combos = await storage.getCuratedCombos();
+      res.json(combos.filter((c) => isComboTradable(c)).map(toListedCombo));
+    } catch (error) {
+      console.error("Error fetching combos:", error);
+      res.status(500).json({ message: "Failed to fetch combos" });
+    }
   });
 
-  // === Custom Combos (User-Created Parlays) ===
+  // Retired, expired and resolved curated combos stay reachable for their position holders
+  app.get("/api/combos/:id", async (req, res) => {
+    try {
+      const combo = await storage.getCustomCombo(Number(req.params.id));
+      if (!combo || !combo.curated) {
+        return res.status(404).json({ message: "Combo not found" });
+      }
+      res.json(toListedCombo(combo));
+    } catch (error) {
+      console.error("Error fetching combo:", error);
+      res.status(500).json({ message: "Failed to fetch combo" });
+    }
+  });
 
-  // Helper function to calculate combo probability and multiplier
-  function calculateComboStats(legs: { price: number; side: "YES" | "NO" }[]) {
-    let impliedProb = 1;
-    legs.forEach(leg => {
-      const legProb = leg.side === "YES" ? leg.price / 100 : (100 - leg.price) / 100;
-      impliedProb *= legProb;
-    });
-    const multiplier = impliedProb > 0 ? 1 / impliedProb : 999;
-    return { 
-      impliedProbability: impliedProb.toFixed(6), 
-      multiplier: Math.min(multiplier, 999).toFixed(2) 
-    };
-  }
+  // === Custom Combos (User-Created Parlays) ===
 
   app.get("/api/custom-combos", async (req, res) => {
     try {
       const customCombos = await storage.getCustomCombos();
-      res.json(customCombos);
+      res.json(customCombos.filter((c) => !c.curated));
     } catch (error) {
       console.error("Error fetching custom combos:", error);
       res.status(500).json({ message: "Failed to fetch custom combos" });
@@ -1698,20 +1944,32 @@ export async function registerRoutes(
 
   app.post("/api/custom-combos", csrfProtection, isAuthenticated, async (req, res) => {
     try {
-      const { name, legs } = req.body;
-      
-      // Validate input
-      if (!name || !legs || !Array.isArray(legs) || legs.length < 2 || legs.length > 10) {
+      const { name } = req.body;
+      if (!name || typeof name !== "string") {
         return res.status(400).json({ message: "Invalid request: need name and 2-10 legs" });
       }
+      const parsed = comboDefinitionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        const issue = parsed.error.errors[0];
+        return res.status(400).json({ message: issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message });
+      }
 
-      // Calculate stats from legs
-      const { impliedProbability, multiplier } = calculateComboStats(legs);
+      // Legs may be markets or other combos; nesting depth and cycles are checked here
+      const { kind } = parsed.data;
+      const built = await buildComboLegs(kind, parsed.data.legs);
+      if ("error" in built) {
+        return res.status(400).json({ message: built.error });
+      }
+      const { legs } = built;
+      const priced = priceComboDefinition(kind, legs);
+      const impliedProbability = (priced.probability / 100).toFixed(6);
+      const multiplier = priced.multiplier.toFixed(2);
 
       const userId = req.session.userId!;
       const walletAddress = req.session.walletAddress;
       const newCombo = await storage.createCustomCombo({
         name,
+        kind,
         creatorId: userId,
         creatorAddress: walletAddress,
         legs,
@@ -1719,6 +1977,10 @@ export async function registerRoutes(
         multiplier,
       });
 
+      // New market pairs price as independent until their correlation has been estimated
+      estimateCorrelations(marketLegIds(legs))
+        .catch((err) => console.error(`[combo-pricing] Failed to estimate correlations for combo ${newCombo.id}:`, err));
+
       res.status(201).json(newCombo);
     } catch (error) {
       console.error("Error creating custom combo:", error);
@@ -1738,6 +2000,11 @@ export async function registerRoutes(
         return res.status(404).json({ message: "Combo not found" });
       }
 
+      // Resolved and canceled combos no longer move
+      if (combo.status !== "active") {
+        return res.json({ ...combo, orderBook: { bids: [], asks: [] }, isLive: false });
+      }
+
       // Get combo state from simulation (live probability)
       const comboState = getComboState(comboId);
       
@@ -1745,23 +2012,23 @@ export async function registerRoutes(
         res.json({
           ...combo,
           impliedProbability: comboState.currentProbability,
+          naiveProbability: comboState.naiveProbability,
+          correlatedProbability: comboState.currentProbability,
           multiplier: comboState.multiplier,
           orderBook: comboState.orderBook,
           isLive: true,
         });
       } else {
-        // Register combo for tracking if not already registered
-        const legs = combo.legs.map(leg => ({
-          marketId: leg.marketId,
-          side: leg.side,
-        }));
-        registerCombo(comboId, legs);
+        // Register combo for tracking if not already registered (voided legs are left out)
+        trackCombo(combo);
         
         // Return with recalculated probability
         const newState = getComboState(comboId);
         res.json({
           ...combo,
           impliedProbability: newState?.currentProbability ?? combo.impliedProbability,
+          naiveProbability: newState?.naiveProbability ?? null,
+          correlatedProbability: newState?.currentProbability ?? null,
           multiplier: newState?.multiplier ?? combo.multiplier,
           orderBook: newState?.orderBook ?? { bids: [], asks: [] },
           isLive: true,
@@ -1777,8 +2044,13 @@ export async function registerRoutes(
   app.get("/api/combo-positions", isAuthenticated, async (req, res) => {
     try {
       const userId = req.session.userId!;
-      const positions = await storage.getComboPositions(userId);
-      res.json(positions);
+      const [positions, listings] = await Promise.all([
+        storage.getComboPositions(userId),
+        storage.getOpenComboListings(),
+      ]);
+      // Open listing of each position, if the holder has put it up for sale
+      const listingByPosition = new Map(listings.filter((l) => l.sellerId === userId).map((l) => [l.positionId, { id: l.id, price: parseFloat(l.price) }]));
+      res.json(positions.map((p) => ({ ...p, listing: listingByPosition.get(p.id) ?? null })));
     } catch (error) {
       console.error("Error fetching combo positions:", error);
       res.status(500).json({ message: "Failed to fetch combo positions" });
@@ -1828,28 +2100,32 @@ export async function registerRoutes(
       if (!combo) {
         return res.status(404).json({ message: "Combo not found" });
       }
+      if (combo.status !== "active") {
+        return res.status(400).json({ message: `Combo is ${combo.status} and no longer trading` });
+      }
+      if (!isComboTradable(combo)) {
+        return res.status(400).json({ message: combo.retiredAt ? "Combo has been retired" : "Combo has expired" });
+      }
+      if (combo.expiresAt && lockDateParsed > new Date(combo.expiresAt)) {
+        return res.status(400).json({ message: `lockDate must be on or before the combo's expiry (${new Date(combo.expiresAt).toISOString().split('T')[0]})` });
+      }
 
-      // Get user and check balance
       const user = await storage.getUser(userId);
       if (!user) {
         return res.status(401).json({ message: "User not found" });
       }
 
-      const userBalance = parseFloat(user.balance || "0");
+      // Taker fee on the leveraged notional, paid on top of the stake
+      const { takerBps } = await getFeeRates(userId);
+      const fee = calculateFee(stake * actualLeverage, takerBps);
 
-      if (stake > userBalance) {
-        return res.status(400).json({ message: "Insufficient balance" });
-      }
-
-      // Deduct stake from balance
-      await storage.updateUserBalance(userId, -stake);
-
-      // Create position
-      const position = await storage.createComboPosition({
+      // Stake and fee are debited and the position created in one transaction
+      const position = await storage.openComboPosition({
         userId,
         comboId,
         side,
         stake,
+        fee,
         leverage: actualLeverage,
         entryProbability: entryProbability.toFixed(6),
         lockDate: lockDateParsed,
@@ -1870,72 +2146,102 @@ export async function registerRoutes(
 
       res.status(201).json({
         position,
+        fee,
         comboRewardAwarded,
         message: `Position opened: $${stake} ${side} @ ${entryProbability.toFixed(2)}% (${actualLeverage}x leverage), locked until ${lockDateParsed.toISOString().split('T')[0]}${comboRewardAwarded > 0 ? ' (+1,000 STLR bonus!)' : ''}`,
       });
     } catch (error) {
+      if (error instanceof InsufficientBalanceError) {
+        return res.status(400).json({ message: error.message });
+      }
       console.error("Error creating combo position:", error);
       res.status(500).json({ message: "Failed to create combo position" });
     }
   });
 
-  // Close a combo position (manual close before lock date)
-  app.post("/api/combo-positions/:id/close", csrfProtection, tradeLimiter, isAuthenticated, async (req, res) => {
+  // Early exit quote for an open combo position: mark value at the live combo price, less the
+  // early exit penalty and taker fee (see comboExit.ts)
+  app.get("/api/combo-positions/:id/quote", isAuthenticated, async (req, res) => {
     try {
       const userId = req.session.userId!;
-      const positionId = Number(req.params.id);
-
-      const position = await storage.getComboPosition(positionId);
-      if (!position) {
+      const position = await storage.getComboPosition(Number(req.params.id));
+      if (!position || position.userId !== userId) {
         return res.status(404).json({ message: "Position not found" });
       }
-
-      if (position.userId !== userId) {
-        return res.status(403).json({ message: "Not authorized to close this position" });
-      }
-
       if (position.status !== "open") {
         return res.status(400).json({ message: "Position is already closed" });
       }
-
-      // Get current combo probability for exit price
       const combo = await storage.getCustomCombo(position.comboId);
       if (!combo) {
         return res.status(404).json({ message: "Combo not found" });
       }
+      // A resolved or canceled combo pays its open positions out itself
+      if (combo.status !== "active") {
+        return res.status(400).json({ message: "Combo is no longer trading" });
+      }
 
-      const comboState = getComboState(position.comboId);
-      const exitProbability = comboState?.currentProbability ?? combo.impliedProbability;
-      const entryProbability = parseFloat(position.entryProbability?.toString() || "0");
-      const stake = position.stake || 0;
-      const leverage = position.leverage || 1;
+      const { takerBps } = await getFeeRates(userId);
+      res.json(quoteEarlyExit(position, combo, takerBps));
+    } catch (error) {
+      console.error("Error quoting combo position exit:", error);
+      res.status(500).json({ message: "Failed to quote combo position exit" });
+    }
+  });
 
-      // Calculate PnL: (stake * leverage) * (exitProb - entryProb) / 100
-      // For NO side, negate the price movement
-      let pnl: number;
-      if (position.side === "YES") {
-        pnl = (stake * leverage) * (exitProbability - entryProbability) / 100;
-      } else {
-        pnl = (stake * leverage) * (entryProbability - exitProbability) / 100;
+  // Close a combo position before its lock date at the early exit quote
+  app.post("/api/combo-positions/:id/close", csrfProtection, tradeLimiter, isAuthenticated, async (req, res) => {
+    try {
+      const userId = req.session.userId!;
+      const positionId = Number(req.params.id);
+
+      const position = await storage.getComboPosition(positionId);
+      if (!position) {
+        return res.status(404).json({ message: "Position not found" });
       }
 
-      // Return stake + pnl to user (can't be negative beyond stake)
-      const totalReturn = stake + pnl;
-      const returnAmount = Math.max(0, totalReturn);
-      await storage.updateUserBalance(userId, returnAmount);
+      if (position.userId !== userId) {
+        return res.status(403).json({ message: "Not authorized to close this position" });
+      }
 
-      const closedPosition = await storage.closeComboPosition(
-        positionId, 
-        Math.floor(pnl), 
-        exitProbability.toFixed(6),
-        "settled"
-      );
+      if (position.status !== "open") {
+        return res.status(400).json({ message: "Position is already closed" });
+      }
+
+      const combo = await storage.getCustomCombo(position.comboId);
+      if (!combo) {
+        return res.status(404).json({ message: "Combo not found" });
+      }
+      // A resolved or canceled combo pays its open positions out itself
+      if (combo.status !== "active") {
+        return res.status(400).json({ message: "Combo is no longer trading" });
+      }
+
+      const { takerBps } = await getFeeRates(userId);
+      const quote = quoteEarlyExit(position, combo, takerBps);
+
+      // Pays the mark value and takes the penalty and fee in one transaction; also withdraws any
+      // open listing of the position
+      const closedPosition = await storage.settleComboPosition(positionId, {
+        exitProbability: quote.markProbability,
+        pnl: quote.pnl,
+        payout: quote.markValue,
+        penalty: quote.penalty,
+        fee: quote.fee,
+        status: "settled",
+        memo: `Early exit at ${quote.markProbability.toFixed(2)}% (${quote.penaltyBps} bps penalty)`,
+      });
+      if (!closedPosition) {
+        return res.status(409).json({ message: "Position was closed or sold in the meantime" });
+      }
 
       res.json({
         position: closedPosition,
-        pnl: Math.floor(pnl),
-        returned: Math.floor(returnAmount),
-        message: `Position closed at ${exitProbability.toFixed(2)}% with ${pnl >= 0 ? "+" : ""}$${Math.floor(pnl)} PnL`,
+        quote,
+        pnl: Math.floor(quote.pnl),
+        returned: Math.floor(quote.proceeds),
+        fee: quote.fee,
+        penalty: quote.penalty,
+        message: `Position closed at ${quote.markProbability.toFixed(2)}% with ${quote.pnl >= 0 ? "+" : ""}$${Math.floor(quote.pnl)} PnL, $${quote.penalty.toFixed(2)} early exit penalty`,
       });
     } catch (error) {
       console.error("Error closing combo position:", error);
@@ -1943,43 +2249,259 @@ export async function registerRoutes(
     }
   });
 
-  // === UMA Oracle Mock Resolution ===
-  app.post("/api/markets/:id/resolve", csrfProtection, isAuthenticated, async (req, res) => {
+  // === Combo Position Listings (secondary market) ===
+  // Holders list open positions at a price of their choosing; a buyer takes the whole position,
+  // paying the price to the seller plus the taker fee on the price
+
+  app.get("/api/combo-listings", async (req, res) => {
+    try {
+      const listings = await storage.getOpenComboListings();
+      const now = currentDate();
+      const response: ComboListingResponse[] = listings
+        .filter((l) => l.combo.status === "active" && new Date(l.position.lockDate) > now)
+        .map(({ position, combo, ...listing }) => ({
+          id: listing.id,
+          positionId: listing.positionId,
+          sellerId: listing.sellerId,
+          price: parseFloat(listing.price),
+          status: listing.status,
+          createdAt: listing.createdAt,
+          position,
+          combo,
+          markValue: Number(comboMarkValue(position, combo).toFixed(2)),
+        }));
+      res.json(response);
+    } catch (error) {
+      console.error("Error fetching combo listings:", error);
+      res.status(500).json({ message: "Failed to fetch combo listings" });
+    }
+  });
+
+  app.post("/api/combo-positions/:id/list", csrfProtection, tradeLimiter, isAuthenticated, async (req, res) => {
+    try {
+      const userId = req.session.userId!;
+      const positionId = Number(req.params.id);
+      const price = Number(req.body.price);
+
+      if (!Number.isFinite(price) || price <= 0) {
+        return res.status(400).json({ message: "price must be greater than 0" });
+      }
+
+      const position = await storage.getComboPosition(positionId);
+      if (!position || position.userId !== userId) {
+        return res.status(404).json({ message: "Position not found" });
+      }
+      if (position.status !== "open") {
+        return res.status(400).json({ message: "Position is already closed" });
+      }
+      if (new Date(position.lockDate) <= currentDate()) {
+        return res.status(400).json({ message: "Position has reached its lock date" });
+      }
+      const combo = await storage.getCustomCombo(position.comboId);
+      if (!combo || combo.status !== "active") {
+        return res.status(400).json({ message: "Combo is no longer trading" });
+      }
+
+      const listing = await storage.createComboListing(positionId, userId, price);
+      if (!listing) {
+        return res.status(409).json({ message: "Position is already listed" });
+      }
+
+      res.status(201).json({
+        listing,
+        message: `Position listed for $${price.toFixed(2)}`,
+      });
+    } catch (error) {
+      console.error("Error listing combo position:", error);
+      res.status(500).json({ message: "Failed to list combo position" });
+    }
+  });
+
+  app.post("/api/combo-listings/:id/cancel", csrfProtection, tradeLimiter, isAuthenticated, async (req, res) => {
+    try {
+      const userId = req.session.userId!;
+      const listing = await storage.cancelComboListing(Number(req.params.id), userId);
+      if (!listing) {
+        return res.status(404).json({ message: "Open listing not found" });
+      }
+      res.json({ listing, message: "Listing cancelled" });
+    } catch (error) {
+      console.error("Error cancelling combo listing:", error);
+      res.status(500).json({ message: "Failed to cancel combo listing" });
+    }
+  });
+
+  app.post("/api/combo-listings/:id/buy", csrfProtection, tradeLimiter, isAuthenticated, async (req, res) => {
+    try {
+      const userId = req.session.userId!;
+      const listingId = Number(req.params.id);
+
+      const listing = await storage.getComboListing(listingId);
+      if (!listing || listing.status !== "open") {
+        return res.status(404).json({ message: "Open listing not found" });
+      }
+      if (listing.sellerId === userId) {
+        return res.status(400).json({ message: "Cannot buy your own listing" });
+      }
+      const position = await storage.getComboPosition(listing.positionId);
+      if (!position || position.status !== "open" || new Date(position.lockDate) <= currentDate()) {
+        return res.status(400).json({ message: "Position is no longer open" });
+      }
+      const combo = await storage.getCustomCombo(position.comboId);
+      if (!combo || combo.status !== "active") {
+        return res.status(400).json({ message: "Combo is no longer trading" });
+      }
+
+      const price = parseFloat(listing.price);
+      const { takerBps } = await getFeeRates(userId);
+      const fee = calculateFee(price, takerBps);
+
+      let fill;
+      try {
+        fill = await storage.fillComboListing(listingId, userId, fee);
+      } catch (err) {
+        if (err instanceof InsufficientBalanceError) {
+          return res.status(400).json({ message: err.message });
+        }
+        throw err;
+      }
+      if (!fill) {
+        return res.status(409).json({ message: "Listing was filled or withdrawn in the meantime" });
+      }
+
+      console.log(`[combo-market] Listing ${listingId}: position ${position.id} sold by ${listing.sellerId} to ${userId} for $${price.toFixed(2)}`);
+      res.json({
+        position: fill.position,
+        listing: fill.listing,
+        fee,
+        message: `Bought ${position.side} position on ${combo.name} for $${price.toFixed(2)} (+$${fee.toFixed(2)} fee)`,
+      });
+    } catch (error) {
+      console.error("Error buying combo listing:", error);
+      res.status(500).json({ message: "Failed to buy combo listing" });
+    }
+  });
+
+  // === Optimistic Oracle Resolution (see marketOracle.ts) ===
+  // Anyone may propose the outcome of an approved permissionless market by posting a bond; it
+  // settles after the challenge window unless disputed
+  app.post("/api/markets/:id/propose", csrfProtection, isAuthenticated, async (req, res) => {
     try {
-      const marketId = Number(req.params.id);
       const { outcome } = req.body; // true = YES, false = NO
       
       if (typeof outcome !== "boolean") {
         return res.status(400).json({ message: "Outcome must be a boolean (true for YES, false for NO)" });
       }
+      const walletAddress = req.session.walletAddress;
+      if (!walletAddress) {
+        return res.status(400).json({ message: "A connected wallet is required to propose an outcome" });
+      }
 
-      const market = await storage.getMarket(marketId);
+      const market = await storage.getMarket(Number(req.params.id));
       if (!market) {
         return res.status(404).json({ message: "Market not found" });
       }
 
-      // Only creator can resolve their own markets
-      // System markets (no creator) cannot be resolved by users - they require admin (future feature)
+      const result = await proposeOutcome(market, { userId: req.session.userId!, walletAddress }, outcome);
+      if ("error" in result) {
+        return res.status(400).json({ message: result.error });
+      }
+      res.json({ ...normalizeMarket(result), proposalBond: PROPOSAL_BOND });
+    } catch (error) {
+      if (error instanceof InsufficientBalanceError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error proposing market outcome:", error);
+      res.status(500).json({ message: "Failed to propose outcome" });
+    }
+  });
+
+  // The creator voids their own market: open positions get their margin back, orders and combo
+  // legs are cancelled and every affected user is notified (see settlement.ts)
+  app.post("/api/markets/:id/cancel", csrfProtection, isAuthenticated, async (req, res) => {
+    try {
       const walletAddress = req.session.walletAddress;
-      if (!market.creator) {
-        return res.status(403).json({ message: "System markets can only be resolved by admins" });
+      if (!walletAddress) {
+        return res.status(400).json({ message: "A connected wallet is required to cancel a market" });
       }
-      if (market.creator !== walletAddress) {
-        return res.status(403).json({ message: "Only the market creator can resolve this market" });
+
+      const market = await storage.getMarket(Number(req.params.id));
+      if (!market) {
+        return res.status(404).json({ message: "Market not found" });
       }
 
-      // Check if already resolved
-      if (market.resolved) {
-        return res.status(400).json({ message: "Market is already resolved" });
+      const result = await cancelByCreator(market, { userId: req.session.userId!, walletAddress });
+      if ("error" in result) {
+        return res.status(400).json({ message: result.error });
       }
+      await storage.recordAuditEvent("creator-cancel-market", walletAddress, {
+        marketId: market.id,
+        question: market.question,
+        positionsRefunded: result.refunds.length,
+        totalRefunded: result.totalRefunded,
+        ordersCancelled: result.ordersCancelled,
+        affectedComboIds: result.affectedComboIds,
+      });
+      res.json({
+        ...normalizeMarket(result.market),
+        positionsRefunded: result.refunds.length,
+        totalRefunded: result.totalRefunded,
+        ordersCancelled: result.ordersCancelled,
+      });
+    } catch (error) {
+      console.error("Error canceling market:", error);
+      res.status(500).json({ message: "Failed to cancel market" });
+    }
+  });
 
-      // Mock UMA resolution: update market state
-      const updatedMarket = await storage.resolveMarket(marketId, outcome);
-      
-      res.json(updatedMarket);
+  // Disputing posts a matching bond and escalates the proposal to an admin
+  app.post("/api/markets/:id/dispute", csrfProtection, isAuthenticated, async (req, res) => {
+    try {
+      const walletAddress = req.session.walletAddress;
+      if (!walletAddress) {
+        return res.status(400).json({ message: "A connected wallet is required to dispute a proposal" });
+      }
+
+      const market = await storage.getMarket(Number(req.params.id));
+      if (!market) {
+        return res.status(404).json({ message: "Market not found" });
+      }
+
+      const result = await disputeProposal(market, { userId: req.session.userId!, walletAddress });
+      if ("error" in result) {
+        return res.status(400).json({ message: result.error });
+      }
+      res.json({ ...normalizeMarket(result), disputeBond: DISPUTE_BOND });
     } catch (error) {
-      console.error("Error resolving market:", error);
-      res.status(500).json({ message: "Failed to resolve market" });
+      if (error instanceof InsufficientBalanceError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error disputing market proposal:", error);
+      res.status(500).json({ message: "Failed to dispute proposal" });
+    }
+  });
+
+  app.get("/api/markets/:id/bonds", async (req, res) => {
+    try {
+      const bonds = await storage.getMarketBonds(Number(req.params.id));
+      res.json(bonds.map((b: MarketBond) => ({ ...b, amount: parseFloat(b.amount) })));
+    } catch (error) {
+      console.error("Error fetching market bonds:", error);
+      res.status(500).json({ message: "Failed to fetch market bonds" });
+    }
+  });
+
+  app.get("/api/markets/:id/settlement", async (req, res) => {
+    try {
+      const marketId = Number(req.params.id);
+      const settlement = await storage.getMarketSettlement(marketId);
+      if (!settlement) {
+        return res.status(404).json({ message: "Market has not been settled" });
+      }
+      res.json({ ...settlement, details: JSON.parse(settlement.details) });
+    } catch (error) {
+      console.error("Error fetching settlement:", error);
+      res.status(500).json({ message: "Failed to fetch settlement" });
     }
   });
 
@@ -2546,6 +3068,10 @@ export async function registerRoutes(
       
       // Platform edge (negative of user PnL = house profit)
       const platformEdge = -totalRealizedPnl;
+
+      // Trading fees collected into the protocol fee account
+      const protocolFees = await storage.getLedgerAccountBalance(LEDGER_ACCOUNTS.fees);
+      const insurance = await getInsuranceFundSummary();
       
       // Most active market by position count
       const marketPositionCounts = new Map<number, number>();
@@ -2605,6 +3131,10 @@ export async function registerRoutes(
         probability: m.currentProbability ?? 50,
         volume: m.volume24h || 0,
         status: m.status || 'active',
+        statusReason: m.statusReason,
+        priceSource: m.priceSource,
+        priceSourceConfig: m.priceSourceConfig,
+        riskParams: getRiskParams(m.id),
       }));
       
       // Referral stats - users who have made referrals
@@ -2648,6 +3178,7 @@ export async function registerRoutes(
           dailyTraders,
           tradesToday,
           platformEdge,
+          protocolFees,
           topMarketName,
           totalReferrals,
           totalReferralStlr,
@@ -2656,6 +3187,13 @@ export async function registerRoutes(
         recentTrades,
         markets: marketStats,
         referrals: referralStats,
+        ledger: getLastReconciliation(),
+        insurance,
+        correlations: listCorrelations(),
+        curatedCombos: (await storage.getCuratedCombos()).map((c) => ({ ...toListedCombo(c), retiredAt: c.retiredAt })),
+        earlyExitCurve: getEarlyExitCurve(),
+        marketReview: (await storage.getMarketsPendingReview()).map(normalizeMarket),
+        disputedMarkets: (await storage.getDisputedMarkets()).map(normalizeMarket),
       });
     } catch (error) {
       console.error("Admin stats error:", error);
@@ -2677,10 +3215,15 @@ export async function registerRoutes(
       
       if (action === "reset_balances") {
         // Reset all user balances to $10,000 and STLR to 0
-        await db.update(users).set({ 
-          balance: "10000",
-          stlrPoints: 0 
-        });
+        const allUsers = await db.select().from(users);
+        for (const user of allUsers) {
+          await storage.setUserBalance(user.id, 10000, {
+            entryType: "reset",
+            counterAccount: LEDGER_ACCOUNTS.equity,
+            memo: "Admin reset_balances",
+          });
+        }
+        await db.update(users).set({ stlrPoints: 0 });
         
         // Delete all positions to clean corrupted data
         await db.delete(positions);
@@ -2691,9 +3234,15 @@ export async function registerRoutes(
       
       if (action === "fix_negative_balances") {
         // Only fix users with negative or zero balances
-        await db.update(users)
-          .set({ balance: "10000" })
+        const negativeUsers = await db.select().from(users)
           .where(sql`CAST(balance AS DECIMAL) <= 0`);
+        for (const user of negativeUsers) {
+          await storage.setUserBalance(user.id, 10000, {
+            entryType: "admin_adjustment",
+            counterAccount: LEDGER_ACCOUNTS.admin,
+            memo: "Admin fix_negative_balances",
+          });
+        }
         
         console.log("[admin] Fixed negative balances");
         return res.json({ success: true, message: "Negative balances fixed" });
@@ -2703,10 +3252,15 @@ export async function registerRoutes(
         // Targeted fix: reset excessive balances and STLR
         
         // Fix balances > $5,000,000 - reset to $10,000
-        const balanceResult = await db.update(users)
-          .set({ balance: "10000" })
-          .where(sql`CAST(balance AS DECIMAL) > 5000000`)
-          .returning();
+        const balanceResult = await db.select().from(users)
+          .where(sql`CAST(balance AS DECIMAL) > 5000000`);
+        for (const user of balanceResult) {
+          await storage.setUserBalance(user.id, 10000, {
+            entryType: "admin_adjustment",
+            counterAccount: LEDGER_ACCOUNTS.admin,
+            memo: "Admin fix_corrupted",
+          });
+        }
         
         // Fix STLR > 5,000,000 - cap at 1,000,000
         const stlrResult = await db.update(users)
@@ -2748,6 +3302,9 @@ export async function registerRoutes(
       if (!walletAddress || (balance === undefined && stlrPoints === undefined)) {
         return res.status(400).json({ message: "walletAddress and at least one of balance/stlrPoints are required" });
       }
+      if (balance !== undefined && !Number.isFinite(Number(balance))) {
+        return res.status(400).json({ message: "balance must be a number" });
+      }
 
       const normalizedAddress = walletAddress.toLowerCase().trim();
       
@@ -2763,18 +3320,19 @@ export async function registerRoutes(
       
       if (existingUser) {
         // Update existing user - support balance only, STLR only, or both
-        const updateFields: any = {};
         if (balance !== undefined) {
-          updateFields.balance = String(balance);
+          await storage.setUserBalance(existingUser.id, Number(balance), {
+            entryType: "admin_adjustment",
+            counterAccount: LEDGER_ACCOUNTS.admin,
+            memo: "Admin set-balance",
+          });
         }
         if (stlrPoints !== undefined) {
-          updateFields.stlrPoints = Number(stlrPoints);
+          await db.update(users)
+            .set({ stlrPoints: Number(stlrPoints) })
+            .where(eq(users.id, existingUser.id));
         }
         
-        await db.update(users)
-          .set(updateFields)
-          .where(sql`LOWER(wallet_address) = ${normalizedAddress}`);
-        
         const balanceMsg = balance !== undefined ? `balance: $${Number(balance).toLocaleString()}` : '';
         const stlrMsg = stlrPoints !== undefined ? `STLR: ${Number(stlrPoints).toLocaleString()}` : '';
         const separator = balanceMsg && stlrMsg ? ', ' : '';
@@ -2796,6 +3354,7 @@ export async function registerRoutes(
           lastName: normalizedAddress.slice(0, 6),
           stlrPoints: newStlr,
         }).returning();
+        await storage.recordOpeningBalance(newUser.id);
         
         console.log(`[admin] Created user ${walletAddress} with balance $${newBalance}, STLR: ${newStlr}`);
         return res.json({ 
@@ -2848,7 +3407,7 @@ export async function registerRoutes(
         const marketState = getMarketState(pos.marketId);
         const currentPrice = marketState?.currentProbability ?? parseFloat(pos.entryProbability.toString());
         
-        const result = await storage.liquidatePosition(pos.id, Math.floor(currentPrice));
+        const result = await liquidatePosition(pos, Math.floor(currentPrice));
         if (result) {
           positionsLiquidated++;
           totalLoss += Math.abs(result.pnl || 0);
@@ -2960,6 +3519,614 @@ export async function registerRoutes(
     }
   });
 
+  // === Admin Ledger Reconciliation (password protected) ===
+  app.post("/api/admin/ledger/reconcile", adminLimiter, async (req, res) => {
+    try {
+      const { password } = req.body;
+      
+      if (!verifyAdminPassword(password)) {
+        console.log("[security] Failed admin auth attempt on /api/admin/ledger/reconcile");
+        return res.status(401).json({ message: "Invalid password" });
+      }
+
+      const report = await reconcileLedger();
+      await logAdminAction(req, "ledger-reconcile", null, {
+        usersChecked: report.usersChecked,
+        mismatches: report.mismatches.length,
+        unbalancedTransactions: report.unbalancedTransactions.length,
+      });
+
+      res.json({
+        success: true,
+        message: `Checked ${report.usersChecked} accounts: ${report.mismatches.length} mismatches, ${report.unbalancedTransactions.length} unbalanced transactions`,
+        report,
+      });
+    } catch (error) {
+      console.error("Admin ledger reconcile error:", error);
+      res.status(500).json({ message: "Failed to reconcile ledger" });
+    }
+  });
+
+  // Seed the insurance fund from platform equity
+  app.post("/api/admin/insurance/deposit", adminLimiter, async (req, res) => {
+    try {
+      const { password, amount } = req.body;
+
+      if (!verifyAdminPassword(password)) {
+        console.log("[security] Failed admin auth attempt on /api/admin/insurance/deposit");
+        return res.status(401).json({ message: "Invalid password" });
+      }
+
+      const depositAmount = Number(amount);
+      if (!Number.isFinite(depositAmount) || depositAmount <= 0 || depositAmount > 100000000) {
+        return res.status(400).json({ message: "amount must be a positive number up to 100,000,000" });
+      }
+
+      const balance = await storage.depositInsuranceFund(depositAmount, "Admin deposit");
+      await logAdminAction(req, "insurance-deposit", null, { amount: depositAmount, balance });
+
+      res.json({
+        success: true,
+        balance,
+        message: `Deposited $${depositAmount.toLocaleString()} into the insurance fund (balance $${balance.toLocaleString()})`,
+      });
+    } catch (error) {
+      console.error("Admin insurance deposit error:", error);
+      res.status(500).json({ message: "Failed to deposit into the insurance fund" });
+    }
+  });
+
+  // === Admin Market Resolution (password protected) ===
+  // Resolves any market (including system markets) through the same settlement pipeline
+  app.post("/api/admin/resolve-market", adminLimiter, async (req, res) => {
+    try {
+      const { password, marketId, outcome } = req.body;
+      
+      if (!verifyAdminPassword(password)) {
+        console.log("[security] Failed admin auth attempt on /api/admin/resolve-market");
+        return res.status(401).json({ message: "Invalid password" });
+      }
+
+      if (typeof outcome !== "boolean") {
+        return res.status(400).json({ message: "Outcome must be a boolean (true for YES, false for NO)" });
+      }
+
+      const market = await storage.getMarket(Number(marketId));
+      if (!market) {
+        return res.status(404).json({ message: "Market not found" });
+      }
+      if (market.resolved) {
+        return res.status(400).json({ message: "Market is already resolved" });
+      }
+      if (market.status === "canceled") {
+        return res.status(400).json({ message: "Market is canceled" });
+      }
+
+      // Bonds of a permissionless market are released as for a decided dispute
+      const result = await resolveBondedMarket(market, outcome, "admin");
+      if (!result) {
+        return res.status(400).json({ message: "Market is already resolved or canceled" });
+      }
+
+      await logAdminAction(req, "resolve-market", null, {
+        marketId: market.id,
+        question: market.question,
+        outcome: outcome ? "YES" : "NO",
+        settlementId: result.settlement.id,
+        positionsSettled: result.settlement.positionsSettled,
+        ordersCancelled: result.settlement.ordersCancelled,
+        totalPayout: result.settlement.totalPayout,
+      });
+
+      res.json({
+        success: true,
+        message: `Resolved market #${market.id} ${outcome ? "YES" : "NO"}: settled ${result.settlement.positionsSettled} positions, paid out $${result.settlement.totalPayout}`,
+        settlement: result.settlement,
+      });
+    } catch (error) {
+      console.error("Admin resolve-market error:", error);
+      res.status(500).json({ message: "Failed to resolve market" });
+    }
+  });
+
+  // === Admin Market Cancellation (password protected) ===
+  // Voids any unsettled market: refunds open positions at entry, cancels orders, voids combo legs
+  // and notifies affected users. unwindRealizedPnl also reverses PnL already realized in the market.
+  app.post("/api/admin/cancel-market", adminLimiter, async (req, res) => {
+    try {
+      const { password, marketId, unwindRealizedPnl, slashCreationBond } = req.body;
+      
+      if (!verifyAdminPassword(password)) {
+        console.log("[security] Failed admin auth attempt on /api/admin/cancel-market");
+        return res.status(401).json({ message: "Invalid password" });
+      }
+
+      const market = await storage.getMarket(Number(marketId));
+      if (!market) {
+        return res.status(404).json({ message: "Market not found" });
+      }
+
+      const result = await cancelBondedMarket(market, "admin", {
+        unwindRealizedPnl: unwindRealizedPnl === true,
+        slashCreationBond: slashCreationBond === true,
+      });
+      if (!result) {
+        return res.status(400).json({ message: "Market is already resolved or canceled" });
+      }
+
+      const shortfall = result.pnlReversals.reduce((sum, r) => sum + r.shortfall, 0);
+      await logAdminAction(req, "cancel-market", null, {
+        marketId: market.id,
+        question: market.question,
+        positionsRefunded: result.refunds.length,
+        totalRefunded: result.totalRefunded,
+        ordersCancelled: result.ordersCancelled,
+        pnlReversals: result.pnlReversals.length,
+        pnlShortfall: shortfall,
+        affectedComboIds: result.affectedComboIds,
+        usersNotified: result.usersNotified,
+      });
+
+      res.json({
+        success: true,
+        message: `Canceled market #${market.id}: refunded ${result.refunds.length} positions ($${result.totalRefunded.toFixed(2)}), cancelled ${result.ordersCancelled} orders, notified ${result.usersNotified} users` +
+          (result.pnlReversals.length > 0 ? `; unwound PnL on ${result.pnlReversals.length} closed positions ($${shortfall.toFixed(2)} could not be clawed back)` : ""),
+        refunds: result.refunds,
+        pnlReversals: result.pnlReversals,
+        affectedComboIds: result.affectedComboIds,
+      });
+    } catch (error) {
+      console.error("Admin cancel-market error:", error);
+      res.status(500).json({ message: "Failed to cancel market" });
+    }
+  });
+
+  // === Admin Permissionless Market Review (password protected) ===
+  // Approving starts trading; rejecting cancels the market and refunds or slashes the creation bond
+  app.post("/api/admin/review-market", adminLimiter, async (req, res) => {
+    try {
+      const { password, marketId, approve, slashBond } = req.body;
+      
+      if (!verifyAdminPassword(password)) {
+        console.log("[security] Failed admin auth attempt on /api/admin/review-market");
+        return res.status(401).json({ message: "Invalid password" });
+      }
+
+      if (typeof approve !== "boolean") {
+        return res.status(400).json({ message: "approve must be a boolean" });
+      }
+
+      const market = await storage.getMarket(Number(marketId));
+      if (!market) {
+        return res.status(404).json({ message: "Market not found" });
+      }
+
+      const reviewed = await reviewMarket(market, approve, slashBond === true);
+      if (!reviewed) {
+        return res.status(400).json({ message: "Market is not awaiting review" });
+      }
+
+      await logAdminAction(req, approve ? "approve-market" : "reject-market", market.creator, {
+        marketId: market.id,
+        question: market.question,
+        creationBond: approve ? "held" : slashBond === true ? "slashed" : "refunded",
+      });
+
+      res.json({
+        success: true,
+        message: approve
+          ? `Approved market #${market.id}; it is now trading`
+          : `Rejected market #${market.id}; creation bond ${slashBond === true ? "slashed" : "refunded"}`,
+        market: normalizeMarket(reviewed),
+      });
+    } catch (error) {
+      console.error("Admin review-market error:", error);
+      res.status(500).json({ message: "Failed to review market" });
+    }
+  });
+
+  // === Admin Dispute Resolution (password protected) ===
+  // Decides a disputed proposal: settles the market and pays the losing side's bond to the winner
+  app.post("/api/admin/resolve-dispute", adminLimiter, async (req, res) => {
+    try {
+      const { password, marketId, outcome } = req.body;
+      
+      if (!verifyAdminPassword(password)) {
+        console.log("[security] Failed admin auth attempt on /api/admin/resolve-dispute");
+        return res.status(401).json({ message: "Invalid password" });
+      }
+
+      if (typeof outcome !== "boolean") {
+        return res.status(400).json({ message: "Outcome must be a boolean (true for YES, false for NO)" });
+      }
+
+      const market = await storage.getMarket(Number(marketId));
+      if (!market) {
+        return res.status(404).json({ message: "Market not found" });
+      }
+      if (!market.disputedAt || market.resolved || market.status === "canceled") {
+        return res.status(400).json({ message: "Market has no open dispute" });
+      }
+
+      const result = await resolveBondedMarket(market, outcome, "admin");
+      if (!result) {
+        return res.status(400).json({ message: "Market is already resolved or canceled" });
+      }
+
+      const upheld = market.proposedOutcome === outcome;
+      await logAdminAction(req, "resolve-dispute", null, {
+        marketId: market.id,
+        question: market.question,
+        proposedOutcome: market.proposedOutcome ? "YES" : "NO",
+        proposedBy: market.proposedBy,
+        disputedBy: market.disputedBy,
+        outcome: outcome ? "YES" : "NO",
+        proposalUpheld: upheld,
+        settlementId: result.settlement.id,
+      });
+
+      res.json({
+        success: true,
+        message: `Resolved dispute on market #${market.id} ${outcome ? "YES" : "NO"}: proposal ${upheld ? "upheld" : "overturned"}, ${result.settlement.positionsSettled} positions settled`,
+        settlement: result.settlement,
+      });
+    } catch (error) {
+      console.error("Admin resolve-dispute error:", error);
+      res.status(500).json({ message: "Failed to resolve dispute" });
+    }
+  });
+
+  // === Admin Market Price Source (password protected) ===
+  // Switches where the simulation takes a market's price from; the current price carries over
+  app.post("/api/admin/set-price-source", adminLimiter, async (req, res) => {
+    try {
+      const { password, marketId, priceSource, config } = req.body;
+
+      if (!verifyAdminPassword(password)) {
+        console.log("[security] Failed admin auth attempt on /api/admin/set-price-source");
+        return res.status(401).json({ message: "Invalid password" });
+      }
+
+      if (!PRICE_SOURCE_TYPES.includes(priceSource)) {
+        return res.status(400).json({ message: `Price source must be one of: ${PRICE_SOURCE_TYPES.join(", ")}` });
+      }
+      const parsed = parsePriceSourceConfig(priceSource as PriceSourceType, config);
+      if ("error" in parsed) {
+        return res.status(400).json({ message: `Invalid ${priceSource} settings: ${parsed.error}` });
+      }
+
+      const market = await storage.getMarket(Number(marketId));
+      if (!market) {
+        return res.status(404).json({ message: "Market not found" });
+      }
+      if (market.resolved) {
+        return res.status(400).json({ message: "Market is already resolved" });
+      }
+
+      const updated = await storage.updateMarketPriceSource(market.id, priceSource, parsed.config);
+      if (!updated) {
+        return res.status(404).json({ message: "Market not found" });
+      }
+      setMarketPriceSource(updated);
+
+      await logAdminAction(req, "set-price-source", null, {
+        marketId: market.id,
+        question: market.question,
+        from: market.priceSource,
+        to: priceSource,
+        config: parsed.config,
+      });
+
+      res.json({
+        success: true,
+        message: `Market #${market.id} now prices from ${priceSource}`,
+        market: normalizeMarket(updated),
+      });
+    } catch (error) {
+      console.error("Admin set-price-source error:", error);
+      res.status(500).json({ message: "Failed to set price source" });
+    }
+  });
+
+  // === Admin Market Status (password protected) ===
+  // Halts a market, sets it close-only or resumes it. Halting and close-only need a reason code;
+  // scheduled, expired and settled markets move on their own (see marketLifecycle.ts)
+  app.post("/api/admin/set-market-status", adminLimiter, async (req, res) => {
+    try {
+      const { password, marketId, status, reason } = req.body;
+
+      if (!verifyAdminPassword(password)) {
+        console.log("[security] Failed admin auth attempt on /api/admin/set-market-status");
+        return res.status(401).json({ message: "Invalid password" });
+      }
+
+      if (!isAdminMarketStatus(status)) {
+        return res.status(400).json({ message: "Status must be one of: active, halted, close_only" });
+      }
+      if (status !== "active" && !MARKET_STATUS_REASONS.includes(reason)) {
+        return res.status(400).json({ message: `Reason must be one of: ${MARKET_STATUS_REASONS.join(", ")}` });
+      }
+
+      const market = await storage.getMarket(Number(marketId));
+      if (!market) {
+        return res.status(404).json({ message: "Market not found" });
+      }
+
+      const updated = await setAdminMarketStatus(market, status, status === "active" ? null : reason);
+      if (!updated) {
+        return res.status(400).json({ message: `Market is ${market.resolved ? "resolved" : market.status} and its status cannot be changed` });
+      }
+
+      const action = status === "active" ? "resume-market" : status === "halted" ? "halt-market" : "close-only-market";
+      await logAdminAction(req, action, null, {
+        marketId: market.id,
+        question: market.question,
+        from: market.status,
+        to: status,
+        reason: updated.statusReason,
+      });
+
+      res.json({
+        success: true,
+        message: status === "active"
+          ? `Market #${market.id} resumed trading`
+          : `Market #${market.id} is now ${status === "halted" ? "halted" : "close-only"} (${reason})`,
+        market: normalizeMarket(updated),
+      });
+    } catch (error) {
+      console.error("Admin set-market-status error:", error);
+      res.status(500).json({ message: "Failed to set market status" });
+    }
+  });
+
+  // === Admin Market Risk Parameters (password protected) ===
+  // Sets any of the market's risk limits (the rest keep their current values), or drops its
+  // overrides with reset: true. Applies to new positions and orders and to the next liquidation check.
+  app.post("/api/admin/set-risk-params", adminLimiter, async (req, res) => {
+    try {
+      const { password, marketId, params, reset } = req.body;
+
+      if (!verifyAdminPassword(password)) {
+        console.log("[security] Failed admin auth attempt on /api/admin/set-risk-params");
+        return res.status(401).json({ message: "Invalid password" });
+      }
+
+      const market = await storage.getMarket(Number(marketId));
+      if (!market) {
+        return res.status(404).json({ message: "Market not found" });
+      }
+
+      const before = getRiskParams(market.id);
+      let after;
+      if (reset === true) {
+        after = await resetRiskParams(market.id);
+      } else {
+        const parsed = parseRiskParamsUpdate(market.id, params);
+        if ("error" in parsed) {
+          return res.status(400).json({ message: `Invalid risk parameters: ${parsed.error}` });
+        }
+        after = await setRiskParams(market.id, parsed.params);
+      }
+
+      await logAdminAction(req, reset === true ? "reset-risk-params" : "set-risk-params", null, {
+        marketId: market.id,
+        question: market.question,
+        from: before,
+        to: after,
+      });
+
+      res.json({
+        success: true,
+        message: reset === true
+          ? `Market #${market.id} risk parameters reset to defaults`
+          : `Market #${market.id} risk parameters updated`,
+        riskParams: after,
+      });
+    } catch (error) {
+      console.error("Admin set-risk-params error:", error);
+      res.status(500).json({ message: "Failed to set risk parameters" });
+    }
+  });
+
+  // Overrides the correlation combo pricing uses for a market pair, or drops the override with
+  // reset: true so the pair goes back to its estimate. Live combo prices pick it up on the next tick.
+  app.post("/api/admin/set-correlation", adminLimiter, async (req, res) => {
+    try {
+      const { password, marketIdA, marketIdB, correlation, reset } = req.body;
+
+      if (!verifyAdminPassword(password)) {
+        console.log("[security] Failed admin auth attempt on /api/admin/set-correlation");
+        return res.status(401).json({ message: "Invalid password" });
+      }
+
+      const [marketA, marketB] = await Promise.all([
+        storage.getMarket(Number(marketIdA)),
+        storage.getMarket(Number(marketIdB)),
+      ]);
+      if (!marketA || !marketB) {
+        return res.status(404).json({ message: "Market not found" });
+      }
+      if (marketA.id === marketB.id) {
+        return res.status(400).json({ message: "A market's correlation with itself is always 1" });
+      }
+      if (reset !== true && (typeof correlation !== "number" || !(correlation >= -1 && correlation <= 1))) {
+        return res.status(400).json({ message: "correlation must be a number from -1 to 1" });
+      }
+
+      const before = getCorrelation(marketA.id, marketB.id);
+      if (reset === true) {
+        await clearCorrelationOverride(marketA.id, marketB.id);
+      } else {
+        await setCorrelationOverride(marketA.id, marketB.id, correlation, "admin");
+      }
+      const after = getCorrelation(marketA.id, marketB.id);
+
+      await logAdminAction(req, reset === true ? "reset-correlation" : "set-correlation", null, {
+        marketIdA: marketA.id,
+        marketIdB: marketB.id,
+        from: before,
+        to: after,
+      });
+
+      res.json({
+        success: true,
+        message: reset === true
+          ? `Correlation of markets #${marketA.id} and #${marketB.id} back to estimate (${after})`
+          : `Correlation of markets #${marketA.id} and #${marketB.id} set to ${after}`,
+        correlation: after,
+      });
+    } catch (error) {
+      console.error("Admin set-correlation error:", error);
+      res.status(500).json({ message: "Failed to set correlation" });
+    }
+  });
+
+  // Penalty curve for closing combo positions before their lock date (see comboExit.ts)
+  app.post("/api/admin/set-early-exit-curve", adminLimiter, async (req, res) => {
+    try {
+      const { password, ...update } = req.body;
+
+      if (!verifyAdminPassword(password)) {
+        console.log("[security] Failed admin auth attempt on /api/admin/set-early-exit-curve");
+        return res.status(401).json({ message: "Invalid password" });
+      }
+
+      const before = getEarlyExitCurve();
+      const parsed = earlyExitCurveSchema.safeParse({ ...before, ...update });
+      if (!parsed.success) {
+        const issue = parsed.error.errors[0];
+        return res.status(400).json({ message: issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message });
+      }
+
+      const after = await setEarlyExitCurve(parsed.data);
+      await logAdminAction(req, "set-early-exit-curve", null, { from: before, to: after });
+
+      res.json({
+        success: true,
+        message: `Early exit penalty set to ${after.maxPenaltyBps}-${after.minPenaltyBps} bps (exponent ${after.exponent})`,
+        curve: after,
+      });
+    } catch (error) {
+      console.error("Admin set-early-exit-curve error:", error);
+      res.status(500).json({ message: "Failed to set early exit curve" });
+    }
+  });
+
+  // === Admin Curated Combos ===
+  // Lists a house combo under /api/combos. Legs are priced from their markets at creation.
+  app.post("/api/admin/curated-combos/create", adminLimiter, async (req, res) => {
+    try {
+      const { password, ...body } = req.body;
+
+      if (!verifyAdminPassword(password)) {
+        console.log("[security] Failed admin auth attempt on /api/admin/curated-combos/create");
+        return res.status(401).json({ message: "Invalid password" });
+      }
+
+      const parsed = curatedComboSchema.safeParse(body);
+      if (!parsed.success) {
+        const issue = parsed.error.errors[0];
+        return res.status(400).json({ message: issue.path.length > 0 ? `${issue.path.join(".")}: ${issue.message}` : issue.message });
+      }
+
+      const result = await createCuratedCombo(parsed.data);
+      if ("error" in result) {
+        return res.status(400).json({ message: result.error });
+      }
+
+      await logAdminAction(req, "create-curated-combo", null, {
+        comboId: result.combo.id,
+        name: result.combo.name,
+        legs: result.combo.legs.map((leg) => ({ marketId: leg.marketId, side: leg.side })),
+        expiresAt: result.combo.expiresAt,
+      });
+
+      res.json({
+        success: true,
+        message: `Curated combo #${result.combo.id} "${result.combo.name}" listed`,
+        combo: toListedCombo(result.combo),
+      });
+    } catch (error) {
+      console.error("Admin create curated combo error:", error);
+      res.status(500).json({ message: "Failed to create curated combo" });
+    }
+  });
+
+  // Takes a curated combo off the listing and stops new positions; open positions keep running
+  // to their lock date or the combo's resolution
+  app.post("/api/admin/curated-combos/retire", adminLimiter, async (req, res) => {
+    try {
+      const { password, comboId } = req.body;
+
+      if (!verifyAdminPassword(password)) {
+        console.log("[security] Failed admin auth attempt on /api/admin/curated-combos/retire");
+        return res.status(401).json({ message: "Invalid password" });
+      }
+
+      const combo = await storage.getCustomCombo(Number(comboId));
+      if (!combo || !combo.curated) {
+        return res.status(404).json({ message: "Curated combo not found" });
+      }
+      const retired = await storage.retireCuratedCombo(combo.id);
+      if (!retired) {
+        return res.status(400).json({ message: "Combo is already retired" });
+      }
+      const openPositions = await storage.getOpenComboPositionsForCombo(combo.id);
+
+      await logAdminAction(req, "retire-curated-combo", null, {
+        comboId: combo.id,
+        name: combo.name,
+        openPositions: openPositions.length,
+      });
+
+      res.json({
+        success: true,
+        message: `Curated combo #${combo.id} retired; ${openPositions.length} open positions run until lock date or resolution`,
+      });
+    } catch (error) {
+      console.error("Admin retire curated combo error:", error);
+      res.status(500).json({ message: "Failed to retire curated combo" });
+    }
+  });
+
+  // === Admin Simulation Step (password protected, deterministic mode only) ===
+  // With SIMULATION_MANUAL_CLOCK the simulation only moves when stepped: advanceMs moves the clock
+  // (running due simulation ticks and schedulers), ticks runs that many extra ticks at the current time
+  app.post("/api/admin/simulation/step", adminLimiter, async (req, res) => {
+    try {
+      const { password, ticks = 0, advanceMs = 0 } = req.body;
+
+      if (!verifyAdminPassword(password)) {
+        console.log("[security] Failed admin auth attempt on /api/admin/simulation/step");
+        return res.status(401).json({ message: "Invalid password" });
+      }
+
+      const clock = getClock();
+      if (!isManualClock(clock)) {
+        return res.status(403).json({ message: "Stepping requires SIMULATION_MANUAL_CLOCK" });
+      }
+      if (!Number.isInteger(ticks) || ticks < 0 || ticks > 1000) {
+        return res.status(400).json({ message: "ticks must be an integer from 0 to 1000" });
+      }
+      if (typeof advanceMs !== "number" || advanceMs < 0) {
+        return res.status(400).json({ message: "advanceMs must be a non-negative number" });
+      }
+
+      await clock.advance(advanceMs);
+      for (let i = 0; i < ticks; i++) {
+        await runSimulationTick();
+      }
+
+      res.json({
+        now: currentDate().toISOString(),
+        markets: getAllMarketStates().map((s) => ({ marketId: s.marketId, currentProbability: s.currentProbability })),
+      });
+    } catch (error) {
+      console.error("Admin simulation step error:", error);
+      res.status(500).json({ message: "Failed to step simulation" });
+    }
+  });
+
   // === Admin Close User-Made Markets (password protected) ===
   // This closes all user-created markets (non-seed markets) and force-closes all positions in them
   app.post("/api/admin/close-user-markets", adminLimiter, async (req, res) => {
@@ -3015,9 +4182,14 @@ export async function registerRoutes(
           // Refund the margin to the user
           const posUser = await storage.getUser(position.userId);
           if (posUser) {
-            const refundAmount = position.size / position.leverage; // margin = size / leverage
-            const currentBalance = parseFloat(posUser.balance || "0");
-            await storage.updateUserBalance(position.userId, currentBalance + refundAmount);
+            const refundAmount = calculatePositionMargin(position);
+            await storage.updateUserBalance(position.userId, refundAmount, {
+              entryType: "margin_release",
+              counterAccount: marginAccount(position.userId),
+              referenceType: "position",
+              referenceId: position.id,
+              memo: "User-made market closed by admin",
+            });
             totalRefunded += refundAmount;
             affectedUsers.add(position.userId);
           }
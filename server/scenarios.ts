@@ -0,0 +1,187 @@
+import type { Market, MarginMode, PortfolioSimulation, Position, SimulatedPosition } from "@shared/schema";
+import { z } from "zod";
+import { api } from "@shared/routes";
+import { storage, calculateFee } from "./storage";
+import { getMarketState } from "./simulation";
+import { getFeeRates } from "./fees";
+import { checkNewExposure, MAX_OPEN_POSITIONS_PER_ACCOUNT } from "./riskParams";
+import { LIQUIDATION_PENALTY_RATE } from "./insurance";
+import {
+  calculateBankruptcyPrice,
+  calculateCrossMarginMetrics,
+  calculatePositionMargin,
+  calculatePositionPnL,
+  getLiquidationPlan,
+  isIsolated,
+  isIsolatedPositionLiquidatable,
+} from "./riskEngine";
+
+// Portfolio stress test: moves market prices by the requested shocks, adds hypothetical orders
+// opened at today's prices, and runs the result through the same margin metrics and liquidation
+// planner the simulation uses. Nothing is written; hypothetical positions get negative ids.
+
+type SimulationInput = z.infer<typeof api.portfolio.simulate.input>;
+type OpenPosition = Position & { market: Market };
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function clampPrice(price: number): number {
+  return round2(Math.max(0, Math.min(100, price)));
+}
+
+function currentPriceOf(market: Market): number {
+  return getMarketState(market.id)?.currentProbability ?? parseFloat(market.currentProbability.toString());
+}
+
+// A market-specific shock replaces the shock on its category
+function shockFor(market: Market, input: SimulationInput): number {
+  const marketShock = input.shocks.find((s) => s.marketId === market.id);
+  if (marketShock) return marketShock.change;
+  const categoryShock = input.categoryShocks.find((s) => s.category.toLowerCase() === market.category.toLowerCase());
+  return categoryShock?.change ?? 0;
+}
+
+function hypotheticalPosition(
+  id: number,
+  userId: string,
+  market: Market,
+  order: SimulationInput["orders"][number],
+  entryProbability: number
+): OpenPosition {
+  const position: OpenPosition = {
+    id,
+    userId,
+    marketId: market.id,
+    side: order.side,
+    size: order.size,
+    leverage: order.leverage,
+    entryProbability: entryProbability.toFixed(2),
+    liquidationProbability: "0",
+    marginMode: order.marginMode as MarginMode,
+    extraMargin: "0",
+    status: "open",
+    pnl: 0,
+    accruedFunding: "0",
+    pnlReversed: null,
+    createdAt: null,
+    closedAt: null,
+    market,
+  };
+  // Only isolated positions are liquidated at their own price
+  position.liquidationProbability = calculateBankruptcyPrice(position).toFixed(2);
+  return position;
+}
+
+export async function simulatePortfolio(userId: string, input: SimulationInput): Promise<PortfolioSimulation | null> {
+  const user = await storage.getUser(userId);
+  if (!user) return null;
+
+  const openPositions: OpenPosition[] = (await storage.getPositions(userId)).filter((p) => p.status === "open");
+  const currentPrices = new Map<number, number>();
+  const projectedPrices = new Map<number, number>();
+  const trackMarket = (market: Market) => {
+    if (currentPrices.has(market.id)) return;
+    const price = currentPriceOf(market);
+    currentPrices.set(market.id, price);
+    projectedPrices.set(market.id, clampPrice(price + shockFor(market, input)));
+  };
+  for (const position of openPositions) trackMarket(position.market);
+
+  let cashBalance = parseFloat(user.balance || "0");
+  const current = calculateCrossMarginMetrics(cashBalance, openPositions, (marketId) => currentPrices.get(marketId) ?? null);
+
+  // Hypothetical orders are checked like real ones, in order, each against the portfolio left by
+  // the orders accepted before it
+  const hypothetical: OpenPosition[] = [];
+  const rejectedOrders: PortfolioSimulation["rejectedOrders"] = [];
+  const { takerBps } = input.orders.length > 0 ? await getFeeRates(userId) : { takerBps: 0 };
+  for (const [index, order] of Array.from(input.orders.entries())) {
+    const market = await storage.getMarket(order.marketId);
+    if (!market) {
+      rejectedOrders.push({ index, reason: "Market not found" });
+      continue;
+    }
+    if (market.resolved) {
+      rejectedOrders.push({ index, reason: "Market is resolved and no longer trading" });
+      continue;
+    }
+    trackMarket(market);
+    const entryProbability = currentPrices.get(market.id)!;
+
+    const riskError = await checkNewExposure(userId, market.id, { leverage: order.leverage, size: order.size, price: entryProbability });
+    if (riskError) {
+      rejectedOrders.push({ index, reason: riskError });
+      continue;
+    }
+    if (openPositions.length + hypothetical.length >= MAX_OPEN_POSITIONS_PER_ACCOUNT) {
+      rejectedOrders.push({ index, reason: `Maximum ${MAX_OPEN_POSITIONS_PER_ACCOUNT} open positions per account` });
+      continue;
+    }
+
+    const margin = Math.ceil(order.size / order.leverage);
+    const fee = calculateFee(order.size, takerBps);
+    const metrics = calculateCrossMarginMetrics(cashBalance, [...openPositions, ...hypothetical], (marketId) => currentPrices.get(marketId) ?? null);
+    if (metrics.freeMargin < margin + fee || cashBalance < fee) {
+      rejectedOrders.push({ index, reason: `Insufficient margin. Required: $${margin + fee} (incl. $${fee} fee), Free Margin: $${Math.floor(metrics.freeMargin)}` });
+      continue;
+    }
+
+    cashBalance -= margin + fee;
+    hypothetical.push(hypotheticalPosition(-(index + 1), userId, market, order, entryProbability));
+  }
+
+  const portfolio = [...openPositions, ...hypothetical];
+  const getProjectedPrice = (marketId: number) => projectedPrices.get(marketId) ?? null;
+  const projected = calculateCrossMarginMetrics(cashBalance, portfolio, getProjectedPrice);
+
+  // Isolated positions go on their own price; cross positions go through the planner when the
+  // shared equity falls below maintenance, as in the simulation's liquidation check
+  const liquidated = new Map<number, number>(); // Position id -> notional liquidated
+  for (const position of portfolio.filter(isIsolated)) {
+    if (isIsolatedPositionLiquidatable(position, getProjectedPrice(position.marketId)!)) {
+      liquidated.set(position.id, position.size);
+    }
+  }
+  const crossPositions = portfolio.filter((p) => !isIsolated(p));
+  if (projected.marginRatio < 1) {
+    const plan = getLiquidationPlan(crossPositions, projected.equity, projected.maintenanceMargin, getProjectedPrice, LIQUIDATION_PENALTY_RATE);
+    for (const step of plan) liquidated.set(step.position.id, step.closeSize);
+  }
+
+  let isolatedEquity = 0;
+  const positions: SimulatedPosition[] = portfolio.map((position) => {
+    const projectedPrice = getProjectedPrice(position.marketId)!;
+    const projectedPnl = round2(calculatePositionPnL(position, projectedPrice));
+    if (isIsolated(position)) {
+      const margin = calculatePositionMargin(position);
+      isolatedEquity += margin + Math.max(-margin, projectedPnl);
+    }
+    const liquidatedSize = liquidated.get(position.id) ?? 0;
+    return {
+      positionId: position.id > 0 ? position.id : null,
+      marketId: position.marketId,
+      question: position.market.question,
+      side: position.side,
+      size: position.size,
+      leverage: position.leverage,
+      marginMode: position.marginMode,
+      entryProbability: parseFloat(position.entryProbability.toString()),
+      currentPrice: currentPrices.get(position.marketId)!,
+      projectedPrice,
+      projectedPnl,
+      liquidatedSize,
+      remainingSize: position.size - liquidatedSize,
+    };
+  });
+
+  return {
+    current,
+    projected,
+    projectedTotalEquity: round2(projected.equity + isolatedEquity),
+    positions,
+    rejectedOrders,
+    liquidationCount: liquidated.size,
+  };
+}
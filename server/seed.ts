@@ -2,6 +2,7 @@ import { db } from "./db";
 import { markets, users, positions, trades, systemSettings, customCombos, comboPositions } from "@shared/schema";
 import { eq, isNull, isNotNull, sql, notInArray } from "drizzle-orm";
 import crypto from "crypto";
+import { storage, LEDGER_ACCOUNTS } from "./storage";
 
 const SYSTEM_MARKETS = [
   { id: 1, question: "Trump wins 2028 Election?", description: "Will Donald Trump win the 2028 US Presidential Election?", category: "Politics", currentProbability: 35, volume24h: 125000000, resolutionDate: new Date("2028-11-05") },
@@ -215,11 +216,13 @@ export async function fixTargetUser() {
   
   // Set STLR to half and reset balance
   await db.update(users)
-    .set({ 
-      stlrPoints: newStlr,
-      balance: TARGET_BALANCE
-    })
+    .set({ stlrPoints: newStlr })
     .where(eq(users.id, targetUser.id));
+  await storage.setUserBalance(targetUser.id, Number(TARGET_BALANCE), {
+    entryType: "admin_adjustment",
+    counterAccount: LEDGER_ACCOUNTS.admin,
+    memo: FIX_KEY,
+  });
   
   // Only mark as applied AFTER all operations succeed
   await db.insert(systemSettings).values({ 
@@ -273,9 +276,11 @@ export async function fixHighBalanceUsers() {
   for (const user of highBalanceUsers) {
     const oldBalance = user.balance || "0";
     
-    await db.update(users)
-      .set({ balance: NEW_BALANCE })
-      .where(eq(users.id, user.id));
+    await storage.setUserBalance(user.id, Number(NEW_BALANCE), {
+      entryType: "admin_adjustment",
+      counterAccount: LEDGER_ACCOUNTS.admin,
+      memo: FIX_KEY,
+    });
     
     affectedUsers.push({
       wallet: user.walletAddress || "unknown",
@@ -323,9 +328,11 @@ export async function fixWallet10d6d4() {
   
   const oldBalance = targetUser.balance || "0";
   
-  await db.update(users)
-    .set({ balance: NEW_BALANCE })
-    .where(eq(users.id, targetUser.id));
+  await storage.setUserBalance(targetUser.id, Number(NEW_BALANCE), {
+    entryType: "admin_adjustment",
+    counterAccount: LEDGER_ACCOUNTS.admin,
+    memo: FIX_KEY,
+  });
   
   await db.insert(systemSettings).values({ 
     key: FIX_KEY, 
@@ -420,7 +427,13 @@ export async function resetAllBalancesOnce() {
   const userCount = allUsers.length;
   
   // Reset all balances to $10k
-  await db.update(users).set({ balance: "10000" });
+  for (const user of allUsers) {
+    await storage.setUserBalance(user.id, 10000, {
+      entryType: "reset",
+      counterAccount: LEDGER_ACCOUNTS.equity,
+      memo: FIX_KEY,
+    });
+  }
   
   // Record that this fix was applied
   await db.insert(systemSettings).values({ 
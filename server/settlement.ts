@@ -0,0 +1,366 @@
+import { storage, type PnlReversal } from "./storage";
+import type { InsertNotification, Market, MarketBond, MarketSettlement } from "@shared/schema";
+import { cancelMarketOrders } from "./orderEngine";
+import { getMarketState, settleMarketState } from "./simulation";
+import { resolveCombosForMarket } from "./comboSettlement";
+import { combosHoldingMarket, marketLegIds } from "./comboLegs";
+import { getClock } from "./clock";
+
+// Market resolution settlement: pays out every open position at the final price (0 or 100),
+// cancels outstanding orders, freezes the market in the simulation and writes a settlement report.
+// Combos with a leg in the market are then resolved if this decides them (see comboSettlement.ts).
+// The market is marked resolved first, so a sweep finishes payouts a crash or error left undone.
+//
+// Cancellation is the other way a market ends: it is voided at its last price, every open
+// position gets its margin back as if closed at entry, orders are cancelled and combo legs on the
+// market are voided. Funding already booked and the fee paid to open are not refunded. Realized PnL on positions already closed stands unless the cancellation
+// policy unwinds it. Every affected user gets a notification. The same sweep finishes refunds,
+// combo voiding and notifications that a crash or error left undone; only the PnL unwind is not
+// repeated, since the sweep does not know the policy.
+
+const SETTLEMENT_SWEEP_INTERVAL_MS = 5 * 60 * 1000;
+
+export interface PositionPayout {
+  positionId: number;
+  userId: string;
+  side: "YES" | "NO";
+  size: number;
+  entryProbability: number;
+  margin: number;
+  pnl: number;
+  payout: number;
+}
+
+export interface SettlementResult {
+  market: Market;
+  settlement: MarketSettlement;
+}
+
+export async function settleMarket(
+  marketId: number,
+  outcome: boolean,
+  resolvedBy: string
+): Promise<SettlementResult | null> {
+  // resolveMarket only succeeds once, so concurrent resolve requests cannot pay out twice
+  const market = await storage.resolveMarket(marketId, outcome);
+  if (!market) return null;
+
+  // Stop price updates before touching positions
+  settleMarketState(marketId, outcome ? 100 : 0);
+  const settlement = await payOutResolvedMarket(market, resolvedBy);
+  if (!settlement) return null; // Being paid out by the sweep already
+  return { market, settlement };
+}
+
+// Markets whose payout is running in this process; the sweep skips them
+const payingOut = new Set<number>();
+
+// Cancels the orders and pays out the open positions of a resolved market, then records them in
+// its settlement report (extending the report when an earlier run stopped partway). Safe to re-run:
+// positions already closed are skipped. Undefined if a payout for the market is already running.
+async function payOutResolvedMarket(market: Market, resolvedBy: string): Promise<MarketSettlement | undefined> {
+  if (payingOut.has(market.id)) return undefined;
+  payingOut.add(market.id);
+  try {
+    const marketId = market.id;
+    const outcome = market.outcome === true;
+    const settlementPrice = outcome ? 100 : 0;
+    const cancelledOrders = await cancelMarketOrders(marketId);
+
+    const payouts: PositionPayout[] = [];
+    for (const position of await storage.getOpenPositionsForMarket(marketId)) {
+      try {
+        // Closes at the final price, records the close trade and credits margin + PnL atomically
+        const result = await storage.closePositionAtPrice(position.id, settlementPrice);
+        if (!result) continue; // Closed or liquidated in the meantime
+
+        payouts.push({
+          positionId: position.id,
+          userId: position.userId,
+          side: position.side,
+          size: result.closeSize,
+          entryProbability: parseFloat(position.entryProbability.toString()),
+          margin: result.margin,
+          pnl: result.pnl,
+          payout: result.balanceChange,
+        });
+      } catch (err) {
+        console.error(`[settlement] Failed to settle position ${position.id}:`, err);
+      }
+    }
+
+    // Combos with a leg in this market, nested ones included, recorded so their later settlement
+    // can be traced back
+    const affectedComboIds = combosHoldingMarket(await storage.getCustomCombos(), marketId).map((c) => c.id);
+
+    const totalPayout = payouts.reduce((sum, p) => sum + p.payout, 0);
+    const totalPnl = payouts.reduce((sum, p) => sum + p.pnl, 0);
+
+    const previous = await storage.getMarketSettlement(marketId);
+    let settlement: MarketSettlement;
+    if (previous) {
+      const details = JSON.parse(previous.details);
+      settlement = await storage.updateMarketSettlement(previous.id, {
+        positionsSettled: previous.positionsSettled + payouts.length,
+        ordersCancelled: previous.ordersCancelled + cancelledOrders.length,
+        totalPayout: (parseFloat(previous.totalPayout) + totalPayout).toFixed(2),
+        totalPnl: (parseFloat(previous.totalPnl) + totalPnl).toFixed(2),
+        details: JSON.stringify({
+          payouts: [...(details.payouts ?? []), ...payouts],
+          cancelledOrderIds: [...(details.cancelledOrderIds ?? []), ...cancelledOrders.map((o) => o.id)],
+          affectedComboIds,
+        }),
+      });
+    } else {
+      settlement = await storage.createMarketSettlement({
+        marketId,
+        outcome,
+        settlementPrice: settlementPrice.toString(),
+        resolvedBy,
+        positionsSettled: payouts.length,
+        ordersCancelled: cancelledOrders.length,
+        totalPayout: totalPayout.toFixed(2),
+        totalPnl: totalPnl.toFixed(2),
+        details: JSON.stringify({
+          payouts,
+          cancelledOrderIds: cancelledOrders.map((o) => o.id),
+          affectedComboIds,
+        }),
+      });
+    }
+
+    console.log(`[settlement] Market ${marketId} resolved ${outcome ? "YES" : "NO"}: ${payouts.length} positions settled, $${totalPayout.toFixed(2)} paid out, ${cancelledOrders.length} orders cancelled${previous ? " (resumed)" : ""}`);
+
+    try {
+      await resolveCombosForMarket(marketId);
+    } catch (err) {
+      console.error(`[settlement] Failed to resolve combos for market ${marketId}:`, err);
+    }
+    return settlement;
+  } finally {
+    payingOut.delete(market.id);
+  }
+}
+
+// Resumes settlements that a crash or a failed close left unfinished: resolved markets that still
+// have open positions or no settlement report, and canceled markets that still have open
+// positions or combo legs on them. Returns the number of markets picked up.
+export async function sweepUnsettledMarkets(): Promise<number> {
+  let resumed = 0;
+  for (const market of await storage.getResolvedMarketsPendingSettlement()) {
+    try {
+      const previous = await storage.getMarketSettlement(market.id);
+      settleMarketState(market.id, market.outcome ? 100 : 0);
+      if (await payOutResolvedMarket(market, previous?.resolvedBy ?? "settlement-sweep")) resumed++;
+    } catch (err) {
+      console.error(`[settlement] Failed to resume settlement of market ${market.id}:`, err);
+    }
+  }
+
+  const comboLegMarketIds = Array.from(new Set((await storage.getActiveCustomCombos()).flatMap((c) => marketLegIds(c.legs))));
+  for (const market of await storage.getCanceledMarketsPendingVoid(comboLegMarketIds)) {
+    if (voiding.has(market.id)) continue;
+    voiding.add(market.id);
+    try {
+      settleMarketState(market.id, parseFloat(market.currentProbability.toString()));
+      await voidCanceledMarket(market, "settlement-sweep", false);
+      resumed++;
+    } catch (err) {
+      console.error(`[settlement] Failed to resume cancellation of market ${market.id}:`, err);
+    } finally {
+      voiding.delete(market.id);
+    }
+  }
+  return resumed;
+}
+
+export async function scheduleSettlementSweep(): Promise<void> {
+  getClock().setInterval(async () => {
+    try {
+      await sweepUnsettledMarkets();
+    } catch (error) {
+      console.error("[settlement] Sweep error:", error);
+    }
+  }, SETTLEMENT_SWEEP_INTERVAL_MS);
+
+  const initial = await sweepUnsettledMarkets();
+  console.log(`[settlement] Sweep initialized - ${initial} unfinished settlements resumed on startup`);
+}
+
+export interface CancellationPolicy {
+  unwindRealizedPnl: boolean; // Reverse the PnL of positions closed before the cancellation
+  slashCreationBond: boolean; // Forfeit a permissionless market's creation bond to the house
+}
+
+export interface PositionRefund {
+  positionId: number;
+  userId: string;
+  side: "YES" | "NO";
+  size: number;
+  entryProbability: number;
+  refund: number;
+}
+
+export interface CancellationResult {
+  market: Market;
+  slashedBond?: MarketBond;
+  refunds: PositionRefund[];
+  totalRefunded: number;
+  ordersCancelled: number;
+  pnlReversals: PnlReversal[];
+  affectedComboIds: number[];
+  usersNotified: number;
+}
+
+// What happened to one user's holdings, summed up in their notification
+interface UserImpact {
+  refunded: number;
+  positions: number;
+  orders: number;
+  pnlReversed: number;
+  combos: Set<number>;
+}
+
+function cancellationMessage(market: Market, impact: UserImpact): string {
+  const parts: string[] = [];
+  if (impact.positions > 0) {
+    parts.push(`${impact.positions} open position${impact.positions === 1 ? "" : "s"} closed at entry and $${impact.refunded.toFixed(2)} margin returned`);
+  }
+  if (impact.orders > 0) parts.push(`${impact.orders} order${impact.orders === 1 ? "" : "s"} cancelled`);
+  if (impact.pnlReversed !== 0) {
+    parts.push(`realized PnL unwound (${impact.pnlReversed > 0 ? "+" : "-"}$${Math.abs(impact.pnlReversed).toFixed(2)})`);
+  }
+  if (impact.combos.size > 0) {
+    parts.push(`combo${impact.combos.size === 1 ? "" : "s"} ${Array.from(impact.combos).map((id) => `#${id}`).join(", ")} holding this market had the leg voided and ${impact.combos.size === 1 ? "was" : "were"} repriced`);
+  }
+  return `"${market.question}" was canceled: ${parts.join("; ")}.`;
+}
+
+// Markets whose cancellation is being carried out in this process; the sweep skips them
+const voiding = new Set<number>();
+
+export async function cancelMarket(
+  marketId: number,
+  canceledBy: string,
+  policy: CancellationPolicy
+): Promise<CancellationResult | null> {
+  const current = await storage.getMarket(marketId);
+  if (!current || voiding.has(marketId)) return null;
+  const lastPrice = getMarketState(marketId)?.currentProbability ?? parseFloat(current.currentProbability.toString());
+
+  voiding.add(marketId);
+  try {
+    // cancelMarket only succeeds once, so concurrent cancel requests cannot refund twice
+    const cancellation = await storage.cancelMarket(marketId, lastPrice, policy.slashCreationBond);
+    if (!cancellation) return null;
+    const { market, slashedBond } = cancellation;
+
+    settleMarketState(marketId, lastPrice);
+    const voided = await voidCanceledMarket(market, canceledBy, policy.unwindRealizedPnl);
+    return { market, slashedBond, ...voided };
+  } finally {
+    voiding.delete(marketId);
+  }
+}
+
+// Cancels the orders of a canceled market, refunds its open positions at entry, optionally unwinds
+// realized PnL, voids combo legs on it and notifies the users affected by this run. Safe to re-run:
+// positions already closed and legs already voided are skipped, so the sweep can finish a
+// cancellation that a crash or a failed refund left partway.
+async function voidCanceledMarket(
+  market: Market,
+  canceledBy: string,
+  unwindRealizedPnl: boolean
+): Promise<Omit<CancellationResult, "market" | "slashedBond">> {
+  const marketId = market.id;
+  const cancelledOrders = await cancelMarketOrders(marketId);
+
+  const impacts = new Map<string, UserImpact>();
+  const impactFor = (userId: string): UserImpact => {
+    let impact = impacts.get(userId);
+    if (!impact) {
+      impact = { refunded: 0, positions: 0, orders: 0, pnlReversed: 0, combos: new Set() };
+      impacts.set(userId, impact);
+    }
+    return impact;
+  };
+  for (const order of cancelledOrders) impactFor(order.userId).orders++;
+
+  const refunds: PositionRefund[] = [];
+  for (const position of await storage.getOpenPositionsForMarket(marketId)) {
+    try {
+      // Closing at entry realizes no PnL and charges no fee, so exactly the margin comes back;
+      // accrued funding and the opening fee stay booked
+      const entryProbability = parseFloat(position.entryProbability.toString());
+      const result = await storage.closePositionAtPrice(position.id, entryProbability);
+      if (!result) continue; // Closed or liquidated in the meantime
+
+      refunds.push({
+        positionId: position.id,
+        userId: position.userId,
+        side: position.side,
+        size: result.closeSize,
+        entryProbability,
+        refund: result.balanceChange,
+      });
+      const impact = impactFor(position.userId);
+      impact.positions++;
+      impact.refunded += result.balanceChange;
+    } catch (err) {
+      console.error(`[settlement] Failed to refund position ${position.id}:`, err);
+    }
+  }
+
+  const pnlReversals: PnlReversal[] = [];
+  if (unwindRealizedPnl) {
+    for (const position of await storage.getClosedPositionsForMarket(marketId)) {
+      try {
+        const reversal = await storage.reverseRealizedPnl(position.id, `Market ${marketId} canceled: realized PnL unwound`);
+        if (!reversal) continue;
+        pnlReversals.push(reversal);
+        impactFor(reversal.userId).pnlReversed += reversal.reversed;
+      } catch (err) {
+        console.error(`[settlement] Failed to unwind PnL of position ${position.id}:`, err);
+      }
+    }
+  }
+
+  // Holders of combos with a leg here (directly or nested), looked up before the legs are voided
+  const combos = combosHoldingMarket(await storage.getActiveCustomCombos(), marketId);
+  for (const combo of combos) {
+    for (const position of await storage.getOpenComboPositionsForCombo(combo.id)) {
+      impactFor(position.userId).combos.add(combo.id);
+    }
+  }
+  try {
+    await resolveCombosForMarket(marketId);
+  } catch (err) {
+    console.error(`[settlement] Failed to void combo legs for market ${marketId}:`, err);
+  }
+
+  const notifications: InsertNotification[] = Array.from(impacts.entries()).map(([userId, impact]) => ({
+    userId,
+    kind: "market_canceled",
+    title: `Market #${marketId} canceled`,
+    message: cancellationMessage(market, impact),
+    marketId,
+  }));
+  let usersNotified = 0;
+  try {
+    usersNotified = (await storage.createNotifications(notifications)).length;
+  } catch (err) {
+    console.error(`[settlement] Failed to notify users of market ${marketId} cancellation:`, err);
+  }
+
+  const totalRefunded = refunds.reduce((sum, r) => sum + r.refund, 0);
+  console.log(`[settlement] Market ${marketId} canceled by ${canceledBy}: ${refunds.length} positions refunded ($${totalRefunded.toFixed(2)}), ${cancelledOrders.length} orders cancelled, ${pnlReversals.length} PnL reversals, ${combos.length} combos affected, ${usersNotified} users notified`);
+
+  return {
+    refunds,
+    totalRefunded,
+    ordersCancelled: cancelledOrders.length,
+    pnlReversals,
+    affectedComboIds: combos.map((c) => c.id),
+    usersNotified,
+  };
+}
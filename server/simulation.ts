@@ -1,20 +1,19 @@
-import type { Market, Position } from "@shared/schema";
+import type { ComboKind, Market, MarketStatus, Position } from "@shared/schema";
 import { db } from "./db";
 import { markets, positions } from "@shared/schema";
 import { eq } from "drizzle-orm";
 import { storage } from "./storage";
-import { calculateCrossMarginMetrics, getPositionsToLiquidate, calculatePositionMargin } from "./riskEngine";
+import { calculateCrossMarginMetrics, getLiquidationPlan, calculatePositionMargin, isIsolated, isIsolatedPositionLiquidatable } from "./riskEngine";
 import { broadcastLiquidation, type LiquidationEvent } from "./routes";
 import { tickOrderEngine } from "./orderEngine";
-import { randomBytes } from "crypto";
-
-// Cryptographically secure random number generator [0, 1)
-// Uses crypto.randomBytes instead of Math.random to prevent prediction attacks
-function secureRandom(): number {
-  const bytes = randomBytes(4);
-  const value = bytes.readUInt32BE(0);
-  return value / 0x100000000; // Divide by 2^32 to get [0, 1) range
-}
+import { getOrderBookDepth, clearMarketBook } from "./orderBook";
+import { random, isSeeded } from "./random";
+import { getClock, currentDate } from "./clock";
+import { createPriceSource, type PriceSource } from "./priceSources";
+import { liquidatePosition, LIQUIDATION_PENALTY_RATE } from "./insurance";
+import { priceCombo } from "./comboPricing";
+import { pricesMove } from "./marketLifecycle";
+import type { LiquidationResult } from "./storage";
 
 export interface OrderBookEntry {
   price: number;
@@ -32,90 +31,58 @@ export interface MarketState {
   orderBook: OrderBook;
   lastDbUpdate: number;
   isExotic: boolean;
-  hasJumped: boolean;
+  priceSource: PriceSource;
+  status: MarketStatus; // Prices only move while the market is trading (see marketLifecycle.ts)
+}
+
+// A combo leg on a market or on another tracked combo. price (the underlying's YES price when the
+// leg was chosen) stands in while the underlying has no live or settled price.
+export interface ComboStateLeg {
+  marketId?: number;
+  comboId?: number;
+  side: "YES" | "NO";
+  weight?: number;
+  price?: number;
 }
 
 export interface ComboState {
   comboId: number;
-  legs: { marketId: number; side: "YES" | "NO" }[];
-  currentProbability: number; // Calculated from component markets
+  kind: ComboKind;
+  legs: ComboStateLeg[];
+  currentProbability: number; // Parlays: correlated price from component markets (see comboPricing.ts); baskets: weighted value
+  naiveProbability: number; // Legs treated as independent
   multiplier: number;
   orderBook: OrderBook;
 }
 
 const marketStates: Map<number, MarketState> = new Map();
 const comboStates: Map<number, ComboState> = new Map();
-let simulationInterval: NodeJS.Timeout | null = null;
-let mockLiquidationInterval: NodeJS.Timeout | null = null;
+// Final prices (0 or 100) of resolved markets; they no longer walk but combos still price off them
+const settledPrices: Map<number, number> = new Map();
+// Final prices of resolved combos, for the combos that hold them as legs
+const settledComboPrices: Map<number, number> = new Map();
+let simulationInterval: number | null = null;
+let mockLiquidationInterval: number | null = null;
 let mockLiquidationIdCounter = 1000000; // Start high to avoid collisions with real IDs
 const DB_UPDATE_INTERVAL = 30000; // 30 seconds
 const MOCK_LIQUIDATION_INTERVAL = 30000; // Generate mock liquidation every 30 seconds for demo
 
-// Exotic bet constants
-const EXOTIC_MIN_PROB = 0.01;
-const EXOTIC_MAX_PROB = 3;
-const EXOTIC_JUMP_CHANCE = 0.0001; // 0.01% chance per update
-const EXOTIC_JUMP_TARGET = 99;
-
-function clamp(value: number, min: number, max: number): number {
-  return Math.max(min, Math.min(max, value));
-}
-
-function getRandomDelta(): number {
-  const random = secureRandom();
-  
-  // Add randomized "no movement" periods (40% chance)
-  if (random < 0.4) {
-    return 0;
-  }
-  
-  // 50% chance of small move (±0.2 to ±0.8) - slower, smaller moves
-  if (random < 0.9) {
-    const magnitude = 0.2 + secureRandom() * 0.6;
-    // Add non-uniform direction bias based on secondary random
-    const directionBias = secureRandom();
-    return directionBias > 0.5 ? magnitude : -magnitude;
-  }
-  
-  // 10% chance of larger move (±1 to ±2) - reduced from ±3 to ±5
-  const magnitude = 1 + secureRandom() * 1;
-  const directionRandom = secureRandom();
-  return directionRandom > 0.5 ? magnitude : -magnitude;
-}
-
-function getExoticDelta(currentProb: number, hasJumped: boolean): { newProb: number; jumped: boolean } {
-  // If already jumped, stay at high probability with small oscillation
-  if (hasJumped) {
-    const delta = (secureRandom() - 0.5) * 2; // ±1%
-    return { newProb: clamp(currentProb + delta, 90, 99), jumped: true };
-  }
-  
-  // Check for rare jump event (0.01% chance)
-  if (secureRandom() < EXOTIC_JUMP_CHANCE) {
-    console.log(`[exotic] RARE JUMP! Market jumping to ${EXOTIC_JUMP_TARGET}%`);
-    return { newProb: EXOTIC_JUMP_TARGET, jumped: true };
-  }
-  
-  // Normal exotic oscillation between 0.01% and 3%
-  const delta = (secureRandom() - 0.5) * 0.5; // ±0.25%
-  const newProb = clamp(currentProb + delta, EXOTIC_MIN_PROB, EXOTIC_MAX_PROB);
-  return { newProb, jumped: false };
-}
-
+// Synthetic depth for combos, which have no resting orders of their own.
+// Markets read real depth from the central limit order book (orderBook.ts).
 function generateOrderBook(currentProbability: number): OrderBook {
   const bids: OrderBookEntry[] = [];
   const asks: OrderBookEntry[] = [];
   
-  const numLevels = 5 + Math.floor(secureRandom() * 3); // 5-7 levels each side
+  const numLevels = 5 + Math.floor(random() * 3); // 5-7 levels each side
   
   // Generate bids (below current price)
   for (let i = 0; i < numLevels; i++) {
-    const distance = (i + 1) * (1 + secureRandom() * 0.5); // 1-1.5 points per level
+    const distance = (i + 1) * (1 + random() * 0.5); // 1-1.5 points per level
     const price = Math.max(1, Math.round(currentProbability - distance));
     
     // Exponential decay: more volume near mid price
     const decayFactor = Math.exp(-0.3 * i);
-    const baseSize = 100 + secureRandom() * 4900; // 100-5000 USD
+    const baseSize = 100 + random() * 4900; // 100-5000 USD
     const size = Math.round(baseSize * decayFactor);
     
     if (price > 0 && size >= 100) {
@@ -125,11 +92,11 @@ function generateOrderBook(currentProbability: number): OrderBook {
   
   // Generate asks (above current price)
   for (let i = 0; i < numLevels; i++) {
-    const distance = (i + 1) * (1 + secureRandom() * 0.5);
+    const distance = (i + 1) * (1 + random() * 0.5);
     const price = Math.min(99, Math.round(currentProbability + distance));
     
     const decayFactor = Math.exp(-0.3 * i);
-    const baseSize = 100 + secureRandom() * 4900;
+    const baseSize = 100 + random() * 4900;
     const size = Math.round(baseSize * decayFactor);
     
     if (price < 100 && size >= 100) {
@@ -144,6 +111,35 @@ function generateOrderBook(currentProbability: number): OrderBook {
   return { bids, asks };
 }
 
+async function announceLiquidation(userId: string, pos: Position, result: LiquidationResult): Promise<void> {
+  const user = await storage.getUser(userId);
+  const profile = await storage.getProfile(user?.walletAddress || "");
+  const displayName = profile?.displayName || 
+    (user?.walletAddress ? `0x${user.walletAddress.slice(2, 6)}...${user.walletAddress.slice(-4)}` : "Unknown");
+  
+  const market = await storage.getMarket(pos.marketId);
+  const liquidationEvent: LiquidationEvent = {
+    id: result.closedPosition.id,
+    timestamp: currentDate(),
+    user: {
+      address: user?.walletAddress || "",
+      displayName,
+    },
+    market: {
+      id: pos.marketId,
+      question: market?.question || "Unknown Market",
+    },
+    size: pos.size,
+    reducedSize: result.closeSize,
+    remainingPosition: result.remainingPosition
+      ? { id: result.remainingPosition.id, size: result.remainingPosition.size }
+      : null,
+    side: pos.side as "YES" | "NO",
+  };
+  
+  broadcastLiquidation(liquidationEvent);
+}
+
 async function checkLiquidations(): Promise<void> {
   try {
     const openPositions = await storage.getAllOpenPositions();
@@ -161,56 +157,52 @@ async function checkLiquidations(): Promise<void> {
       return state?.currentProbability ?? null;
     };
     
-    // Check each user's portfolio for cross-margin liquidation
+    // Check each user's isolated positions, then their cross-margin portfolio
     for (const [userId, userPositions] of Array.from(positionsByUser.entries())) {
-      // Get user's cash balance
+      // Isolated positions stand alone: each is liquidated in full once the price reaches its
+      // own liquidation price, and never counts towards the cross-margin portfolio below
+      for (const pos of userPositions.filter(isIsolated)) {
+        const currentPrice = getPrice(pos.marketId);
+        if (currentPrice === null || !isIsolatedPositionLiquidatable(pos, currentPrice)) continue;
+        console.log(`[isolated-margin] Liquidating position ${pos.id} - User: ${userId}, Side: ${pos.side}, Liq: ${pos.liquidationProbability}%, Current: ${currentPrice.toFixed(2)}%`);
+
+        const result = await liquidatePosition(pos, Math.floor(currentPrice));
+        if (result) {
+          console.log(`[isolated-margin] Position ${pos.id} liquidated with PnL: $${result.pnl}, penalty: $${result.penalty}`);
+          await announceLiquidation(userId, pos, result);
+        }
+      }
+
+      const crossPositions = userPositions.filter((p) => !isIsolated(p));
+      if (crossPositions.length === 0) continue;
+
+      // Get user's cash balance (after any isolated liquidation above released margin)
       const user = await storage.getUser(userId);
       if (!user) continue;
       
       const cashBalance = parseFloat(user.balance || "0");
-      const metrics = calculateCrossMarginMetrics(cashBalance, userPositions, getPrice);
+      const metrics = calculateCrossMarginMetrics(cashBalance, crossPositions, getPrice);
       
       // If margin ratio < 1, portfolio is underwater - liquidate positions
       if (metrics.marginRatio < 1) {
         console.log(`[cross-margin] User ${userId} margin ratio: ${metrics.marginRatio.toFixed(2)} - triggering liquidation`);
         
-        const toLiquidate = getPositionsToLiquidate(
-          userPositions, 
+        const plan = getLiquidationPlan(
+          crossPositions, 
           metrics.equity, 
           metrics.maintenanceMargin, 
-          getPrice
+          getPrice,
+          LIQUIDATION_PENALTY_RATE
         );
         
-        for (const pos of toLiquidate) {
+        for (const { position: pos, closeSize } of plan) {
           const currentPrice = getPrice(pos.marketId) ?? parseFloat(pos.entryProbability.toString());
-          console.log(`[cross-margin] Liquidating position ${pos.id} - User: ${userId}, Side: ${pos.side}, Entry: ${pos.entryProbability}%, Current: ${Math.floor(currentPrice)}%`);
+          console.log(`[cross-margin] Liquidating ${closeSize} of ${pos.size} on position ${pos.id} - User: ${userId}, Side: ${pos.side}, Entry: ${pos.entryProbability}%, Current: ${Math.floor(currentPrice)}%`);
           
-          const result = await storage.liquidatePosition(pos.id, Math.floor(currentPrice));
+          const result = await liquidatePosition(pos, Math.floor(currentPrice), closeSize);
           if (result) {
-            console.log(`[cross-margin] Position ${pos.id} liquidated with PnL: $${result.pnl}`);
-            
-            const user = await storage.getUser(userId);
-            const profile = await storage.getProfile(user?.walletAddress || "");
-            const displayName = profile?.displayName || 
-              (user?.walletAddress ? `0x${user.walletAddress.slice(2, 6)}...${user.walletAddress.slice(-4)}` : "Unknown");
-            
-            const market = await storage.getMarket(pos.marketId);
-            const liquidationEvent: LiquidationEvent = {
-              id: result.id,
-              timestamp: new Date(),
-              user: {
-                address: user?.walletAddress || "",
-                displayName,
-              },
-              market: {
-                id: pos.marketId,
-                question: market?.question || "Unknown Market",
-              },
-              size: pos.size,
-              side: pos.side as "YES" | "NO",
-            };
-            
-            broadcastLiquidation(liquidationEvent);
+            console.log(`[cross-margin] Position ${pos.id} liquidated ${result.closeSize} with PnL: $${result.pnl}, penalty: $${result.penalty}${result.remainingPosition ? `, ${result.remainingPosition.size} left open` : ""}`);
+            await announceLiquidation(userId, pos, result);
           }
         }
       }
@@ -220,24 +212,32 @@ async function checkLiquidations(): Promise<void> {
   }
 }
 
-async function updatePrices(): Promise<void> {
-  const now = Date.now();
+// One simulation tick: next prices, combo repricing, liquidations and the order engine.
+// Exported so a test harness can step the simulation without waiting for the timer.
+export async function runSimulationTick(): Promise<void> {
+  const now = getClock().now();
+  const ticks: { marketId: number; price: number }[] = [];
   
-  for (const [marketId, state] of Array.from(marketStates.entries())) {
-    if (state.isExotic) {
-      // Exotic bet: oscillate 0.01-3% with rare jump to 99%
-      const result = getExoticDelta(state.currentProbability, state.hasJumped);
-      state.currentProbability = Number(result.newProb.toFixed(8)); // Keep high precision
-      state.hasJumped = result.jumped;
-    } else {
-      // Regular market: apply random walk
-      const delta = getRandomDelta();
-      const newProb = clamp(state.currentProbability + delta, 5, 95);
-      state.currentProbability = Number(newProb.toFixed(4)); // Standard precision
+  // Sources may hit the DB or an external feed, so ask them all at once
+  const entries = Array.from(marketStates.entries());
+  const nextPrices = await Promise.all(entries.map(([marketId, state]) =>
+    !pricesMove(state.status) ? null : state.priceSource.nextPrice(state.currentProbability).catch((error) => {
+      console.error(`[price-source] Market ${marketId} (${state.priceSource.type}) failed:`, error);
+      return null;
+    })
+  ));
+
+  for (const [i, [marketId, state]] of Array.from(entries.entries())) {
+    if (marketStates.get(marketId) !== state) continue; // Settled or removed while prices were fetched
+    const nextPrice = nextPrices[i];
+    if (nextPrice !== null) {
+      state.currentProbability = nextPrice;
     }
     
-    // Regenerate order book
-    state.orderBook = generateOrderBook(state.currentProbability);
+    ticks.push({ marketId, price: state.currentProbability });
+
+    // Refresh order book snapshot from resting limit orders
+    state.orderBook = getOrderBookDepth(marketId);
     
     // Update database periodically (skip exotic bets - they stay in memory only)
     // Exotic bets need decimal precision that integer DB column can't store
@@ -254,6 +254,13 @@ async function updatePrices(): Promise<void> {
     }
   }
   
+  // Persist the tick for price history and candles (exotic markets included, at full precision)
+  try {
+    await storage.recordPriceTicks(ticks);
+  } catch (error) {
+    console.error('[simulation] Failed to record price ticks:', error);
+  }
+
   // Update combo probabilities based on new market prices
   updateComboProbabilities();
   
@@ -268,7 +275,7 @@ function getRandomInterval(): number {
   // Return random interval between 6-16 seconds for slower, less predictable updates
   // Use non-linear distribution to make timing harder to predict
   const baseInterval = 6000;
-  const variableInterval = Math.pow(secureRandom(), 1.5) * 10000; // Skewed distribution
+  const variableInterval = Math.pow(random(), 1.5) * 10000; // Skewed distribution
   const interval = baseInterval + variableInterval;
   
   // In production, double the interval to reduce server costs (12-32 seconds)
@@ -280,11 +287,11 @@ function getRandomInterval(): number {
 
 function scheduleNextUpdate(): void {
   const interval = getRandomInterval();
-  simulationInterval = setTimeout(async () => {
+  simulationInterval = getClock().setTimeout(async () => {
     try {
-      await updatePrices();
+      await runSimulationTick();
     } catch (error: any) {
-      console.error('[simulation] updatePrices error:', error.message);
+      console.error('[simulation] Tick error:', error.message);
     }
     // Always schedule next update, even if there was an error
     scheduleNextUpdate();
@@ -302,9 +309,9 @@ function generateMockLiquidation(): void {
   const states = Array.from(marketStates.values());
   if (states.length === 0) return;
   
-  const randomMarket = states[Math.floor(secureRandom() * states.length)];
-  const randomUsername = mockUsernames[Math.floor(secureRandom() * mockUsernames.length)];
-  const randomSize = Math.floor(secureRandom() * 50000) + 1000; // $1k - $51k
+  const randomMarket = states[Math.floor(random() * states.length)];
+  const randomUsername = mockUsernames[Math.floor(random() * mockUsernames.length)];
+  const randomSize = Math.floor(random() * 50000) + 1000; // $1k - $51k
   
   storage.getMarket(randomMarket.marketId).then(market => {
     if (!market) return;
@@ -312,9 +319,9 @@ function generateMockLiquidation(): void {
     mockLiquidationIdCounter++;
     const mockEvent: LiquidationEvent = {
       id: mockLiquidationIdCounter,
-      timestamp: new Date(),
+      timestamp: currentDate(),
       user: {
-        address: `0x${secureRandom().toString(16).slice(2, 10)}...${secureRandom().toString(16).slice(2, 6)}`,
+        address: `0x${random().toString(16).slice(2, 10)}...${random().toString(16).slice(2, 6)}`,
         displayName: randomUsername,
       },
       market: {
@@ -322,7 +329,9 @@ function generateMockLiquidation(): void {
         question: market.question,
       },
       size: randomSize,
-      side: secureRandom() > 0.5 ? "YES" : "NO",
+      reducedSize: randomSize,
+      remainingPosition: null,
+      side: random() > 0.5 ? "YES" : "NO",
     };
     
     broadcastLiquidation(mockEvent);
@@ -330,38 +339,49 @@ function generateMockLiquidation(): void {
 }
 
 function startMockLiquidations(): void {
-  if (mockLiquidationInterval) {
-    clearInterval(mockLiquidationInterval);
-  }
+  const clock = getClock();
+  clock.clearTimer(mockLiquidationInterval);
   
   // Generate first mock after 10 seconds, then every 15 seconds
-  setTimeout(() => {
+  mockLiquidationInterval = clock.setTimeout(() => {
     generateMockLiquidation();
-    mockLiquidationInterval = setInterval(generateMockLiquidation, MOCK_LIQUIDATION_INTERVAL);
+    mockLiquidationInterval = clock.setInterval(generateMockLiquidation, MOCK_LIQUIDATION_INTERVAL);
   }, 10000);
 }
 
+function createMarketState(market: Market, now: number): MarketState {
+  const currentProb = typeof market.currentProbability === 'string' ? parseFloat(market.currentProbability) : market.currentProbability;
+  return {
+    marketId: market.id,
+    currentProbability: currentProb,
+    orderBook: getOrderBookDepth(market.id),
+    lastDbUpdate: now,
+    isExotic: market.category === "Exotic Bet",
+    priceSource: createPriceSource(market, currentProb),
+    status: market.status,
+  };
+}
+
 export function startSimulation(initialMarkets: Market[]): void {
   // Stop any existing simulation
-  if (simulationInterval) {
-    clearTimeout(simulationInterval);
-  }
+  getClock().clearTimer(simulationInterval);
   
   // Initialize market states
   marketStates.clear();
-  const now = Date.now();
+  settledPrices.clear();
+  const now = getClock().now();
   
   for (const market of initialMarkets) {
-    const isExotic = market.category === "Exotic Bet";
-    const currentProb = typeof market.currentProbability === 'string' ? parseFloat(market.currentProbability) : market.currentProbability;
-    marketStates.set(market.id, {
-      marketId: market.id,
-      currentProbability: currentProb,
-      orderBook: generateOrderBook(currentProb),
-      lastDbUpdate: now,
-      isExotic,
-      hasJumped: isExotic && currentProb > 50, // Assume jumped if already high
-    });
+    if (market.resolved) {
+      settledPrices.set(market.id, market.outcome ? 100 : 0);
+      continue;
+    }
+    if (market.status === "canceled") {
+      settledPrices.set(market.id, parseFloat(market.currentProbability.toString()));
+      continue;
+    }
+    if (market.reviewStatus !== "approved") continue; // Added on approval (see marketOracle.ts)
+    marketStates.set(market.id, createMarketState(market, now));
   }
   
   const exoticCount = initialMarkets.filter(m => m.category === "Exotic Bet").length;
@@ -370,8 +390,10 @@ export function startSimulation(initialMarkets: Market[]): void {
   // Start the update loop
   scheduleNextUpdate();
   
-  // Start mock liquidation feed for demo purposes
-  startMockLiquidations();
+  // Start mock liquidation feed for demo purposes; a seeded run only reports real liquidations
+  if (!isSeeded()) {
+    startMockLiquidations();
+  }
 }
 
 export function getMarketState(marketId: number): MarketState | undefined {
@@ -389,85 +411,150 @@ export function getAllMarketStates(): MarketState[] {
 
 export function addMarket(market: Market): void {
   if (!marketStates.has(market.id)) {
-    const isExotic = market.category === "Exotic Bet";
-    const currentProb = typeof market.currentProbability === 'string' ? parseFloat(market.currentProbability) : market.currentProbability;
-    marketStates.set(market.id, {
-      marketId: market.id,
-      currentProbability: currentProb,
-      orderBook: generateOrderBook(currentProb),
-      lastDbUpdate: Date.now(),
-      isExotic,
-      hasJumped: isExotic && currentProb > 50,
-    });
+    marketStates.set(market.id, createMarketState(market, getClock().now()));
   }
 }
 
+export function setMarketStatus(marketId: number, status: MarketStatus): void {
+  const state = marketStates.get(marketId);
+  if (state) state.status = status;
+}
+
+// Switch a live market to the price source now stored on its row; the price carries over
+export function setMarketPriceSource(market: Market): boolean {
+  const state = marketStates.get(market.id);
+  if (!state) return false;
+  state.priceSource = createPriceSource(market, state.currentProbability);
+  return true;
+}
+
 export function stopSimulation(): void {
-  if (simulationInterval) {
-    clearTimeout(simulationInterval);
-    simulationInterval = null;
-  }
-  if (mockLiquidationInterval) {
-    clearInterval(mockLiquidationInterval);
-    mockLiquidationInterval = null;
-  }
+  getClock().clearTimer(simulationInterval);
+  simulationInterval = null;
+  getClock().clearTimer(mockLiquidationInterval);
+  mockLiquidationInterval = null;
 }
 
 export function removeMarket(marketId: number): void {
   marketStates.delete(marketId);
+  clearMarketBook(marketId);
+}
+
+// Take a resolved market out of the random walk, keeping its final price for combo legs
+export function settleMarketState(marketId: number, finalProbability: number): void {
+  removeMarket(marketId);
+  settledPrices.set(marketId, finalProbability);
 }
 
 export function removeMarkets(marketIds: number[]): void {
   for (const id of marketIds) {
     marketStates.delete(id);
+    clearMarketBook(id);
   }
 }
 
 // === COMBO PROBABILITY TRACKING ===
 
-// Calculate combo probability from component market probabilities
-function calculateComboProbability(legs: { marketId: number; side: "YES" | "NO" }[]): { probability: number; multiplier: number } {
-  let impliedProb = 1;
-  
+type ComboPriceResult = { probability: number; naiveProbability: number; multiplier: number };
+
+// YES price of a leg's market or combo; nestedPrice gives a tracked combo's current price
+function componentPrice(leg: ComboStateLeg, nestedPrice: (comboId: number) => number | undefined): number | undefined {
+  if (leg.comboId !== undefined) {
+    return nestedPrice(leg.comboId) ?? settledComboPrices.get(leg.comboId) ?? leg.price;
+  }
+  if (leg.marketId === undefined) return undefined;
+  return marketStates.get(leg.marketId)?.currentProbability ?? settledPrices.get(leg.marketId) ?? leg.price;
+}
+
+// Parlays: market legs go through the copula, legs on other parlays multiply in as independent.
+// Baskets: weighted average of the legs' prices, NO legs counting as 100 - price.
+function calculateComboProbability(
+  kind: ComboKind,
+  legs: ComboStateLeg[],
+  nestedPrice: (comboId: number) => number | undefined = (comboId) => comboStates.get(comboId)?.currentProbability
+): ComboPriceResult {
+  if (kind === "basket") {
+    let weighted = 0;
+    let totalWeight = 0;
+    for (const leg of legs) {
+      const price = componentPrice(leg, nestedPrice);
+      if (price === undefined) continue;
+      const weight = leg.weight ?? 1;
+      weighted += weight * (leg.side === "YES" ? price : 100 - price);
+      totalWeight += weight;
+    }
+    const value = totalWeight > 0 ? weighted / totalWeight : 0;
+    return { probability: value, naiveProbability: value, multiplier: value > 0 ? Math.min(100 / value, 999) : 999 };
+  }
+
+  const priced = [];
+  let nestedWin = 1;
   for (const leg of legs) {
-    const marketState = marketStates.get(leg.marketId);
-    if (!marketState) continue;
-    
-    const marketProb = marketState.currentProbability / 100;
-    const legProb = leg.side === "YES" ? marketProb : (1 - marketProb);
-    impliedProb *= legProb;
+    const currentProbability = componentPrice(leg, nestedPrice);
+    if (currentProbability === undefined) continue;
+    if (leg.comboId !== undefined) {
+      nestedWin *= (leg.side === "YES" ? currentProbability : 100 - currentProbability) / 100;
+    } else {
+      priced.push({ marketId: leg.marketId!, side: leg.side, probability: currentProbability });
+    }
   }
   
-  const probability = impliedProb * 100; // Convert back to 0-100 scale
-  const multiplier = impliedProb > 0 ? Math.min(1 / impliedProb, 999) : 999;
+  const { naive, correlated } = priceCombo(priced);
+  const probability = correlated * nestedWin;
+  const multiplier = probability > 0 ? Math.min(100 / probability, 999) : 999;
   
-  return { probability, multiplier };
+  return { probability, naiveProbability: naive * nestedWin, multiplier };
+}
+
+// Prices a combo definition at current prices without tracking it (creation, voided legs)
+export function priceComboDefinition(kind: ComboKind, legs: ComboStateLeg[]): ComboPriceResult {
+  return calculateComboProbability(kind, legs);
 }
 
-// Update all combo probabilities based on current market prices
+// Update all combo probabilities based on current market prices. Nested combos are refreshed
+// before the combos holding them; a cycle (rejected at creation) would price off the last tick.
 function updateComboProbabilities(): void {
-  for (const [comboId, state] of Array.from(comboStates.entries())) {
-    const { probability, multiplier } = calculateComboProbability(state.legs);
+  const refreshed = new Set<number>();
+  const visiting = new Set<number>();
+  const refresh = (comboId: number): number | undefined => {
+    const state = comboStates.get(comboId);
+    if (!state) return undefined;
+    if (refreshed.has(comboId) || visiting.has(comboId)) return state.currentProbability;
+    visiting.add(comboId);
+    const { probability, naiveProbability, multiplier } = calculateComboProbability(state.kind, state.legs, refresh);
     state.currentProbability = Number(probability.toFixed(6));
+    state.naiveProbability = Number(naiveProbability.toFixed(6));
     state.multiplier = Number(multiplier.toFixed(2));
     state.orderBook = generateOrderBook(state.currentProbability);
-  }
+    visiting.delete(comboId);
+    refreshed.add(comboId);
+    return state.currentProbability;
+  };
+  for (const comboId of Array.from(comboStates.keys())) refresh(comboId);
 }
 
 // Register a combo for live probability tracking
-export function registerCombo(comboId: number, legs: { marketId: number; side: "YES" | "NO" }[]): void {
+export function registerCombo(comboId: number, legs: ComboStateLeg[], kind: ComboKind = "parlay"): void {
   if (comboStates.has(comboId)) return;
   
-  const { probability, multiplier } = calculateComboProbability(legs);
+  const { probability, naiveProbability, multiplier } = calculateComboProbability(kind, legs);
   comboStates.set(comboId, {
     comboId,
+    kind,
     legs,
     currentProbability: probability,
+    naiveProbability,
     multiplier,
     orderBook: generateOrderBook(probability),
   });
 }
 
+// Stop tracking a resolved combo, keeping its final price for the combos holding it
+export function settleComboState(comboId: number, finalProbability: number): void {
+  comboStates.delete(comboId);
+  settledComboPrices.set(comboId, finalProbability);
+}
+
 // Remove a combo from tracking
 export function unregisterCombo(comboId: number): void {
   comboStates.delete(comboId);
@@ -1,40 +1,369 @@
-import { users, markets, positions, trades, customCombos, userProfiles, orders, orderExecutions, comboPositions } from "@shared/schema";
-import type { InsertMarket, InsertPosition, InsertTrade, Market, Position, Trade, UpsertUser, User, CustomCombo, CustomComboLeg, CustomComboResponse, UserProfile, Order, InsertOrder, OrderExecution, InsertOrderExecution, ComboPosition } from "@shared/schema";
+import { users, markets, positions, trades, priceTicks, customCombos, userProfiles, orders, orderExecutions, orderGroups, comboPositions, comboPositionListings, marketBonds, notifications, marketSettlements, adminAuditLog, ledgerEntries, fundingRates, insuranceFundEvents, marketRiskParams, marketCorrelations, systemSettings } from "@shared/schema";
+import type { InsertMarket, InsertPosition, InsertTrade, Market, Position, Trade, UpsertUser, User, CustomCombo, CustomComboLeg, CustomComboResponse, ComboKind, UserProfile, Order, InsertOrder, OrderExecution, InsertOrderExecution, OrderGroup, ComboPosition, ComboPositionListing, MarketBond, MarketBondKind, Notification, InsertNotification, MarketStatus, MarketStatusReason, MarketSettlement, LedgerEntry, LedgerEntryType, PriceSourceType, FundingRate, InsuranceFundEvent, MarginMode, MarketRiskParamsRow, MarketCorrelationRow } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and, or, sql } from "drizzle-orm";
+import { eq, desc, and, or, gt, gte, sql, isNull, inArray } from "drizzle-orm";
+import { randomUUID } from "crypto";
 import { authStorage } from "./replit_integrations/auth/storage"; // Import auth storage
 
+// Thrown by openPosition when the locked balance cannot cover the required margin
+export class InsufficientMarginError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InsufficientMarginError";
+  }
+}
+
+// Thrown by openPosition when the position would break a risk limit (see checkNewExposure in riskParams.ts)
+export class ExposureLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ExposureLimitError";
+  }
+}
+
+// Thrown by openComboPosition, fillComboListing and the market bond methods when the locked balance cannot cover the amount
+export class InsufficientBalanceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InsufficientBalanceError";
+  }
+}
+
+export interface OpenPositionInput {
+  userId: string;
+  marketId: number;
+  side: "YES" | "NO";
+  size: number; // Notional size
+  leverage: number;
+  entryProbability: number;
+  liquidationProbability: number;
+  marginMode?: MarginMode; // Defaults to cross
+  feeBps?: number; // Taker rate charged on the notional
+  // Margin rule evaluated against the locked balance; returns an error message to reject.
+  // Without it the cash balance alone must cover the margin and fee.
+  checkMargin?: (cashBalance: number, openPositions: (Position & { market: Market })[]) => string | null;
+  // Risk limits evaluated once the user row and the market's exposure lock are held, so concurrent
+  // opens see each other's positions; reads go through the transaction. Returns an error message
+  // to reject.
+  checkExposure?: (reader: ExposureReader) => Promise<string | null>;
+}
+
+// Position reads for the risk checks (see checkNewExposure in riskParams.ts); storage itself is
+// one, and openPosition passes one bound to its transaction
+export interface ExposureReader {
+  getOpenPositions(userId: string): Promise<Position[]>;
+  getOpenPositionsForMarket(marketId: number): Promise<Position[]>;
+}
+
+export interface OpenComboPositionInput {
+  userId: string;
+  comboId: number;
+  side: "YES" | "NO";
+  stake: number;
+  fee: number; // Taker fee on the leveraged notional, paid on top of the stake
+  leverage: number;
+  entryProbability: string;
+  lockDate: Date;
+}
+
+export interface FillOrderInput {
+  orderId: number;
+  executionSize: number;
+  executionPrice: number;
+  liquidationProbability: number;
+  recordTrade: boolean;
+  liquidity: "maker" | "taker";
+  feeBps?: number;
+}
+
+// Outcome of fillOrderPair: both positions, or the side that could not fill (cancelled when it
+// could not cover its margin)
+export type OrderPairFill =
+  | { makerPosition: Position; takerPosition: Position }
+  | { failed: "maker" | "taker"; cancelled?: boolean };
+
+function isFillableOrder(order: Order): boolean {
+  const isLive = order.status === "active" || order.status === "partial" || order.status === "pending";
+  return isLive && order.remainingSize > 0;
+}
+
+// Margin plus fee for the fill against the locked user's balance
+function canCoverFill(user: User, order: Order, input: FillOrderInput): boolean {
+  const executionSize = Math.min(input.executionSize, order.remainingSize);
+  const margin = Math.ceil(executionSize / (order.leverage || 1));
+  const fee = calculateFee(executionSize, input.feeBps ?? 0);
+  return parseFloat(user.balance || "0") >= margin + fee;
+}
+
+// Liquidation: the close plus what happened to any loss beyond margin. penalty went to the
+// insurance fund; insuranceCovered of the shortfall came out of it and uncoveredShortfall is left
+// for auto-deleveraging.
+export interface LiquidationResult {
+  closedPosition: Position;
+  remainingPosition: Position | null; // Set when only part of the position was liquidated
+  closeSize: number;
+  margin: number;
+  pnl: number; // Capped at -margin
+  penalty: number;
+  shortfall: number;
+  insuranceCovered: number;
+  uncoveredShortfall: number;
+  fundBalance: number; // Insurance fund after this liquidation
+}
+
+export interface AdjustMarginInput {
+  positionId: number;
+  amount: number; // Positive moves cash into the position's margin, negative returns it
+  currentProbability: number;
+  // Liquidation price of the position with its new margin (the riskEngine bankruptcy price)
+  liquidationPriceFor: (adjusted: Position) => number;
+}
+
+export interface PositionCloseResult {
+  closedPosition: Position;
+  remainingPosition: Position | null;
+  closeSize: number;
+  margin: number; // Margin released for the closed size
+  pnl: number;
+  fee: number;
+  balanceChange: number; // margin + pnl - fee credited to the user
+}
+
+// A combo leg whose market or combo was canceled: the combo is repriced on the remaining legs
+// and the entry of every open position is adjusted so the void itself neither pays nor costs
+// holders anything. Parlay entries are divided by the voided leg's probability; basket entries
+// move by the change in basket value.
+export interface VoidComboLegInput {
+  comboId: number;
+  legs: CustomComboLeg[]; // With the leg marked voided
+  impliedProbability: string;
+  multiplier: string;
+  legProbability: number; // 0-1; parlays
+  entryShift?: number; // Probability points; baskets
+}
+
+export interface ComboPositionSettlement {
+  exitProbability: number;
+  pnl: number;
+  payout: number; // Credited to cash from the house account
+  penalty?: number; // Early exit penalty, back to the house account
+  fee?: number;
+  status: "settled" | "cancelled";
+  memo: string;
+}
+
+export interface ComboListingFill {
+  listing: ComboPositionListing;
+  position: ComboPosition;
+}
+
+export interface MarketProposal {
+  outcome: boolean;
+  proposedBy: string; // Wallet address
+  livenessEndsAt: Date;
+}
+
+export interface MarketBondSettlement {
+  status: "refunded" | "slashed";
+  recipientId?: string | null; // Slashed bonds: who receives the amount (null = house)
+  memo: string;
+}
+
+export interface MarketCancellation {
+  market: Market;
+  slashedBond?: MarketBond; // Creation bond forfeited to the house by the cancellation
+}
+
+// Realized PnL taken back from (or, for a loss, returned to) a user when a market is canceled
+export interface PnlReversal {
+  positionId: number;
+  userId: string;
+  pnl: number; // PnL originally realized on the position
+  reversed: number; // Signed change to the user's balance
+  shortfall: number; // Profit that could not be clawed back because the balance ran out
+}
+
+// Ledger accounts (see ledgerEntries in shared/schema.ts)
+export const LEDGER_ACCOUNTS = {
+  house: "house", // Counterparty for realized PnL, funding and combo stakes/payouts
+  fees: "fees",
+  insurance: "insurance", // Liquidation penalties in, shortfalls out
+  admin: "admin", // Manual balance adjustments
+  equity: "equity", // Opening balances and resets
+  comboMarket: "combo_market", // Clearing for combo position sales: buyer pays in, seller is paid out
+  marketBonds: "market_bonds", // Creation, proposal and dispute bonds held until refunded or slashed
+} as const;
+
+// Fee in USD for a notional at a rate in basis points, rounded to the cent
+export function calculateFee(notional: number, bps: number): number {
+  if (bps <= 0 || notional <= 0) return 0;
+  return Math.round(notional * bps / 100) / 100; // bps / 10000, in cents
+}
+
+// Statuses in which an outcome can be proposed and a proposal settled (see marketOracle.ts)
+const PROPOSABLE_STATUSES: MarketStatus[] = ["active", "halted", "close_only", "awaiting_resolution"];
+
+// Advisory lock key serializing insurance fund movements
+const INSURANCE_FUND_LOCK = 7301;
+// Advisory lock class, keyed by market id, serializing new positions against the open interest cap
+const MARKET_EXPOSURE_LOCK = 7302;
+
+export function cashAccount(userId: string): string {
+  return `cash:${userId}`;
+}
+
+export function marginAccount(userId: string): string {
+  return `margin:${userId}`;
+}
+
+// One change to a user's cash balance, booked against counterAccount
+export interface BalancePosting {
+  entryType: LedgerEntryType;
+  amount: number;
+  counterAccount: string;
+  referenceType?: string;
+  referenceId?: number;
+  memo?: string;
+}
+
+export type BalanceEntry = Omit<BalancePosting, "amount">;
+
+export interface LedgerReconciliationRow {
+  userId: string;
+  walletAddress: string | null;
+  balance: number;
+  ledgerBalance: number;
+}
+
+// One aggregation bucket of price history (see getCandleBuckets)
+export interface CandleBucket {
+  bucketStart: Date;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number; // Traded notional; simulation ticks carry none
+}
+
+// An order execution with the order fields a fills feed needs
+export type Fill = OrderExecution & { marketId: number; side: Order["side"]; orderType: Order["orderType"] };
+
 export interface IStorage {
   // User methods (delegated to authStorage)
   getUser(id: string): Promise<User | undefined>;
   upsertUser(user: UpsertUser): Promise<User>;
-  updateUserBalance(userId: string, amount: number): Promise<User | undefined>;
+  updateUserBalance(userId: string, amount: number, entry: BalanceEntry): Promise<User | undefined>;
+  setUserBalance(userId: string, newBalance: number, entry: BalanceEntry): Promise<User | undefined>;
+  recordOpeningBalance(userId: string): Promise<void>;
+
+  // Ledger methods
+  getLedgerEntries(userId: string, limit: number): Promise<LedgerEntry[]>;
+  getLedgerReconciliation(): Promise<LedgerReconciliationRow[]>;
+  getUnbalancedLedgerTransactions(): Promise<{ transactionId: string; total: number }[]>;
+  getLedgerAccountBalance(account: string): Promise<number>;
+  backfillOpeningBalances(): Promise<number>;
 
   // Market methods
   getMarkets(): Promise<Market[]>;
   getMarket(id: number): Promise<Market | undefined>;
   createMarket(market: InsertMarket): Promise<Market>;
-  resolveMarket(id: number, outcome: boolean): Promise<Market>;
+  resolveMarket(id: number, outcome: boolean): Promise<Market | undefined>;
+  updateMarketPriceSource(id: number, priceSource: PriceSourceType, config: object): Promise<Market | undefined>;
+  updateMarketStatus(id: number, from: MarketStatus[], to: MarketStatus, reason: MarketStatusReason | null): Promise<Market | undefined>;
+  createMarketSettlement(settlement: Omit<MarketSettlement, "id" | "createdAt">): Promise<MarketSettlement>;
+  getMarketSettlement(marketId: number): Promise<MarketSettlement | undefined>;
+  updateMarketSettlement(id: number, updates: Partial<Omit<MarketSettlement, "id" | "marketId" | "createdAt">>): Promise<MarketSettlement>;
+  getResolvedMarketsPendingSettlement(): Promise<Market[]>;
+  getCanceledMarketsPendingVoid(comboLegMarketIds: number[]): Promise<Market[]>;
+
+  // Permissionless market review, optimistic resolution and bonds
+  createBondedMarket(market: InsertMarket, creatorId: string, bond: number): Promise<Market>;
+  reviewMarket(id: number, decision: "approved" | "rejected", slashCreationBond: boolean): Promise<MarketCancellation | undefined>;
+  getMarketsPendingReview(): Promise<Market[]>;
+  proposeMarketOutcome(marketId: number, userId: string, proposal: MarketProposal, bond: number): Promise<Market | undefined>;
+  disputeMarketProposal(marketId: number, userId: string, disputedBy: string, bond: number, now: Date): Promise<Market | undefined>;
+  getDisputedMarkets(): Promise<Market[]>;
+  getExpiredProposals(now: Date): Promise<Market[]>;
+  getMarketBonds(marketId: number): Promise<MarketBond[]>;
+  settleMarketBond(id: number, settlement: MarketBondSettlement): Promise<MarketBond | undefined>;
+  recordAuditEvent(action: string, targetWallet: string | null, details: object): Promise<void>;
+  cancelMarket(id: number, lastProbability: number, slashCreationBond: boolean): Promise<MarketCancellation | undefined>;
+  getSettledMarketsWithHeldBonds(): Promise<Market[]>;
+  getClosedPositionsForMarket(marketId: number): Promise<Position[]>;
+  reverseRealizedPnl(positionId: number, memo: string): Promise<PnlReversal | null>;
+
+  // Notification methods
+  createNotifications(rows: InsertNotification[]): Promise<Notification[]>;
+  getNotifications(userId: string, limit?: number): Promise<Notification[]>;
+  markNotificationsRead(userId: string): Promise<number>;
   
   // Position methods
   getPositions(userId: string): Promise<(Position & { market: Market })[]>;
+  getOpenPositions(userId: string, closedSince?: Date): Promise<(Position & { market: Market })[]>;
   getPositionsByMarket(userId: string, marketId: number): Promise<(Position & { market: Market })[]>;
   getPosition(id: number): Promise<Position | undefined>;
   getAllOpenPositions(): Promise<(Position & { market: Market })[]>;
   getAllPositions(): Promise<Position[]>;
+  getOpenPositionsForMarket(marketId: number): Promise<Position[]>;
   createPosition(position: InsertPosition & { userId: string, entryProbability: string, liquidationProbability: string }): Promise<Position>;
   closePosition(id: number, pnl: number): Promise<Position>;
-  liquidatePosition(id: number, currentProbability: number): Promise<Position | null>;
+  liquidatePosition(id: number, currentProbability: number, penaltyRate: number, closeSize?: number): Promise<LiquidationResult | null>;
   partialClosePosition(id: number, closePercent: number, pnl: number): Promise<{ closedPosition: Position; remainingPosition: Position | null; closeSize: number }>;
   
+  // Transactional unit-of-work methods: each runs in one transaction holding a row lock
+  // on the user, so the balance can never drift from the positions and orders it backs
+  openPosition(input: OpenPositionInput): Promise<Position>;
+  closePositionAtPrice(id: number, exitProbability: number, closePercent?: number, feeBps?: number): Promise<PositionCloseResult | null>;
+  fillOrder(input: FillOrderInput): Promise<Position | null>;
+  fillOrderPair(maker: FillOrderInput, taker: FillOrderInput): Promise<OrderPairFill>;
+  triggerProtectiveOrder(orderId: number, exitProbability: number, feeBps?: number): Promise<PositionCloseResult | null>;
+  applyFundingPayment(positionId: number, amount: number, memo: string): Promise<boolean>;
+  adjustPositionMargin(input: AdjustMarginInput): Promise<Position | null>;
+  deleveragePosition(id: number, exitProbability: number, closeSize: number): Promise<PositionCloseResult | null>;
+
+  // Insurance fund
+  getInsuranceFundEvents(limit: number): Promise<InsuranceFundEvent[]>;
+  recordInsuranceFundEvent(event: Omit<InsuranceFundEvent, "id" | "createdAt" | "fundBalanceAfter">): Promise<InsuranceFundEvent>;
+  depositInsuranceFund(amount: number, memo: string): Promise<number>;
+
+  // Funding
+  createFundingRate(rate: Omit<FundingRate, "id">): Promise<FundingRate>;
+  getFundingHistory(marketId: number, limit: number): Promise<FundingRate[]>;
+
+  // Risk parameters
+  getMarketRiskParams(): Promise<MarketRiskParamsRow[]>;
+  upsertMarketRiskParams(params: Omit<MarketRiskParamsRow, "updatedAt">): Promise<MarketRiskParamsRow>;
+  deleteMarketRiskParams(marketId: number): Promise<boolean>;
+  getMarketCorrelations(): Promise<MarketCorrelationRow[]>;
+  upsertMarketCorrelation(correlation: Omit<MarketCorrelationRow, "updatedAt">): Promise<MarketCorrelationRow>;
+  deleteMarketCorrelation(marketIdA: number, marketIdB: number): Promise<boolean>;
+
+  // System settings (JSON values keyed by name)
+  getSystemSetting(key: string): Promise<string | undefined>;
+  setSystemSetting(key: string, value: string): Promise<void>;
+
   // Trade methods
   getTrades(marketId: number): Promise<Trade[]>;
+  getTradesSince(marketId: number, afterId: number): Promise<Trade[]>;
   createTrade(trade: InsertTrade): Promise<Trade>;
+  getTradingVolume(userId: string, since: Date): Promise<number>;
+
+  // Price history methods
+  recordPriceTicks(ticks: { marketId: number; price: number }[]): Promise<void>;
+  getCandleBuckets(marketId: number, bucketSeconds: number, from: Date, to: Date): Promise<CandleBucket[]>;
+  getLastPriceBefore(marketId: number, before: Date): Promise<number | null>;
+  prunePriceTicks(before: Date): Promise<number>;
 
   // Custom Combo methods
   getCustomCombos(): Promise<CustomComboResponse[]>;
   getCustomCombo(id: number): Promise<CustomComboResponse | undefined>;
-  createCustomCombo(combo: { name: string; creatorId: string; creatorAddress?: string; legs: CustomComboLeg[]; impliedProbability: string; multiplier: string }): Promise<CustomComboResponse>;
+  createCustomCombo(combo: { name: string; kind?: ComboKind; creatorId: string; creatorAddress?: string; legs: CustomComboLeg[]; impliedProbability: string; multiplier: string; curated?: boolean; expiresAt?: Date | null }): Promise<CustomComboResponse>;
+  getActiveCustomCombos(): Promise<CustomComboResponse[]>;
+  getClosedCombosWithOpenPositions(): Promise<CustomComboResponse[]>;
+  getCuratedCombos(): Promise<CustomComboResponse[]>;
+  retireCuratedCombo(id: number): Promise<CustomComboResponse | undefined>;
+  voidComboLeg(input: VoidComboLegInput): Promise<CustomComboResponse | undefined>;
+  resolveCustomCombo(id: number, status: "resolved" | "canceled", outcome: boolean | null, finalProbability?: number): Promise<CustomComboResponse | undefined>;
 
   // User Profile methods
   getProfile(walletAddress: string): Promise<UserProfile | undefined>;
@@ -42,6 +371,7 @@ export interface IStorage {
 
   // Order methods
   getOrders(userId: string): Promise<Order[]>;
+  getOpenOrders(userId: string, changedSince?: Date): Promise<Order[]>;
   getOrdersByMarket(userId: string, marketId: number): Promise<Order[]>;
   getOrder(id: number): Promise<Order | undefined>;
   getActiveOrders(): Promise<Order[]>;
@@ -50,21 +380,36 @@ export interface IStorage {
   cancelOrder(id: number): Promise<Order>;
   createOrderExecution(execution: InsertOrderExecution): Promise<OrderExecution>;
   getOrderExecutions(orderId: number): Promise<OrderExecution[]>;
+  getRecentFills(userId: string, limit?: number): Promise<Fill[]>;
+
+  // Order group methods (oco / oto / bracket)
+  createOrderGroup(
+    group: Pick<OrderGroup, "userId" | "marketId" | "groupType">,
+    entry: (InsertOrder & { userId: string }) | null,
+    members: (InsertOrder & { userId: string })[]
+  ): Promise<{ group: OrderGroup; orders: Order[] }>;
+  getOrderGroup(id: number): Promise<OrderGroup | undefined>;
+  getOrderGroupsByMarket(userId: string, marketId: number): Promise<(OrderGroup & { orders: Order[] })[]>;
+  getActiveOrderGroups(): Promise<OrderGroup[]>;
+  getOrdersByGroup(groupId: number): Promise<Order[]>;
+  updateOrderGroup(id: number, updates: Partial<OrderGroup>): Promise<OrderGroup>;
+  activateChildOrders(parentOrderId: number, position: Position): Promise<Order[]>;
 
   // Combo Position methods
   getComboPositions(userId: string): Promise<(ComboPosition & { combo: CustomComboResponse })[]>;
   getComboPosition(id: number): Promise<ComboPosition | undefined>;
   getAllOpenComboPositions(): Promise<ComboPosition[]>;
-  createComboPosition(position: {
-    userId: string;
-    comboId: number;
-    side: "YES" | "NO";
-    stake: number;
-    leverage: number;
-    entryProbability: string;
-    lockDate: Date;
-  }): Promise<ComboPosition>;
+  openComboPosition(position: OpenComboPositionInput): Promise<ComboPosition>;
   closeComboPosition(id: number, pnl: number, exitProbability: string, status?: "settled" | "cancelled"): Promise<ComboPosition>;
+  getOpenComboPositionsForCombo(comboId: number): Promise<ComboPosition[]>;
+  settleComboPosition(id: number, settlement: ComboPositionSettlement): Promise<ComboPosition | undefined>;
+
+  // Combo position listings (secondary market)
+  getComboListing(id: number): Promise<ComboPositionListing | undefined>;
+  getOpenComboListings(): Promise<(ComboPositionListing & { position: ComboPosition; combo: CustomComboResponse })[]>;
+  createComboListing(positionId: number, sellerId: string, price: number): Promise<ComboPositionListing | undefined>;
+  cancelComboListing(id: number, sellerId: string): Promise<ComboPositionListing | undefined>;
+  fillComboListing(id: number, buyerId: string, fee: number): Promise<ComboListingFill | undefined>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -73,20 +418,103 @@ export class DatabaseStorage implements IStorage {
     return authStorage.getUser(id);
   }
 
+  // A user created here starts the ledger with an opening entry, like the wallet sign-up path
   async upsertUser(user: UpsertUser): Promise<User> {
-    return authStorage.upsertUser(user);
+    const upserted = await authStorage.upsertUser(user);
+    await this.recordOpeningBalance(upserted.id);
+    return upserted;
   }
 
-  async updateUserBalance(userId: string, amount: number): Promise<User | undefined> {
-    // Use NUMERIC for proper decimal arithmetic, then convert back to VARCHAR
-    const [updated] = await db
-      .update(users)
-      .set({
-        balance: sql`CAST(CAST(${users.balance} AS NUMERIC) + ${amount} AS VARCHAR)`,
-      })
-      .where(eq(users.id, userId))
-      .returning();
-    return updated;
+  async updateUserBalance(userId: string, amount: number, entry: BalanceEntry): Promise<User | undefined> {
+    return await db.transaction(async (tx: typeof db) => {
+      const user = await this.lockUser(tx, userId);
+      if (!user) return undefined;
+      return this.postBalanceChanges(tx, userId, [{ ...entry, amount }]);
+    });
+  }
+
+  // Set an absolute balance (admin tools, resets), booking the difference to the ledger
+  async setUserBalance(userId: string, newBalance: number, entry: BalanceEntry): Promise<User | undefined> {
+    return await db.transaction(async (tx: typeof db) => {
+      const user = await this.lockUser(tx, userId);
+      if (!user) return undefined;
+      const delta = newBalance - parseFloat(user.balance || "0");
+      if (delta === 0) return user;
+      return this.postBalanceChanges(tx, userId, [{ ...entry, amount: delta }]);
+    });
+  }
+
+  // Record a freshly created account's starting balance (the balance itself is already set). No-op
+  // once the account has any ledger entry.
+  async recordOpeningBalance(userId: string): Promise<void> {
+    await db.transaction(async (tx: typeof db) => {
+      const user = await this.lockUser(tx, userId);
+      if (!user) return;
+      const [existing] = await tx.select({ id: ledgerEntries.id }).from(ledgerEntries).where(eq(ledgerEntries.account, cashAccount(userId))).limit(1);
+      if (existing) return;
+      const balance = parseFloat(user.balance || "0");
+      await this.insertLedgerLegs(tx, userId, balance, [{
+        entryType: "opening_balance",
+        amount: balance,
+        counterAccount: LEDGER_ACCOUNTS.equity,
+      }]);
+    });
+  }
+
+  // Ledger
+  async getLedgerEntries(userId: string, limit: number): Promise<LedgerEntry[]> {
+    return await db
+      .select()
+      .from(ledgerEntries)
+      .where(eq(ledgerEntries.account, cashAccount(userId)))
+      .orderBy(desc(ledgerEntries.id))
+      .limit(limit);
+  }
+
+  async getLedgerReconciliation(): Promise<LedgerReconciliationRow[]> {
+    const result = await db.execute(sql`
+      SELECT u.id AS user_id, u.wallet_address, COALESCE(u.balance, '0') AS balance,
+        COALESCE(SUM(l.amount), 0) AS ledger_balance
+      FROM users u
+      LEFT JOIN ledger_entries l ON l.account = 'cash:' || u.id
+      GROUP BY u.id, u.wallet_address, u.balance
+    `);
+    return result.rows.map((r: Record<string, unknown>) => ({
+      userId: String(r.user_id),
+      walletAddress: r.wallet_address ? String(r.wallet_address) : null,
+      balance: parseFloat(String(r.balance)),
+      ledgerBalance: parseFloat(String(r.ledger_balance)),
+    }));
+  }
+
+  // Sum of every leg posted to an account, e.g. LEDGER_ACCOUNTS.fees for fees collected
+  async getLedgerAccountBalance(account: string): Promise<number> {
+    return this.getAccountBalance(db, account);
+  }
+
+  async getUnbalancedLedgerTransactions(): Promise<{ transactionId: string; total: number }[]> {
+    const result = await db.execute(sql`
+      SELECT transaction_id, SUM(amount) AS total
+      FROM ledger_entries
+      GROUP BY transaction_id
+      HAVING ABS(SUM(amount)) > 0.00000001
+    `);
+    return result.rows.map((r: Record<string, unknown>) => ({
+      transactionId: String(r.transaction_id),
+      total: parseFloat(String(r.total)),
+    }));
+  }
+
+  // Give accounts that predate the ledger an opening entry equal to their current balance
+  async backfillOpeningBalances(): Promise<number> {
+    const missing = await db.execute(sql`
+      SELECT u.id FROM users u
+      WHERE NOT EXISTS (SELECT 1 FROM ledger_entries l WHERE l.account = 'cash:' || u.id)
+    `);
+    for (const row of missing.rows as { id: string }[]) {
+      await this.recordOpeningBalance(row.id);
+    }
+    return missing.rows.length;
   }
 
   // Markets
@@ -107,7 +535,8 @@ export class DatabaseStorage implements IStorage {
     return newMarket;
   }
 
-  async resolveMarket(id: number, outcome: boolean): Promise<Market> {
+  async resolveMarket(id: number, outcome: boolean): Promise<Market | undefined> {
+    // Atomic update: only resolve once, and never a canceled market (a concurrent resolve gets undefined back)
     const [updated] = await db
       .update(markets)
       .set({
@@ -117,11 +546,312 @@ export class DatabaseStorage implements IStorage {
         status: "resolved",
         currentProbability: outcome ? "100" : "0", // Set to $1 or $0
       })
+      .where(and(eq(markets.id, id), sql`${markets.resolved} IS NOT TRUE`, sql`${markets.status} <> 'canceled'`))
+      .returning();
+    return updated;
+  }
+
+  async updateMarketPriceSource(id: number, priceSource: PriceSourceType, config: object): Promise<Market | undefined> {
+    const [updated] = await db
+      .update(markets)
+      .set({ priceSource, priceSourceConfig: JSON.stringify(config) })
       .where(eq(markets.id, id))
       .returning();
     return updated;
   }
 
+  // Conditional on the current status so concurrent transitions cannot clobber each other
+  async updateMarketStatus(id: number, from: MarketStatus[], to: MarketStatus, reason: MarketStatusReason | null): Promise<Market | undefined> {
+    const [updated] = await db
+      .update(markets)
+      .set({ status: to, statusReason: reason, statusChangedAt: new Date() })
+      .where(and(eq(markets.id, id), inArray(markets.status, from), sql`${markets.resolved} IS NOT TRUE`))
+      .returning();
+    return updated;
+  }
+
+  async createMarketSettlement(settlement: Omit<MarketSettlement, "id" | "createdAt">): Promise<MarketSettlement> {
+    const [created] = await db.insert(marketSettlements).values(settlement).returning();
+    return created;
+  }
+
+  async getMarketSettlement(marketId: number): Promise<MarketSettlement | undefined> {
+    const [settlement] = await db
+      .select()
+      .from(marketSettlements)
+      .where(eq(marketSettlements.marketId, marketId))
+      .orderBy(desc(marketSettlements.createdAt));
+    return settlement;
+  }
+
+  async updateMarketSettlement(id: number, updates: Partial<Omit<MarketSettlement, "id" | "marketId" | "createdAt">>): Promise<MarketSettlement> {
+    const [updated] = await db.update(marketSettlements).set(updates).where(eq(marketSettlements.id, id)).returning();
+    return updated;
+  }
+
+  // Resolved markets with positions still open or no settlement report yet
+  async getResolvedMarketsPendingSettlement(): Promise<Market[]> {
+    return await db
+      .select()
+      .from(markets)
+      .where(and(
+        eq(markets.resolved, true),
+        or(
+          sql`EXISTS (SELECT 1 FROM ${positions} WHERE ${positions.marketId} = ${markets.id} AND ${positions.status} = 'open')`,
+          sql`NOT EXISTS (SELECT 1 FROM ${marketSettlements} WHERE ${marketSettlements.marketId} = ${markets.id})`
+        )
+      ));
+  }
+
+  // Canceled markets that still have open positions, or one of the given ids (markets an active
+  // combo still has a leg on)
+  async getCanceledMarketsPendingVoid(comboLegMarketIds: number[]): Promise<Market[]> {
+    const openPositions = sql`EXISTS (SELECT 1 FROM ${positions} WHERE ${positions.marketId} = ${markets.id} AND ${positions.status} = 'open')`;
+    return await db
+      .select()
+      .from(markets)
+      .where(and(
+        eq(markets.status, "canceled"),
+        comboLegMarketIds.length > 0 ? or(openPositions, inArray(markets.id, comboLegMarketIds)) : openPositions
+      ));
+  }
+
+  // Debits the creation bond and creates the market, pending review, in one transaction
+  async createBondedMarket(market: InsertMarket, creatorId: string, bond: number): Promise<Market> {
+    return await db.transaction(async (tx: typeof db) => {
+      const [created] = await tx.insert(markets).values({
+        ...market,
+        currentProbability: (market.currentProbability ?? 50).toString(),
+        reviewStatus: "pending",
+      }).returning();
+      await this.postMarketBond(tx, created.id, creatorId, "creation", bond);
+      return created;
+    });
+  }
+
+  // Only pending markets can be reviewed; a rejected market is canceled
+  // A rejection cancels the market; a creation bond forfeited by it is slashed in the same
+  // transaction, as in cancelMarket
+  async reviewMarket(id: number, decision: "approved" | "rejected", slashCreationBond: boolean): Promise<MarketCancellation | undefined> {
+    return await db.transaction(async (tx: typeof db) => {
+      const [market] = await tx
+        .update(markets)
+        .set(decision === "rejected" ? { reviewStatus: decision, status: "canceled" } : { reviewStatus: decision })
+        .where(and(eq(markets.id, id), eq(markets.reviewStatus, "pending")))
+        .returning();
+      if (!market) return undefined;
+
+      const slashedBond = decision === "rejected" && slashCreationBond
+        ? await this.slashCreationBond(tx, id, `Slashed: market ${id} rejected in review`)
+        : undefined;
+      return { market, slashedBond };
+    });
+  }
+
+  async getMarketsPendingReview(): Promise<Market[]> {
+    return await db.select().from(markets).where(eq(markets.reviewStatus, "pending")).orderBy(markets.createdAt);
+  }
+
+  // Records the proposal and debits its bond; undefined if the market is not open for a proposal
+  // (unapproved, resolved, canceled, or already proposed)
+  async proposeMarketOutcome(marketId: number, userId: string, proposal: MarketProposal, bond: number): Promise<Market | undefined> {
+    return await db.transaction(async (tx: typeof db) => {
+      const [market] = await tx.select().from(markets).where(eq(markets.id, marketId)).for("update");
+      if (!market || market.resolved || !PROPOSABLE_STATUSES.includes(market.status) || market.reviewStatus !== "approved" || market.proposedAt) {
+        return undefined;
+      }
+      await this.postMarketBond(tx, marketId, userId, "proposal", bond);
+      const [updated] = await tx
+        .update(markets)
+        .set({
+          proposedOutcome: proposal.outcome,
+          proposedBy: proposal.proposedBy,
+          proposedAt: new Date(),
+          livenessEndsAt: proposal.livenessEndsAt,
+        })
+        .where(eq(markets.id, marketId))
+        .returning();
+      return updated;
+    });
+  }
+
+  // Records the dispute and debits its bond; undefined unless the proposal is undisputed and its
+  // liveness window is still open
+  async disputeMarketProposal(marketId: number, userId: string, disputedBy: string, bond: number, now: Date): Promise<Market | undefined> {
+    return await db.transaction(async (tx: typeof db) => {
+      const [market] = await tx.select().from(markets).where(eq(markets.id, marketId)).for("update");
+      if (!market || market.resolved || market.status === "canceled" || !market.proposedAt || market.disputedAt) return undefined;
+      if (!market.livenessEndsAt || market.livenessEndsAt <= now) return undefined;
+      await this.postMarketBond(tx, marketId, userId, "dispute", bond);
+      const [updated] = await tx
+        .update(markets)
+        .set({ disputedBy, disputedAt: new Date() })
+        .where(eq(markets.id, marketId))
+        .returning();
+      return updated;
+    });
+  }
+
+  async getDisputedMarkets(): Promise<Market[]> {
+    return await db
+      .select()
+      .from(markets)
+      .where(and(sql`${markets.disputedAt} IS NOT NULL`, sql`${markets.resolved} IS NOT TRUE`, inArray(markets.status, PROPOSABLE_STATUSES)))
+      .orderBy(markets.disputedAt);
+  }
+
+  // Undisputed proposals whose liveness window has ended, ready to settle
+  async getExpiredProposals(now: Date): Promise<Market[]> {
+    return await db
+      .select()
+      .from(markets)
+      .where(and(
+        sql`${markets.proposedAt} IS NOT NULL`,
+        isNull(markets.disputedAt),
+        sql`${markets.resolved} IS NOT TRUE`,
+        inArray(markets.status, PROPOSABLE_STATUSES),
+        sql`${markets.livenessEndsAt} <= ${now}`
+      ));
+  }
+
+  async getMarketBonds(marketId: number): Promise<MarketBond[]> {
+    return await db.select().from(marketBonds).where(eq(marketBonds.marketId, marketId)).orderBy(marketBonds.id);
+  }
+
+  // Refunds a held bond to its poster, or slashes it to the recipient or the house. Undefined if
+  // the bond was already settled.
+  async settleMarketBond(id: number, settlement: MarketBondSettlement): Promise<MarketBond | undefined> {
+    return await db.transaction((tx: typeof db) => this.settleBondInTx(tx, id, settlement));
+  }
+
+  // Slashes the market's held creation bond to the house
+  private async slashCreationBond(tx: typeof db, marketId: number, memo: string): Promise<MarketBond | undefined> {
+    const [creation] = await tx
+      .select()
+      .from(marketBonds)
+      .where(and(eq(marketBonds.marketId, marketId), eq(marketBonds.kind, "creation"), eq(marketBonds.status, "held")));
+    return creation ? this.settleBondInTx(tx, creation.id, { status: "slashed", recipientId: null, memo }) : undefined;
+  }
+
+  private async settleBondInTx(tx: typeof db, id: number, settlement: MarketBondSettlement): Promise<MarketBond | undefined> {
+    const [bond] = await tx
+      .update(marketBonds)
+      .set({ status: settlement.status, recipientId: settlement.status === "slashed" ? settlement.recipientId ?? null : null, settledAt: new Date() })
+      .where(and(eq(marketBonds.id, id), eq(marketBonds.status, "held")))
+      .returning();
+    if (!bond) return undefined;
+
+    const amount = parseFloat(bond.amount);
+    const reference = { referenceType: "market", referenceId: bond.marketId, memo: settlement.memo };
+    const recipient = settlement.status === "refunded" ? bond.userId : settlement.recipientId;
+    if (recipient) {
+      if (!(await this.lockUser(tx, recipient))) throw new Error(`Bond recipient ${recipient} not found`);
+      await this.postBalanceChanges(tx, recipient, [{
+        entryType: settlement.status === "refunded" ? "market_bond" : "bond_slash",
+        amount,
+        counterAccount: LEDGER_ACCOUNTS.marketBonds,
+        ...reference,
+      }]);
+    } else {
+      await this.postSystemTransfer(tx, LEDGER_ACCOUNTS.marketBonds, LEDGER_ACCOUNTS.house, amount, "bond_slash", "market", bond.marketId, settlement.memo);
+    }
+    return bond;
+  }
+
+  // Audit entries for actions taken by the system rather than an admin request
+  async recordAuditEvent(action: string, targetWallet: string | null, details: object): Promise<void> {
+    await db.insert(adminAuditLog).values({
+      action,
+      targetWallet,
+      details: JSON.stringify(details),
+      ipAddress: "system",
+      userAgent: "system",
+    });
+  }
+
+  // Voids the market at its last traded price; undefined if it is already resolved or canceled. A
+  // creation bond forfeited by the cancellation is slashed to the house in the same transaction, so
+  // the decision survives a crash; the remaining held bonds are refunded afterwards (or by the sweep).
+  async cancelMarket(id: number, lastProbability: number, slashCreationBond: boolean): Promise<MarketCancellation | undefined> {
+    return await db.transaction(async (tx: typeof db) => {
+      const [market] = await tx
+        .update(markets)
+        .set({ status: "canceled", statusReason: null, statusChangedAt: new Date(), currentProbability: lastProbability.toFixed(2) })
+        .where(and(eq(markets.id, id), sql`${markets.resolved} IS NOT TRUE`, sql`${markets.status} <> 'canceled'`))
+        .returning();
+      if (!market) return undefined;
+
+      const slashedBond = slashCreationBond ? await this.slashCreationBond(tx, id, `Slashed: market ${id} canceled`) : undefined;
+      return { market, slashedBond };
+    });
+  }
+
+  // Resolved or canceled markets that still hold bonds (see releaseHeldBonds in marketOracle.ts)
+  async getSettledMarketsWithHeldBonds(): Promise<Market[]> {
+    return await db
+      .select()
+      .from(markets)
+      .where(and(
+        or(eq(markets.resolved, true), eq(markets.status, "canceled")),
+        sql`EXISTS (SELECT 1 FROM ${marketBonds} WHERE ${marketBonds.marketId} = ${markets.id} AND ${marketBonds.status} = 'held')`
+      ));
+  }
+
+  // Closed (not liquidated) positions that realized a profit or loss
+  async getClosedPositionsForMarket(marketId: number): Promise<Position[]> {
+    return await db
+      .select()
+      .from(positions)
+      .where(and(eq(positions.marketId, marketId), eq(positions.status, "closed"), sql`${positions.pnl} <> 0`, isNull(positions.pnlReversed)))
+      .orderBy(positions.id);
+  }
+
+  // Books the opposite of a closed position's realized PnL against the house and records it in
+  // pnlReversed, leaving pnl as realized; running it twice reverses nothing. A profit is clawed
+  // back only down to a zero balance; the rest is reported as shortfall.
+  async reverseRealizedPnl(positionId: number, memo: string): Promise<PnlReversal | null> {
+    const [unlocked] = await db.select().from(positions).where(eq(positions.id, positionId));
+    if (!unlocked) return null;
+
+    return await db.transaction(async (tx: typeof db) => {
+      const user = await this.lockUser(tx, unlocked.userId);
+      const [position] = await tx.select().from(positions).where(eq(positions.id, positionId)).for("update");
+      if (!user || !position || position.status !== "closed" || !position.pnl || position.pnlReversed !== null) return null;
+
+      const pnl = position.pnl;
+      const balance = parseFloat(user.balance || "0");
+      const reversed = pnl > 0 ? -Math.min(pnl, Math.max(0, balance)) : -pnl;
+      await tx.update(positions).set({ pnlReversed: reversed.toFixed(8) }).where(eq(positions.id, positionId));
+      await this.postBalanceChanges(tx, position.userId, [
+        { entryType: "realized_pnl", amount: reversed, counterAccount: LEDGER_ACCOUNTS.house, referenceType: "position", referenceId: positionId, memo },
+      ]);
+      return { positionId, userId: position.userId, pnl, reversed, shortfall: pnl + reversed };
+    });
+  }
+
+  async createNotifications(rows: InsertNotification[]): Promise<Notification[]> {
+    if (rows.length === 0) return [];
+    return await db.insert(notifications).values(rows).returning();
+  }
+
+  async getNotifications(userId: string, limit: number = 50): Promise<Notification[]> {
+    return await db
+      .select()
+      .from(notifications)
+      .where(eq(notifications.userId, userId))
+      .orderBy(desc(notifications.createdAt), desc(notifications.id))
+      .limit(limit);
+  }
+
+  async markNotificationsRead(userId: string): Promise<number> {
+    const updated = await db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)))
+      .returning({ id: notifications.id });
+    return updated.length;
+  }
+
   // Positions - returns all positions (open, closed, liquidated) for the user
   async getPositions(userId: string): Promise<(Position & { market: Market })[]> {
     const result = await db
@@ -137,6 +867,24 @@ export class DatabaseStorage implements IStorage {
     return result.map(r => ({ ...r.position, market: r.market }));
   }
 
+  // Open positions, plus those closed or liquidated since closedSince when given
+  async getOpenPositions(userId: string, closedSince?: Date): Promise<(Position & { market: Market })[]> {
+    const live = closedSince
+      ? or(eq(positions.status, "open"), gte(positions.closedAt, closedSince))
+      : eq(positions.status, "open");
+    const result = await db
+      .select({
+        position: positions,
+        market: markets,
+      })
+      .from(positions)
+      .innerJoin(markets, eq(positions.marketId, markets.id))
+      .where(and(eq(positions.userId, userId), live))
+      .orderBy(desc(positions.createdAt));
+
+    return result.map((r: { position: Position; market: Market }) => ({ ...r.position, market: r.market }));
+  }
+
   async getPosition(id: number): Promise<Position | undefined> {
     const [position] = await db.select().from(positions).where(eq(positions.id, id));
     return position;
@@ -164,62 +912,70 @@ export class DatabaseStorage implements IStorage {
     return updated;
   }
 
-  async liquidatePosition(id: number, currentProbability: number): Promise<Position | null> {
-    // Atomic update: only liquidate if still open (prevents double liquidation)
-    const [updated] = await db
-      .update(positions)
-      .set({ 
-        status: "liquidated", 
-        closedAt: new Date(),
-      })
-      .where(and(eq(positions.id, id), eq(positions.status, "open")))
-      .returning();
-    
-    if (!updated) {
-      // Position was already closed/liquidated by another process
-      return null;
-    }
+  // Closes closeSize of the position (all of it by default) at the liquidation price, splitting it
+  // like a partial close. The penalty (a share of the closed notional, capped at what would be
+  // returned) goes to the insurance fund, and the fund pays the house for any loss the margin cap
+  // left uncovered, as far as its balance allows.
+  async liquidatePosition(id: number, currentProbability: number, penaltyRate: number, closeSize?: number): Promise<LiquidationResult | null> {
+    const [unlocked] = await db.select().from(positions).where(eq(positions.id, id));
+    if (!unlocked) return null;
 
-    // Calculate margin first
-    const margin = Math.ceil(updated.size / updated.leverage);
-    
-    const entryProb = parseFloat(updated.entryProbability.toString());
-    
-    // Calculate realized PnL using the same formula as manual close
-    // size is already the notional (leveraged) amount, so don't multiply by leverage again
-    let pnl: number;
-    if (updated.side === "YES") {
-      pnl = updated.size * (currentProbability - entryProb) / 100;
-    } else {
-      pnl = updated.size * (entryProb - currentProbability) / 100;
-    }
-    pnl = Math.round(pnl);
-    
-    // Cap losses at margin - user cannot lose more than their collateral
-    if (pnl < -margin) {
-      pnl = -margin;
-    }
-    
-    // Update PnL on the position
-    const [finalPosition] = await db
-      .update(positions)
-      .set({ pnl })
-      .where(eq(positions.id, id))
-      .returning();
-    
-    // Calculate what to return to user: margin + pnl
-    // At liquidation, pnl should be approximately -margin, so balanceChange ≈ 0
-    const balanceChange = margin + pnl;
-    
-    // Apply the full balance change - same as manual close
-    // If positive: user gets some margin back
-    // If negative: user loses margin plus additional funds (slippage/gap)
-    // If zero: margin fully lost, no change needed
-    if (balanceChange !== 0) {
-      await this.updateUserBalance(updated.userId, balanceChange);
-    }
-    
-    return finalPosition;
+    return await db.transaction(async (tx: typeof db) => {
+      await this.lockUser(tx, unlocked.userId);
+      const [position] = await tx.select().from(positions).where(eq(positions.id, id)).for("update");
+      if (!position || position.status !== "open") return null;
+
+      const size = closeSize === undefined ? position.size : Math.min(Math.max(1, Math.floor(closeSize)), position.size);
+      const close = await this.realizePositionClose(tx, position, currentProbability, size, "liquidated");
+      const entryProb = parseFloat(position.entryProbability.toString());
+      const uncappedPnl = position.side === "YES"
+        ? size * (currentProbability - entryProb) / 100
+        : size * (entryProb - currentProbability) / 100;
+      const shortfall = Math.max(0, Math.round((-uncappedPnl - close.margin) * 100) / 100);
+      const penalty = Math.min(Math.round(size * penaltyRate * 100) / 100, close.balanceChange);
+
+      // One liquidation at a time moves the fund, so a cover never overdraws it
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(${INSURANCE_FUND_LOCK})`);
+      let fundBalance = await this.getAccountBalance(tx, LEDGER_ACCOUNTS.insurance);
+      const eventBase = { positionId: close.closedPosition.id, userId: position.userId, marketId: position.marketId };
+      const details = JSON.stringify({ exitProbability: currentProbability, size, remainingSize: position.size - size, margin: close.margin });
+      const events = [];
+
+      if (penalty > 0) {
+        await this.postBalanceChanges(tx, position.userId, [{
+          entryType: "liquidation_penalty",
+          amount: -penalty,
+          counterAccount: LEDGER_ACCOUNTS.insurance,
+          referenceType: "position",
+          referenceId: close.closedPosition.id,
+        }]);
+        fundBalance += penalty;
+        events.push({ ...eventBase, eventType: "liquidation_penalty", amount: penalty.toFixed(8), fundBalanceAfter: fundBalance.toFixed(8), details });
+      }
+
+      const insuranceCovered = Math.min(shortfall, Math.max(0, fundBalance));
+      if (insuranceCovered > 0) {
+        await this.postSystemTransfer(tx, LEDGER_ACCOUNTS.insurance, LEDGER_ACCOUNTS.house, insuranceCovered, "insurance_cover", "position", close.closedPosition.id);
+        fundBalance -= insuranceCovered;
+        events.push({ ...eventBase, eventType: "shortfall_covered", amount: insuranceCovered.toFixed(8), fundBalanceAfter: fundBalance.toFixed(8), details });
+      }
+      if (events.length > 0) {
+        await tx.insert(insuranceFundEvents).values(events);
+      }
+
+      return {
+        closedPosition: close.closedPosition,
+        remainingPosition: close.remainingPosition,
+        closeSize: size,
+        margin: close.margin,
+        pnl: close.pnl,
+        penalty,
+        shortfall,
+        insuranceCovered,
+        uncoveredShortfall: Math.round((shortfall - insuranceCovered) * 100) / 100,
+        fundBalance,
+      };
+    });
   }
 
   async getAllOpenPositions(): Promise<(Position & { market: Market })[]> {
@@ -240,6 +996,14 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(positions).orderBy(desc(positions.createdAt));
   }
 
+  async getOpenPositionsForMarket(marketId: number): Promise<Position[]> {
+    return await db
+      .select()
+      .from(positions)
+      .where(and(eq(positions.marketId, marketId), eq(positions.status, "open")))
+      .orderBy(positions.id);
+  }
+
   async partialClosePosition(id: number, closePercent: number, pnl: number): Promise<{ closedPosition: Position; remainingPosition: Position | null; closeSize: number }> {
     const [position] = await db.select().from(positions).where(eq(positions.id, id));
     if (!position) throw new Error("Position not found");
@@ -270,6 +1034,7 @@ export class DatabaseStorage implements IStorage {
       leverage: position.leverage,
       entryProbability: position.entryProbability.toString(),
       liquidationProbability: position.liquidationProbability.toString(),
+      marginMode: position.marginMode,
       status: "closed",
       closedAt: new Date(),
       pnl: pnl,
@@ -302,16 +1067,97 @@ export class DatabaseStorage implements IStorage {
       .limit(50);
   }
 
+  // Oldest first, for consumers that replay order flow
+  async getTradesSince(marketId: number, afterId: number): Promise<Trade[]> {
+    return await db
+      .select()
+      .from(trades)
+      .where(and(eq(trades.marketId, marketId), gt(trades.id, afterId)))
+      .orderBy(trades.id)
+      .limit(1000);
+  }
+
+  // Notional traded by the user since the given time (fee tier volume)
+  async getTradingVolume(userId: string, since: Date): Promise<number> {
+    const [row] = await db
+      .select({ volume: sql<string>`COALESCE(SUM(${trades.size}), 0)` })
+      .from(trades)
+      .where(and(eq(trades.userId, userId), gte(trades.timestamp, since)));
+    return parseFloat(row?.volume ?? "0");
+  }
+
   async createTrade(trade: InsertTrade): Promise<Trade> {
     const [newTrade] = await db.insert(trades).values(trade).returning();
     return newTrade;
   }
 
+  async recordPriceTicks(ticks: { marketId: number; price: number }[]): Promise<void> {
+    if (ticks.length === 0) return;
+    await db.insert(priceTicks).values(ticks.map((t) => ({ marketId: t.marketId, price: t.price.toFixed(8) })));
+  }
+
+  // OHLCV per time bucket over simulation ticks and real trades, oldest first.
+  // Buckets with no ticks or trades are not returned
+  async getCandleBuckets(marketId: number, bucketSeconds: number, from: Date, to: Date): Promise<CandleBucket[]> {
+    const result = await db.execute(sql`
+      WITH points AS (
+        SELECT created_at AS ts, price::float8 AS price, 0::float8 AS volume
+        FROM price_ticks
+        WHERE market_id = ${marketId} AND created_at >= ${from} AND created_at < ${to}
+        UNION ALL
+        SELECT timestamp AS ts, price::float8 AS price, size::float8 AS volume
+        FROM trades
+        WHERE market_id = ${marketId} AND timestamp >= ${from} AND timestamp < ${to}
+      )
+      SELECT
+        floor(extract(epoch FROM ts) / ${bucketSeconds}) * ${bucketSeconds} AS bucket_epoch,
+        (array_agg(price ORDER BY ts ASC))[1] AS open,
+        MAX(price) AS high,
+        MIN(price) AS low,
+        (array_agg(price ORDER BY ts DESC))[1] AS close,
+        SUM(volume) AS volume
+      FROM points
+      GROUP BY bucket_epoch
+      ORDER BY bucket_epoch
+    `);
+    return result.rows.map((r: Record<string, unknown>) => ({
+      bucketStart: new Date(Number(r.bucket_epoch) * 1000),
+      open: parseFloat(String(r.open)),
+      high: parseFloat(String(r.high)),
+      low: parseFloat(String(r.low)),
+      close: parseFloat(String(r.close)),
+      volume: parseFloat(String(r.volume)),
+    }));
+  }
+
+  // Last known price before a point in time, to open the first candle of a range
+  async getLastPriceBefore(marketId: number, before: Date): Promise<number | null> {
+    const result = await db.execute(sql`
+      SELECT price FROM (
+        (SELECT created_at AS ts, price::float8 AS price FROM price_ticks
+          WHERE market_id = ${marketId} AND created_at < ${before} ORDER BY created_at DESC LIMIT 1)
+        UNION ALL
+        (SELECT timestamp AS ts, price::float8 AS price FROM trades
+          WHERE market_id = ${marketId} AND timestamp < ${before} ORDER BY timestamp DESC LIMIT 1)
+      ) latest
+      ORDER BY ts DESC
+      LIMIT 1
+    `);
+    const row = result.rows[0] as Record<string, unknown> | undefined;
+    return row ? parseFloat(String(row.price)) : null;
+  }
+
+  async prunePriceTicks(before: Date): Promise<number> {
+    const result = await db.execute(sql`DELETE FROM price_ticks WHERE created_at < ${before}`);
+    return result.rowCount ?? 0;
+  }
+
   // Custom Combos
   private parseCustomCombo(combo: CustomCombo): CustomComboResponse {
     return {
       id: combo.id,
       name: combo.name,
+      kind: combo.kind,
       creatorId: combo.creatorId,
       creatorAddress: combo.creatorAddress,
       legs: JSON.parse(combo.legs) as CustomComboLeg[],
@@ -320,6 +1166,11 @@ export class DatabaseStorage implements IStorage {
       volume24h: combo.volume24h || 0,
       openInterest: combo.openInterest || 0,
       status: combo.status,
+      outcome: combo.outcome,
+      resolvedAt: combo.resolvedAt,
+      curated: combo.curated,
+      expiresAt: combo.expiresAt,
+      retiredAt: combo.retiredAt,
       createdAt: combo.createdAt,
     };
   }
@@ -334,18 +1185,101 @@ export class DatabaseStorage implements IStorage {
     return combo ? this.parseCustomCombo(combo) : undefined;
   }
 
-  async createCustomCombo(combo: { name: string; creatorId: string; creatorAddress?: string; legs: CustomComboLeg[]; impliedProbability: string; multiplier: string }): Promise<CustomComboResponse> {
+  async createCustomCombo(combo: { name: string; kind?: ComboKind; creatorId: string; creatorAddress?: string; legs: CustomComboLeg[]; impliedProbability: string; multiplier: string; curated?: boolean; expiresAt?: Date | null }): Promise<CustomComboResponse> {
     const [newCombo] = await db.insert(customCombos).values({
       name: combo.name,
+      kind: combo.kind ?? "parlay",
       creatorId: combo.creatorId,
       creatorAddress: combo.creatorAddress || null,
       legs: JSON.stringify(combo.legs),
       impliedProbability: combo.impliedProbability,
       multiplier: combo.multiplier,
+      curated: combo.curated ?? false,
+      expiresAt: combo.expiresAt ?? null,
     }).returning();
     return this.parseCustomCombo(newCombo);
   }
 
+  async getCuratedCombos(): Promise<CustomComboResponse[]> {
+    const combos = await db.select().from(customCombos).where(eq(customCombos.curated, true)).orderBy(desc(customCombos.createdAt));
+    return combos.map((c: CustomCombo) => this.parseCustomCombo(c));
+  }
+
+  // Retiring only takes the combo off the listing; it keeps resolving for the positions still open
+  async retireCuratedCombo(id: number): Promise<CustomComboResponse | undefined> {
+    const [combo] = await db
+      .update(customCombos)
+      .set({ retiredAt: new Date() })
+      .where(and(eq(customCombos.id, id), eq(customCombos.curated, true), isNull(customCombos.retiredAt)))
+      .returning();
+    return combo ? this.parseCustomCombo(combo) : undefined;
+  }
+
+  async getActiveCustomCombos(): Promise<CustomComboResponse[]> {
+    const combos = await db.select().from(customCombos).where(eq(customCombos.status, "active"));
+    return combos.map((c: CustomCombo) => this.parseCustomCombo(c));
+  }
+
+  // Resolved or canceled combos whose payout or refund left positions open
+  async getClosedCombosWithOpenPositions(): Promise<CustomComboResponse[]> {
+    const combos = await db
+      .select()
+      .from(customCombos)
+      .where(and(
+        inArray(customCombos.status, ["resolved", "canceled"]),
+        sql`EXISTS (SELECT 1 FROM ${comboPositions} WHERE ${comboPositions.comboId} = ${customCombos.id} AND ${comboPositions.status} = 'open')`
+      ));
+    return combos.map((c: CustomCombo) => this.parseCustomCombo(c));
+  }
+
+  async voidComboLeg(input: VoidComboLegInput): Promise<CustomComboResponse | undefined> {
+    return await db.transaction(async (tx: typeof db) => {
+      const [combo] = await tx
+        .update(customCombos)
+        .set({
+          legs: JSON.stringify(input.legs),
+          impliedProbability: input.impliedProbability,
+          multiplier: input.multiplier,
+        })
+        .where(and(eq(customCombos.id, input.comboId), eq(customCombos.status, "active")))
+        .returning();
+      if (!combo) return undefined;
+
+      if (input.legProbability > 0) {
+        await tx
+          .update(comboPositions)
+          .set({
+            entryProbability: sql`LEAST(100, ${comboPositions.entryProbability} / ${input.legProbability})`,
+          })
+          .where(and(eq(comboPositions.comboId, input.comboId), eq(comboPositions.status, "open")));
+      } else if (input.entryShift) {
+        await tx
+          .update(comboPositions)
+          .set({
+            entryProbability: sql`LEAST(100, GREATEST(0, ${comboPositions.entryProbability} + ${input.entryShift}))`,
+          })
+          .where(and(eq(comboPositions.comboId, input.comboId), eq(comboPositions.status, "open")));
+      }
+      return this.parseCustomCombo(combo);
+    });
+  }
+
+  // Only an active combo can be resolved or canceled, so concurrent resolutions cannot pay out twice
+  // A basket records the value it settled at as its final price
+  async resolveCustomCombo(id: number, status: "resolved" | "canceled", outcome: boolean | null, finalProbability?: number): Promise<CustomComboResponse | undefined> {
+    const [combo] = await db
+      .update(customCombos)
+      .set({
+        status,
+        outcome,
+        resolvedAt: new Date(),
+        ...(finalProbability !== undefined ? { impliedProbability: (finalProbability / 100).toFixed(6) } : {}),
+      })
+      .where(and(eq(customCombos.id, id), eq(customCombos.status, "active")))
+      .returning();
+    return combo ? this.parseCustomCombo(combo) : undefined;
+  }
+
   // User Profiles
   async getProfile(walletAddress: string): Promise<UserProfile | undefined> {
     const normalizedAddress = walletAddress.toLowerCase();
@@ -382,6 +1316,19 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(orders.createdAt));
   }
 
+  // Orders still working, plus those created or updated since changedSince when given
+  async getOpenOrders(userId: string, changedSince?: Date): Promise<Order[]> {
+    const open = inArray(orders.status, ["active", "partial", "pending", "waiting"]);
+    return await db
+      .select()
+      .from(orders)
+      .where(and(
+        eq(orders.userId, userId),
+        changedSince ? or(open, gte(orders.updatedAt, changedSince), gte(orders.createdAt, changedSince)) : open
+      ))
+      .orderBy(desc(orders.createdAt));
+  }
+
   async getOrdersByMarket(userId: string, marketId: number): Promise<Order[]> {
     return await db
       .select()
@@ -449,6 +1396,116 @@ export class DatabaseStorage implements IStorage {
     return newExecution;
   }
 
+  // Entry (if any) and members are written together; with an entry, members are held as
+  // "waiting" children of it until it fills
+  async createOrderGroup(
+    group: Pick<OrderGroup, "userId" | "marketId" | "groupType">,
+    entry: (InsertOrder & { userId: string }) | null,
+    members: (InsertOrder & { userId: string })[]
+  ): Promise<{ group: OrderGroup; orders: Order[] }> {
+    return await db.transaction(async (tx: typeof db) => {
+      const [newGroup] = await tx.insert(orderGroups).values(group).returning();
+      const created: Order[] = [];
+
+      let parentOrderId: number | null = null;
+      if (entry) {
+        const [entryOrder] = await tx.insert(orders).values({
+          ...entry,
+          limitPrice: entry.limitPrice?.toString(),
+          groupId: newGroup.id,
+        }).returning();
+        parentOrderId = entryOrder.id;
+        created.push(entryOrder);
+      }
+
+      for (const member of members) {
+        const [order] = await tx.insert(orders).values({
+          ...member,
+          groupId: newGroup.id,
+          parentOrderId,
+          status: parentOrderId ? "waiting" : "active",
+        }).returning();
+        created.push(order);
+      }
+
+      return { group: newGroup, orders: created };
+    });
+  }
+
+  async getOrderGroup(id: number): Promise<OrderGroup | undefined> {
+    const [group] = await db.select().from(orderGroups).where(eq(orderGroups.id, id));
+    return group;
+  }
+
+  async getOrderGroupsByMarket(userId: string, marketId: number): Promise<(OrderGroup & { orders: Order[] })[]> {
+    const groups: OrderGroup[] = await db
+      .select()
+      .from(orderGroups)
+      .where(and(eq(orderGroups.userId, userId), eq(orderGroups.marketId, marketId)))
+      .orderBy(desc(orderGroups.createdAt));
+    return await Promise.all(groups.map(async (group) => ({
+      ...group,
+      orders: await this.getOrdersByGroup(group.id),
+    })));
+  }
+
+  async getActiveOrderGroups(): Promise<OrderGroup[]> {
+    return await db.select().from(orderGroups).where(eq(orderGroups.status, "active"));
+  }
+
+  async getOrdersByGroup(groupId: number): Promise<Order[]> {
+    return await db.select().from(orders).where(eq(orders.groupId, groupId)).orderBy(orders.id);
+  }
+
+  async updateOrderGroup(id: number, updates: Partial<OrderGroup>): Promise<OrderGroup> {
+    const [updated] = await db
+      .update(orderGroups)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(orderGroups.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Points the waiting children of an entry at the position one of its fills opened. Once the
+  // entry is fully filled the children themselves are activated; before that each fill gets its
+  // own copies so every partial position is protected
+  async activateChildOrders(parentOrderId: number, position: Position): Promise<Order[]> {
+    return await db.transaction(async (tx: typeof db) => {
+      const [parent] = await tx.select().from(orders).where(eq(orders.id, parentOrderId)).for("update");
+      if (!parent) return [];
+
+      const children: Order[] = await tx
+        .select()
+        .from(orders)
+        .where(and(eq(orders.parentOrderId, parentOrderId), eq(orders.status, "waiting"), isNull(orders.positionId)));
+      if (children.length === 0) return [];
+
+      const entryPrice = parseFloat(position.entryProbability.toString()).toFixed(4);
+      const activated: Order[] = [];
+      for (const child of children) {
+        const values = {
+          side: position.side,
+          totalSize: position.size,
+          remainingSize: position.size,
+          leverage: position.leverage,
+          positionId: position.id,
+          trailingPeak: child.orderType === "trailing_stop" ? entryPrice : null,
+          status: "active" as const,
+          updatedAt: new Date(),
+        };
+        if (parent.status === "filled") {
+          const [updated] = await tx.update(orders).set(values).where(eq(orders.id, child.id)).returning();
+          activated.push(updated);
+        } else {
+          const { id, createdAt, filledSize, ...template } = child;
+          const [copy] = await tx.insert(orders).values({ ...template, ...values }).returning();
+          activated.push(copy);
+        }
+      }
+      return activated;
+    });
+  }
+
   async getOrderExecutions(orderId: number): Promise<OrderExecution[]> {
     return await db
       .select()
@@ -457,6 +1514,23 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(orderExecutions.executedAt));
   }
 
+  // Latest executions across all of a user's orders, newest first
+  async getRecentFills(userId: string, limit: number = 50): Promise<Fill[]> {
+    const rows = await db
+      .select({ execution: orderExecutions, order: orders })
+      .from(orderExecutions)
+      .innerJoin(orders, eq(orderExecutions.orderId, orders.id))
+      .where(eq(orders.userId, userId))
+      .orderBy(desc(orderExecutions.id))
+      .limit(limit);
+    return rows.map((r: { execution: OrderExecution; order: Order }) => ({
+      ...r.execution,
+      marketId: r.order.marketId,
+      side: r.order.side,
+      orderType: r.order.orderType,
+    }));
+  }
+
   // Combo Positions
   async getComboPositions(userId: string): Promise<(ComboPosition & { combo: CustomComboResponse })[]> {
     const result = await db
@@ -487,25 +1561,32 @@ export class DatabaseStorage implements IStorage {
       .where(eq(comboPositions.status, "open"));
   }
 
-  async createComboPosition(position: {
-    userId: string;
-    comboId: number;
-    side: "YES" | "NO";
-    stake: number;
-    leverage: number;
-    entryProbability: string;
-    lockDate: Date;
-  }): Promise<ComboPosition> {
-    const [newPosition] = await db.insert(comboPositions).values({
-      userId: position.userId,
-      comboId: position.comboId,
-      side: position.side,
-      stake: position.stake,
-      leverage: position.leverage,
-      entryProbability: position.entryProbability,
-      lockDate: position.lockDate,
-    }).returning();
-    return newPosition;
+  // Debits the stake and fee and inserts the position in one transaction with the user row locked
+  async openComboPosition(position: OpenComboPositionInput): Promise<ComboPosition> {
+    return await db.transaction(async (tx: typeof db) => {
+      const user = await this.lockUser(tx, position.userId);
+      if (!user) throw new Error(`User ${position.userId} not found`);
+      if (parseFloat(user.balance || "0") < position.stake + position.fee) {
+        throw new InsufficientBalanceError("Insufficient balance");
+      }
+
+      const [newPosition] = await tx.insert(comboPositions).values({
+        userId: position.userId,
+        comboId: position.comboId,
+        side: position.side,
+        stake: position.stake,
+        leverage: position.leverage,
+        entryProbability: position.entryProbability,
+        lockDate: position.lockDate,
+      }).returning();
+
+      const reference = { referenceType: "combo_position", referenceId: newPosition.id };
+      await this.postBalanceChanges(tx, position.userId, [
+        { entryType: "combo_stake", amount: -position.stake, counterAccount: LEDGER_ACCOUNTS.house, ...reference, memo: `Combo ${position.comboId} stake` },
+        { entryType: "fee", amount: -position.fee, counterAccount: LEDGER_ACCOUNTS.fees, ...reference },
+      ]);
+      return newPosition;
+    });
   }
 
   async closeComboPosition(id: number, pnl: number, exitProbability: string, status: "settled" | "cancelled" = "settled"): Promise<ComboPosition> {
@@ -521,6 +1602,802 @@ export class DatabaseStorage implements IStorage {
       .returning();
     return closed;
   }
+
+  async getOpenComboPositionsForCombo(comboId: number): Promise<ComboPosition[]> {
+    return await db
+      .select()
+      .from(comboPositions)
+      .where(and(eq(comboPositions.comboId, comboId), eq(comboPositions.status, "open")));
+  }
+
+  // Closes the position and credits the payout to its current holder in one transaction; undefined
+  // if it was already closed (by its lock date, the holder or an earlier resolution). A resale
+  // landing between the read and the locks moves the position, so the close is retried.
+  async settleComboPosition(id: number, settlement: ComboPositionSettlement): Promise<ComboPosition | undefined> {
+    for (let attempt = 0; attempt < 3; attempt++) {
+      const result = await this.settleHeldComboPosition(id, settlement);
+      if (result !== "moved") return result;
+    }
+    throw new Error(`Combo position ${id} kept changing hands during settlement`);
+  }
+
+  private async settleHeldComboPosition(id: number, settlement: ComboPositionSettlement): Promise<ComboPosition | undefined | "moved"> {
+    const [unlocked] = await db.select().from(comboPositions).where(eq(comboPositions.id, id));
+    if (!unlocked || unlocked.status !== "open") return undefined;
+
+    return await db.transaction(async (tx: typeof db) => {
+      await this.lockUser(tx, unlocked.userId);
+      const [open] = await tx.select().from(comboPositions).where(eq(comboPositions.id, id)).for("update");
+      if (!open || open.status !== "open") return undefined;
+      if (open.userId !== unlocked.userId) return "moved";
+
+      const [closed] = await tx
+        .update(comboPositions)
+        .set({
+          status: settlement.status,
+          pnl: Math.floor(settlement.pnl),
+          exitProbability: settlement.exitProbability.toFixed(6),
+          closedAt: new Date(),
+        })
+        .where(and(eq(comboPositions.id, id), eq(comboPositions.userId, open.userId), eq(comboPositions.status, "open")))
+        .returning();
+      if (!closed) return undefined;
+
+      // A closed position can no longer be sold
+      await tx
+        .update(comboPositionListings)
+        .set({ status: "cancelled", closedAt: new Date() })
+        .where(and(eq(comboPositionListings.positionId, id), eq(comboPositionListings.status, "open")));
+
+      const reference = { referenceType: "combo_position", referenceId: id };
+      await this.postBalanceChanges(tx, open.userId, [
+        { entryType: "combo_payout", amount: settlement.payout, counterAccount: LEDGER_ACCOUNTS.house, ...reference, memo: settlement.memo },
+        { entryType: "combo_exit_penalty", amount: -(settlement.penalty ?? 0), counterAccount: LEDGER_ACCOUNTS.house, ...reference },
+        { entryType: "fee", amount: -(settlement.fee ?? 0), counterAccount: LEDGER_ACCOUNTS.fees, ...reference },
+      ]);
+      return closed;
+    });
+  }
+
+  // Combo position listings
+  async getComboListing(id: number): Promise<ComboPositionListing | undefined> {
+    const [listing] = await db.select().from(comboPositionListings).where(eq(comboPositionListings.id, id));
+    return listing;
+  }
+
+  async getOpenComboListings(): Promise<(ComboPositionListing & { position: ComboPosition; combo: CustomComboResponse })[]> {
+    const rows = await db
+      .select({ listing: comboPositionListings, position: comboPositions, combo: customCombos })
+      .from(comboPositionListings)
+      .innerJoin(comboPositions, eq(comboPositionListings.positionId, comboPositions.id))
+      .innerJoin(customCombos, eq(comboPositions.comboId, customCombos.id))
+      .where(and(eq(comboPositionListings.status, "open"), eq(comboPositions.status, "open")))
+      .orderBy(desc(comboPositionListings.createdAt));
+    return rows.map((r: { listing: ComboPositionListing; position: ComboPosition; combo: CustomCombo }) => ({
+      ...r.listing,
+      position: r.position,
+      combo: this.parseCustomCombo(r.combo),
+    }));
+  }
+
+  // One open listing per position, only by its current holder while it is open
+  async createComboListing(positionId: number, sellerId: string, price: number): Promise<ComboPositionListing | undefined> {
+    return await db.transaction(async (tx: typeof db) => {
+      const [position] = await tx.select().from(comboPositions).where(eq(comboPositions.id, positionId)).for("update");
+      if (!position || position.status !== "open" || position.userId !== sellerId) return undefined;
+      const [existing] = await tx
+        .select()
+        .from(comboPositionListings)
+        .where(and(eq(comboPositionListings.positionId, positionId), eq(comboPositionListings.status, "open")));
+      if (existing) return undefined;
+
+      const [listing] = await tx.insert(comboPositionListings).values({
+        positionId,
+        sellerId,
+        price: price.toFixed(2),
+      }).returning();
+      return listing;
+    });
+  }
+
+  async cancelComboListing(id: number, sellerId: string): Promise<ComboPositionListing | undefined> {
+    const [listing] = await db
+      .update(comboPositionListings)
+      .set({ status: "cancelled", closedAt: new Date() })
+      .where(and(eq(comboPositionListings.id, id), eq(comboPositionListings.sellerId, sellerId), eq(comboPositionListings.status, "open")))
+      .returning();
+    return listing;
+  }
+
+  // Moves the position to the buyer and the price from buyer to seller in one transaction. Undefined
+  // if the listing was filled or cancelled, or the position closed or changed hands, in the meantime.
+  async fillComboListing(id: number, buyerId: string, fee: number): Promise<ComboListingFill | undefined> {
+    // The seller of a listing never changes, so the users to lock are known before any lock
+    const [unlocked] = await db.select().from(comboPositionListings).where(eq(comboPositionListings.id, id));
+    if (!unlocked || unlocked.status !== "open") return undefined;
+
+    return await db.transaction(async (tx: typeof db) => {
+      // Users rows first (in id order, both balances move), then the listing and position rows
+      const [first, second] = [buyerId, unlocked.sellerId].sort();
+      const lockedFirst = await this.lockUser(tx, first);
+      const lockedSecond = await this.lockUser(tx, second);
+      const buyer = first === buyerId ? lockedFirst : lockedSecond;
+      if (!buyer) return undefined;
+
+      const [listing] = await tx.select().from(comboPositionListings).where(eq(comboPositionListings.id, id)).for("update");
+      if (!listing || listing.status !== "open") return undefined;
+      const [position] = await tx.select().from(comboPositions).where(eq(comboPositions.id, listing.positionId)).for("update");
+      if (!position || position.status !== "open" || position.userId !== listing.sellerId) return undefined;
+
+      const price = parseFloat(listing.price);
+      if (parseFloat(buyer.balance || "0") < price + fee) {
+        throw new InsufficientBalanceError(`Insufficient balance. Required: $${(price + fee).toFixed(2)} (incl. $${fee.toFixed(2)} fee)`);
+      }
+
+      const reference = { referenceType: "combo_position", referenceId: position.id };
+      await this.postBalanceChanges(tx, buyerId, [
+        { entryType: "combo_transfer", amount: -price, counterAccount: LEDGER_ACCOUNTS.comboMarket, ...reference, memo: `Bought combo position via listing ${id}` },
+        { entryType: "fee", amount: -fee, counterAccount: LEDGER_ACCOUNTS.fees, ...reference },
+      ]);
+      await this.postBalanceChanges(tx, listing.sellerId, [
+        { entryType: "combo_transfer", amount: price, counterAccount: LEDGER_ACCOUNTS.comboMarket, ...reference, memo: `Sold combo position via listing ${id}` },
+      ]);
+
+      const [transferred] = await tx
+        .update(comboPositions)
+        .set({ userId: buyerId })
+        .where(eq(comboPositions.id, position.id))
+        .returning();
+      const [filled] = await tx
+        .update(comboPositionListings)
+        .set({ status: "filled", buyerId, closedAt: new Date() })
+        .where(eq(comboPositionListings.id, id))
+        .returning();
+      return { listing: filled, position: transferred };
+    });
+  }
+
+  // Funding
+  async createFundingRate(rate: Omit<FundingRate, "id">): Promise<FundingRate> {
+    const [created] = await db.insert(fundingRates).values(rate).returning();
+    return created;
+  }
+
+  // Newest first
+  async getFundingHistory(marketId: number, limit: number): Promise<FundingRate[]> {
+    return await db
+      .select()
+      .from(fundingRates)
+      .where(eq(fundingRates.marketId, marketId))
+      .orderBy(desc(fundingRates.fundedAt))
+      .limit(limit);
+  }
+
+  // Risk parameters
+  async getMarketRiskParams(): Promise<MarketRiskParamsRow[]> {
+    return await db.select().from(marketRiskParams);
+  }
+
+  async upsertMarketRiskParams(params: Omit<MarketRiskParamsRow, "updatedAt">): Promise<MarketRiskParamsRow> {
+    const { marketId, ...values } = params;
+    const [row] = await db
+      .insert(marketRiskParams)
+      .values({ ...params, updatedAt: new Date() })
+      .onConflictDoUpdate({ target: marketRiskParams.marketId, set: { ...values, updatedAt: new Date() } })
+      .returning();
+    return row;
+  }
+
+  async deleteMarketRiskParams(marketId: number): Promise<boolean> {
+    const deleted = await db.delete(marketRiskParams).where(eq(marketRiskParams.marketId, marketId)).returning();
+    return deleted.length > 0;
+  }
+
+  async getMarketCorrelations(): Promise<MarketCorrelationRow[]> {
+    return await db.select().from(marketCorrelations);
+  }
+
+  async upsertMarketCorrelation(correlation: Omit<MarketCorrelationRow, "updatedAt">): Promise<MarketCorrelationRow> {
+    const [row] = await db
+      .insert(marketCorrelations)
+      .values({ ...correlation, updatedAt: new Date() })
+      .onConflictDoUpdate({
+        target: [marketCorrelations.marketIdA, marketCorrelations.marketIdB],
+        set: { correlation: correlation.correlation, updatedBy: correlation.updatedBy, updatedAt: new Date() },
+      })
+      .returning();
+    return row;
+  }
+
+  async deleteMarketCorrelation(marketIdA: number, marketIdB: number): Promise<boolean> {
+    const deleted = await db
+      .delete(marketCorrelations)
+      .where(and(eq(marketCorrelations.marketIdA, marketIdA), eq(marketCorrelations.marketIdB, marketIdB)))
+      .returning();
+    return deleted.length > 0;
+  }
+
+  async getSystemSetting(key: string): Promise<string | undefined> {
+    const [setting] = await db.select().from(systemSettings).where(eq(systemSettings.key, key));
+    return setting?.value;
+  }
+
+  async setSystemSetting(key: string, value: string): Promise<void> {
+    await db
+      .insert(systemSettings)
+      .values({ key, value, updatedAt: new Date() })
+      .onConflictDoUpdate({ target: systemSettings.key, set: { value, updatedAt: new Date() } });
+  }
+
+  // Insurance fund
+  async getInsuranceFundEvents(limit: number): Promise<InsuranceFundEvent[]> {
+    return await db.select().from(insuranceFundEvents).orderBy(desc(insuranceFundEvents.id)).limit(limit);
+  }
+
+  async recordInsuranceFundEvent(event: Omit<InsuranceFundEvent, "id" | "createdAt" | "fundBalanceAfter">): Promise<InsuranceFundEvent> {
+    return await db.transaction(async (tx: typeof db) => {
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(${INSURANCE_FUND_LOCK})`);
+      const fundBalance = await this.getAccountBalance(tx, LEDGER_ACCOUNTS.insurance);
+      const [created] = await tx.insert(insuranceFundEvents).values({ ...event, fundBalanceAfter: fundBalance.toFixed(8) }).returning();
+      return created;
+    });
+  }
+
+  // Seeds the fund from platform equity; returns the new fund balance
+  async depositInsuranceFund(amount: number, memo: string): Promise<number> {
+    return await db.transaction(async (tx: typeof db) => {
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(${INSURANCE_FUND_LOCK})`);
+      await this.postSystemTransfer(tx, LEDGER_ACCOUNTS.equity, LEDGER_ACCOUNTS.insurance, amount, "insurance_deposit", null, null, memo);
+      const fundBalance = await this.getAccountBalance(tx, LEDGER_ACCOUNTS.insurance);
+      await tx.insert(insuranceFundEvents).values({
+        eventType: "deposit",
+        amount: amount.toFixed(8),
+        fundBalanceAfter: fundBalance.toFixed(8),
+        details: JSON.stringify({ memo }),
+      });
+      return fundBalance;
+    });
+  }
+
+  // === Transactional unit-of-work ===
+
+  // Lock order is always users row first, then positions/orders rows, so concurrent
+  // operations on the same account queue up instead of deadlocking
+  private exposureReader(tx: typeof db): ExposureReader {
+    return {
+      getOpenPositions: (userId) =>
+        tx.select().from(positions).where(and(eq(positions.userId, userId), eq(positions.status, "open"))),
+      getOpenPositionsForMarket: (marketId) =>
+        tx.select().from(positions).where(and(eq(positions.marketId, marketId), eq(positions.status, "open"))),
+    };
+  }
+
+  private async lockUser(tx: typeof db, userId: string): Promise<User | undefined> {
+    const [user] = await tx.select().from(users).where(eq(users.id, userId)).for("update");
+    return user;
+  }
+
+  // Debits a bond from the user's cash into the market_bonds account
+  private async postMarketBond(tx: typeof db, marketId: number, userId: string, kind: MarketBondKind, amount: number): Promise<MarketBond> {
+    const user = await this.lockUser(tx, userId);
+    if (!user) throw new Error(`User ${userId} not found`);
+    if (parseFloat(user.balance || "0") < amount) {
+      throw new InsufficientBalanceError(`Insufficient balance for the $${amount.toFixed(2)} ${kind} bond`);
+    }
+    const [bond] = await tx.insert(marketBonds).values({ marketId, userId, kind, amount: amount.toFixed(2) }).returning();
+    await this.postBalanceChanges(tx, userId, [{
+      entryType: "market_bond",
+      amount: -amount,
+      counterAccount: LEDGER_ACCOUNTS.marketBonds,
+      referenceType: "market",
+      referenceId: marketId,
+      memo: `${kind} bond on market ${marketId}`,
+    }]);
+    return bond;
+  }
+
+  // Apply postings to the user's cash balance and write both legs of each to the ledger
+  private async postBalanceChanges(tx: typeof db, userId: string, postings: BalancePosting[]): Promise<User> {
+    const nonZero = postings.filter((p) => p.amount !== 0);
+    const total = nonZero.reduce((sum, p) => sum + p.amount, 0);
+    const [updated] = await tx
+      .update(users)
+      .set({
+        balance: sql`CAST(CAST(${users.balance} AS NUMERIC) + ${total} AS VARCHAR)`,
+      })
+      .where(eq(users.id, userId))
+      .returning();
+    await this.insertLedgerLegs(tx, userId, parseFloat(updated.balance || "0"), nonZero);
+    return updated;
+  }
+
+  private async getAccountBalance(tx: typeof db, account: string): Promise<number> {
+    const [row] = await tx
+      .select({ total: sql<string>`COALESCE(SUM(${ledgerEntries.amount}), 0)` })
+      .from(ledgerEntries)
+      .where(eq(ledgerEntries.account, account));
+    return parseFloat(row?.total ?? "0");
+  }
+
+  // Moves an amount between two system accounts (no user cash leg)
+  private async postSystemTransfer(
+    tx: typeof db,
+    from: string,
+    to: string,
+    amount: number,
+    entryType: LedgerEntryType,
+    referenceType: string | null,
+    referenceId: number | null,
+    memo: string | null = null
+  ): Promise<void> {
+    const shared = { transactionId: randomUUID(), entryType, referenceType, referenceId, memo, userId: null, balanceAfter: null };
+    await tx.insert(ledgerEntries).values([
+      { ...shared, account: from, amount: (-amount).toFixed(8) },
+      { ...shared, account: to, amount: amount.toFixed(8) },
+    ]);
+  }
+
+  private async insertLedgerLegs(tx: typeof db, userId: string, finalBalance: number, postings: BalancePosting[]): Promise<void> {
+    if (postings.length === 0) return;
+    const transactionId = randomUUID();
+    let runningBalance = finalBalance - postings.reduce((sum, p) => sum + p.amount, 0);
+    const rows = [];
+    for (const p of postings) {
+      runningBalance += p.amount;
+      const shared = {
+        transactionId,
+        entryType: p.entryType,
+        referenceType: p.referenceType ?? null,
+        referenceId: p.referenceId ?? null,
+        memo: p.memo ?? null,
+      };
+      rows.push({ ...shared, account: cashAccount(userId), userId, amount: p.amount.toFixed(8), balanceAfter: runningBalance.toFixed(8) });
+      rows.push({
+        ...shared,
+        account: p.counterAccount,
+        userId: p.counterAccount.includes(":") ? userId : null,
+        amount: (-p.amount).toFixed(8),
+        balanceAfter: null,
+      });
+    }
+    await tx.insert(ledgerEntries).values(rows);
+  }
+
+  async openPosition(input: OpenPositionInput): Promise<Position> {
+    return await db.transaction(async (tx: typeof db) => {
+      const user = await this.lockUser(tx, input.userId);
+      if (!user) throw new Error("User not found");
+
+      if (input.checkExposure) {
+        // The open interest cap spans every user, so opens on the same market take turns
+        await tx.execute(sql`SELECT pg_advisory_xact_lock(${MARKET_EXPOSURE_LOCK}, ${input.marketId})`);
+        const exposureError = await input.checkExposure(this.exposureReader(tx));
+        if (exposureError) throw new ExposureLimitError(exposureError);
+      }
+
+      const margin = Math.ceil(input.size / input.leverage);
+      const fee = calculateFee(input.size, input.feeBps ?? 0);
+      const cashBalance = parseFloat(user.balance || "0");
+
+      if (input.checkMargin) {
+        const open = await tx
+          .select({ position: positions, market: markets })
+          .from(positions)
+          .innerJoin(markets, eq(positions.marketId, markets.id))
+          .where(and(eq(positions.userId, input.userId), eq(positions.status, "open")));
+        const rejection = input.checkMargin(
+          cashBalance,
+          open.map((r: { position: Position; market: Market }) => ({ ...r.position, market: r.market }))
+        );
+        if (rejection) throw new InsufficientMarginError(rejection);
+      } else if (cashBalance < margin + fee) {
+        throw new InsufficientMarginError(`Insufficient balance. Required: $${margin + fee}, Available: $${cashBalance}`);
+      }
+
+      const [position] = await tx.insert(positions).values({
+        userId: input.userId,
+        marketId: input.marketId,
+        side: input.side,
+        size: input.size,
+        leverage: input.leverage,
+        entryProbability: input.entryProbability.toFixed(8),
+        liquidationProbability: input.liquidationProbability.toFixed(8),
+        marginMode: input.marginMode ?? "cross",
+      }).returning();
+
+      await this.postBalanceChanges(tx, input.userId, [
+        { entryType: "margin_lock", amount: -margin, counterAccount: marginAccount(input.userId), referenceType: "position", referenceId: position.id },
+        { entryType: "fee", amount: -fee, counterAccount: LEDGER_ACCOUNTS.fees, referenceType: "position", referenceId: position.id },
+      ]);
+
+      await tx.insert(trades).values({
+        marketId: input.marketId,
+        price: input.entryProbability.toFixed(8),
+        size: input.size,
+        side: input.side,
+        userId: input.userId,
+        fee: fee.toFixed(8),
+      });
+
+      return position;
+    });
+  }
+
+  // feeBps is the taker rate for user closes; settlement closes pass none
+  async closePositionAtPrice(id: number, exitProbability: number, closePercent: number = 100, feeBps: number = 0): Promise<PositionCloseResult | null> {
+    return this.closeLockedPosition(id, exitProbability, closePercent, feeBps);
+  }
+
+  // Shared by manual close, partial close and settlement: realizes PnL at the exit price
+  // (losses capped at margin) and credits margin + PnL - fee in the same transaction
+  private async closeLockedPosition(
+    id: number,
+    exitProbability: number,
+    closePercent: number,
+    feeBps: number
+  ): Promise<PositionCloseResult | null> {
+    const [unlocked] = await db.select().from(positions).where(eq(positions.id, id));
+    if (!unlocked) return null;
+
+    return await db.transaction(async (tx: typeof db) => {
+      await this.lockUser(tx, unlocked.userId);
+      const [position] = await tx.select().from(positions).where(eq(positions.id, id)).for("update");
+      // Already closed/liquidated by another request (prevents double close)
+      if (!position || position.status !== "open") return null;
+
+      const closeSize = closePercent >= 100 ? position.size : Math.floor(position.size * (closePercent / 100));
+      if (closeSize <= 0) return null;
+
+      return this.realizePositionClose(tx, position, exitProbability, closeSize, "closed", feeBps);
+    });
+  }
+
+  // Caller holds the user and position row locks inside tx
+  private async realizePositionClose(
+    tx: typeof db,
+    position: Position,
+    exitProbability: number,
+    closeSize: number,
+    status: "closed" | "liquidated",
+    feeBps: number = 0
+  ): Promise<PositionCloseResult> {
+    const id = position.id;
+    // Margin added to an isolated position is released pro rata, like accrued funding below
+    const extraMargin = parseFloat(position.extraMargin);
+    const closedExtraMargin = closeSize >= position.size ? extraMargin : Math.floor(extraMargin * closeSize / position.size * 100) / 100;
+    const margin = Math.ceil(closeSize / position.leverage) + closedExtraMargin;
+    const entryProb = parseFloat(position.entryProbability.toString());
+    // size is already the notional (leveraged) amount, so don't multiply by leverage again
+    let pnl = position.side === "YES"
+      ? closeSize * (exitProbability - entryProb) / 100
+      : closeSize * (entryProb - exitProbability) / 100;
+    pnl = Math.round(pnl);
+    // Cap losses at margin - user cannot lose more than their collateral
+    if (pnl < -margin) {
+      pnl = -margin;
+    }
+    // The fee comes out of what is returned, never out of the rest of the balance
+    const fee = Math.min(calculateFee(closeSize, feeBps), margin + pnl);
+
+    let closedPosition: Position;
+    let remainingPosition: Position | null = null;
+    // Funding already booked is split pro rata between the closed slice and what remains
+    const accruedFunding = parseFloat(position.accruedFunding);
+    const closedFunding = closeSize >= position.size ? accruedFunding : accruedFunding * closeSize / position.size;
+
+    if (closeSize >= position.size) {
+      [closedPosition] = await tx
+        .update(positions)
+        .set({ status, closedAt: new Date(), pnl })
+        .where(eq(positions.id, id))
+        .returning();
+    } else {
+      [remainingPosition] = await tx
+        .update(positions)
+        .set({
+          size: position.size - closeSize,
+          accruedFunding: (accruedFunding - closedFunding).toFixed(8),
+          extraMargin: (extraMargin - closedExtraMargin).toFixed(8),
+        })
+        .where(eq(positions.id, id))
+        .returning();
+      [closedPosition] = await tx.insert(positions).values({
+        userId: position.userId,
+        marketId: position.marketId,
+        side: position.side,
+        size: closeSize,
+        leverage: position.leverage,
+        entryProbability: position.entryProbability.toString(),
+        liquidationProbability: position.liquidationProbability.toString(),
+        marginMode: position.marginMode,
+        extraMargin: closedExtraMargin.toFixed(8),
+        status,
+        closedAt: new Date(),
+        pnl,
+        accruedFunding: closedFunding.toFixed(8),
+      }).returning();
+    }
+
+    // Liquidations are not user trades; closes are recorded on the opposite side
+    if (status === "closed") {
+      await tx.insert(trades).values({
+        marketId: position.marketId,
+        price: exitProbability.toFixed(8),
+        size: closeSize,
+        side: position.side === "YES" ? "NO" : "YES",
+        userId: position.userId,
+        fee: fee.toFixed(8),
+      });
+    }
+
+    // Return margin + PnL - fee; with losses capped at margin this is never negative
+    const balanceChange = margin + pnl - fee;
+    await this.postBalanceChanges(tx, position.userId, [
+      { entryType: "margin_release", amount: margin, counterAccount: marginAccount(position.userId), referenceType: "position", referenceId: id },
+      { entryType: "realized_pnl", amount: pnl, counterAccount: LEDGER_ACCOUNTS.house, referenceType: "position", referenceId: id },
+      { entryType: "fee", amount: -fee, counterAccount: LEDGER_ACCOUNTS.fees, referenceType: "position", referenceId: closedPosition.id },
+    ]);
+
+    return { closedPosition, remainingPosition, closeSize, margin, pnl, fee, balanceChange };
+  }
+
+  async fillOrder(input: FillOrderInput): Promise<Position | null> {
+    const [unlocked] = await db.select().from(orders).where(eq(orders.id, input.orderId));
+    if (!unlocked) return null;
+
+    return await db.transaction(async (tx: typeof db) => {
+      const user = await this.lockUser(tx, unlocked.userId);
+      const [order] = await tx.select().from(orders).where(eq(orders.id, input.orderId)).for("update");
+      if (!user || !order || !isFillableOrder(order)) return null;
+
+      // Cancel rather than fail so the order does not keep retrying against an empty account
+      if (!canCoverFill(user, order, input)) {
+        await tx.update(orders).set({ status: "cancelled", updatedAt: new Date() }).where(eq(orders.id, order.id));
+        return null;
+      }
+      return this.writeOrderFill(tx, order, input);
+    });
+  }
+
+  // Book match: fills the resting maker and the incoming taker in one transaction, so neither side
+  // is ever filled without the other. A side that is no longer live or cannot cover its margin
+  // fills nothing; if it cannot cover, it is cancelled.
+  async fillOrderPair(maker: FillOrderInput, taker: FillOrderInput): Promise<OrderPairFill> {
+    const unlocked = await db.select().from(orders).where(inArray(orders.id, [maker.orderId, taker.orderId]));
+    const makerRow = unlocked.find((o: Order) => o.id === maker.orderId);
+    const takerRow = unlocked.find((o: Order) => o.id === taker.orderId);
+    if (!makerRow) return { failed: "maker" };
+    if (!takerRow) return { failed: "taker" };
+
+    return await db.transaction(async (tx: typeof db) => {
+      // Users rows first, then orders, each in id order, as everywhere else
+      const userIds = Array.from(new Set([makerRow.userId, takerRow.userId])).sort();
+      const lockedUsers = new Map<string, User>();
+      for (const userId of userIds) {
+        const user = await this.lockUser(tx, userId);
+        if (user) lockedUsers.set(userId, user);
+      }
+      const locked = await tx
+        .select()
+        .from(orders)
+        .where(inArray(orders.id, [maker.orderId, taker.orderId]))
+        .orderBy(orders.id)
+        .for("update");
+      const sides = [
+        { role: "maker" as const, input: maker, order: locked.find((o: Order) => o.id === maker.orderId) as Order | undefined },
+        { role: "taker" as const, input: taker, order: locked.find((o: Order) => o.id === taker.orderId) as Order | undefined },
+      ];
+
+      for (const { role, input, order } of sides) {
+        const user = order ? lockedUsers.get(order.userId) : undefined;
+        if (!order || !user || !isFillableOrder(order)) return { failed: role };
+        if (!canCoverFill(user, order, input)) {
+          await tx.update(orders).set({ status: "cancelled", updatedAt: new Date() }).where(eq(orders.id, order.id));
+          return { failed: role, cancelled: true };
+        }
+      }
+
+      const makerPosition = await this.writeOrderFill(tx, sides[0].order!, maker);
+      const takerPosition = await this.writeOrderFill(tx, sides[1].order!, taker);
+      return { makerPosition, takerPosition };
+    });
+  }
+
+  // Caller holds the user and order row locks inside tx and has checked the order can cover the fill
+  private async writeOrderFill(tx: typeof db, order: Order, input: FillOrderInput): Promise<Position> {
+    const executionSize = Math.min(input.executionSize, order.remainingSize);
+    const leverage = order.leverage || 1;
+    const margin = Math.ceil(executionSize / leverage);
+    const fee = calculateFee(executionSize, input.feeBps ?? 0);
+
+    const [position] = await tx.insert(positions).values({
+      marketId: order.marketId,
+      side: order.side,
+      size: executionSize,
+      leverage,
+      marginMode: order.marginMode,
+      userId: order.userId,
+      entryProbability: input.executionPrice.toFixed(8),
+      liquidationProbability: input.liquidationProbability.toFixed(8),
+    }).returning();
+
+    const memo = `Order #${order.id} fill`;
+    await this.postBalanceChanges(tx, order.userId, [
+      { entryType: "margin_lock", amount: -margin, counterAccount: marginAccount(order.userId), referenceType: "position", referenceId: position.id, memo },
+      { entryType: "fee", amount: -fee, counterAccount: LEDGER_ACCOUNTS.fees, referenceType: "order", referenceId: order.id, memo: `${memo} (${input.liquidity})` },
+    ]);
+
+    if (input.recordTrade) {
+      await tx.insert(trades).values({
+        marketId: order.marketId,
+        price: input.executionPrice.toFixed(8),
+        size: executionSize,
+        side: order.side,
+        userId: order.userId,
+        fee: fee.toFixed(8),
+      });
+    }
+
+    await tx.insert(orderExecutions).values({
+      orderId: order.id,
+      executionPrice: input.executionPrice.toFixed(4),
+      executionSize,
+      positionId: position.id,
+      liquidity: input.liquidity,
+      fee: fee.toFixed(8),
+    });
+
+    const newRemainingSize = order.remainingSize - executionSize;
+    await tx
+      .update(orders)
+      .set({
+        filledSize: order.filledSize + executionSize,
+        remainingSize: Math.max(0, newRemainingSize),
+        status: newRemainingSize <= 0 ? "filled" : "partial",
+        updatedAt: new Date(),
+      })
+      .where(eq(orders.id, order.id));
+
+    return position;
+  }
+
+  // Stop-loss / take-profit / trailing-stop fill: closes up to the order's remaining size of its
+  // position at the trigger price, records the execution and marks the order filled
+  async triggerProtectiveOrder(orderId: number, exitProbability: number, feeBps: number = 0): Promise<PositionCloseResult | null> {
+    const [unlocked] = await db.select().from(orders).where(eq(orders.id, orderId));
+    if (!unlocked || !unlocked.positionId) return null;
+
+    return await db.transaction(async (tx: typeof db) => {
+      await this.lockUser(tx, unlocked.userId);
+      const [order] = await tx.select().from(orders).where(eq(orders.id, orderId)).for("update");
+      const isLive = order && (order.status === "active" || order.status === "partial" || order.status === "pending");
+      if (!isLive || order.remainingSize <= 0) return null;
+
+      const [position] = await tx.select().from(positions).where(eq(positions.id, unlocked.positionId)).for("update");
+      if (!position || position.status !== "open") {
+        await tx.update(orders).set({ status: "cancelled", updatedAt: new Date() }).where(eq(orders.id, orderId));
+        return null;
+      }
+
+      // The position may have been partially closed since the order was placed
+      const closeSize = Math.min(order.remainingSize, position.size);
+      const result = await this.realizePositionClose(tx, position, exitProbability, closeSize, "closed", feeBps);
+
+      await tx.insert(orderExecutions).values({
+        orderId: order.id,
+        executionPrice: exitProbability.toFixed(4),
+        executionSize: closeSize,
+        positionId: result.closedPosition.id,
+        liquidity: "taker",
+        fee: result.fee.toFixed(8),
+      });
+      await tx
+        .update(orders)
+        .set({
+          filledSize: order.filledSize + closeSize,
+          remainingSize: 0,
+          status: "filled",
+          updatedAt: new Date(),
+        })
+        .where(eq(orders.id, orderId));
+
+      return result;
+    });
+  }
+
+  // Auto-deleveraging: closes part of an opposing position at the bankrupt position's price.
+  // No fee; the close is recorded as a trade like any other.
+  async deleveragePosition(id: number, exitProbability: number, closeSize: number): Promise<PositionCloseResult | null> {
+    const [unlocked] = await db.select().from(positions).where(eq(positions.id, id));
+    if (!unlocked) return null;
+
+    return await db.transaction(async (tx: typeof db) => {
+      await this.lockUser(tx, unlocked.userId);
+      const [position] = await tx.select().from(positions).where(eq(positions.id, id)).for("update");
+      if (!position || position.status !== "open") return null;
+      const size = Math.min(Math.max(1, Math.floor(closeSize)), position.size);
+      return this.realizePositionClose(tx, position, exitProbability, size, "closed");
+    });
+  }
+
+  // Books one interval's funding for a position: a positive amount is paid from cash, a negative
+  // one received. Cash may go below zero; that comes out of equity like a loss and is caught by
+  // the liquidation check. Returns false if the position closed in the meantime.
+  async applyFundingPayment(positionId: number, amount: number, memo: string): Promise<boolean> {
+    const [unlocked] = await db.select().from(positions).where(eq(positions.id, positionId));
+    if (!unlocked) return false;
+
+    return await db.transaction(async (tx: typeof db) => {
+      await this.lockUser(tx, unlocked.userId);
+      const [position] = await tx.select().from(positions).where(eq(positions.id, positionId)).for("update");
+      if (!position || position.status !== "open") return false;
+      // A market settled or canceled since the positions were read is being closed out; no funding
+      const [market] = await tx.select().from(markets).where(eq(markets.id, position.marketId));
+      if (!market || market.resolved || market.status === "canceled") return false;
+
+      await tx
+        .update(positions)
+        .set({ accruedFunding: sql`${positions.accruedFunding} + ${amount}` })
+        .where(eq(positions.id, positionId));
+      await this.postBalanceChanges(tx, position.userId, [{
+        entryType: "funding",
+        amount: -amount,
+        counterAccount: LEDGER_ACCOUNTS.house,
+        referenceType: "position",
+        referenceId: positionId,
+        memo,
+      }]);
+      return true;
+    });
+  }
+
+  // Adds or removes margin on an open isolated position and moves its liquidationProbability to
+  // match. Only margin added earlier can be taken out, and never so much that the current price
+  // would already be past the new liquidation price.
+  async adjustPositionMargin(input: AdjustMarginInput): Promise<Position | null> {
+    const [unlocked] = await db.select().from(positions).where(eq(positions.id, input.positionId));
+    if (!unlocked) return null;
+
+    return await db.transaction(async (tx: typeof db) => {
+      const user = await this.lockUser(tx, unlocked.userId);
+      const [position] = await tx.select().from(positions).where(eq(positions.id, input.positionId)).for("update");
+      if (!user || !position || position.status !== "open" || position.marginMode !== "isolated") return null;
+
+      const amount = Math.round(input.amount * 100) / 100;
+      const extraMargin = parseFloat(position.extraMargin);
+      const newExtraMargin = Math.round((extraMargin + amount) * 100) / 100;
+      if (amount > 0 && parseFloat(user.balance || "0") < amount) {
+        throw new InsufficientMarginError(`Insufficient balance. Required: $${amount}, Available: $${parseFloat(user.balance || "0")}`);
+      }
+      if (newExtraMargin < 0) {
+        throw new InsufficientMarginError(`Only the $${extraMargin} added to this position can be removed`);
+      }
+
+      const adjusted = { ...position, extraMargin: newExtraMargin.toFixed(8) };
+      const liquidationProbability = input.liquidationPriceFor(adjusted);
+      const pastLiquidation = position.side === "YES"
+        ? input.currentProbability <= liquidationProbability
+        : input.currentProbability >= liquidationProbability;
+      if (amount < 0 && pastLiquidation) {
+        throw new InsufficientMarginError(`Removing $${-amount} would put the liquidation price at ${liquidationProbability.toFixed(2)}%, past the current price`);
+      }
+
+      const [updated] = await tx
+        .update(positions)
+        .set({ extraMargin: adjusted.extraMargin, liquidationProbability: liquidationProbability.toFixed(8) })
+        .where(eq(positions.id, position.id))
+        .returning();
+      await this.postBalanceChanges(tx, position.userId, [{
+        entryType: amount > 0 ? "margin_lock" : "margin_release",
+        amount: -amount,
+        counterAccount: marginAccount(position.userId),
+        referenceType: "position",
+        referenceId: position.id,
+        memo: amount > 0 ? "Isolated margin added" : "Isolated margin removed",
+      }]);
+      return updated;
+    });
+  }
 }
 
 export const storage = new DatabaseStorage();
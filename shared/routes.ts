@@ -1,5 +1,5 @@
 import { z } from 'zod';
-import { insertMarketSchema, insertPositionSchema, markets, positions, trades } from './schema';
+import { insertMarketSchema, insertPositionSchema, markets, positions, trades, MARGIN_MODES, MARKET_STATUSES, type MarketFunding, type PortfolioSimulation } from './schema';
 
 // ============================================
 // SHARED ERROR SCHEMAS
@@ -20,6 +20,40 @@ export const errorSchemas = {
   }),
 };
 
+export const candleResolutions = ["1m", "5m", "1h", "1d"] as const;
+
+export const candleSchema = z.object({
+  time: z.number(), // Bucket start, unix seconds
+  open: z.number(),
+  high: z.number(),
+  low: z.number(),
+  close: z.number(),
+  volume: z.number(),
+});
+
+// ============================================
+// WEBSOCKET GATEWAY
+// ============================================
+// Public channels are keyed by market id (combo id for "combo"; "tickers" covers every market).
+// Private channels belong to the session user and take no key.
+export const GATEWAY_PATH = "/ws";
+export const gatewayPublicChannels = ["ticker", "tickers", "book", "trades", "combo"] as const;
+export const gatewayPrivateChannels = ["orders", "fills", "positions", "margin"] as const;
+export const gatewayChannels = [...gatewayPublicChannels, ...gatewayPrivateChannels] as const;
+
+export const gatewayClientMessageSchema = z.discriminatedUnion("op", [
+  z.object({ op: z.literal("subscribe"), channel: z.enum(gatewayChannels), key: z.number().int().nullish() }),
+  z.object({ op: z.literal("unsubscribe"), channel: z.enum(gatewayChannels), key: z.number().int().nullish() }),
+  z.object({ op: z.literal("ping") }),
+]);
+
+// Every topic (channel + key) has its own sequence: a snapshot carries the current seq and each
+// update increments it by one, so a client that sees a jump resubscribes to get a fresh snapshot.
+export type GatewayServerMessage =
+  | { type: "snapshot" | "update"; channel: GatewayChannel; key: number | null; seq: number; data: unknown }
+  | { type: "error"; message: string; channel?: GatewayChannel; key?: number | null }
+  | { type: "pong" };
+
 // ============================================
 // API CONTRACT
 // ============================================
@@ -30,7 +64,7 @@ export const api = {
       path: '/api/markets',
       input: z.object({
         category: z.string().optional(),
-        status: z.enum(["active", "resolved", "canceled"]).optional(),
+        status: z.enum(MARKET_STATUSES).optional(),
       }).optional(),
       responses: {
         200: z.array(z.custom<typeof markets.$inferSelect>()),
@@ -50,7 +84,33 @@ export const api = {
       responses: {
         200: z.array(z.custom<typeof trades.$inferSelect>()),
       },
-    }
+    },
+    candles: {
+      method: 'GET' as const,
+      path: '/api/markets/:id/candles',
+      input: z.object({
+        resolution: z.enum(candleResolutions).default("1h"),
+        from: z.coerce.number().optional(), // Unix seconds
+        to: z.coerce.number().optional(),
+      }),
+      responses: {
+        200: z.object({
+          marketId: z.number(),
+          resolution: z.enum(candleResolutions),
+          candles: z.array(candleSchema),
+        }),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+      },
+    },
+    funding: {
+      method: 'GET' as const,
+      path: '/api/markets/:id/funding',
+      responses: {
+        200: z.custom<MarketFunding>(),
+        404: errorSchemas.notFound,
+      },
+    },
   },
   positions: {
     list: {
@@ -96,6 +156,19 @@ export const api = {
         404: errorSchemas.notFound,
       },
     },
+    adjustMargin: {
+      method: 'POST' as const,
+      path: '/api/positions/:id/margin',
+      input: z.object({
+        amount: z.number().refine((a) => a !== 0, "amount must not be zero"), // Positive adds margin, negative removes it
+      }),
+      responses: {
+        200: z.custom<typeof positions.$inferSelect>(),
+        400: errorSchemas.validation,
+        401: errorSchemas.unauthorized,
+        404: errorSchemas.notFound,
+      },
+    },
     byMarket: {
       method: 'GET' as const,
       path: '/api/positions/market/:marketId',
@@ -117,7 +190,35 @@ export const api = {
         }),
         401: errorSchemas.unauthorized,
       },
-    }
+    },
+    simulate: {
+      method: 'POST' as const,
+      path: '/api/portfolio/simulate',
+      // Shocks are moves in probability points; a market shock replaces its category's shock
+      input: z.object({
+        shocks: z.array(z.object({
+          marketId: z.number().int(),
+          change: z.number().min(-100).max(100),
+        })).max(100).default([]),
+        categoryShocks: z.array(z.object({
+          category: z.string().min(1),
+          change: z.number().min(-100).max(100),
+        })).max(20).default([]),
+        // Opened at the current price, before the shocks apply
+        orders: z.array(z.object({
+          marketId: z.number().int(),
+          side: z.enum(["YES", "NO"]),
+          size: z.number().positive(), // Notional
+          leverage: z.number().int().min(1).default(1),
+          marginMode: z.enum(MARGIN_MODES).default("cross"),
+        })).max(20).default([]),
+      }),
+      responses: {
+        200: z.custom<PortfolioSimulation>(),
+        400: errorSchemas.validation,
+        401: errorSchemas.unauthorized,
+      },
+    },
   }
 };
 
@@ -142,3 +243,8 @@ export function buildUrl(path: string, params?: Record<string, string | number>)
 export type MarketListResponse = z.infer<typeof api.markets.list.responses[200]>;
 export type PositionListResponse = z.infer<typeof api.positions.list.responses[200]>;
 export type CreatePositionInput = z.infer<typeof api.positions.create.input>;
+export type PortfolioSimulationInput = z.input<typeof api.portfolio.simulate.input>;
+export type CandleResolution = typeof candleResolutions[number];
+export type Candle = z.infer<typeof candleSchema>;
+export type GatewayChannel = typeof gatewayChannels[number];
+export type GatewayClientMessage = z.infer<typeof gatewayClientMessageSchema>;
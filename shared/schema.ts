@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, bigint, boolean, timestamp, numeric, decimal } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, bigint, boolean, timestamp, numeric, decimal, index, primaryKey } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { relations } from "drizzle-orm";
@@ -7,6 +7,29 @@ import { users } from "./models/auth";
 
 // === TABLE DEFINITIONS ===
 
+// Where the simulation takes a market's price from (see server/priceSources.ts)
+export const PRICE_SOURCE_TYPES = ["random_walk", "replay", "trade_driven", "external_feed"] as const;
+export type PriceSourceType = typeof PRICE_SOURCE_TYPES[number];
+
+// Cross positions share the account's equity and are liquidated as a portfolio; isolated positions
+// risk only their own margin and are liquidated at their own liquidationProbability
+export const MARGIN_MODES = ["cross", "isolated"] as const;
+export type MarginMode = typeof MARGIN_MODES[number];
+
+// Market lifecycle (see server/marketLifecycle.ts): scheduled markets open at opensAt; halted
+// markets take no orders at all, close-only markets only reduce exposure; once resolutionDate is
+// reached a market stops trading and awaits resolution
+export const MARKET_STATUSES = ["scheduled", "active", "halted", "close_only", "awaiting_resolution", "resolved", "canceled"] as const;
+export type MarketStatus = typeof MARKET_STATUSES[number];
+
+// Reason codes recorded when an admin halts a market or puts it in close-only
+export const MARKET_STATUS_REASONS = ["news_pending", "price_anomaly", "oracle_issue", "technical_issue", "regulatory", "other"] as const;
+export type MarketStatusReason = typeof MARKET_STATUS_REASONS[number];
+
+// Permissionless markets wait in the admin review queue before they trade (see server/marketOracle.ts)
+export const MARKET_REVIEW_STATUSES = ["pending", "approved", "rejected"] as const;
+export type MarketReviewStatus = typeof MARKET_REVIEW_STATUSES[number];
+
 export const markets = pgTable("markets", {
   id: serial("id").primaryKey(),
   question: text("question").notNull(),
@@ -16,14 +39,27 @@ export const markets = pgTable("markets", {
   category: text("category").notNull(), // e.g. "Politics", "Crypto", "Sports"
   currentProbability: numeric("current_probability", { precision: 10, scale: 2 }).notNull().default("50"), // 0-100 decimal precision
   volume24h: integer("volume_24h").default(0),
-  status: text("status", { enum: ["active", "resolved", "canceled"] }).default("active").notNull(),
+  status: text("status", { enum: MARKET_STATUSES }).default("active").notNull(),
+  statusReason: text("status_reason", { enum: MARKET_STATUS_REASONS }), // Set while halted or close-only by an admin
+  statusChangedAt: timestamp("status_changed_at"),
+  opensAt: timestamp("opens_at"), // Scheduled markets start trading at this time
   creator: text("creator"), // wallet address of creator (null for system markets)
   isPermissionless: boolean("is_permissionless").default(false), // flag for user-created markets
+  reviewStatus: text("review_status", { enum: MARKET_REVIEW_STATUSES }).default("approved").notNull(),
   createdAt: timestamp("created_at").defaultNow(),
   // UMA Oracle resolution fields
   resolved: boolean("resolved").default(false),
   outcome: boolean("outcome"), // null = unresolved, true = YES, false = NO
   resolvedAt: timestamp("resolved_at"),
+  // Optimistic resolution: a bonded proposal settles the market unless disputed before livenessEndsAt
+  proposedOutcome: boolean("proposed_outcome"),
+  proposedBy: text("proposed_by"), // wallet address of the proposer
+  proposedAt: timestamp("proposed_at"),
+  livenessEndsAt: timestamp("liveness_ends_at"),
+  disputedBy: text("disputed_by"), // wallet address of the disputer; the admin then decides
+  disputedAt: timestamp("disputed_at"),
+  priceSource: text("price_source", { enum: PRICE_SOURCE_TYPES }).default("random_walk").notNull(),
+  priceSourceConfig: text("price_source_config"), // JSON settings for the price source (file, url, impact)
 });
 
 export const positions = pgTable("positions", {
@@ -35,8 +71,12 @@ export const positions = pgTable("positions", {
   leverage: integer("leverage").notNull().default(1),
   entryProbability: numeric("entry_probability", { precision: 10, scale: 2 }).notNull(),
   liquidationProbability: numeric("liquidation_probability", { precision: 10, scale: 2 }).notNull(),
+  marginMode: text("margin_mode", { enum: MARGIN_MODES }).default("cross").notNull(),
+  extraMargin: numeric("extra_margin", { precision: 20, scale: 8 }).default("0").notNull(), // Margin added to an isolated position on top of size / leverage
   status: text("status", { enum: ["open", "closed", "liquidated"] }).default("open").notNull(),
   pnl: bigint("pnl", { mode: "number" }).default(0), // Realized PnL (supports large values)
+  accruedFunding: numeric("accrued_funding", { precision: 20, scale: 8 }).default("0").notNull(), // Net funding paid (+) or received (-), already booked to cash
+  pnlReversed: numeric("pnl_reversed", { precision: 20, scale: 8 }), // Balance change that unwound pnl when the market was canceled; null if never unwound
   createdAt: timestamp("created_at").defaultNow(),
   closedAt: timestamp("closed_at"),
 });
@@ -48,9 +88,21 @@ export const trades = pgTable("trades", {
   size: bigint("size", { mode: "number" }).notNull(), // Supports up to 10B+
   side: text("side", { enum: ["YES", "NO"] }).notNull(),
   userId: text("user_id"), // Allow null for legacy/simulated trades
+  fee: numeric("fee", { precision: 20, scale: 8 }).default("0").notNull(), // Trading fee charged on this fill (USD)
   timestamp: timestamp("timestamp").defaultNow(),
 });
 
+// Price history: one row per market per simulation tick. Real fills live in trades; candles
+// are aggregated from both (see server/candles.ts)
+export const priceTicks = pgTable("price_ticks", {
+  id: serial("id").primaryKey(),
+  marketId: integer("market_id").references(() => markets.id).notNull(),
+  price: numeric("price", { precision: 12, scale: 8 }).notNull(), // Probability 0-100 (exotic markets need the precision)
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("price_ticks_market_time_idx").on(table.marketId, table.createdAt),
+]);
+
 export const siteVisits = pgTable("site_visits", {
   id: serial("id").primaryKey(),
   visitorId: text("visitor_id").notNull(),
@@ -78,6 +130,123 @@ export const adminAuditLog = pgTable("admin_audit_log", {
   timestamp: timestamp("timestamp").defaultNow(),
 });
 
+// Settlement reports written when a market resolves (one row per market)
+export const marketSettlements = pgTable("market_settlements", {
+  id: serial("id").primaryKey(),
+  marketId: integer("market_id").references(() => markets.id).notNull(),
+  outcome: boolean("outcome").notNull(),
+  settlementPrice: numeric("settlement_price", { precision: 10, scale: 2 }).notNull(), // 100 for YES, 0 for NO
+  resolvedBy: text("resolved_by").notNull(), // creator wallet or "admin"
+  positionsSettled: integer("positions_settled").default(0).notNull(),
+  ordersCancelled: integer("orders_cancelled").default(0).notNull(),
+  totalPayout: numeric("total_payout", { precision: 14, scale: 2 }).default("0").notNull(), // margin + PnL credited to users
+  totalPnl: numeric("total_pnl", { precision: 14, scale: 2 }).default("0").notNull(),
+  details: text("details").notNull(), // JSON string with per-position payouts and cancelled order ids
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export type MarketSettlement = typeof marketSettlements.$inferSelect;
+
+// Double-entry ledger: every balance change is a transaction of two or more legs that sum to zero.
+// User accounts are "cash:<userId>" (mirrors users.balance) and "margin:<userId>" (collateral locked
+// in open positions); system accounts are "house", "fees", "insurance", "admin" and "equity".
+export const ledgerEntries = pgTable("ledger_entries", {
+  id: serial("id").primaryKey(),
+  transactionId: text("transaction_id").notNull(), // groups the legs of one balanced posting
+  account: text("account").notNull(),
+  userId: text("user_id"), // owner of the account (null for system accounts)
+  entryType: text("entry_type", {
+    enum: ["opening_balance", "margin_lock", "margin_release", "realized_pnl", "fee", "funding", "liquidation_penalty", "insurance_cover", "insurance_deposit", "admin_adjustment", "reset", "combo_stake", "combo_payout", "combo_exit_penalty", "combo_transfer", "market_bond", "bond_slash"],
+  }).notNull(),
+  amount: numeric("amount", { precision: 20, scale: 8 }).notNull(), // signed change to the account
+  balanceAfter: numeric("balance_after", { precision: 20, scale: 8 }), // cash legs only
+  referenceType: text("reference_type"), // e.g. "position", "order", "combo_position", "combo", "market"
+  referenceId: integer("reference_id"),
+  memo: text("memo"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export type LedgerEntry = typeof ledgerEntries.$inferSelect;
+export type LedgerEntryType = LedgerEntry["entryType"];
+
+// Funding history: one row per market per funding interval (see server/funding.ts). A positive
+// rate means YES positions paid and NO positions received.
+export const fundingRates = pgTable("funding_rates", {
+  id: serial("id").primaryKey(),
+  marketId: integer("market_id").references(() => markets.id).notNull(),
+  rate: numeric("rate", { precision: 12, scale: 8 }).notNull(), // Fraction of notional for the interval
+  longOpenInterest: bigint("long_open_interest", { mode: "number" }).notNull(), // YES notional
+  shortOpenInterest: bigint("short_open_interest", { mode: "number" }).notNull(), // NO notional
+  positionsCharged: integer("positions_charged").notNull().default(0),
+  netCollected: numeric("net_collected", { precision: 20, scale: 8 }).notNull().default("0"), // Paid minus received, incl. borrow
+  fundedAt: timestamp("funded_at").defaultNow().notNull(),
+}, (table) => [
+  index("funding_rates_market_time_idx").on(table.marketId, table.fundedAt),
+]);
+
+export type FundingRate = typeof fundingRates.$inferSelect;
+
+// Insurance fund activity (see server/insurance.ts). The fund balance itself is the sum of the
+// "insurance" ledger account; these rows explain each movement and every auto-deleveraging.
+export const INSURANCE_EVENT_TYPES = ["liquidation_penalty", "shortfall_covered", "shortfall_uncovered", "auto_deleverage", "deposit"] as const;
+export type InsuranceEventType = typeof INSURANCE_EVENT_TYPES[number];
+
+export const insuranceFundEvents = pgTable("insurance_fund_events", {
+  id: serial("id").primaryKey(),
+  eventType: text("event_type", { enum: INSURANCE_EVENT_TYPES }).notNull(),
+  amount: numeric("amount", { precision: 20, scale: 8 }).notNull(), // USD moved or absorbed
+  fundBalanceAfter: numeric("fund_balance_after", { precision: 20, scale: 8 }).notNull(),
+  positionId: integer("position_id").references(() => positions.id), // Liquidated or deleveraged position
+  userId: text("user_id"),
+  marketId: integer("market_id").references(() => markets.id),
+  details: text("details"), // JSON: prices, sizes, the bankrupt position behind an ADL
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => [
+  index("insurance_fund_events_created_idx").on(table.createdAt),
+]);
+
+export type InsuranceFundEvent = typeof insuranceFundEvents.$inferSelect;
+
+// Per-market risk limits (see server/riskParams.ts); markets without a row use the defaults
+export const marketRiskParams = pgTable("market_risk_params", {
+  marketId: integer("market_id").references(() => markets.id).primaryKey(),
+  maxLeverage: integer("max_leverage").notNull(),
+  maintenanceFactor: numeric("maintenance_factor", { precision: 6, scale: 4 }).notNull(), // Share of margin that must remain as equity
+  minPositionSize: bigint("min_position_size", { mode: "number" }).notNull(),
+  maxPositionSize: bigint("max_position_size", { mode: "number" }).notNull(),
+  maxOpenInterest: bigint("max_open_interest", { mode: "number" }), // Open notional across both sides; null = no cap
+  maxOpenPositionsPerUser: integer("max_open_positions_per_user").notNull(),
+  priceBandMin: numeric("price_band_min", { precision: 10, scale: 4 }).notNull(), // New exposure only opens inside the band
+  priceBandMax: numeric("price_band_max", { precision: 10, scale: 4 }).notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export type MarketRiskParamsRow = typeof marketRiskParams.$inferSelect;
+
+// Admin overrides of the estimated correlation between two markets used in combo pricing
+// (see server/comboPricing.ts). Stored once per pair with marketIdA < marketIdB.
+export const marketCorrelations = pgTable("market_correlations", {
+  marketIdA: integer("market_id_a").references(() => markets.id).notNull(),
+  marketIdB: integer("market_id_b").references(() => markets.id).notNull(),
+  correlation: numeric("correlation", { precision: 6, scale: 4 }).notNull(), // -1 to 1
+  updatedBy: text("updated_by").notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.marketIdA, table.marketIdB] }),
+]);
+
+export type MarketCorrelationRow = typeof marketCorrelations.$inferSelect;
+
+// One market pair's correlation as combo pricing sees it
+export interface MarketCorrelation {
+  marketIdA: number;
+  marketIdB: number;
+  correlation: number;
+  estimated: number | null; // From price history; null until enough overlapping history exists
+  override: number | null;
+  observations: number;
+}
+
 // === RELATIONS ===
 
 export const marketsRelations = relations(markets, ({ many }) => ({
@@ -110,6 +279,8 @@ export const insertPositionSchema = createInsertSchema(positions).omit({
   closedAt: true,
   status: true, 
   pnl: true,
+  accruedFunding: true,
+  extraMargin: true, // Adjusted through /api/positions/:id/margin
   entryProbability: true, // Calculated from current market price
   liquidationProbability: true // Calculated from leverage
 });
@@ -124,6 +295,7 @@ export type Position = typeof positions.$inferSelect;
 export type InsertPosition = z.infer<typeof insertPositionSchema>;
 
 export type Trade = typeof trades.$inferSelect;
+export type PriceTick = typeof priceTicks.$inferSelect;
 export type InsertTrade = z.infer<typeof insertTradeSchema>;
 
 // Request Types
@@ -145,13 +317,92 @@ export interface PortfolioSummary {
 // Cross-Margin Portfolio Metrics
 export interface CrossMarginMetrics {
   cashBalance: number;           // Available cash (not locked in positions)
-  usedMargin: number;            // Total margin locked in positions
+  usedMargin: number;            // Margin locked in cross positions
   unrealizedPnL: number;         // Sum of all open position PnLs
   equity: number;                // cashBalance + usedMargin + unrealizedPnL
   freeMargin: number;            // Equity available for new positions
   maintenanceMargin: number;     // Minimum margin required to avoid liquidation
   marginRatio: number;           // equity / maintenanceMargin (< 1 = liquidation)
   isAtRisk: boolean;             // True if margin ratio < 1.2 (warning threshold)
+  accruedFunding: number;        // Net funding paid (+) / received (-) by open positions, already in cashBalance
+  isolatedMargin: number;        // Margin locked in isolated positions, outside the cross-margin figures above
+}
+
+// Effective risk limits for a market, from market_risk_params or the defaults
+export interface MarketRiskParams {
+  marketId: number;
+  maxLeverage: number;
+  maintenanceFactor: number;
+  minPositionSize: number;
+  maxPositionSize: number;
+  maxOpenInterest: number | null;
+  maxOpenPositionsPerUser: number;
+  priceBandMin: number;
+  priceBandMax: number;
+  isDefault: boolean; // No row for this market
+}
+
+// Portfolio stress test (POST /api/portfolio/simulate, see server/scenarios.ts)
+export interface SimulatedPosition {
+  positionId: number | null;     // null for a hypothetical order
+  marketId: number;
+  question: string;
+  side: "YES" | "NO";
+  size: number;
+  leverage: number;
+  marginMode: MarginMode;
+  entryProbability: number;
+  currentPrice: number;
+  projectedPrice: number;
+  projectedPnl: number;
+  liquidatedSize: number;        // 0 when the position survives the scenario
+  remainingSize: number;
+}
+
+export interface PortfolioSimulation {
+  current: CrossMarginMetrics;
+  projected: CrossMarginMetrics;   // After the shocks and orders, before any liquidation
+  projectedTotalEquity: number;    // Cross equity plus isolated margin and PnL (isolated losses capped at margin)
+  positions: SimulatedPosition[];
+  rejectedOrders: { index: number; reason: string }[];
+  liquidationCount: number;
+}
+
+// Current funding state for a market; rates are fractions of notional per interval
+export interface MarketFunding {
+  marketId: number;
+  predictedRate: number;         // Rate the next interval would charge at the current open interest
+  borrowRate: number;            // Charged on the borrowed part (size - margin) of leveraged positions
+  longOpenInterest: number;
+  shortOpenInterest: number;
+  intervalMs: number;
+  nextFundingAt: string | null;  // null until the funding schedule has started
+  history: FundingRate[];
+}
+
+// Trading fees (see server/fees.ts). Rates are in basis points of notional.
+export interface FeeTier {
+  tier: number;
+  minVolume: number;             // 30-day trade volume (USD) needed for this tier
+  makerBps: number;
+  takerBps: number;
+}
+
+export interface StlrFeeDiscount {
+  minStlr: number;               // STLR points held
+  discountPct: number;           // Percentage taken off both maker and taker rates
+}
+
+export interface AccountFees {
+  tier: number;
+  volume30d: number;
+  stlrPoints: number;
+  stlrDiscountPct: number;
+  makerBps: number;              // Effective rates after the STLR discount
+  takerBps: number;
+  nextTier: FeeTier | null;      // null at the top tier
+  tiers: FeeTier[];
+  stlrDiscounts: StlrFeeDiscount[];
 }
 
 // === COMBO TYPES (TypeScript interfaces - not database tables) ===
@@ -163,6 +414,7 @@ export interface ComboLeg {
   probability: number;
 }
 
+// Curated combo as listed by /api/combos: a curated custom_combos row priced live from its legs
 export interface Combo {
   id: number;
   name: string;
@@ -174,6 +426,8 @@ export interface Combo {
   legs: ComboLeg[];
   expiry: Date | string;
   isCombo: true;
+  status: string;
+  isTradable: boolean; // Active, not retired and not past expiry
 }
 
 // === USER PROFILES ===
@@ -205,15 +459,33 @@ export const customCombos = pgTable("custom_combos", {
   multiplier: numeric("multiplier", { precision: 10, scale: 2 }).notNull(),
   volume24h: integer("volume_24h").default(0),
   openInterest: integer("open_interest").default(0),
+  kind: text("kind", { enum: ["parlay", "basket"] }).default("parlay").notNull(),
   status: text("status", { enum: ["active", "resolved", "canceled"] }).default("active").notNull(),
+  outcome: boolean("outcome"), // null until resolved, and for baskets; true when every remaining leg won
+  resolvedAt: timestamp("resolved_at"),
+  curated: boolean("curated").default(false).notNull(), // Listed by the house under /api/combos
+  expiresAt: timestamp("expires_at"), // Curated combos take no new positions past this
+  retiredAt: timestamp("retired_at"), // Curated combo withdrawn from the listing; open positions run on
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// A parlay pays when every leg hits; a basket is worth the weighted average of its legs' prices
+export const COMBO_KINDS = ["parlay", "basket"] as const;
+export type ComboKind = typeof COMBO_KINDS[number];
+
+// Combos nest at most this deep (a combo of plain market legs has depth 1)
+export const MAX_COMBO_DEPTH = 3;
+
+// A leg is on a market or, with comboId set, on another custom combo (marketName then holds the
+// combo's name). Parlay legs on combos must be parlays themselves, so every leg has a yes/no outcome.
 export interface CustomComboLeg {
-  marketId: number;
+  marketId?: number;
+  comboId?: number;
   marketName: string;
   side: "YES" | "NO";
   price: number; // Current probability at time of leg selection (0-100)
+  weight?: number; // Basket legs only, default 1
+  voided?: boolean; // The leg's market or combo was canceled; the combo is priced on the other legs
 }
 
 export const insertCustomComboSchema = createInsertSchema(customCombos).omit({
@@ -223,6 +495,11 @@ export const insertCustomComboSchema = createInsertSchema(customCombos).omit({
   volume24h: true,
   openInterest: true,
   status: true,
+  outcome: true,
+  resolvedAt: true,
+  curated: true,
+  expiresAt: true,
+  retiredAt: true,
 });
 
 export type CustomCombo = typeof customCombos.$inferSelect;
@@ -232,6 +509,7 @@ export type InsertCustomCombo = z.infer<typeof insertCustomComboSchema>;
 export interface CustomComboResponse {
   id: number;
   name: string;
+  kind: ComboKind;
   creatorId: string;
   creatorAddress: string | null;
   legs: CustomComboLeg[];
@@ -240,12 +518,18 @@ export interface CustomComboResponse {
   volume24h: number;
   openInterest: number;
   status: string;
+  outcome: boolean | null;
+  resolvedAt: Date | string | null;
+  curated: boolean;
+  expiresAt: Date | string | null;
+  retiredAt: Date | string | null;
   createdAt: Date | string | null;
 }
 
 // Request type for creating custom combos
 export interface CreateCustomComboRequest {
   name: string;
+  kind?: ComboKind; // Default parlay
   legs: CustomComboLeg[];
 }
 
@@ -296,24 +580,138 @@ export const comboPositionsRelations = relations(comboPositions, ({ one }) => ({
   }),
 }));
 
+// Early exit before the lock date costs a penalty on the position's mark value. The rate falls from
+// maxPenaltyBps when the position opens to minPenaltyBps at the lock date, following
+// (time remaining / lock period) ^ exponent.
+export interface EarlyExitCurve {
+  maxPenaltyBps: number;
+  minPenaltyBps: number;
+  exponent: number;
+}
+
+export interface ComboExitQuote {
+  positionId: number;
+  markProbability: number; // Live combo price (0-100)
+  pnl: number;
+  markValue: number; // stake + PnL at the mark, never below zero
+  remainingFraction: number; // Share of the lock period still to run (0-1)
+  penaltyBps: number;
+  penalty: number;
+  fee: number;
+  proceeds: number; // markValue - penalty - fee
+}
+
+// Open combo positions listed for sale. Filling one moves the position to the buyer; the price
+// goes from buyer to seller through the combo_market clearing account.
+export const comboPositionListings = pgTable("combo_position_listings", {
+  id: serial("id").primaryKey(),
+  positionId: integer("position_id").references(() => comboPositions.id).notNull(),
+  sellerId: text("seller_id").notNull(),
+  price: numeric("price", { precision: 20, scale: 2 }).notNull(), // USD asked for the whole position
+  status: text("status", { enum: ["open", "filled", "cancelled"] }).default("open").notNull(),
+  buyerId: text("buyer_id"),
+  createdAt: timestamp("created_at").defaultNow(),
+  closedAt: timestamp("closed_at"),
+});
+
+export type ComboPositionListing = typeof comboPositionListings.$inferSelect;
+
+// Bonds posted on permissionless markets: by the creator, a resolution proposer and a disputer.
+// Held in the market_bonds ledger account until refunded to the poster or slashed, either to the
+// side proven right (recipientId) or to the house.
+export const MARKET_BOND_KINDS = ["creation", "proposal", "dispute"] as const;
+export type MarketBondKind = typeof MARKET_BOND_KINDS[number];
+
+export const marketBonds = pgTable("market_bonds", {
+  id: serial("id").primaryKey(),
+  marketId: integer("market_id").references(() => markets.id).notNull(),
+  userId: text("user_id").notNull(),
+  kind: text("kind", { enum: MARKET_BOND_KINDS }).notNull(),
+  amount: numeric("amount", { precision: 20, scale: 2 }).notNull(),
+  status: text("status", { enum: ["held", "refunded", "slashed"] }).default("held").notNull(),
+  recipientId: text("recipient_id"), // Who received a slashed bond; null = house
+  createdAt: timestamp("created_at").defaultNow(),
+  settledAt: timestamp("settled_at"),
+}, (table) => [
+  index("market_bonds_market_idx").on(table.marketId),
+]);
+
+export type MarketBond = typeof marketBonds.$inferSelect;
+
+// In-app notifications, one row per user per event; readAt is set once the user has seen it
+export const NOTIFICATION_KINDS = ["market_canceled"] as const;
+export type NotificationKind = typeof NOTIFICATION_KINDS[number];
+
+export const notifications = pgTable("notifications", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id").notNull(),
+  kind: text("kind", { enum: NOTIFICATION_KINDS }).notNull(),
+  title: text("title").notNull(),
+  message: text("message").notNull(),
+  marketId: integer("market_id").references(() => markets.id),
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("notifications_user_idx").on(table.userId),
+]);
+
+export type Notification = typeof notifications.$inferSelect;
+export type InsertNotification = typeof notifications.$inferInsert;
+
+export interface ComboListingResponse {
+  id: number;
+  positionId: number;
+  sellerId: string;
+  price: number;
+  status: string;
+  createdAt: Date | string | null;
+  position: ComboPosition;
+  combo: CustomComboResponse;
+  markValue: number; // What the position is worth at the live combo price
+}
+
 // === ORDERS (Limit orders and advanced order types) ===
 
+// Protective orders close (part of) an existing position instead of opening a new one
+export const PROTECTIVE_ORDER_TYPES = ["stop_loss", "take_profit", "trailing_stop"] as const;
+export type ProtectiveOrderType = typeof PROTECTIVE_ORDER_TYPES[number];
+
+// Linked orders: "oco" members cancel each other on fill, "oto" children are held until their
+// parent entry fills, "bracket" is an oto entry whose stop/target children are also oco
+export const orderGroups = pgTable("order_groups", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id").notNull(),
+  marketId: integer("market_id").references(() => markets.id).notNull(),
+  groupType: text("group_type", { enum: ["oco", "oto", "bracket"] }).notNull(),
+  status: text("status", { enum: ["active", "completed", "cancelled"] }).default("active").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at"),
+});
+
 export const orders = pgTable("orders", {
   id: serial("id").primaryKey(),
   userId: text("user_id").notNull(),
   marketId: integer("market_id").references(() => markets.id).notNull(),
-  orderType: text("order_type", { enum: ["market", "limit", "iceberg", "twap"] }).notNull(),
+  orderType: text("order_type", { enum: ["market", "limit", "iceberg", "twap", ...PROTECTIVE_ORDER_TYPES] }).notNull(),
   side: text("side", { enum: ["YES", "NO"] }).notNull(),
   totalSize: integer("total_size").notNull(),
   filledSize: integer("filled_size").default(0).notNull(),
   remainingSize: integer("remaining_size").notNull(),
   visibleSize: integer("visible_size"),
   leverage: integer("leverage").default(1).notNull(),
+  marginMode: text("margin_mode", { enum: MARGIN_MODES }).default("cross").notNull(), // Of the positions this order opens
   limitPrice: numeric("limit_price", { precision: 10, scale: 4 }),
   twapDurationMs: integer("twap_duration_ms"),
   twapIntervalMs: integer("twap_interval_ms"),
   twapNextExecuteAt: timestamp("twap_next_execute_at"),
-  status: text("status", { enum: ["pending", "active", "partial", "filled", "cancelled", "expired"] }).default("active").notNull(),
+  positionId: integer("position_id").references(() => positions.id), // Position closed by a protective order
+  triggerPrice: numeric("trigger_price", { precision: 10, scale: 4 }), // Stop-loss / take-profit level
+  trailingDistance: numeric("trailing_distance", { precision: 10, scale: 4 }), // Trailing stop offset in probability points
+  trailingPeak: numeric("trailing_peak", { precision: 10, scale: 4 }), // Best price seen since placement (high for YES, low for NO)
+  groupId: integer("group_id").references(() => orderGroups.id),
+  parentOrderId: integer("parent_order_id"), // Entry order that activates this one (oto / bracket children)
+  // "waiting" children are not active until their parent entry fills
+  status: text("status", { enum: ["pending", "active", "partial", "filled", "cancelled", "expired", "waiting"] }).default("active").notNull(),
   createdAt: timestamp("created_at").defaultNow(),
   expiresAt: timestamp("expires_at"),
   updatedAt: timestamp("updated_at"),
@@ -325,6 +723,8 @@ export const orderExecutions = pgTable("order_executions", {
   executionPrice: numeric("execution_price", { precision: 10, scale: 4 }).notNull(),
   executionSize: integer("execution_size").notNull(),
   positionId: integer("position_id").references(() => positions.id),
+  liquidity: text("liquidity", { enum: ["maker", "taker"] }).default("taker").notNull(),
+  fee: numeric("fee", { precision: 20, scale: 8 }).default("0").notNull(), // USD, at the maker or taker rate
   executedAt: timestamp("executed_at").defaultNow(),
 });
 
@@ -334,9 +734,17 @@ export const ordersRelations = relations(orders, ({ one, many }) => ({
     fields: [orders.marketId],
     references: [markets.id],
   }),
+  group: one(orderGroups, {
+    fields: [orders.groupId],
+    references: [orderGroups.id],
+  }),
   executions: many(orderExecutions),
 }));
 
+export const orderGroupsRelations = relations(orderGroups, ({ many }) => ({
+  orders: many(orders),
+}));
+
 export const orderExecutionsRelations = relations(orderExecutions, ({ one }) => ({
   order: one(orders, {
     fields: [orderExecutions.orderId],
@@ -368,3 +776,5 @@ export type Order = typeof orders.$inferSelect;
 export type InsertOrder = z.infer<typeof insertOrderSchema>;
 export type OrderExecution = typeof orderExecutions.$inferSelect;
 export type InsertOrderExecution = z.infer<typeof insertOrderExecutionSchema>;
+export type OrderGroup = typeof orderGroups.$inferSelect;
+export type OrderGroupType = OrderGroup["groupType"];